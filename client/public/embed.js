@@ -0,0 +1,52 @@
+// Embeds the LionLokal grader on a partner site. Drop this in where the
+// widget should appear:
+//
+//   <script src="https://grader.example.com/embed.js"
+//     data-api="https://api.grader.example.com"
+//     data-accent="#0ea5e9"
+//     data-logo="https://partner.example.com/logo.png"
+//     data-title="Check your restaurant's website"
+//     data-gate="true"
+//     data-partner="harbour-agency"
+//     async></script>
+//
+// It adds an iframe with widget.html, passing the data- attributes along,
+// and grows the iframe with the widget's content. data-target="#id" puts
+// the widget in that element instead of after the script tag.
+(function () {
+  var script = document.currentScript;
+  if (!script) return;
+
+  var origin = new URL(script.src).origin;
+  var params = new URLSearchParams({ page: window.location.href });
+  ["api", "accent", "logo", "title", "gate", "partner"].forEach(
+    function (name) {
+      var value = script.getAttribute("data-" + name);
+      if (value) params.set(name, value);
+    },
+  );
+
+  var iframe = document.createElement("iframe");
+  iframe.src = origin + "/widget.html?" + params;
+  iframe.title = "Restaurant website grader";
+  iframe.style.cssText =
+    "width:100%;max-width:560px;height:420px;border:0;display:block;";
+
+  window.addEventListener("message", function (event) {
+    if (
+      event.source === iframe.contentWindow &&
+      event.data &&
+      event.data.type === "lionlokal-grader:resize"
+    ) {
+      iframe.style.height = event.data.height + "px";
+    }
+  });
+
+  var target = script.getAttribute("data-target");
+  var container = target && document.querySelector(target);
+  if (container) {
+    container.appendChild(iframe);
+  } else {
+    script.parentNode.insertBefore(iframe, script.nextSibling);
+  }
+})();
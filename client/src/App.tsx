@@ -1,69 +1,530 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useEffectEvent } from "react";
+import BatchAudit from "./components/BatchAudit";
+import CompetitorBenchmark from "./components/CompetitorBenchmark";
+import IssueList, { type IssueNoteChanges } from "./components/IssueList";
+import Monitors from "./components/Monitors";
+import SaveRestaurant from "./components/SaveRestaurant";
+import ScoreHistory from "./components/ScoreHistory";
+import UploadAudit from "./components/UploadAudit";
+import Workspace from "./components/Workspace";
+import {
+  getPlaceListing,
+  PHASE_LABELS,
+  readScanEvents,
+  searchPlaces,
+} from "./scan";
+import {
+  authHeaders,
+  getSessionToken,
+  getWorkspaceId,
+  setSessionToken,
+  setWorkspaceId,
+} from "./session";
+import type {
+  CategoryResult,
+  Fix,
+  Locale,
+  MenuSummary,
+  PageResource,
+  ReportData,
+  ResourceType,
+  SavedRestaurant,
+  SecurityReport,
+  ScanEvent,
+  SearchResult,
+  Session,
+  StackCategory,
+  UploadRequest,
+  Weekday,
+  WeeklySchedule,
+  WorkspaceMember,
+} from "./types";
 
-type SearchResult = {
-  place_id: number;
-  display_name: string;
-  extratags?: {
-    website?: string;
-  };
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
+
+const MENU_SOURCES: Record<NonNullable<MenuSummary["source"]>, string> = {
+  html: "on the page",
+  pdf: "PDF",
+  "scanned-pdf": "scanned PDF",
+  image: "image only",
+  page: "no readable items",
 };
 
-type Issue = {
-  type: "error" | "warning" | "info";
-  text: string;
-  category: string;
+const STACK_LABELS: Record<StackCategory, string> = {
+  builder: "Website builder",
+  ordering: "Online ordering",
+  reservations: "Reservations",
+  analytics: "Analytics",
+  "tag-manager": "Tag manager",
+  chat: "Chat",
+  "cookie-consent": "Cookie banner",
 };
 
-type ScoreBreakdown = {
-  score: number;
-  maxScore: number;
-  percentage: number;
+const LOCALE_SOURCES: Record<Locale["source"], string> = {
+  "html-lang": "From the page's lang attribute",
+  text: "Detected from the page text",
+  default: "No language detected; English is the default",
 };
 
-type AIInsights = {
-  summary: string;
-  topPriority: string;
-  quickWins: string[];
-  competitorTip: string;
-  estimatedImpact: string;
+const RESOURCE_ICONS: Record<ResourceType, string> = {
+  image: "🖼️",
+  script: "📜",
+  stylesheet: "🎨",
+  font: "🔤",
 };
 
-type ReportData = {
-  url: string;
-  title: string;
-  score: number;
-  breakdown?: {
-    seo: ScoreBreakdown;
-    content: ScoreBreakdown;
-    usability: ScoreBreakdown;
-    technical: ScoreBreakdown;
-  };
-  issues: Issue[] | string[];
-  loadTime?: number;
-  aiInsights?: AIInsights;
-  error?: string;
+// Matches the server's thresholds for oversized images and compression
+const LARGE_IMAGE_BYTES = 500 * 1024;
+const COMPRESSIBLE_TYPES: ResourceType[] = ["script", "stylesheet"];
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const getFileName = (url: string) => {
+  const { pathname, hostname } = new URL(url);
+  return pathname.split("/").filter(Boolean).pop() || hostname;
 };
 
-const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
+// Short problem labels shown next to a resource in the page weight list
+const getResourceFlags = (resource: PageResource) => {
+  const flags: string[] = [];
+  if (resource.renderBlocking) flags.push("blocks rendering");
+  if (resource.type === "image" && (resource.size ?? 0) > LARGE_IMAGE_BYTES) {
+    flags.push("oversized");
+  }
+  if (
+    COMPRESSIBLE_TYPES.includes(resource.type) &&
+    !resource.thirdParty &&
+    (resource.size ?? 0) > 1024 &&
+    !resource.encoding
+  ) {
+    flags.push("not compressed");
+  }
+  if (resource.size != null && !resource.thirdParty && !resource.cacheable) {
+    flags.push("no caching");
+  }
+  return flags;
+};
+
+// Pass/fail rows of the security details, in the order they're listed
+const getSecurityChecks = (security: SecurityReport): [string, boolean][] => {
+  const { certificate } = security;
+  return [
+    [
+      certificate?.validTo
+        ? `Certificate${certificate.issuer ? ` from ${certificate.issuer}` : ""}, valid until ${new Date(certificate.validTo).toLocaleDateString()}`
+        : `No certificate${certificate?.error ? ` (${certificate.error})` : ""}`,
+      Boolean(certificate?.trusted),
+    ],
+    [
+      "http:// redirects to https://",
+      Boolean(security.httpRedirect?.redirectsToHttps),
+    ],
+    ["HSTS", Boolean(security.hsts?.maxAge)],
+    ["Content-Security-Policy", security.headers.contentSecurityPolicy],
+    ["X-Content-Type-Options", security.headers.contentTypeOptions],
+    ["Frame protection", security.headers.frameOptions],
+    [
+      security.mixedContent.length
+        ? `${security.mixedContent.length} file${security.mixedContent.length === 1 ? "" : "s"} loaded over http://`
+        : "No files loaded over http://",
+      security.mixedContent.length === 0,
+    ],
+    [
+      security.insecureForms.length
+        ? `${security.insecureForms.length} form${security.insecureForms.length === 1 ? "" : "s"} sent over http://`
+        : "No forms sent over http://",
+      security.insecureForms.length === 0,
+    ],
+  ];
+};
+
+const WEEKDAYS: [Weekday, string][] = [
+  ["mo", "Mon"],
+  ["tu", "Tue"],
+  ["we", "Wed"],
+  ["th", "Thu"],
+  ["fr", "Fri"],
+  ["sa", "Sat"],
+  ["su", "Sun"],
+];
+
+const formatDay = (schedule: WeeklySchedule | null, day: Weekday) => {
+  const ranges = schedule?.[day];
+  if (!ranges) return "–";
+  return ranges.length ? ranges.join(", ") : "closed";
+};
+
+const formatPrice = (amount: number, currency: string | null) =>
+  currency
+    ? amount.toLocaleString(undefined, { style: "currency", currency })
+    : amount.toFixed(2);
+
+const FINDING_LABELS: Record<string, string> = {
+  menu: "Menu",
+  pdfMenu: "PDF menu",
+  hours: "Hours",
+  address: "Address",
+  phone: "Phone",
+  clickablePhone: "Click-to-call",
+  ordering: "Online ordering",
+  reservation: "Reservations",
+  social: "Social links",
+  maps: "Map",
+};
+
+// Fields validated under another name in the structured data report
+const SCHEMA_FIELD_ALIASES: Record<string, string[]> = {
+  menu: ["hasMenu"],
+  openingHoursSpecification: ["openingHours"],
+};
+
+// Render a Schema.org value roughly the way a search result would show it
+const formatSchemaValue = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(formatSchemaValue).join("; ");
+  if (typeof value !== "object") return String(value);
+
+  const node = value as Record<string, unknown>;
+  if ("streetAddress" in node || "addressLocality" in node) {
+    return [node.streetAddress, node.addressLocality, node.postalCode]
+      .filter(Boolean)
+      .join(", ");
+  }
+  if ("latitude" in node) return `${node.latitude}, ${node.longitude}`;
+  if ("dayOfWeek" in node) {
+    return `${formatSchemaValue(node.dayOfWeek)} ${node.opens}–${node.closes}`;
+  }
+  if ("url" in node) return String(node.url);
+  return JSON.stringify(value);
+};
+
+const getSchemaFieldValue = (
+  entity: Record<string, unknown>,
+  field: string,
+) => {
+  const name = [field, ...(SCHEMA_FIELD_ALIASES[field] || [])].find(
+    (key) => entity[key] !== undefined,
+  );
+  return name ? formatSchemaValue(entity[name]) : "";
+};
+
+// Stored audits live at /report/:id so they can be shared
+const getReportIdFromPath = () =>
+  window.location.pathname.match(/^\/report\/([\w-]+)\/?$/)?.[1] ?? null;
+
+// Batch jobs live at /batch, and at /batch/:id once started
+const getBatchRoute = () => {
+  const match = window.location.pathname.match(/^\/batch(?:\/([\w-]+))?\/?$/);
+  return match ? { jobId: match[1] ?? null } : null;
+};
+
+// Monitors live at /monitors, and at /monitors/:id when one is open
+const getMonitorsRoute = () => {
+  const match = window.location.pathname.match(
+    /^\/monitors(?:\/([\w-]+))?\/?$/,
+  );
+  return match ? { monitorId: match[1] ?? null } : null;
+};
+
+// The agency workspace lives at /workspace
+const isWorkspaceRoute = () =>
+  /^\/workspace\/?$/.test(window.location.pathname);
+
+// Audits of a saved restaurant are only sent to members of its workspace,
+// so stored reports are requested with the session token
+const fetchStoredReport = async (id: string): Promise<ReportData> => {
+  try {
+    const res = await fetch(`${API_URL}/audits/${encodeURIComponent(id)}`, {
+      headers: authHeaders(),
+    });
+    const data = await res.json();
+    return res.ok
+      ? data
+      : { url: "", title: "", score: 0, issues: [], error: data.error };
+  } catch {
+    return {
+      url: "",
+      title: "",
+      score: 0,
+      issues: [],
+      error: "Error connecting to backend server",
+    };
+  }
+};
+
+const navigate = (path: string) => {
+  if (window.location.pathname !== path) {
+    window.history.pushState(null, "", path);
+  }
+};
+
+// Show crawled pages by path so long URLs stay readable in the narrow card
+const getPagePath = (pageUrl: string) => {
+  try {
+    const { pathname, search } = new URL(pageUrl);
+    return pathname + search;
+  } catch {
+    return pageUrl;
+  }
+};
 
 function App() {
   const [query, setQuery] = useState("");
   const [suggestions, setSuggestions] = useState<SearchResult[]>([]);
   const [manualUrl, setManualUrl] = useState("");
   const [showManualInput, setShowManualInput] = useState(false);
+  const [showUpload, setShowUpload] = useState(false);
   const [selectedPlaceName, setSelectedPlaceName] = useState("");
+  const [selectedPlace, setSelectedPlace] = useState<SearchResult | null>(null);
   const [report, setReport] = useState<ReportData | null>(null);
   const [loading, setLoading] = useState(false);
   const [scanStep, setScanStep] = useState("");
-  const [activeTab, setActiveTab] = useState<"issues" | "insights">("issues");
+  const [gradedCategories, setGradedCategories] = useState<CategoryResult[]>(
+    [],
+  );
+  const [insightsPending, setInsightsPending] = useState(false);
+  const [activeTab, setActiveTab] = useState<
+    "issues" | "fixes" | "pages" | "history" | "insights"
+  >("issues");
   const debounceRef = useRef<number | null>(null);
   const [searchLoading, setSearchLoading] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [copiedFix, setCopiedFix] = useState<string | null>(null);
+  const [batchRoute, setBatchRoute] = useState<{
+    jobId: string | null;
+  } | null>(null);
+  const [monitorsRoute, setMonitorsRoute] = useState<{
+    monitorId: string | null;
+  } | null>(null);
+  const [workspaceRoute, setWorkspaceRoute] = useState(false);
+  const [session, setSession] = useState<Session | null>(null);
+  const [workspaceId, setWorkspaceIdState] = useState(getWorkspaceId);
+  // Who issues can be assigned to on an audit of a saved restaurant
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [savedRestaurant, setSavedRestaurant] =
+    useState<SavedRestaurant | null>(null);
+
+  const showStoredReport = async (id: string) => {
+    setReport(await fetchStoredReport(id));
+    setLoading(false);
+    setScanStep("");
+  };
+
+  const loadReport = (id: string) => {
+    setLoading(true);
+    setReport(null);
+    setActiveTab("issues");
+    setScanStep("Loading report...");
+    showStoredReport(id);
+  };
+
+  // Open /report/:id, /batch, /monitors and /workspace links directly and
+  // follow back/forward navigation
+  const onLocationChange = useEffectEvent(() => {
+    setBatchRoute(getBatchRoute());
+    setMonitorsRoute(getMonitorsRoute());
+    setWorkspaceRoute(isWorkspaceRoute());
+    const id = getReportIdFromPath();
+    if (id) {
+      loadReport(id);
+    } else {
+      setReport(null);
+    }
+  });
+
+  useEffect(() => {
+    const handlePopState = () => onLocationChange();
+    if (
+      getReportIdFromPath() ||
+      getBatchRoute() ||
+      getMonitorsRoute() ||
+      isWorkspaceRoute()
+    ) {
+      onLocationChange();
+    }
+
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  // Keep the chosen workspace if the user still belongs to it
+  const changeSession = (next: Session | null) => {
+    setSession(next);
+    const workspaces = next?.workspaces ?? [];
+    const current = workspaces.find((w) => w.id === getWorkspaceId());
+    const id = current?.id ?? workspaces[0]?.id ?? null;
+    if (id) setWorkspaceId(id);
+    setWorkspaceIdState(id);
+  };
+
+  const selectWorkspace = (id: string) => {
+    setWorkspaceId(id);
+    setWorkspaceIdState(id);
+  };
+
+  // Sign in the session kept from the last visit, unless it has expired
+  const onSessionLoaded = useEffectEvent((loaded: Session | null) =>
+    changeSession(loaded),
+  );
+
+  useEffect(() => {
+    if (!getSessionToken()) return;
+    fetch(`${API_URL}/auth/me`, { headers: authHeaders() })
+      .then(async (res) => {
+        if (res.ok) {
+          onSessionLoaded(await res.json());
+        } else if (res.status === 401) {
+          setSessionToken(null);
+        }
+      })
+      .catch(() => {
+        // Offline; the session is tried again on the next visit
+      });
+  }, []);
+
+  // Load the team when showing an audit of a saved restaurant
+  const restaurantWorkspaceId = session ? report?.restaurant?.workspaceId : "";
+  useEffect(() => {
+    if (!restaurantWorkspaceId) return;
+    fetch(`${API_URL}/workspaces/${restaurantWorkspaceId}`, {
+      headers: authHeaders(),
+    })
+      .then((res) => (res.ok ? res.json() : { members: [] }))
+      .then((data) => setMembers(data.members))
+      .catch(() => setMembers([]));
+  }, [restaurantWorkspaceId]);
+
+  const copyReportLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const copyFix = async (fix: Fix) => {
+    await navigator.clipboard.writeText(fix.code);
+    setCopiedFix(fix.id);
+    setTimeout(() => setCopiedFix(null), 2000);
+  };
+
+  // Switch to the fixes tab and bring the issue's fix into view
+  const showFix = (id: string) => {
+    setActiveTab("fixes");
+    requestAnimationFrame(() =>
+      document
+        .getElementById(`fix-${id}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "nearest" }),
+    );
+  };
+
+  const resetReport = () => {
+    setReport(null);
+    navigate("/");
+  };
+
+  const openBatch = (jobId: string | null) => {
+    navigate(jobId ? `/batch/${jobId}` : "/batch");
+    setBatchRoute({ jobId });
+  };
+
+  const openBatchReport = (id: string) => {
+    navigate(`/report/${id}`);
+    setBatchRoute(null);
+    loadReport(id);
+  };
+
+  const openMonitors = (monitorId: string | null) => {
+    navigate(monitorId ? `/monitors/${monitorId}` : "/monitors");
+    setMonitorsRoute({ monitorId });
+  };
+
+  const openMonitorReport = (id: string) => {
+    navigate(`/report/${id}`);
+    setMonitorsRoute(null);
+    loadReport(id);
+  };
+
+  const openWorkspace = () => {
+    navigate("/workspace");
+    setWorkspaceRoute(true);
+  };
+
+  const openWorkspaceReport = (id: string) => {
+    navigate(`/report/${id}`);
+    setWorkspaceRoute(false);
+    loadReport(id);
+  };
+
+  // Audit a saved restaurant; the audit is stored with it
+  const auditRestaurant = (restaurant: SavedRestaurant) => {
+    navigate("/");
+    setWorkspaceRoute(false);
+    setSuggestions([]);
+    setQuery(restaurant.name);
+    setSelectedPlace(null);
+    setSavedRestaurant(null);
+    runAudit(restaurant.url, null, false, restaurant.id);
+  };
+
+  const saveIssueNote = async (issueId: string, changes: IssueNoteChanges) => {
+    const { workspaceId: id, id: restaurantId } = report!.restaurant!;
+    const res = await fetch(
+      `${API_URL}/workspaces/${id}/restaurants/${restaurantId}/issues/${encodeURIComponent(issueId)}`,
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify(changes),
+      },
+    );
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+
+    setReport((current) =>
+      current
+        ? {
+            ...current,
+            issues: current.issues.map((issue) =>
+              issue.id === issueId
+                ? {
+                    ...issue,
+                    note: data.note || undefined,
+                    assignee: data.assignee ?? undefined,
+                  }
+                : issue,
+            ),
+          }
+        : current,
+    );
+  };
+
+  // Reports are fetched rather than linked so the session token goes along
+  const downloadReport = async (format: "pdf" | "html") => {
+    const res = await fetch(
+      `${API_URL}/audits/${report!.id}/report${format === "html" ? "?format=html" : ""}`,
+      { headers: authHeaders() },
+    );
+    if (!res.ok) return;
+
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(await res.blob());
+    link.download =
+      res.headers
+        .get("Content-Disposition")
+        ?.match(/filename="?([^";]+)"?/)?.[1] ?? `report.${format}`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
 
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setQuery(value);
     setShowManualInput(false);
-    setReport(null);
+    setShowUpload(false);
+    setSelectedPlace(null);
+    setSavedRestaurant(null);
+    resetReport();
 
     if (debounceRef.current) clearTimeout(debounceRef.current);
 
@@ -75,11 +536,7 @@ function App() {
     debounceRef.current = setTimeout(async () => {
       setSearchLoading(true);
       try {
-        const res = await fetch(
-          `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(value)}&format=json&addressdetails=1&extratags=1&limit=5`,
-        );
-        const data = await res.json();
-        setSuggestions(data);
+        setSuggestions(await searchPlaces(value));
       } catch (err) {
         console.error("OSM Search Error", err);
       }
@@ -91,45 +548,125 @@ function App() {
     setSuggestions([]);
     setQuery(place.display_name.split(",")[0]);
     setSelectedPlaceName(place.display_name);
+    setSelectedPlace(place);
 
     const websiteUrl = place.extratags?.website;
     if (websiteUrl) {
-      runAudit(websiteUrl);
+      runAudit(websiteUrl, place);
     } else {
       setShowManualInput(true);
     }
   };
 
-  const runAudit = async (urlToScan: string) => {
+  // `refresh` skips the server's cache of recent results for the site;
+  // `restaurantId` stores the audit with a workspace's saved restaurant
+  const runAudit = (
+    urlToScan: string,
+    place: SearchResult | null,
+    refresh = false,
+    restaurantId?: string,
+  ) =>
+    streamAudit(
+      urlToScan,
+      `${API_URL}/grade${refresh ? "?refresh=1" : ""}`,
+      "application/json",
+      JSON.stringify({
+        url: urlToScan,
+        place: place ? getPlaceListing(place) : undefined,
+        restaurantId,
+      }),
+    );
+
+  const runUploadAudit = ({ body, contentType, name, url }: UploadRequest) => {
+    const params = new URLSearchParams({
+      ...(name && { name }),
+      ...(url && { url }),
+    });
+    return streamAudit(
+      name || url || "Pasted HTML",
+      `${API_URL}/grade/upload?${params}`,
+      contentType,
+      body,
+    );
+  };
+
+  // POST an audit request and follow its progress; `label` names the site
+  // in error reports
+  const streamAudit = async (
+    label: string,
+    endpoint: string,
+    contentType: string,
+    body: BodyInit,
+  ) => {
     setLoading(true);
     setReport(null);
     setShowManualInput(false);
+    setShowUpload(false);
     setActiveTab("issues");
 
-    const steps = [
-      "Fetching website...",
-      "Analyzing SEO...",
-      "Checking content...",
-      "Testing usability...",
-      "Running technical checks...",
-      "Generating AI insights...",
-    ];
-    for (const step of steps) {
-      setScanStep(step);
-      await new Promise((r) => setTimeout(r, 400));
-    }
+    setGradedCategories([]);
+    setScanStep(PHASE_LABELS.fetch);
+
+    // The server streams each step; the score is shown as soon as grading is
+    // done and the report is swapped for the stored one once AI insights and
+    // saving have finished
+    const handleEvent = ({ event, data }: ScanEvent) => {
+      switch (event) {
+        case "phase":
+          setScanStep(PHASE_LABELS[data.phase]);
+          if (data.phase === "insights") setInsightsPending(true);
+          break;
+        case "redirect":
+          setScanStep(`Following redirect to ${data.to}...`);
+          break;
+        case "crawl":
+          setScanStep(
+            `Crawling ${getPagePath(data.url)} (${data.crawled}/${data.maxPages})...`,
+          );
+          break;
+        case "category":
+          setGradedCategories((categories) => [...categories, data]);
+          break;
+        case "result":
+          setReport(data);
+          setLoading(false);
+          break;
+        case "done":
+          setReport(data);
+          if (data.id) navigate(`/report/${data.id}`);
+          break;
+        case "error":
+          setReport({
+            url: label,
+            title: "",
+            score: 0,
+            issues: [],
+            error: `${data.error} (during the ${data.phase} step)`,
+          });
+          break;
+      }
+    };
 
     try {
-      const res = await fetch(`${API_URL}/grade`, {
+      const res = await fetch(endpoint, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url: urlToScan }),
+        headers: {
+          "Content-Type": contentType,
+          Accept: "text/event-stream",
+          ...authHeaders(),
+        },
+        body,
       });
-      const data = await res.json();
-      setReport(data);
+
+      if (res.headers.get("Content-Type")?.includes("text/event-stream")) {
+        await readScanEvents(res, handleEvent);
+      } else {
+        // Validation errors are answered with plain JSON
+        setReport(await res.json());
+      }
     } catch {
       setReport({
-        url: urlToScan,
+        url: label,
         title: "",
         score: 0,
         issues: [],
@@ -137,6 +674,7 @@ function App() {
       });
     }
     setLoading(false);
+    setInsightsPending(false);
     setScanStep("");
   };
 
@@ -169,32 +707,6 @@ function App() {
     return "Poor";
   };
 
-  const getIssueIcon = (type: string) => {
-    switch (type) {
-      case "error":
-        return {
-          icon: "!",
-          bg: "bg-red-500",
-          container: "bg-red-50 border-red-100",
-          text: "text-red-800",
-        };
-      case "warning":
-        return {
-          icon: "⚠",
-          bg: "bg-yellow-500",
-          container: "bg-yellow-50 border-yellow-100",
-          text: "text-yellow-800",
-        };
-      default:
-        return {
-          icon: "i",
-          bg: "bg-blue-500",
-          container: "bg-blue-50 border-blue-100",
-          text: "text-blue-800",
-        };
-    }
-  };
-
   const getCategoryIcon = (category: string) => {
     switch (category) {
       case "SEO":
@@ -205,11 +717,75 @@ function App() {
         return "👆";
       case "Technical":
         return "⚙️";
+      case "Accessibility":
+        return "♿";
+      case "Security":
+        return "🔒";
       default:
         return "📋";
     }
   };
 
+  if (batchRoute) {
+    return (
+      <div className="min-h-screen w-full bg-gradient-to-br from-slate-50 to-blue-100 flex items-center justify-center p-4">
+        <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-2xl border border-gray-100">
+          <BatchAudit
+            key={batchRoute.jobId ?? "new"}
+            jobId={batchRoute.jobId}
+            onJobStarted={openBatch}
+            onOpenReport={openBatchReport}
+            onClose={() => {
+              setBatchRoute(null);
+              navigate("/");
+            }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (workspaceRoute) {
+    return (
+      <div className="min-h-screen w-full bg-gradient-to-br from-slate-50 to-blue-100 flex items-center justify-center p-4">
+        <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-2xl border border-gray-100">
+          <Workspace
+            key={workspaceId ?? "none"}
+            session={session}
+            workspaceId={workspaceId}
+            onSessionChange={changeSession}
+            onSelectWorkspace={selectWorkspace}
+            onAuditRestaurant={auditRestaurant}
+            onOpenReport={openWorkspaceReport}
+            onClose={() => {
+              setWorkspaceRoute(false);
+              navigate("/");
+            }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (monitorsRoute) {
+    return (
+      <div className="min-h-screen w-full bg-gradient-to-br from-slate-50 to-blue-100 flex items-center justify-center p-4">
+        <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-2xl border border-gray-100">
+          <Monitors
+            key={monitorsRoute.monitorId ?? "list"}
+            monitorId={monitorsRoute.monitorId}
+            onOpenMonitor={openMonitors}
+            onOpenReport={openMonitorReport}
+            onClose={() => {
+              setMonitorsRoute(null);
+              navigate("/");
+            }}
+          />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen w-full bg-gradient-to-br from-slate-50 to-blue-100 flex items-center justify-center p-4">
       <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-lg border border-gray-100">
@@ -222,6 +798,14 @@ function App() {
           <p className="text-gray-400 text-sm mt-1">
             AI-Powered Restaurant Website Audit
           </p>
+          <button
+            onClick={openWorkspace}
+            className="mt-2 text-xs text-gray-500 hover:text-orange-600 underline"
+          >
+            {session
+              ? `🏢 ${session.workspaces.find((w) => w.id === workspaceId)?.name ?? "Workspace"}`
+              : "Agency sign in"}
+          </button>
         </div>
 
         {/* Search Bar */}
@@ -324,8 +908,42 @@ function App() {
               })}
             </ul>
           )}
+
+          {!report && !loading && (
+            <div className="mt-2 flex gap-4">
+              <button
+                onClick={() => openBatch(null)}
+                className="text-xs text-gray-500 hover:text-orange-600 underline"
+              >
+                Audit a list of restaurants from CSV
+              </button>
+              <button
+                onClick={() => openMonitors(null)}
+                className="text-xs text-gray-500 hover:text-orange-600 underline"
+              >
+                Monitor sites for regressions
+              </button>
+              <button
+                onClick={() => {
+                  setShowManualInput(false);
+                  setShowUpload(true);
+                }}
+                className="text-xs text-gray-500 hover:text-orange-600 underline"
+              >
+                Paste HTML / Upload build
+              </button>
+            </div>
+          )}
         </div>
 
+        {/* Paste HTML / Upload build */}
+        {showUpload && (
+          <UploadAudit
+            onSubmit={runUploadAudit}
+            onClose={() => setShowUpload(false)}
+          />
+        )}
+
         {/* Manual URL Input */}
         {showManualInput && (
           <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl animate-fadeIn">
@@ -351,13 +969,22 @@ function App() {
                 onChange={(e) => setManualUrl(e.target.value)}
               />
               <button
-                onClick={() => runAudit(manualUrl)}
+                onClick={() => runAudit(manualUrl, selectedPlace)}
                 disabled={!manualUrl}
                 className="bg-orange-500 text-white px-5 py-3 rounded-lg text-sm font-bold hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Scan
               </button>
             </div>
+            <button
+              onClick={() => {
+                setShowManualInput(false);
+                setShowUpload(true);
+              }}
+              className="mt-2 text-xs text-amber-700 hover:text-orange-600 underline"
+            >
+              Not live yet? Paste HTML / Upload build
+            </button>
           </div>
         )}
 
@@ -375,6 +1002,16 @@ function App() {
             <p className="text-gray-400 text-xs mt-1">
               This may take a few seconds
             </p>
+            {gradedCategories.length > 0 && (
+              <ul className="mt-4 space-y-1">
+                {gradedCategories.map(({ category, percentage }) => (
+                  <li key={category} className="text-xs text-gray-500">
+                    ✓ <span className="capitalize">{category}</span>{" "}
+                    {percentage}%
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
 
@@ -388,7 +1025,7 @@ function App() {
                 </div>
                 <p className="text-red-700 font-medium">{report.error}</p>
                 <button
-                  onClick={() => setReport(null)}
+                  onClick={resetReport}
                   className="mt-4 text-sm text-gray-500 hover:text-gray-700 underline"
                 >
                   Try again
@@ -440,26 +1077,106 @@ function App() {
                   <h3 className="font-semibold text-gray-800 truncate">
                     {report.title || "Restaurant Website"}
                   </h3>
-                  <a
-                    href={report.url}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-orange-500 text-xs hover:underline truncate block"
-                  >
-                    {report.url}
-                  </a>
+                  {report.source ? (
+                    <p className="text-gray-500 text-xs truncate">
+                      Graded from{" "}
+                      {report.source.name ??
+                        (report.source.type === "html"
+                          ? "pasted HTML"
+                          : "an upload")}
+                      {report.source.type === "archive" &&
+                        ` · ${report.source.files} file${report.source.files === 1 ? "" : "s"}`}{" "}
+                      as {report.url}
+                    </p>
+                  ) : (
+                    <a
+                      href={report.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-orange-500 text-xs hover:underline truncate block"
+                    >
+                      {report.url}
+                    </a>
+                  )}
+                  {report.restaurant && (
+                    <p className="text-gray-500 text-xs mt-1">
+                      🏢 {report.restaurant.clientName} ·{" "}
+                      {report.restaurant.name}
+                    </p>
+                  )}
                   {report.loadTime && (
                     <p className="text-gray-400 text-xs mt-1">
                       Load time: {(report.loadTime / 1000).toFixed(2)}s
                     </p>
                   )}
+                  {report.id && (
+                    <div className="flex items-center justify-between mt-2 pt-2 border-t border-gray-200">
+                      <span className="text-gray-400 text-xs">
+                        {report.createdAt &&
+                          `Audited ${new Date(report.createdAt).toLocaleString()}`}
+                        {report.cached && (
+                          <>
+                            {" · "}
+                            <button
+                              onClick={() =>
+                                runAudit(report.url, selectedPlace, true)
+                              }
+                              className="text-xs text-orange-600 hover:underline bg-transparent p-0"
+                              title="This is a recent saved result"
+                            >
+                              Scan again
+                            </button>
+                          </>
+                        )}
+                      </span>
+                      <button
+                        onClick={copyReportLink}
+                        className="text-xs text-orange-600 hover:underline bg-transparent p-0"
+                      >
+                        {linkCopied ? "Link copied!" : "🔗 Copy report link"}
+                      </button>
+                    </div>
+                  )}
+                  {report.profile && (
+                    <p
+                      className="text-gray-400 text-xs"
+                      title={`Profile version ${report.profile.hash}`}
+                    >
+                      Grading profile: {report.profile.name}
+                    </p>
+                  )}
+                  {report.notApplicable && report.notApplicable.length > 0 && (
+                    <p
+                      className="text-gray-400 text-xs"
+                      title={report.notApplicable
+                        .map(({ title }) => title)
+                        .join("\n")}
+                    >
+                      {report.notApplicable.length} check
+                      {report.notApplicable.length === 1 ? "" : "s"} need the
+                      live site and aren't scored
+                    </p>
+                  )}
+                  {report.locale && (
+                    <p
+                      className="text-gray-400 text-xs"
+                      title={LOCALE_SOURCES[report.locale.source]}
+                    >
+                      Language: {report.locale.name}
+                      {report.locale.phoneCountry &&
+                        ` · phone numbers read for ${report.locale.phoneCountry}`}
+                    </p>
+                  )}
                 </div>
 
                 {/* Category Breakdown */}
                 {report.breakdown && (
                   <div className="grid grid-cols-2 gap-2 mb-4">
                     {Object.entries(report.breakdown).map(([key, value]) => (
-                      <div key={key} className="p-3 bg-gray-50 rounded-lg">
+                      <div
+                        key={key}
+                        className="p-3 bg-gray-50 rounded-lg last:odd:col-span-2"
+                      >
                         <div className="flex items-center gap-2 mb-1">
                           <span>
                             {getCategoryIcon(
@@ -486,17 +1203,470 @@ function App() {
                   </div>
                 )}
 
+                {/* Save to the agency workspace */}
+                {session &&
+                  workspaceId &&
+                  selectedPlace &&
+                  report.id &&
+                  !report.restaurant &&
+                  !report.source &&
+                  (savedRestaurant ? (
+                    <div className="mb-4 p-3 bg-green-50 rounded-xl text-xs text-green-800 flex items-center justify-between gap-2">
+                      <span>✓ Saved {savedRestaurant.name}</span>
+                      <button
+                        onClick={() => auditRestaurant(savedRestaurant)}
+                        className="underline hover:text-green-900"
+                      >
+                        Audit it for the client
+                      </button>
+                    </div>
+                  ) : (
+                    <SaveRestaurant
+                      key={workspaceId}
+                      workspaceId={workspaceId}
+                      name={selectedPlace.display_name.split(",")[0]}
+                      url={report.url}
+                      place={getPlaceListing(selectedPlace)}
+                      onSaved={setSavedRestaurant}
+                    />
+                  ))}
+
+                {/* Competitor Benchmark */}
+                {selectedPlace && report.id && (
+                  <CompetitorBenchmark
+                    key={report.id}
+                    place={selectedPlace}
+                    report={report}
+                  />
+                )}
+
+                {/* Stack */}
+                {report.stack && (
+                  <details className="mb-4 p-3 bg-gray-50 rounded-xl">
+                    <summary className="text-xs font-semibold text-gray-600 cursor-pointer">
+                      🧱 Built with
+                      {report.stack.builder
+                        ? ` · ${report.stack.builder.name}`
+                        : " · unknown builder"}
+                    </summary>
+                    {report.stack.technologies.length > 0 ? (
+                      <ul className="mt-2 space-y-1">
+                        {report.stack.technologies.map((tech) => (
+                          <li
+                            key={tech.name}
+                            className="flex items-start gap-2 text-xs"
+                            title={tech.evidence.join("\n")}
+                          >
+                            <span className="text-gray-500 w-28 flex-shrink-0">
+                              {STACK_LABELS[tech.category]}
+                            </span>
+                            <span className="font-medium text-gray-700">
+                              {tech.website ? (
+                                <a
+                                  href={tech.website}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="hover:underline"
+                                >
+                                  {tech.name}
+                                </a>
+                              ) : (
+                                tech.name
+                              )}
+                              {tech.version && ` ${tech.version}`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mt-2 text-xs text-gray-500">
+                        No known builder, vendors or widgets were found.
+                      </p>
+                    )}
+                  </details>
+                )}
+
+                {/* Business details */}
+                {report.business && (
+                  <details className="mb-4 p-3 bg-gray-50 rounded-xl">
+                    <summary className="text-xs font-semibold text-gray-600 cursor-pointer">
+                      📇 Name, address, phone & hours
+                      {report.business.mismatches.length > 0
+                        ? ` · ${report.business.mismatches.length} mismatch${report.business.mismatches.length === 1 ? "" : "es"}`
+                        : report.business.listing
+                          ? " · matches the map listing"
+                          : ""}
+                    </summary>
+                    <div className="mt-2 space-y-2 text-xs text-gray-600">
+                      <table className="w-full">
+                        <thead>
+                          <tr className="text-gray-500">
+                            <th className="text-left font-normal"></th>
+                            <th className="text-left font-normal">Website</th>
+                            {report.business.listing && (
+                              <th className="text-left font-normal">
+                                Map listing
+                              </th>
+                            )}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          <tr>
+                            <td className="font-medium text-gray-700 pr-2">
+                              Name
+                            </td>
+                            <td>{report.business.name || "–"}</td>
+                            {report.business.listing && (
+                              <td>{report.business.listing.name || "–"}</td>
+                            )}
+                          </tr>
+                          <tr>
+                            <td className="font-medium text-gray-700 pr-2">
+                              Phone
+                            </td>
+                            <td>{report.business.phones[0]?.value || "–"}</td>
+                            {report.business.listing && (
+                              <td>{report.business.listing.phone || "–"}</td>
+                            )}
+                          </tr>
+                          <tr>
+                            <td className="font-medium text-gray-700 pr-2 align-top">
+                              Address
+                            </td>
+                            <td>
+                              {report.business.addresses[0]?.value || "–"}
+                            </td>
+                            {report.business.listing && (
+                              <td>
+                                {[
+                                  report.business.listing.address.street,
+                                  report.business.listing.address.houseNumber,
+                                ]
+                                  .filter(Boolean)
+                                  .join(" ") || "–"}
+                              </td>
+                            )}
+                          </tr>
+                          {WEEKDAYS.map(([day, label]) => (
+                            <tr key={day}>
+                              <td className="font-medium text-gray-700 pr-2">
+                                {label}
+                              </td>
+                              <td>
+                                {formatDay(
+                                  report.business!.hours?.schedule ?? null,
+                                  day,
+                                )}
+                              </td>
+                              {report.business!.listing && (
+                                <td>
+                                  {formatDay(
+                                    report.business!.listing.hours,
+                                    day,
+                                  )}
+                                </td>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      {report.business.hours?.source === "structured data" && (
+                        <p className="text-gray-500">
+                          Website hours are read from structured data; they
+                          aren't shown on the page.
+                        </p>
+                      )}
+                      {report.business.mismatches.map((mismatch) => (
+                        <p key={mismatch.text} className="text-red-600">
+                          ⚠ {mismatch.text}
+                        </p>
+                      ))}
+                    </div>
+                  </details>
+                )}
+
+                {/* Menu */}
+                {report.menu && (
+                  <details className="mb-4 p-3 bg-gray-50 rounded-xl">
+                    <summary className="text-xs font-semibold text-gray-600 cursor-pointer">
+                      🍽️ Menu
+                      {report.menu.source
+                        ? ` · ${MENU_SOURCES[report.menu.source]}`
+                        : " · not found"}
+                    </summary>
+                    {report.menu.source ? (
+                      <div className="mt-2 space-y-2 text-xs text-gray-600">
+                        <p>
+                          {report.menu.pricedCount} priced item
+                          {report.menu.pricedCount === 1 ? "" : "s"}
+                          {report.menu.unpricedCount > 0 &&
+                            `, ${report.menu.unpricedCount} without a price`}
+                          {report.menu.priceRange &&
+                            ` · ${formatPrice(report.menu.priceRange.min, report.menu.currency)} – ${formatPrice(report.menu.priceRange.max, report.menu.currency)}`}
+                        </p>
+                        {report.menu.sections.length > 0 && (
+                          <p>
+                            <span className="font-medium text-gray-700">
+                              Sections:
+                            </span>{" "}
+                            {report.menu.sections.join(", ")}
+                          </p>
+                        )}
+                        <p>
+                          <span className="font-medium text-gray-700">
+                            Labels:
+                          </span>{" "}
+                          {report.menu.labels.length > 0
+                            ? report.menu.labels.join(", ")
+                            : "none found"}
+                        </p>
+                        {report.menu.items.length > 0 && (
+                          <ul className="space-y-0.5">
+                            {report.menu.items.map((item, i) => (
+                              <li
+                                key={i}
+                                className="flex justify-between gap-2"
+                              >
+                                <span className="truncate">{item.name}</span>
+                                <span className="text-gray-500 flex-shrink-0">
+                                  {formatPrice(
+                                    item.price,
+                                    item.currency || report.menu!.currency,
+                                  )}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {report.menu.pdfs.map((pdf) => (
+                          <p key={pdf.url} className="truncate">
+                            📄{" "}
+                            <a
+                              href={pdf.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-orange-600 underline"
+                            >
+                              {new URL(pdf.url).pathname}
+                            </a>
+                            {pdf.error
+                              ? ` · ${pdf.error}`
+                              : ` · ${pdf.pageCount} page${pdf.pageCount === 1 ? "" : "s"}, ${((pdf.sizeBytes || 0) / 1024).toFixed(0)} KB`}
+                          </p>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="mt-2 text-xs text-gray-500">
+                        No menu page, PDF or menu image was found.
+                      </p>
+                    )}
+                  </details>
+                )}
+
+                {/* Page weight */}
+                {report.resources && (
+                  <details className="mb-4 p-3 bg-gray-50 rounded-xl">
+                    <summary className="text-xs font-semibold text-gray-600 cursor-pointer">
+                      📦 Page weight ·{" "}
+                      {formatBytes(report.resources.totalBytes)} in{" "}
+                      {report.resources.resources.length + 1} files
+                    </summary>
+                    <ul className="mt-2 space-y-1 text-xs">
+                      <li className="flex items-center gap-2">
+                        <span className="w-5 flex-shrink-0">📄</span>
+                        <span className="flex-1 truncate font-medium text-gray-700">
+                          Page HTML
+                          {report.resources.document.redirects.length > 0 &&
+                            ` · ${report.resources.document.redirects.length} redirect${report.resources.document.redirects.length === 1 ? "" : "s"}`}
+                          {report.resources.document.ttfb != null &&
+                            ` · first byte after ${(report.resources.document.ttfb / 1000).toFixed(1)}s`}
+                        </span>
+                        <span className="w-16 text-right text-gray-500">
+                          {report.resources.document.size != null
+                            ? formatBytes(report.resources.document.size)
+                            : "–"}
+                        </span>
+                      </li>
+                      {report.resources.resources.map((resource) => {
+                        const flags = getResourceFlags(resource);
+                        return (
+                          <li
+                            key={resource.url}
+                            className="flex items-center gap-2"
+                            title={resource.url}
+                          >
+                            <span className="w-5 flex-shrink-0">
+                              {RESOURCE_ICONS[resource.type]}
+                            </span>
+                            <span className="flex-1 min-w-0">
+                              <span className="block truncate text-gray-700">
+                                {getFileName(resource.url)}
+                                {resource.format &&
+                                  ` · ${resource.format.toUpperCase()}`}
+                                {resource.thirdParty && " · third party"}
+                              </span>
+                              {flags.length > 0 && (
+                                <span className="block text-red-600">
+                                  {flags.join(" · ")}
+                                </span>
+                              )}
+                              <span className="block h-1 mt-0.5 bg-gray-200 rounded-full overflow-hidden">
+                                <span
+                                  className="block h-full bg-blue-400 rounded-full"
+                                  style={{
+                                    width: `${Math.min(100, ((resource.size ?? 0) / report.resources!.totalBytes) * 100)}%`,
+                                  }}
+                                />
+                              </span>
+                            </span>
+                            <span className="w-16 text-right text-gray-500">
+                              {resource.size != null
+                                ? formatBytes(resource.size)
+                                : "–"}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    {report.resources.unmeasured > 0 && (
+                      <p className="mt-2 text-xs text-gray-500">
+                        {report.resources.unmeasured} file
+                        {report.resources.unmeasured === 1 ? "" : "s"} couldn't
+                        be sized and{" "}
+                        {report.resources.unmeasured === 1 ? "isn't" : "aren't"}{" "}
+                        counted.
+                      </p>
+                    )}
+                  </details>
+                )}
+
+                {/* Security */}
+                {report.security && (
+                  <details className="mb-4 p-3 bg-gray-50 rounded-xl">
+                    <summary className="text-xs font-semibold text-gray-600 cursor-pointer">
+                      🔒 Security
+                      {report.security.certificate?.trusted
+                        ? report.security.certificate.daysLeft !== undefined &&
+                          ` · certificate valid for ${report.security.certificate.daysLeft} more days`
+                        : " · certificate problem"}
+                    </summary>
+                    <ul className="mt-2 space-y-1 text-xs">
+                      {getSecurityChecks(report.security).map(
+                        ([label, passed]) => (
+                          <li key={label} className="flex items-start gap-2">
+                            <span
+                              className={
+                                passed ? "text-green-600" : "text-red-600"
+                              }
+                            >
+                              {passed ? "✓" : "✗"}
+                            </span>
+                            <span className="text-gray-700">{label}</span>
+                          </li>
+                        ),
+                      )}
+                    </ul>
+                  </details>
+                )}
+
+                {/* Structured Data */}
+                {report.structuredData !== undefined && (
+                  <details className="mb-4 p-3 bg-gray-50 rounded-xl">
+                    <summary className="text-xs font-semibold text-gray-600 cursor-pointer">
+                      🔎 What Google sees
+                      {report.structuredData
+                        ? ` · ${report.structuredData.type} (${report.structuredData.source})`
+                        : " · no restaurant data"}
+                    </summary>
+                    {report.structuredData ? (
+                      <ul className="mt-2 space-y-1">
+                        {report.structuredData.fields.map((field) => (
+                          <li
+                            key={field.field}
+                            className="flex items-start gap-2 text-xs"
+                          >
+                            <span
+                              className={
+                                field.status === "valid"
+                                  ? "text-green-500"
+                                  : field.status === "invalid"
+                                    ? "text-yellow-500"
+                                    : "text-red-500"
+                              }
+                            >
+                              {field.status === "valid"
+                                ? "✓"
+                                : field.status === "invalid"
+                                  ? "⚠"
+                                  : "✕"}
+                            </span>
+                            <span className="font-medium text-gray-700 flex-shrink-0">
+                              {field.field}
+                            </span>
+                            <span className="text-gray-500 truncate">
+                              {field.status === "missing"
+                                ? "missing"
+                                : field.problem ||
+                                  getSchemaFieldValue(
+                                    report.structuredData!.entity,
+                                    field.field,
+                                  )}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mt-2 text-xs text-gray-500">
+                        Google can't find a Restaurant or LocalBusiness entity
+                        on this site.
+                      </p>
+                    )}
+                  </details>
+                )}
+
+                {report.locked && (
+                  <p className="mb-4 p-3 bg-gray-50 rounded-lg text-xs text-gray-500">
+                    🔒 This audit was run from an embedded widget; its{" "}
+                    {report.issueCount} issues are only shown to the visitor who
+                    left their contact details.
+                  </p>
+                )}
+
                 {/* Tabs */}
                 <div className="flex gap-2 mb-4">
                   <button
                     onClick={() => setActiveTab("issues")}
-                    className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors ${activeTab === "issues" ? "bg-orange-500 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"}`}
+                    className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-colors ${activeTab === "issues" ? "bg-orange-500 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"}`}
                   >
                     Issues ({report.issues.length})
                   </button>
+                  {report.fixes && report.fixes.length > 0 && (
+                    <button
+                      onClick={() => setActiveTab("fixes")}
+                      className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-colors ${activeTab === "fixes" ? "bg-orange-500 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"}`}
+                    >
+                      Fixes ({report.fixes.length})
+                    </button>
+                  )}
+                  {report.pages && (
+                    <button
+                      onClick={() => setActiveTab("pages")}
+                      className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-colors ${activeTab === "pages" ? "bg-orange-500 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"}`}
+                    >
+                      Pages ({report.pages.length})
+                    </button>
+                  )}
+                  {report.history && (
+                    <button
+                      onClick={() => setActiveTab("history")}
+                      className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-colors ${activeTab === "history" ? "bg-orange-500 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"}`}
+                    >
+                      History
+                    </button>
+                  )}
                   <button
                     onClick={() => setActiveTab("insights")}
-                    className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors ${activeTab === "insights" ? "bg-orange-500 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"}`}
+                    className={`flex-1 py-2 px-2 rounded-lg text-sm font-medium transition-colors ${activeTab === "insights" ? "bg-orange-500 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"}`}
                   >
                     ✨ AI Insights
                   </button>
@@ -504,52 +1674,120 @@ function App() {
 
                 {/* Issues Tab */}
                 {activeTab === "issues" && (
+                  <IssueList
+                    issues={report.issues}
+                    score={report.score}
+                    breakdown={report.breakdown}
+                    onShowFix={showFix}
+                    team={
+                      report.restaurant && session
+                        ? { members, onSaveNote: saveIssueNote }
+                        : undefined
+                    }
+                  />
+                )}
+
+                {/* Fixes Tab */}
+                {activeTab === "fixes" && report.fixes && (
                   <div className="max-h-64 overflow-y-auto space-y-2">
-                    {report.issues.map((issue, i) => {
-                      const isLegacy = typeof issue === "string";
-                      const issueData = isLegacy
-                        ? {
-                            type: issue.toLowerCase().includes("good")
-                              ? "info"
-                              : "error",
-                            text: issue,
-                            category: "General",
-                          }
-                        : issue;
-                      const style = getIssueIcon(issueData.type);
-
-                      return (
-                        <div
-                          key={i}
-                          className={`flex items-start gap-3 p-3 rounded-lg border ${style.container}`}
-                        >
-                          <div
-                            className={`w-6 h-6 rounded-full flex items-center justify-center flex-shrink-0 ${style.bg}`}
+                    {report.fixes.map((fix) => (
+                      <div
+                        key={fix.id}
+                        id={`fix-${fix.id}`}
+                        className="p-3 bg-gray-50 rounded-lg border border-gray-100"
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium text-gray-800">
+                            {fix.title}
+                          </span>
+                          <button
+                            onClick={() => copyFix(fix)}
+                            className="text-xs px-2 py-1 rounded bg-white border border-gray-200 text-gray-600 hover:bg-gray-100 flex-shrink-0"
                           >
-                            <span className="text-white text-xs">
-                              {style.icon}
-                            </span>
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <span className={`text-sm ${style.text}`}>
-                              {issueData.text}
+                            {copiedFix === fix.id ? "Copied!" : "📋 Copy"}
+                          </button>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">{fix.text}</p>
+                        <pre className="mt-2 p-2 bg-gray-900 text-gray-100 text-xs rounded overflow-x-auto">
+                          <code>{fix.code}</code>
+                        </pre>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Pages Tab */}
+                {activeTab === "pages" && report.pages && (
+                  <div className="max-h-64 overflow-y-auto space-y-2">
+                    {report.pages.map((page) => (
+                      <div
+                        key={page.url}
+                        className="p-3 bg-gray-50 rounded-lg border border-gray-100"
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <a
+                            href={page.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm font-medium text-gray-800 hover:underline truncate"
+                          >
+                            {getPagePath(page.url)}
+                          </a>
+                          {page.loadTime !== undefined && (
+                            <span className="text-xs text-gray-400 flex-shrink-0">
+                              {(page.loadTime / 1000).toFixed(2)}s
                             </span>
-                            {!isLegacy && (
-                              <span className="block text-xs text-gray-400 mt-0.5">
-                                {issueData.category}
+                          )}
+                        </div>
+                        {page.error ? (
+                          <p className="text-xs text-red-600 mt-1">
+                            Could not load: {page.error}
+                          </p>
+                        ) : (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {page.findings.length > 0 ? (
+                              page.findings.map((finding) => (
+                                <span
+                                  key={finding}
+                                  className="px-2 py-0.5 bg-green-100 text-green-700 rounded-full text-xs"
+                                >
+                                  {FINDING_LABELS[finding] || finding}
+                                </span>
+                              ))
+                            ) : (
+                              <span className="text-xs text-gray-400">
+                                Nothing detected on this page
                               </span>
                             )}
                           </div>
-                        </div>
-                      );
-                    })}
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* History Tab */}
+                {activeTab === "history" && report.history && (
+                  <div className="max-h-80 overflow-y-auto">
+                    <ScoreHistory
+                      history={report.history}
+                      changes={report.changes}
+                      currentId={report.id}
+                    />
                   </div>
                 )}
 
                 {/* AI Insights Tab */}
                 {activeTab === "insights" && (
                   <div className="space-y-4 max-h-80 overflow-y-auto">
-                    {report.aiInsights ? (
+                    {insightsPending ? (
+                      <div className="text-center py-8 text-gray-400">
+                        <span className="text-4xl mb-2 block animate-pulse">
+                          🤖
+                        </span>
+                        <p className="text-sm">Generating AI insights...</p>
+                      </div>
+                    ) : report.aiInsights ? (
                       <>
                         {/* Summary */}
                         <div className="p-4 bg-gradient-to-r from-purple-50 to-blue-50 rounded-xl border border-purple-100">
@@ -636,13 +1874,32 @@ function App() {
                   </div>
                 )}
 
+                {/* Downloadable Report */}
+                {report.id && !report.locked && (
+                  <div className="flex gap-2 mt-6">
+                    <button
+                      onClick={() => downloadReport("pdf")}
+                      className="flex-1 py-3 text-center bg-orange-500 text-white rounded-xl font-medium hover:bg-orange-600 transition-colors"
+                    >
+                      📄 Download report
+                    </button>
+                    <button
+                      onClick={() => downloadReport("html")}
+                      className="px-4 py-3 text-center border-2 border-orange-200 rounded-xl text-orange-600 font-medium bg-white hover:bg-orange-50 hover:border-orange-500 transition-colors"
+                      title="Standalone HTML version"
+                    >
+                      HTML
+                    </button>
+                  </div>
+                )}
+
                 {/* Scan Another Button */}
                 <button
                   onClick={() => {
-                    setReport(null);
+                    resetReport();
                     setQuery("");
                   }}
-                  className="w-full mt-6 py-3 border-2 border-orange-200 rounded-xl text-orange-600 font-medium bg-white hover:bg-orange-50 hover:border-orange-500 transition-colors"
+                  className={`w-full ${report.id ? "mt-2" : "mt-6"} py-3 border-2 border-orange-200 rounded-xl text-orange-600 font-medium bg-white hover:bg-orange-50 hover:border-orange-500 transition-colors`}
                 >
                   Scan Another Restaurant
                 </button>
@@ -0,0 +1,1868 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+export interface paths {
+    "/openapi.json": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** This document */
+        get: operations["getOpenApi"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/audits": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Audit history of a site, oldest first */
+        get: operations["listAudits"];
+        put?: never;
+        /**
+         * Audit a website
+         * @description Crawls and grades the site and stores the audit. A result for the same site and options from the last hour is returned with `200` and `cached: true` instead, unless `refresh` is set or `insights` is false.
+         */
+        post: operations["createAudit"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/audits/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** A stored audit */
+        get: operations["getAudit"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/audits/{id}/report": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Download the branded report of an audit */
+        get: operations["getAuditReport"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/rules": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Categories and active rules of a grading profile */
+        get: operations["getRules"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/batches": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Audit a list of restaurants
+         * @description Send `rows` or `csv`. Sites are queued and scanned a few at a time; follow the job with `getBatch`.
+         */
+        post: operations["createBatch"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/batches/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Progress of a batch and each row's result */
+        get: operations["getBatch"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/batches/{id}/export": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Scores and top issues of every row */
+        get: operations["exportBatch"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/monitors": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** This API key's monitors with their last run */
+        get: operations["listMonitors"];
+        put?: never;
+        /**
+         * Re-audit a site on a schedule and alert on regressions
+         * @description The first run is the baseline and starts right away.
+         */
+        post: operations["createMonitor"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/monitors/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** A monitor with its recent runs */
+        get: operations["getMonitor"];
+        put?: never;
+        post?: never;
+        /** Delete a monitor and its runs */
+        delete: operations["deleteMonitor"];
+        options?: never;
+        head?: never;
+        /** Change a monitor, or pause it with enabled: false */
+        patch: operations["updateMonitor"];
+        trace?: never;
+    };
+    "/monitors/{id}/run": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Run a monitor now instead of waiting for its schedule */
+        post: operations["runMonitor"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/monitors/{id}/test-alert": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Send a sample alert to the monitor's webhook and email
+         * @description Each API key may send 5 test alerts an hour.
+         */
+        post: operations["testMonitorAlert"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/leads": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Leads captured by the grader widget, newest first
+         * @description Only the leads of embeds whose `partner` id is the API key's name.
+         */
+        get: operations["listLeads"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        Error: {
+            error: {
+                /** @enum {string} */
+                code: "INVALID_REQUEST" | "UNKNOWN_PROFILE" | "BLOCKED_ADDRESS" | "API_KEY_MISSING" | "API_KEY_INVALID" | "AUDIT_LOCKED" | "NOT_FOUND" | "RUN_IN_PROGRESS" | "NOT_HTML" | "PAGE_TOO_LARGE" | "RATE_LIMITED" | "SCAN_FAILED" | "INTERNAL_ERROR" | "SITE_UNREACHABLE" | "ALERT_FAILED";
+                message: string;
+                details?: {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        AuditRequest: {
+            /** @description Website to audit */
+            url: string;
+            /** @description Grading profile id */
+            profile?: string;
+            maxPages?: number;
+            maxDepth?: number;
+            /** @description Map listing to compare the site's name, address, phone and hours with */
+            place?: components["schemas"]["PlaceListing"];
+            /** @description Ask the AI provider for insights (default true) */
+            insights?: boolean;
+            /** @description Scan again instead of returning a recent result */
+            refresh?: boolean;
+        };
+        PlaceListing: {
+            /** @description Where the listing is from, e.g. "osm" */
+            source?: string;
+            name?: string;
+            phone?: string;
+            /** @description OpenStreetMap opening_hours, e.g. "Mo-Fr 11:00-22:00" */
+            openingHours?: string;
+            address?: {
+                houseNumber?: string;
+                street?: string;
+                postcode?: string;
+                city?: string;
+            };
+            countryCode?: string;
+            /** @description e.g. "italian;pizza" */
+            cuisine?: string;
+            lat?: string | number;
+            lon?: string | number;
+        };
+        BatchRequest: {
+            rows?: {
+                name?: string;
+                url: string;
+            }[];
+            /** @description CSV with name and url columns, instead of rows */
+            csv?: string;
+            profile?: string;
+            insights?: boolean;
+        };
+        MonitorRequest: {
+            url: string;
+            name?: string;
+            profile?: string;
+            place?: components["schemas"]["PlaceListing"];
+            /** @enum {string} */
+            frequency: "daily" | "weekly";
+            scoreDrop?: number;
+            webhookUrl?: string | null;
+            email?: string[];
+            enabled?: boolean;
+        };
+        MonitorUpdate: {
+            url?: string;
+            name?: string | null;
+            profile?: string;
+            place?: components["schemas"]["PlaceListing"] | null;
+            /** @enum {string} */
+            frequency?: "daily" | "weekly";
+            scoreDrop?: number;
+            webhookUrl?: string | null;
+            email?: string[];
+            enabled?: boolean;
+        };
+        WcagCriterion: {
+            criterion: string;
+            name: string;
+            /** @enum {string} */
+            level: "A" | "AA" | "AAA";
+            url: string;
+        };
+        PlatformGuidance: {
+            platform: string;
+            text: string;
+        };
+        /** @enum {string} */
+        IssueType: "error" | "warning" | "info";
+        /** @enum {string} */
+        Level: "low" | "medium" | "high";
+        IssueEvidence: {
+            /** @description CSS selector of the element */
+            selector?: string;
+            /** @description The element's opening tag */
+            html?: string;
+            /** @description The file or address it's about */
+            url?: string;
+            /** @description Measured values, e.g. { length: 72, maxLength: 60 } */
+            values?: {
+                [key: string]: number | string;
+            };
+        };
+        Issue: {
+            /** @description Stays the same for the same problem across audits */
+            id?: string;
+            type: components["schemas"]["IssueType"];
+            text: string;
+            /** @description Category label, e.g. "SEO" */
+            category: string;
+            page?: string;
+            rule?: string;
+            /** @description Rule points fixing it wins back (see Check.weight) */
+            pointsLost?: number;
+            effort?: components["schemas"]["Level"];
+            impact?: components["schemas"]["Level"];
+            /** @description Why the check matters */
+            learnMore?: string;
+            evidence?: components["schemas"]["IssueEvidence"];
+            wcag?: components["schemas"]["WcagCriterion"];
+            guidance?: components["schemas"]["PlatformGuidance"];
+            /** @description Id of the fix in the audit's fixes */
+            fix?: string;
+            /** @description The team's note, on audits of a saved restaurant */
+            note?: string;
+            /** @description Who is fixing it, on audits of a saved restaurant */
+            assignee?: {
+                id: string;
+                name: string;
+            };
+        };
+        Fix: {
+            id: string;
+            rule: string;
+            title: string;
+            text: string;
+            /** @enum {string} */
+            language: "html";
+            code: string;
+        };
+        Check: {
+            rule: string;
+            /** @enum {string} */
+            category: "seo" | "content" | "usability" | "technical" | "accessibility" | "security";
+            score: number;
+            weight: number;
+        };
+        ScoreBreakdown: {
+            score: number;
+            maxScore: number;
+            percentage: number;
+        };
+        CrawledPage: {
+            url: string;
+            title?: string;
+            depth: number;
+            loadTime?: number;
+            findings: string[];
+            error?: string;
+        };
+        StructuredDataField: {
+            field: string;
+            /** @enum {string} */
+            status: "valid" | "missing" | "invalid";
+            problem?: string;
+        };
+        StructuredData: {
+            type: string;
+            /** @enum {string} */
+            source: "json-ld" | "microdata" | "rdfa";
+            page: string;
+            entity: {
+                [key: string]: unknown;
+            };
+            fields: components["schemas"]["StructuredDataField"][];
+        };
+        MenuItem: {
+            name: string;
+            price: number;
+            currency: string | null;
+            section: string | null;
+        };
+        MenuPdf: {
+            url: string;
+            page: string;
+            sizeBytes?: number;
+            pageCount?: number;
+            textBased?: boolean;
+            error?: string;
+        };
+        MenuSummary: {
+            /** @enum {string|null} */
+            source: "html" | "pdf" | "scanned-pdf" | "image" | "page" | null;
+            pages: string[];
+            itemCount: number;
+            pricedCount: number;
+            unpricedCount: number;
+            sections: string[];
+            priceRange: {
+                min: number;
+                max: number;
+            } | null;
+            currency: string | null;
+            labels: string[];
+            items: components["schemas"]["MenuItem"][];
+            images: {
+                src: string;
+                alt: string;
+                page: string;
+            }[];
+            pdfs: components["schemas"]["MenuPdf"][];
+        };
+        /** @enum {string} */
+        StackCategory: "builder" | "ordering" | "reservations" | "analytics" | "tag-manager" | "chat" | "cookie-consent";
+        Technology: {
+            name: string;
+            category: components["schemas"]["StackCategory"];
+            website: string | null;
+            version: string | null;
+            page: string;
+            evidence: string[];
+        };
+        Stack: {
+            builder: components["schemas"]["Technology"] | null;
+            technologies: components["schemas"]["Technology"][];
+        };
+        WeeklySchedule: {
+            mo?: string[];
+            tu?: string[];
+            we?: string[];
+            th?: string[];
+            fr?: string[];
+            sa?: string[];
+            su?: string[];
+        };
+        BusinessMismatch: {
+            /** @enum {string} */
+            field: "hours" | "phone" | "address" | "name";
+            sources: string[];
+            text: string;
+            type?: components["schemas"]["IssueType"];
+        };
+        BusinessDetails: {
+            name: string | null;
+            phones: {
+                value: string;
+                number: string | null;
+                source: string;
+                page: string;
+            }[];
+            addresses: {
+                value: string;
+                source: string;
+                page: string;
+            }[];
+            hours: {
+                schedule: components["schemas"]["WeeklySchedule"];
+                /** @enum {string} */
+                source: "text" | "structured data";
+                page: string;
+            } | null;
+            compared: ("hours" | "phone" | "address" | "name")[];
+            mismatches: components["schemas"]["BusinessMismatch"][];
+            listing: {
+                source: string;
+                name: string | null;
+                phone: string | null;
+                openingHours: string | null;
+                address: {
+                    houseNumber: string | null;
+                    street: string | null;
+                    postcode: string | null;
+                    city: string | null;
+                };
+                hours: components["schemas"]["WeeklySchedule"] | null;
+                cuisine?: string[];
+                geo?: {
+                    lat: number;
+                    lon: number;
+                } | null;
+            } | null;
+        };
+        Locale: {
+            code: string;
+            name: string;
+            /** @enum {string} */
+            source: "html-lang" | "text" | "default";
+            declared: string | null;
+            phoneCountry: string | null;
+            /** @enum {string} */
+            phoneCountrySource: "listing" | "domain" | "locale";
+        };
+        /** @enum {string} */
+        ResourceType: "image" | "script" | "stylesheet" | "font";
+        PageResource: {
+            type: components["schemas"]["ResourceType"];
+            url: string;
+            renderBlocking?: boolean;
+            lazy?: boolean;
+            status?: number;
+            size?: number | null;
+            contentType?: string | null;
+            format?: string | null;
+            encoding?: string | null;
+            cacheable?: boolean;
+            thirdParty: boolean;
+            duration?: number;
+            error?: string;
+        };
+        Redirect: {
+            from: string;
+            to: string;
+            status: number;
+        };
+        PageWeight: {
+            document: {
+                url: string;
+                ttfb: number | null;
+                redirects: components["schemas"]["Redirect"][];
+                size: number | null;
+                encoding: string | null;
+                cacheable: boolean | null;
+            };
+            resources: components["schemas"]["PageResource"][];
+            totalBytes: number;
+            byType: {
+                image: number;
+                script: number;
+                stylesheet: number;
+                font: number;
+            };
+            unmeasured: number;
+        };
+        Certificate: {
+            subject?: string | null;
+            issuer?: string | null;
+            validFrom?: string;
+            validTo?: string;
+            daysLeft?: number;
+            expired?: boolean;
+            notYetValid?: boolean;
+            selfSigned?: boolean;
+            hostnameMatch?: boolean;
+            trusted?: boolean;
+            error: string | null;
+            protocol?: string;
+        };
+        SecurityReport: {
+            https: boolean;
+            certificate: components["schemas"]["Certificate"] | null;
+            httpRedirect: {
+                url: string;
+                finalUrl?: string;
+                redirectsToHttps: boolean;
+                error?: string;
+            } | null;
+            hsts: {
+                maxAge: number;
+                includeSubDomains: boolean;
+                preload: boolean;
+            } | null;
+            headers: {
+                contentSecurityPolicy: boolean;
+                contentTypeOptions: boolean;
+                frameOptions: boolean;
+            };
+            mixedContent: {
+                page: string;
+                url: string;
+                kind: string;
+                active: boolean;
+            }[];
+            insecureForms: {
+                page: string;
+                action: string;
+                password: boolean;
+            }[];
+        };
+        AIInsights: {
+            summary: string;
+            topPriority: string;
+            quickWins: string[];
+            competitorTip: string;
+            estimatedImpact: string;
+        };
+        GradingProfile: {
+            id: string;
+            name: string;
+            hash: string;
+        };
+        AuditSummary: {
+            id: string;
+            url: string;
+            score: number;
+            profile: string | null;
+            createdAt: string;
+            /** @description Percentage per category */
+            breakdown: {
+                [key: string]: number;
+            };
+        };
+        AuditChanges: {
+            previousId: string;
+            previousScore: number;
+            fixed: components["schemas"]["Issue"][];
+            introduced: components["schemas"]["Issue"][];
+        };
+        AuditResult: {
+            url: string;
+            title: string;
+            profile?: components["schemas"]["GradingProfile"];
+            score: number;
+            breakdown?: {
+                seo: components["schemas"]["ScoreBreakdown"];
+                content: components["schemas"]["ScoreBreakdown"];
+                usability: components["schemas"]["ScoreBreakdown"];
+                technical: components["schemas"]["ScoreBreakdown"];
+                accessibility?: components["schemas"]["ScoreBreakdown"];
+                security?: components["schemas"]["ScoreBreakdown"];
+            };
+            issues: components["schemas"]["Issue"][];
+            fixes?: components["schemas"]["Fix"][];
+            checks?: components["schemas"]["Check"][];
+            pages?: components["schemas"]["CrawledPage"][];
+            structuredData?: components["schemas"]["StructuredData"] | null;
+            menu?: components["schemas"]["MenuSummary"];
+            stack?: components["schemas"]["Stack"];
+            business?: components["schemas"]["BusinessDetails"];
+            locale?: components["schemas"]["Locale"];
+            resources?: components["schemas"]["PageWeight"];
+            security?: components["schemas"]["SecurityReport"];
+            loadTime?: number;
+            /** @description Set when the site was graded from an upload */
+            source?: {
+                /** @enum {string} */
+                type: "html" | "archive";
+                name: string | null;
+                files: number;
+            };
+            /** @description Checks skipped because they need the live site (uploads) */
+            notApplicable?: {
+                rule: string;
+                title: string;
+                category: string;
+            }[];
+            aiInsights?: components["schemas"]["AIInsights"] | null;
+        };
+        Audit: {
+            id: string;
+            createdAt: string;
+            url: string;
+            title: string;
+            profile?: components["schemas"]["GradingProfile"];
+            score: number;
+            breakdown?: {
+                seo: components["schemas"]["ScoreBreakdown"];
+                content: components["schemas"]["ScoreBreakdown"];
+                usability: components["schemas"]["ScoreBreakdown"];
+                technical: components["schemas"]["ScoreBreakdown"];
+                accessibility?: components["schemas"]["ScoreBreakdown"];
+                security?: components["schemas"]["ScoreBreakdown"];
+            };
+            issues: components["schemas"]["Issue"][];
+            fixes?: components["schemas"]["Fix"][];
+            checks?: components["schemas"]["Check"][];
+            pages?: components["schemas"]["CrawledPage"][];
+            structuredData?: components["schemas"]["StructuredData"] | null;
+            menu?: components["schemas"]["MenuSummary"];
+            stack?: components["schemas"]["Stack"];
+            business?: components["schemas"]["BusinessDetails"];
+            locale?: components["schemas"]["Locale"];
+            resources?: components["schemas"]["PageWeight"];
+            security?: components["schemas"]["SecurityReport"];
+            loadTime?: number;
+            /** @description Set when the site was graded from an upload */
+            source?: {
+                /** @enum {string} */
+                type: "html" | "archive";
+                name: string | null;
+                files: number;
+            };
+            /** @description Checks skipped because they need the live site (uploads) */
+            notApplicable?: {
+                rule: string;
+                title: string;
+                category: string;
+            }[];
+            aiInsights?: components["schemas"]["AIInsights"] | null;
+            history: components["schemas"]["AuditSummary"][];
+            changes: components["schemas"]["AuditChanges"] | null;
+            /** @description The workspace's saved restaurant the audit belongs to; only its members can read these audits */
+            restaurant?: {
+                id: string;
+                name: string;
+                workspaceId: string;
+                clientId: string;
+                clientName: string;
+            };
+            /** @description Set when a recent result was returned instead of a scan */
+            cached?: boolean;
+            /** @description Set on a widget audit behind the lead form: only the score and breakdown are shown until a lead is left for it */
+            locked?: boolean;
+            /** @description The number of issues of a locked audit */
+            issueCount?: number;
+        };
+        AuditList: {
+            audits: components["schemas"]["AuditSummary"][];
+        };
+        RuleSet: {
+            profile: {
+                id: string;
+                name: string;
+                description: string;
+                hash: string;
+            };
+            profiles: string[];
+            categories: {
+                /** @enum {string} */
+                id: "seo" | "content" | "usability" | "technical" | "accessibility" | "security";
+                label: string;
+                maxScore: number;
+            }[];
+            rules: {
+                id: string;
+                /** @enum {string} */
+                category: "seo" | "content" | "usability" | "technical" | "accessibility" | "security";
+                title: string;
+                description: string;
+                weight: number;
+                severity: components["schemas"]["IssueType"];
+                effort: components["schemas"]["Level"];
+                impact: components["schemas"]["Level"];
+                config: {
+                    [key: string]: unknown;
+                };
+                wcag: components["schemas"]["WcagCriterion"] | null;
+                /** @description Needs the live site; not applicable to uploads */
+                network: boolean;
+            }[];
+        };
+        BatchRow: {
+            position: number;
+            name: string;
+            url: string;
+            /** @enum {string} */
+            status: "queued" | "running" | "done" | "failed";
+            auditId: string | null;
+            score: number | null;
+            error: string | null;
+        };
+        BatchJob: {
+            id: string;
+            profile: string;
+            insights: boolean;
+            /** @enum {string} */
+            status: "queued" | "running" | "done";
+            createdAt: string;
+            finishedAt: string | null;
+            total: number;
+            completed: number;
+            failed: number;
+            rows: components["schemas"]["BatchRow"][];
+        };
+        BatchExportRow: {
+            name: string;
+            url: string;
+            /** @enum {string} */
+            status: "queued" | "running" | "done" | "failed";
+            score: number | null;
+            errors: number | null;
+            warnings: number | null;
+            topIssues: string;
+            auditId: string | null;
+            error: string | null;
+            seoPercentage: number | null;
+            contentPercentage: number | null;
+            usabilityPercentage: number | null;
+            technicalPercentage: number | null;
+            accessibilityPercentage: number | null;
+            securityPercentage: number | null;
+        };
+        Regression: {
+            score: number;
+            previousScore: number;
+            scoreDrop: number;
+            lostChecks: {
+                rule: string;
+                title: string;
+                /** @enum {string} */
+                category: "seo" | "content" | "usability" | "technical" | "accessibility" | "security";
+            }[];
+            newErrors: {
+                text: string;
+                rule: string;
+                page?: string;
+                category: string;
+            }[];
+        };
+        MonitorRun: {
+            id: number;
+            /** @enum {string} */
+            status: "queued" | "running" | "done" | "failed";
+            startedAt: string;
+            finishedAt: string | null;
+            auditId: string | null;
+            score: number | null;
+            regression: components["schemas"]["Regression"] | null;
+            alertError: {
+                webhook?: string;
+                email?: string;
+            } | null;
+            error: string | null;
+        };
+        Monitor: {
+            id: string;
+            name: string | null;
+            url: string;
+            profile: string;
+            place: components["schemas"]["PlaceListing"] | null;
+            /** @enum {string} */
+            frequency: "daily" | "weekly";
+            scoreDrop: number;
+            webhookUrl: string | null;
+            email: string[];
+            enabled: boolean;
+            createdAt: string;
+            nextRunAt: string;
+            lastRun: components["schemas"]["MonitorRun"] | null;
+            /** @description Recent runs, newest first; only on single monitors */
+            runs?: components["schemas"]["MonitorRun"][];
+        };
+        MonitorList: {
+            monitors: components["schemas"]["Monitor"][];
+        };
+        AlertTestResult: {
+            sent: boolean;
+            failures: {
+                webhook?: string;
+                email?: string;
+            };
+        };
+        Lead: {
+            id: string;
+            name: string;
+            email: string;
+            phone: string;
+            partner: string | null;
+            /** @description The page the widget was embedded in */
+            pageUrl: string | null;
+            createdAt: string;
+            audit: {
+                id: string;
+                url: string;
+                score: number;
+                /** @description Only set when the server has APP_URL */
+                reportUrl: string | null;
+            };
+        };
+        LeadList: {
+            leads: components["schemas"]["Lead"][];
+        };
+    };
+    responses: never;
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export interface operations {
+    getOpenApi: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": Record<string, never>;
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    listAudits: {
+        parameters: {
+            query: {
+                url: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AuditList"];
+                };
+            };
+            /** @description Bad Request: `INVALID_REQUEST` */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    createAudit: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AuditRequest"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Audit"];
+                };
+            };
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Audit"];
+                };
+            };
+            /** @description Bad Request: `INVALID_REQUEST`, `UNKNOWN_PROFILE`, `BLOCKED_ADDRESS` */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Unprocessable Entity: `NOT_HTML`, `PAGE_TOO_LARGE` */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Too Many Requests: `RATE_LIMITED` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `SCAN_FAILED`, `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Bad Gateway: `SITE_UNREACHABLE` */
+            502: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    getAudit: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Audit"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Not Found: `NOT_FOUND` */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    getAuditReport: {
+        parameters: {
+            query?: {
+                format?: "pdf" | "html";
+            };
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/pdf": string;
+                    "text/html": string;
+                };
+            };
+            /** @description Bad Request: `INVALID_REQUEST` */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Forbidden: `AUDIT_LOCKED` */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Not Found: `NOT_FOUND` */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    getRules: {
+        parameters: {
+            query?: {
+                /** @description Defaults to the server's */
+                profile?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RuleSet"];
+                };
+            };
+            /** @description Bad Request: `INVALID_REQUEST`, `UNKNOWN_PROFILE` */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    createBatch: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["BatchRequest"];
+            };
+        };
+        responses: {
+            /** @description Accepted */
+            202: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BatchJob"];
+                };
+            };
+            /** @description Bad Request: `INVALID_REQUEST`, `UNKNOWN_PROFILE` */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Too Many Requests: `RATE_LIMITED` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    getBatch: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BatchJob"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Not Found: `NOT_FOUND` */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    exportBatch: {
+        parameters: {
+            query?: {
+                format?: "json" | "csv";
+            };
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BatchExportRow"][];
+                    "text/csv": string;
+                };
+            };
+            /** @description Bad Request: `INVALID_REQUEST` */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Not Found: `NOT_FOUND` */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    listMonitors: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MonitorList"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    createMonitor: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["MonitorRequest"];
+            };
+        };
+        responses: {
+            /** @description Created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Monitor"];
+                };
+            };
+            /** @description Bad Request: `INVALID_REQUEST`, `UNKNOWN_PROFILE`, `BLOCKED_ADDRESS` */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Too Many Requests: `RATE_LIMITED` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    getMonitor: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Monitor"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Not Found: `NOT_FOUND` */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    deleteMonitor: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description No Content */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Not Found: `NOT_FOUND` */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    updateMonitor: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["MonitorUpdate"];
+            };
+        };
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Monitor"];
+                };
+            };
+            /** @description Bad Request: `INVALID_REQUEST`, `UNKNOWN_PROFILE`, `BLOCKED_ADDRESS` */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Not Found: `NOT_FOUND` */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    runMonitor: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Accepted */
+            202: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Monitor"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Not Found: `NOT_FOUND` */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Conflict: `RUN_IN_PROGRESS` */
+            409: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Too Many Requests: `RATE_LIMITED` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    testMonitorAlert: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AlertTestResult"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Not Found: `NOT_FOUND` */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Too Many Requests: `RATE_LIMITED` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Bad Gateway: `ALERT_FAILED` */
+            502: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+    listLeads: {
+        parameters: {
+            query?: {
+                /** @description Only leads captured at or after this ISO 8601 date or time */
+                since?: string;
+                format?: "json" | "csv";
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OK */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LeadList"];
+                    "text/csv": string;
+                };
+            };
+            /** @description Bad Request: `INVALID_REQUEST` */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Unauthorized: `API_KEY_MISSING`, `API_KEY_INVALID` */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+            /** @description Internal Server Error: `INTERNAL_ERROR` */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Error"];
+                };
+            };
+        };
+    };
+}
@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { authHeaders, getSessionToken } from "../session";
+import type { BatchJob, BatchRow } from "../types";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
+
+const POLL_INTERVAL = 2000;
+
+const EXAMPLE_CSV = `name,url
+Trattoria Roma,https://trattoria-roma.example
+Sushi Corner,https://sushicorner.example`;
+
+type BatchAuditProps = {
+  jobId: string | null;
+  onJobStarted: (id: string) => void;
+  onOpenReport: (auditId: string) => void;
+  onClose: () => void;
+};
+
+const STATUS_STYLES: Record<BatchRow["status"], string> = {
+  queued: "bg-gray-100 text-gray-500",
+  running: "bg-blue-100 text-blue-600",
+  done: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-600",
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return "text-green-600";
+  if (score >= 50) return "text-yellow-600";
+  return "text-red-600";
+};
+
+// Fetch the job until every row has finished; the server keeps the queue,
+// so closing the page doesn't stop the batch
+function useBatchJob(jobId: string | null) {
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    let cancelled = false;
+    let timer: number | undefined;
+
+    const poll = async () => {
+      try {
+        const res = await fetch(
+          `${API_URL}/grade/batch/${encodeURIComponent(jobId)}`,
+        );
+        const data = await res.json();
+        if (cancelled) return;
+
+        if (!res.ok) {
+          setError(data.error);
+          return;
+        }
+        setJob(data);
+        if (data.status !== "done") {
+          timer = window.setTimeout(poll, POLL_INTERVAL);
+        }
+      } catch {
+        if (!cancelled) setError("Error connecting to backend server");
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  return { job, error };
+}
+
+// Upload a list of restaurants as CSV and follow the batch as it runs
+function BatchAudit({
+  jobId,
+  onJobStarted,
+  onOpenReport,
+  onClose,
+}: BatchAuditProps) {
+  const [csv, setCsv] = useState("");
+  const [insights, setInsights] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState("");
+  const { job, error: jobError } = useBatchJob(jobId);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setCsv(await file.text());
+  };
+
+  const startBatch = async () => {
+    setSubmitting(true);
+    setSubmitError("");
+
+    try {
+      const res = await fetch(
+        `${API_URL}/grade/batch${insights ? "?insights=1" : ""}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "text/csv", ...authHeaders() },
+          body: csv,
+        },
+      );
+      const data = await res.json();
+
+      if (res.ok) {
+        onJobStarted(data.id);
+      } else {
+        setSubmitError(data.error);
+      }
+    } catch {
+      setSubmitError("Error connecting to backend server");
+    }
+    setSubmitting(false);
+  };
+
+  const exportUrl = (format: "csv" | "json") =>
+    `${API_URL}/grade/batch/${jobId}/export${format === "json" ? "?format=json" : ""}`;
+
+  return (
+    <div className="animate-fadeIn">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-bold text-gray-800">📋 Batch audit</h2>
+        <button
+          onClick={onClose}
+          className="text-sm text-gray-500 hover:text-gray-700 underline"
+        >
+          Back to single audit
+        </button>
+      </div>
+
+      {!jobId ? (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">
+            One restaurant per line with a <code>name</code> and{" "}
+            <code>url</code> column. Sites on the same domain are scanned one at
+            a time.
+          </p>
+          <textarea
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            placeholder={EXAMPLE_CSV}
+            rows={8}
+            className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl text-xs font-mono focus:ring-2 focus:ring-orange-500 focus:bg-white outline-none"
+          />
+          <div className="flex items-center justify-between gap-3">
+            <input
+              type="file"
+              accept=".csv,text/csv,text/plain"
+              onChange={handleFile}
+              className="text-xs text-gray-500 file:mr-2 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-orange-50 file:text-orange-600"
+            />
+            {/* The server only runs them for signed-in users */}
+            {getSessionToken() && (
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={insights}
+                  onChange={(e) => setInsights(e.target.checked)}
+                />
+                AI insights
+              </label>
+            )}
+          </div>
+          {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+          <button
+            onClick={startBatch}
+            disabled={!csv.trim() || submitting}
+            className="w-full py-3 bg-orange-500 text-white rounded-xl font-bold hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? "Starting..." : "Start batch"}
+          </button>
+        </div>
+      ) : jobError ? (
+        <p className="text-center py-8 text-red-700 font-medium">{jobError}</p>
+      ) : !job ? (
+        <p className="text-center py-8 text-gray-500">Loading batch...</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="p-4 bg-gray-50 rounded-xl">
+            <div className="flex justify-between text-sm mb-2">
+              <span className="font-medium text-gray-700">
+                {job.status === "done"
+                  ? "✅ Batch finished"
+                  : job.status === "queued"
+                    ? "⏳ Waiting to start"
+                    : "🔍 Scanning..."}
+              </span>
+              <span className="text-gray-500">
+                {job.completed + job.failed} / {job.total}
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="h-2 rounded-full bg-orange-500 transition-all duration-500"
+                style={{
+                  width: `${((job.completed + job.failed) / job.total) * 100}%`,
+                }}
+              />
+            </div>
+            {job.failed > 0 && (
+              <p className="text-xs text-red-600 mt-2">
+                {job.failed} site{job.failed === 1 ? "" : "s"} could not be
+                scanned
+              </p>
+            )}
+          </div>
+
+          <ul className="space-y-2 max-h-96 overflow-y-auto">
+            {job.rows.map((row) => (
+              <li
+                key={row.position}
+                className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-800 truncate">
+                    {row.name || row.url}
+                  </p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {row.error || (row.name ? row.url : "")}
+                  </p>
+                </div>
+                {row.score !== null && (
+                  <span
+                    className={`text-sm font-bold ${getScoreColor(row.score)}`}
+                  >
+                    {row.score}
+                  </span>
+                )}
+                {row.auditId ? (
+                  <button
+                    onClick={() => onOpenReport(row.auditId!)}
+                    className="text-xs text-orange-600 hover:text-orange-700 underline"
+                  >
+                    Report
+                  </button>
+                ) : (
+                  <span
+                    className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[row.status]}`}
+                  >
+                    {row.status}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex gap-2">
+            <a
+              href={exportUrl("csv")}
+              className="flex-1 py-2 text-center border-2 border-orange-200 rounded-xl text-orange-600 text-sm font-medium hover:bg-orange-50 hover:border-orange-500 transition-colors"
+            >
+              ⬇️ Export CSV
+            </a>
+            <a
+              href={exportUrl("json")}
+              className="flex-1 py-2 text-center border-2 border-orange-200 rounded-xl text-orange-600 text-sm font-medium hover:bg-orange-50 hover:border-orange-500 transition-colors"
+            >
+              ⬇️ Export JSON
+            </a>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BatchAudit;
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import type {
+  BenchmarkResult,
+  Competitor,
+  ReportData,
+  SearchResult,
+} from "../types";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
+
+type CompetitorBenchmarkProps = {
+  place: SearchResult;
+  report: ReportData;
+};
+
+const barColor = (percentage: number) => {
+  if (percentage >= 70) return "bg-green-500";
+  if (percentage >= 40) return "bg-yellow-500";
+  return "bg-red-500";
+};
+
+// Grade nearby restaurants with the same profile and show where the
+// audited site ranks overall, per category and per check
+function CompetitorBenchmark({ place, report }: CompetitorBenchmarkProps) {
+  const [status, setStatus] = useState("");
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<BenchmarkResult | null>(null);
+
+  const runBenchmark = async () => {
+    setError("");
+    setStatus("Finding nearby restaurants...");
+
+    try {
+      const params = new URLSearchParams({
+        lat: place.lat,
+        lon: place.lon,
+        cuisine: place.extratags?.cuisine || "",
+        exclude: place.osm_type ? `${place.osm_type}/${place.osm_id}` : "",
+        website: report.url,
+      });
+      const found = await fetch(`${API_URL}/competitors?${params}`);
+      const { competitors, error: lookupError } = (await found.json()) as {
+        competitors?: Competitor[];
+        error?: string;
+      };
+
+      if (!competitors) {
+        setError(lookupError || "Could not look up nearby restaurants");
+      } else if (competitors.length === 0) {
+        setError("No nearby restaurants with a website were found");
+      } else {
+        setStatus(
+          `Grading ${competitors.length} nearby restaurant${competitors.length === 1 ? "" : "s"}...`,
+        );
+        const res = await fetch(`${API_URL}/benchmark`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            target: {
+              name: place.display_name.split(",")[0],
+              url: report.url,
+              auditId: report.id,
+            },
+            competitors,
+          }),
+        });
+        const data = await res.json();
+        if (res.ok) {
+          setResult(data);
+        } else {
+          setError(data.error);
+        }
+      }
+    } catch {
+      setError("Error connecting to backend server");
+    }
+    setStatus("");
+  };
+
+  if (!result) {
+    return (
+      <div className="mb-4 p-3 bg-gray-50 rounded-xl text-center">
+        {status ? (
+          <p className="text-xs text-gray-500 animate-pulse">{status}</p>
+        ) : (
+          <button
+            onClick={runBenchmark}
+            className="text-sm font-medium text-orange-600 hover:underline bg-transparent p-0"
+          >
+            🏁 Compare with nearby restaurants
+          </button>
+        )}
+        {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      </div>
+    );
+  }
+
+  const graded = result.sites.filter((site) => !site.error);
+  const failed = result.sites.filter((site) => site.error);
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 rounded-xl">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-semibold text-gray-600">
+          🏁 Nearby competitors
+        </span>
+        <span className="text-xs text-gray-500">{result.overall.note}</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-400">
+              <th className="text-left font-medium pb-1">Restaurant</th>
+              <th className="font-medium pb-1">Score</th>
+              {result.categories.map((category) => (
+                <th
+                  key={category.key}
+                  className="font-medium pb-1"
+                  title={category.note}
+                >
+                  {category.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {graded.map((site) => (
+              <tr
+                key={site.url}
+                className={
+                  site.role === "target" ? "font-semibold text-gray-800" : ""
+                }
+              >
+                <td className="py-1 pr-2 max-w-28 truncate" title={site.url}>
+                  {site.name}
+                  {site.distanceKm !== null && (
+                    <span className="text-gray-400 font-normal">
+                      {" "}
+                      · {site.distanceKm} km
+                    </span>
+                  )}
+                </td>
+                <td className="py-1 text-center">{site.score}</td>
+                {result.categories.map((category) => {
+                  const percentage =
+                    site.breakdown?.[category.key]?.percentage ?? 0;
+                  return (
+                    <td key={category.key} className="py-1 px-1">
+                      <div
+                        className="h-1.5 bg-gray-200 rounded-full overflow-hidden"
+                        title={`${percentage}%`}
+                      >
+                        <div
+                          className={`h-full rounded-full ${barColor(percentage)}`}
+                          style={{ width: `${percentage}%` }}
+                        />
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <ul className="mt-2 space-y-0.5">
+        {result.categories.map((category) => (
+          <li key={category.key} className="text-xs text-gray-500">
+            <span className="text-gray-700">{category.label}:</span>{" "}
+            {category.note}
+          </li>
+        ))}
+      </ul>
+
+      {result.checks.length > 0 && (
+        <details className="mt-2">
+          <summary className="text-xs text-orange-600 cursor-pointer">
+            Check by check
+          </summary>
+          <ul className="mt-1 space-y-1">
+            {result.checks.map((check) => (
+              <li
+                key={check.rule}
+                className="flex justify-between gap-2 text-xs"
+              >
+                <span className="text-gray-700">
+                  {check.title}{" "}
+                  <span className="text-gray-400">
+                    {check.score}/{check.weight}
+                  </span>
+                </span>
+                <span
+                  className={
+                    check.rank === 1 ? "text-green-600" : "text-gray-500"
+                  }
+                >
+                  {check.note}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {failed.length > 0 && (
+        <p className="text-xs text-gray-400 mt-2">
+          Could not scan: {failed.map((site) => site.name).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default CompetitorBenchmark;
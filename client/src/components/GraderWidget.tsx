@@ -0,0 +1,416 @@
+import { useRef, useState } from "react";
+import IssueList from "./IssueList";
+import {
+  getPlaceListing,
+  PHASE_LABELS,
+  readScanEvents,
+  searchPlaces,
+} from "../scan";
+import type { ReportData, ScanEvent, SearchResult } from "../types";
+
+// How a partner site configured its embed (see public/embed.js)
+export type WidgetConfig = {
+  apiUrl: string;
+  accent: string;
+  logo: string | null;
+  title: string;
+  // Ask for name, email and phone before showing the issues and insights
+  gate: boolean;
+  partner: string | null;
+  // The page the widget is embedded in, stored with leads
+  pageUrl: string | null;
+};
+
+type Lead = { name: string; email: string; phone: string };
+
+const EMPTY_LEAD: Lead = { name: "", email: "", phone: "" };
+
+const scoreStroke = (score: number) =>
+  score >= 80 ? "#22c55e" : score >= 50 ? "#eab308" : "#ef4444";
+
+const barColor = (percentage: number) =>
+  percentage >= 70
+    ? "bg-green-500"
+    : percentage >= 40
+      ? "bg-yellow-500"
+      : "bg-red-500";
+
+// The grader page's search → scan flow for partner sites: find the
+// restaurant, scan its website and show the score. With the gate on, the
+// server sends a locked report and the full one, with issues and AI
+// insights, only once the visitor's contact details are stored as a lead.
+function GraderWidget({ config }: { config: WidgetConfig }) {
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<SearchResult[]>([]);
+  const [selectedPlace, setSelectedPlace] = useState<SearchResult | null>(null);
+  const [manualUrl, setManualUrl] = useState("");
+  const [report, setReport] = useState<ReportData | null>(null);
+  const [scanStep, setScanStep] = useState("");
+  const [insightsPending, setInsightsPending] = useState(false);
+  const [lead, setLead] = useState<Lead>(EMPTY_LEAD);
+  const [leadError, setLeadError] = useState("");
+  const [sendingLead, setSendingLead] = useState(false);
+  const [activeTab, setActiveTab] = useState<"issues" | "insights">("issues");
+  const debounceRef = useRef<number | null>(null);
+
+  const accent = { backgroundColor: config.accent };
+
+  const handleSearch = (value: string) => {
+    setQuery(value);
+    setSelectedPlace(null);
+    setReport(null);
+
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    if (value.length < 3) {
+      setSuggestions([]);
+      return;
+    }
+    debounceRef.current = setTimeout(async () => {
+      try {
+        setSuggestions(await searchPlaces(value));
+      } catch (err) {
+        console.error("OSM Search Error", err);
+      }
+    }, 300);
+  };
+
+  const runAudit = async (url: string, place: SearchResult) => {
+    setReport(null);
+    setScanStep(PHASE_LABELS.fetch);
+    setActiveTab("issues");
+
+    // The score is shown as soon as grading is done; the stored audit,
+    // which leads are saved with, follows once AI insights are ready
+    const handleEvent = ({ event, data }: ScanEvent) => {
+      switch (event) {
+        case "phase":
+          setScanStep(PHASE_LABELS[data.phase]);
+          if (data.phase === "insights") setInsightsPending(true);
+          break;
+        case "result":
+          setReport(data);
+          setScanStep("");
+          break;
+        case "done":
+          setReport(data);
+          break;
+        case "error":
+          setReport({
+            url,
+            title: "",
+            score: 0,
+            issues: [],
+            error: data.error,
+          });
+          break;
+      }
+    };
+
+    try {
+      const res = await fetch(`${config.apiUrl}/grade`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+        },
+        body: JSON.stringify({
+          url,
+          place: getPlaceListing(place),
+          gate: config.gate,
+        }),
+      });
+      if (res.headers.get("Content-Type")?.includes("text/event-stream")) {
+        await readScanEvents(res, handleEvent);
+      } else {
+        setReport(await res.json());
+      }
+    } catch {
+      setReport({
+        url,
+        title: "",
+        score: 0,
+        issues: [],
+        error: "Could not reach the grader",
+      });
+    }
+    setScanStep("");
+    setInsightsPending(false);
+  };
+
+  const handleSelect = (place: SearchResult) => {
+    setSuggestions([]);
+    setQuery(place.display_name.split(",")[0]);
+    setSelectedPlace(place);
+    if (place.extratags?.website) runAudit(place.extratags.website, place);
+  };
+
+  const sendLead = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSendingLead(true);
+    setLeadError("");
+    try {
+      const res = await fetch(`${config.apiUrl}/leads`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...lead,
+          auditId: report!.id,
+          partner: config.partner ?? undefined,
+          pageUrl: config.pageUrl ?? undefined,
+        }),
+      });
+      if (res.ok) {
+        setReport((await res.json()).audit);
+      } else {
+        setLeadError((await res.json()).error);
+      }
+    } catch {
+      setLeadError("Could not reach the grader");
+    }
+    setSendingLead(false);
+  };
+
+  const inputClass =
+    "w-full p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm outline-none focus:bg-white";
+
+  return (
+    <div className="p-5 bg-white">
+      <div className="flex items-center gap-3 mb-4">
+        {config.logo ? (
+          <img src={config.logo} alt="" className="h-10 max-w-32" />
+        ) : (
+          <span
+            className="w-10 h-10 rounded-xl flex items-center justify-center text-xl"
+            style={accent}
+          >
+            🦁
+          </span>
+        )}
+        <h1 className="text-lg font-bold text-gray-800">{config.title}</h1>
+      </div>
+
+      {/* Search */}
+      <div className="relative mb-4">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => handleSearch(e.target.value)}
+          placeholder="Search your restaurant..."
+          className={inputClass}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 w-full bg-white border border-gray-100 shadow-xl rounded-lg mt-1 max-h-60 overflow-y-auto">
+            {suggestions.map((place) => (
+              <li
+                key={place.place_id}
+                onClick={() => handleSelect(place)}
+                className="px-3 py-2 cursor-pointer hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+              >
+                <p className="text-sm font-semibold text-gray-800 truncate">
+                  {place.display_name.split(",")[0]}
+                </p>
+                <p className="text-xs text-gray-400 truncate">
+                  {place.display_name.split(",").slice(1).join(",").trim()}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* No website on the listing */}
+      {selectedPlace &&
+        !selectedPlace.extratags?.website &&
+        !report &&
+        !scanStep && (
+          <div className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={manualUrl}
+              onChange={(e) => setManualUrl(e.target.value)}
+              placeholder="https://your-restaurant.com"
+              className={inputClass}
+            />
+            <button
+              onClick={() => runAudit(manualUrl, selectedPlace)}
+              disabled={!manualUrl}
+              className="px-4 text-white rounded-lg text-sm font-bold disabled:opacity-50"
+              style={accent}
+            >
+              Scan
+            </button>
+          </div>
+        )}
+
+      {scanStep && !report && (
+        <p className="text-center text-sm text-gray-500 py-8 animate-pulse">
+          {scanStep}
+        </p>
+      )}
+
+      {report?.error && (
+        <p className="text-center text-sm text-red-600 py-4">{report.error}</p>
+      )}
+
+      {report && !report.error && (
+        <div className="animate-fadeIn">
+          {/* Score */}
+          <div className="flex items-center gap-4 mb-4">
+            <div className="relative w-20 h-20 flex-shrink-0">
+              <svg className="w-20 h-20 transform -rotate-90">
+                <circle
+                  cx="40"
+                  cy="40"
+                  r="34"
+                  fill="none"
+                  stroke="#e5e7eb"
+                  strokeWidth="7"
+                />
+                <circle
+                  cx="40"
+                  cy="40"
+                  r="34"
+                  fill="none"
+                  stroke={scoreStroke(report.score)}
+                  strokeWidth="7"
+                  strokeLinecap="round"
+                  strokeDasharray={`${(report.score / 100) * 214} 214`}
+                />
+              </svg>
+              <span className="absolute inset-0 flex items-center justify-center text-2xl font-bold text-gray-800">
+                {report.score}
+              </span>
+            </div>
+            <div className="min-w-0">
+              <p className="font-semibold text-gray-800 truncate">
+                {report.title || report.url}
+              </p>
+              <p className="text-xs text-gray-400 truncate">{report.url}</p>
+            </div>
+          </div>
+
+          {report.breakdown && (
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              {Object.entries(report.breakdown).map(([key, value]) => (
+                <div key={key} className="p-2 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-600 capitalize mb-1">{key}</p>
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${barColor(value.percentage)}`}
+                        style={{ width: `${value.percentage}%` }}
+                      />
+                    </div>
+                    <span className="text-xs font-bold text-gray-700">
+                      {value.percentage}%
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {report.locked ? (
+            <form
+              onSubmit={sendLead}
+              className="p-4 bg-gray-50 rounded-xl space-y-2"
+            >
+              <p className="text-sm font-semibold text-gray-800">
+                See all {report.issueCount} issues and how to fix them
+              </p>
+              <input
+                required
+                value={lead.name}
+                onChange={(e) => setLead({ ...lead, name: e.target.value })}
+                placeholder="Your name"
+                autoComplete="name"
+                className={inputClass}
+              />
+              <input
+                required
+                type="email"
+                value={lead.email}
+                onChange={(e) => setLead({ ...lead, email: e.target.value })}
+                placeholder="Email"
+                autoComplete="email"
+                className={inputClass}
+              />
+              <input
+                required
+                type="tel"
+                value={lead.phone}
+                onChange={(e) => setLead({ ...lead, phone: e.target.value })}
+                placeholder="Phone"
+                autoComplete="tel"
+                className={inputClass}
+              />
+              {leadError && <p className="text-xs text-red-600">{leadError}</p>}
+              <button
+                type="submit"
+                disabled={!report.id || sendingLead}
+                className="w-full py-3 text-white rounded-lg text-sm font-bold disabled:opacity-50"
+                style={accent}
+              >
+                {report.id ? "Show my full report" : "Finishing your report..."}
+              </button>
+            </form>
+          ) : (
+            <>
+              <div className="flex gap-2 mb-3">
+                {(["issues", "insights"] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    onClick={() => setActiveTab(tab)}
+                    className={`flex-1 py-2 rounded-lg text-sm font-medium ${activeTab === tab ? "text-white" : "bg-gray-100 text-gray-600"}`}
+                    style={activeTab === tab ? accent : undefined}
+                  >
+                    {tab === "issues"
+                      ? `Issues (${report.issues.length})`
+                      : "✨ AI Insights"}
+                  </button>
+                ))}
+              </div>
+
+              {activeTab === "issues" && (
+                <IssueList
+                  issues={report.issues}
+                  score={report.score}
+                  breakdown={report.breakdown}
+                />
+              )}
+
+              {activeTab === "insights" &&
+                (insightsPending ? (
+                  <p className="text-center text-sm text-gray-400 py-6 animate-pulse">
+                    Generating AI insights...
+                  </p>
+                ) : report.aiInsights ? (
+                  <div className="space-y-3 text-sm">
+                    <p className="text-gray-700">{report.aiInsights.summary}</p>
+                    <div className="p-3 bg-red-50 rounded-lg text-red-700">
+                      🎯 {report.aiInsights.topPriority}
+                    </div>
+                    <ul className="p-3 bg-green-50 rounded-lg space-y-1 text-green-700">
+                      {report.aiInsights.quickWins.map((win, i) => (
+                        <li key={i}>✓ {win}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : (
+                  <p className="text-center text-sm text-gray-400 py-6">
+                    AI insights not available
+                  </p>
+                ))}
+            </>
+          )}
+        </div>
+      )}
+
+      <p className="mt-4 text-center text-xs text-gray-400">
+        Powered by LionLokal Grader
+      </p>
+    </div>
+  );
+}
+
+export default GraderWidget;
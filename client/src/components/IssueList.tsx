@@ -0,0 +1,393 @@
+import { useState } from "react";
+import type {
+  Issue,
+  IssueEvidence,
+  IssueType,
+  ReportData,
+  WorkspaceMember,
+} from "../types";
+
+export type IssueNoteChanges = { note: string; assigneeId: string | null };
+
+type IssueListProps = {
+  issues: Issue[];
+  score: number;
+  breakdown: ReportData["breakdown"];
+  // Links issues to their generated fix; left out where fixes aren't shown
+  onShowFix?: (fixId: string) => void;
+  // Set on audits of a saved restaurant, where the team keeps notes and
+  // assignees on issues
+  team?: {
+    members: WorkspaceMember[];
+    onSaveNote: (issueId: string, changes: IssueNoteChanges) => Promise<void>;
+  };
+};
+
+const SEVERITIES: IssueType[] = ["error", "warning", "info"];
+
+const SEVERITY_LABELS: Record<IssueType, string> = {
+  error: "Errors",
+  warning: "Warnings",
+  info: "Tips",
+};
+
+const ISSUE_STYLES: Record<
+  IssueType,
+  { icon: string; bg: string; container: string; text: string }
+> = {
+  error: {
+    icon: "!",
+    bg: "bg-red-500",
+    container: "bg-red-50 border-red-100",
+    text: "text-red-800",
+  },
+  warning: {
+    icon: "⚠",
+    bg: "bg-yellow-500",
+    container: "bg-yellow-50 border-yellow-100",
+    text: "text-yellow-800",
+  },
+  info: {
+    icon: "i",
+    bg: "bg-blue-500",
+    container: "bg-blue-50 border-blue-100",
+    text: "text-blue-800",
+  },
+};
+
+// Issues worth the most points that the score projection assumes are fixed
+const PROJECTED_FIXES = 3;
+
+const getPagePath = (pageUrl: string) => {
+  try {
+    const { pathname, search } = new URL(pageUrl);
+    return pathname + search;
+  } catch {
+    return pageUrl;
+  }
+};
+
+const formatGain = (gain: number) =>
+  gain >= 10 ? Math.round(gain) : Math.round(gain * 10) / 10;
+
+function EvidenceDetails({ evidence }: { evidence: IssueEvidence }) {
+  const values = Object.entries(evidence.values ?? {});
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      {evidence.selector && (
+        <p>
+          Element: <code className="text-gray-700">{evidence.selector}</code>
+        </p>
+      )}
+      {evidence.html && (
+        <p>
+          Markup: <code className="text-gray-700">{evidence.html}</code>
+        </p>
+      )}
+      {evidence.url && (
+        <p className="truncate">
+          File:{" "}
+          <a
+            href={evidence.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline hover:text-gray-600"
+          >
+            {evidence.url}
+          </a>
+        </p>
+      )}
+      {values.length > 0 && (
+        <p>
+          Measured:{" "}
+          {values.map(([name, value]) => `${name} ${value}`).join(" · ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// The team's note and assignee on an issue, edited in place
+function IssueNote({
+  issue,
+  team,
+}: {
+  issue: Issue;
+  team: NonNullable<IssueListProps["team"]>;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [note, setNote] = useState(issue.note ?? "");
+  const [assigneeId, setAssigneeId] = useState(issue.assignee?.id ?? "");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const save = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      await team.onSaveNote(issue.id!, {
+        note,
+        assigneeId: assigneeId || null,
+      });
+      setEditing(false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    setBusy(false);
+  };
+
+  if (!editing) {
+    return (
+      <div className="text-xs text-gray-600 mt-1">
+        {issue.assignee && <span>👤 {issue.assignee.name} · </span>}
+        {issue.note && <span className="italic">{issue.note} · </span>}
+        <button
+          onClick={() => setEditing(true)}
+          className="underline text-gray-500 hover:text-gray-700"
+        >
+          {issue.note || issue.assignee ? "Edit" : "📝 Note / assign"}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-1 space-y-1">
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note for the team"
+        rows={2}
+        className="w-full p-1.5 bg-white border border-gray-200 rounded text-xs outline-none focus:ring-1 focus:ring-orange-500"
+      />
+      <div className="flex gap-1">
+        <select
+          value={assigneeId}
+          onChange={(e) => setAssigneeId(e.target.value)}
+          className="flex-1 min-w-0 bg-white border border-gray-200 rounded px-1 text-xs"
+        >
+          <option value="">Unassigned</option>
+          {team.members.map((member) => (
+            <option key={member.id} value={member.id}>
+              {member.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={save}
+          disabled={busy}
+          className="px-2 bg-orange-500 text-white rounded text-xs font-medium hover:bg-orange-600 disabled:opacity-50"
+        >
+          Save
+        </button>
+        <button
+          onClick={() => setEditing(false)}
+          className="px-2 text-xs text-gray-500 underline"
+        >
+          Cancel
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+// The Issues tab: issues filtered by severity and category, sorted by
+// severity or by the points fixing them wins back, with the score the top
+// few fixes would bring
+function IssueList({
+  issues,
+  score,
+  breakdown,
+  onShowFix,
+  team,
+}: IssueListProps) {
+  const [severity, setSeverity] = useState<IssueType | "all">("all");
+  const [category, setCategory] = useState("all");
+  const [sortBy, setSortBy] = useState<"severity" | "points">("severity");
+
+  // The score is the points earned out of the points checked, so fixing an
+  // issue adds its pointsLost to both the category and the total
+  const maxPoints = Object.values(breakdown ?? {}).reduce(
+    (sum, result) => sum + (result?.maxScore ?? 0),
+    0,
+  );
+  const earnedPoints = Object.values(breakdown ?? {}).reduce(
+    (sum, result) => sum + (result?.score ?? 0),
+    0,
+  );
+  const scoreGain = (issue: Issue) =>
+    maxPoints > 0 ? ((issue.pointsLost ?? 0) / maxPoints) * 100 : 0;
+
+  const categories = [...new Set(issues.map((issue) => issue.category))];
+  const filtered = issues.filter(
+    (issue) =>
+      (severity === "all" || issue.type === severity) &&
+      (category === "all" || issue.category === category),
+  );
+  // The server lists issues by severity already
+  const byPoints = [...filtered].sort(
+    (a, b) => (b.pointsLost ?? 0) - (a.pointsLost ?? 0),
+  );
+  const shown = sortBy === "points" ? byPoints : filtered;
+
+  const topFixes = byPoints
+    .filter((issue) => (issue.pointsLost ?? 0) > 0)
+    .slice(0, PROJECTED_FIXES);
+  const projectedScore =
+    maxPoints > 0
+      ? Math.min(
+          100,
+          Math.round(
+            ((earnedPoints +
+              topFixes.reduce((sum, issue) => sum + issue.pointsLost!, 0)) /
+              maxPoints) *
+              100,
+          ),
+        )
+      : score;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-1 mb-2">
+        {(["all", ...SEVERITIES] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setSeverity(option)}
+            className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${severity === option ? "bg-gray-800 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"}`}
+          >
+            {option === "all"
+              ? `All (${issues.length})`
+              : `${SEVERITY_LABELS[option]} (${issues.filter((issue) => issue.type === option).length})`}
+          </button>
+        ))}
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="ml-auto text-xs bg-gray-100 rounded-md px-2 py-1 text-gray-600"
+        >
+          <option value="all">All categories</option>
+          {categories.map((label) => (
+            <option key={label} value={label}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as "severity" | "points")}
+          className="text-xs bg-gray-100 rounded-md px-2 py-1 text-gray-600"
+        >
+          <option value="severity">Most severe first</option>
+          <option value="points">Most points first</option>
+        </select>
+      </div>
+
+      {topFixes.length > 0 && projectedScore > score && (
+        <div className="mb-2 p-2 bg-green-50 border border-green-100 rounded-lg text-xs text-green-800">
+          <p className="font-medium">
+            Fix {topFixes.length === 1 ? "this" : `these ${topFixes.length}`}{" "}
+            and your score becomes {projectedScore} (now {score}):
+          </p>
+          <ol className="list-decimal list-inside mt-1 space-y-0.5">
+            {topFixes.map((issue, i) => (
+              <li key={issue.id ?? i} className="truncate">
+                {issue.text}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <div className="max-h-64 overflow-y-auto space-y-2">
+        {shown.length === 0 && (
+          <p className="text-center py-4 text-sm text-gray-400">
+            No issues match these filters.
+          </p>
+        )}
+        {shown.map((issue, i) => {
+          const style = ISSUE_STYLES[issue.type];
+          const gain = scoreGain(issue);
+
+          return (
+            <div
+              key={issue.id ?? i}
+              className={`flex items-start gap-3 p-3 rounded-lg border ${style.container}`}
+            >
+              <div
+                className={`w-6 h-6 rounded-full flex items-center justify-center flex-shrink-0 ${style.bg}`}
+              >
+                <span className="text-white text-xs">{style.icon}</span>
+              </div>
+              <div className="flex-1 min-w-0">
+                <span className={`text-sm ${style.text}`}>{issue.text}</span>
+                {issue.guidance && (
+                  <span className="block text-xs text-gray-600 mt-1">
+                    💡 <strong>{issue.guidance.platform}:</strong>{" "}
+                    {issue.guidance.text}
+                  </span>
+                )}
+                <span className="block text-xs text-gray-400 mt-0.5">
+                  {issue.category}
+                  {issue.page && ` · ${getPagePath(issue.page)}`}
+                  {issue.effort && ` · ${issue.effort} effort`}
+                  {issue.impact && ` · ${issue.impact} impact`}
+                  {issue.wcag && (
+                    <>
+                      {" · "}
+                      <a
+                        href={issue.wcag.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title={`${issue.wcag.name} (level ${issue.wcag.level})`}
+                        className="underline hover:text-gray-600"
+                      >
+                        WCAG {issue.wcag.criterion}
+                      </a>
+                    </>
+                  )}
+                  {issue.fix && onShowFix && (
+                    <>
+                      {" · "}
+                      <button
+                        onClick={() => onShowFix(issue.fix!)}
+                        className="underline text-orange-600 hover:text-orange-700"
+                      >
+                        🛠️ Fix
+                      </button>
+                    </>
+                  )}
+                </span>
+                {(issue.learnMore || issue.evidence) && (
+                  <details className="text-xs text-gray-500 mt-1">
+                    <summary className="cursor-pointer hover:text-gray-700">
+                      Learn more
+                    </summary>
+                    {issue.learnMore && (
+                      <p className="mt-1">{issue.learnMore}</p>
+                    )}
+                    {issue.evidence && (
+                      <EvidenceDetails evidence={issue.evidence} />
+                    )}
+                  </details>
+                )}
+                {team && issue.id && <IssueNote issue={issue} team={team} />}
+              </div>
+              {gain >= 0.1 && (
+                <span
+                  className="text-xs font-semibold text-green-700 flex-shrink-0"
+                  title="Points the score gains when this is fixed"
+                >
+                  +{formatGain(gain)}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default IssueList;
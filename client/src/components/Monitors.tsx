@@ -0,0 +1,504 @@
+import { useEffect, useState } from "react";
+import { authHeaders, getWorkspaceId } from "../session";
+import type { Monitor, MonitorRun } from "../types";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
+
+const POLL_INTERVAL = 3000;
+
+type MonitorsProps = {
+  monitorId: string | null;
+  onOpenMonitor: (id: string | null) => void;
+  onOpenReport: (auditId: string) => void;
+  onClose: () => void;
+};
+
+type MonitorForm = {
+  url: string;
+  name: string;
+  frequency: Monitor["frequency"];
+  scoreDrop: string;
+  webhookUrl: string;
+  email: string;
+};
+
+const EMPTY_FORM: MonitorForm = {
+  url: "",
+  name: "",
+  frequency: "weekly",
+  scoreDrop: "5",
+  webhookUrl: "",
+  email: "",
+};
+
+const STATUS_STYLES: Record<MonitorRun["status"], string> = {
+  queued: "bg-gray-100 text-gray-500",
+  running: "bg-blue-100 text-blue-600",
+  done: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-600",
+};
+
+const INPUT_CLASS =
+  "w-full p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:bg-white outline-none";
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return "text-green-600";
+  if (score >= 50) return "text-yellow-600";
+  return "text-red-600";
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+const isActive = (run: MonitorRun | null) =>
+  run?.status === "queued" || run?.status === "running";
+
+const request = async (path: string, init?: RequestInit) => {
+  const res = await fetch(`${API_URL}/monitors${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+  });
+  const data = res.status === 204 ? null : await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+};
+
+// Load /monitors, or /monitors/:id when a monitor is open, and poll while a
+// run is waiting or in progress
+function useMonitors(monitorId: string | null) {
+  const [monitors, setMonitors] = useState<Monitor[] | null>(null);
+  const [monitor, setMonitor] = useState<Monitor | null>(null);
+  const [error, setError] = useState("");
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: number | undefined;
+
+    const poll = async () => {
+      try {
+        if (monitorId) {
+          const data: Monitor = await request(
+            `/${encodeURIComponent(monitorId)}`,
+          );
+          if (cancelled) return;
+          setMonitor(data);
+          if (isActive(data.lastRun)) {
+            timer = window.setTimeout(poll, POLL_INTERVAL);
+          }
+        } else {
+          const data: { monitors: Monitor[] } = await request("");
+          if (cancelled) return;
+          setMonitors(data.monitors);
+          if (data.monitors.some((m) => isActive(m.lastRun))) {
+            timer = window.setTimeout(poll, POLL_INTERVAL);
+          }
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof TypeError
+              ? "Error connecting to backend server"
+              : (err as Error).message,
+          );
+        }
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [monitorId, version]);
+
+  return {
+    monitors,
+    monitor,
+    error,
+    reload: () => setVersion((v) => v + 1),
+  };
+}
+
+function RunSummary({ run }: { run: MonitorRun }) {
+  if (run.error) {
+    return <p className="text-xs text-red-600">{run.error}</p>;
+  }
+  if (!run.regression) return null;
+
+  const { regression, alertError } = run;
+  return (
+    <div className="text-xs text-red-700 space-y-0.5">
+      <p className="font-medium">
+        📉 {regression.previousScore} → {regression.score}
+      </p>
+      {regression.lostChecks.map((check) => (
+        <p key={check.rule}>Now failing: {check.title}</p>
+      ))}
+      {regression.newErrors.map((issue, i) => (
+        <p key={i}>New error: {issue.text}</p>
+      ))}
+      {alertError &&
+        Object.entries(alertError).map(([channel, message]) => (
+          <p key={channel} className="text-gray-500">
+            ⚠️ {channel} alert failed: {message}
+          </p>
+        ))}
+    </div>
+  );
+}
+
+// Register sites to re-audit daily or weekly and get alerted on regressions.
+// Monitors are the signed-in user's and their workspace's.
+function Monitors({
+  monitorId,
+  onOpenMonitor,
+  onOpenReport,
+  onClose,
+}: MonitorsProps) {
+  const { monitors, monitor, error, reload } = useMonitors(monitorId);
+  const [form, setForm] = useState<MonitorForm>(EMPTY_FORM);
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const setField =
+    (field: keyof MonitorForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setForm({ ...form, [field]: e.target.value });
+
+  // Run a request and refresh what's shown, or show why it failed
+  const act = async (action: () => Promise<string | void>) => {
+    setBusy(true);
+    setActionError("");
+    setNotice("");
+    try {
+      const message = await action();
+      if (message) setNotice(message);
+      reload();
+    } catch (err) {
+      setActionError(
+        err instanceof TypeError
+          ? "Error connecting to backend server"
+          : (err as Error).message,
+      );
+    }
+    setBusy(false);
+  };
+
+  const createMonitor = () =>
+    act(async () => {
+      const data: Monitor = await request("", {
+        method: "POST",
+        body: JSON.stringify({
+          ...form,
+          scoreDrop: Number(form.scoreDrop),
+          // Shared with the workspace picked in the header, if any
+          workspaceId: getWorkspaceId() ?? undefined,
+        }),
+      });
+      setForm(EMPTY_FORM);
+      onOpenMonitor(data.id);
+    });
+
+  const updateMonitor = (id: string, changes: Partial<Monitor>) =>
+    act(async () => {
+      await request(`/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(changes),
+      });
+    });
+
+  const deleteMonitor = (id: string) =>
+    act(async () => {
+      await request(`/${id}`, { method: "DELETE" });
+      onOpenMonitor(null);
+    });
+
+  const runNow = (id: string) =>
+    act(async () => {
+      await request(`/${id}/run`, { method: "POST" });
+    });
+
+  const testAlert = (id: string) =>
+    act(async () => {
+      const res = await fetch(`${API_URL}/monitors/${id}/test-alert`, {
+        method: "POST",
+        headers: authHeaders(),
+      });
+      const data = await res.json();
+      if (data.sent) return "✅ Test alert sent";
+      throw new Error(
+        data.failures
+          ? Object.entries(data.failures)
+              .map(([channel, message]) => `${channel}: ${message}`)
+              .join("; ")
+          : data.error,
+      );
+    });
+
+  const header = (
+    <div className="flex items-center justify-between mb-4">
+      <h2 className="font-bold text-gray-800">📡 Monitors</h2>
+      <button
+        onClick={monitorId ? () => onOpenMonitor(null) : onClose}
+        className="text-sm text-gray-500 hover:text-gray-700 underline"
+      >
+        {monitorId ? "All monitors" : "Back to single audit"}
+      </button>
+    </div>
+  );
+
+  const messages = (
+    <>
+      {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+      {notice && <p className="text-sm text-green-700">{notice}</p>}
+    </>
+  );
+
+  if (error) {
+    return (
+      <div className="animate-fadeIn">
+        {header}
+        <p className="text-center py-8 text-red-700 font-medium">{error}</p>
+      </div>
+    );
+  }
+
+  if (monitorId) {
+    if (!monitor) {
+      return (
+        <div className="animate-fadeIn">
+          {header}
+          <p className="text-center py-8 text-gray-500">Loading monitor...</p>
+        </div>
+      );
+    }
+
+    const running = isActive(monitor.lastRun);
+    return (
+      <div className="animate-fadeIn">
+        {header}
+        <div className="space-y-4">
+          <div className="p-4 bg-gray-50 rounded-xl text-sm space-y-1">
+            <p className="font-medium text-gray-800">
+              {monitor.name || monitor.url}
+            </p>
+            {monitor.name && (
+              <p className="text-xs text-gray-400">{monitor.url}</p>
+            )}
+            <p className="text-xs text-gray-500">
+              {monitor.frequency === "daily" ? "Daily" : "Weekly"}, alerts on a
+              drop of more than {monitor.scoreDrop} points or a new error
+            </p>
+            <p className="text-xs text-gray-500">
+              {monitor.enabled
+                ? `Next run ${formatDate(monitor.nextRunAt)}`
+                : "Paused"}
+            </p>
+            <p className="text-xs text-gray-500">
+              Alerts to{" "}
+              {[monitor.webhookUrl, ...monitor.email]
+                .filter(Boolean)
+                .join(", ") || "nobody yet"}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => runNow(monitor.id)}
+              disabled={busy || running}
+              className="py-2 bg-orange-500 text-white rounded-xl text-sm font-bold hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {running ? "Running..." : "▶️ Run now"}
+            </button>
+            <button
+              onClick={() => testAlert(monitor.id)}
+              disabled={busy}
+              className="py-2 border-2 border-orange-200 rounded-xl text-orange-600 text-sm font-medium hover:bg-orange-50 hover:border-orange-500 transition-colors disabled:opacity-50"
+            >
+              🔔 Send test alert
+            </button>
+            <button
+              onClick={() =>
+                updateMonitor(monitor.id, { enabled: !monitor.enabled })
+              }
+              disabled={busy}
+              className="py-2 border-2 border-gray-200 rounded-xl text-gray-600 text-sm font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {monitor.enabled ? "⏸️ Pause" : "▶️ Resume"}
+            </button>
+            <button
+              onClick={() => deleteMonitor(monitor.id)}
+              disabled={busy}
+              className="py-2 border-2 border-red-100 rounded-xl text-red-600 text-sm font-medium hover:bg-red-50 hover:border-red-300 transition-colors disabled:opacity-50"
+            >
+              🗑️ Delete
+            </button>
+          </div>
+          {messages}
+
+          <ul className="space-y-2 max-h-96 overflow-y-auto">
+            {(monitor.runs ?? []).map((run) => (
+              <li
+                key={run.id}
+                className={`p-3 rounded-lg ${run.regression ? "bg-red-50" : "bg-gray-50"}`}
+              >
+                <div className="flex items-center gap-3">
+                  <p className="flex-1 text-sm text-gray-700">
+                    {formatDate(run.startedAt)}
+                  </p>
+                  {run.score !== null && (
+                    <span
+                      className={`text-sm font-bold ${getScoreColor(run.score)}`}
+                    >
+                      {run.score}
+                    </span>
+                  )}
+                  {run.auditId ? (
+                    <button
+                      onClick={() => onOpenReport(run.auditId!)}
+                      className="text-xs text-orange-600 hover:text-orange-700 underline"
+                    >
+                      Report
+                    </button>
+                  ) : (
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[run.status]}`}
+                    >
+                      {run.status}
+                    </span>
+                  )}
+                </div>
+                <RunSummary run={run} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-fadeIn">
+      {header}
+      <div className="space-y-4">
+        {!monitors ? (
+          <p className="text-center py-4 text-gray-500">Loading monitors...</p>
+        ) : monitors.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            No monitors yet. Add a site below to re-audit it on a schedule and
+            get an alert when its score drops or a new error appears.
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {monitors.map((m) => (
+              <li key={m.id}>
+                <button
+                  onClick={() => onOpenMonitor(m.id)}
+                  className="w-full flex items-center gap-3 p-3 bg-gray-50 rounded-lg text-left hover:bg-orange-50 transition-colors"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-800 truncate">
+                      {m.name || m.url}
+                    </p>
+                    <p className="text-xs text-gray-400 truncate">
+                      {m.enabled
+                        ? `${m.frequency === "daily" ? "Daily" : "Weekly"}, next ${formatDate(m.nextRunAt)}`
+                        : "Paused"}
+                    </p>
+                  </div>
+                  {m.lastRun?.regression && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-600">
+                      📉 regressed
+                    </span>
+                  )}
+                  {m.lastRun?.score != null ? (
+                    <span
+                      className={`text-sm font-bold ${getScoreColor(m.lastRun.score)}`}
+                    >
+                      {m.lastRun.score}
+                    </span>
+                  ) : (
+                    m.lastRun && (
+                      <span
+                        className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[m.lastRun.status]}`}
+                      >
+                        {m.lastRun.status}
+                      </span>
+                    )
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="p-4 border border-gray-200 rounded-xl space-y-2">
+          <h3 className="text-sm font-semibold text-gray-700">Add a monitor</h3>
+          <input
+            value={form.url}
+            onChange={setField("url")}
+            placeholder="Website URL"
+            className={INPUT_CLASS}
+          />
+          <input
+            value={form.name}
+            onChange={setField("name")}
+            placeholder="Name (optional)"
+            className={INPUT_CLASS}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">
+              How often
+              <select
+                value={form.frequency}
+                onChange={setField("frequency")}
+                className={INPUT_CLASS}
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Alert on a drop of more than
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={form.scoreDrop}
+                onChange={setField("scoreDrop")}
+                className={INPUT_CLASS}
+              />
+            </label>
+          </div>
+          <input
+            value={form.webhookUrl}
+            onChange={setField("webhookUrl")}
+            placeholder="Webhook URL (optional)"
+            className={INPUT_CLASS}
+          />
+          <input
+            value={form.email}
+            onChange={setField("email")}
+            placeholder="Alert emails of your team's accounts, comma separated (optional)"
+            className={INPUT_CLASS}
+          />
+          {messages}
+          <button
+            onClick={createMonitor}
+            disabled={!form.url.trim() || busy}
+            className="w-full py-3 bg-orange-500 text-white rounded-xl font-bold hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy ? "Adding..." : "Add monitor"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default Monitors;
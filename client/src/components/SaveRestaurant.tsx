@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { authHeaders } from "../session";
+import type { PlaceListing, SavedRestaurant, Workspace } from "../types";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
+
+type SaveRestaurantProps = {
+  workspaceId: string;
+  name: string;
+  url: string;
+  place?: PlaceListing;
+  onSaved: (restaurant: SavedRestaurant) => void;
+};
+
+const NEW_CLIENT = "new";
+
+const request = async (path: string, init?: RequestInit) => {
+  const res = await fetch(`${API_URL}/workspaces/${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+};
+
+// Save the restaurant picked in the search, with its map listing and
+// website, to one of the workspace's clients
+function SaveRestaurant({
+  workspaceId,
+  name,
+  url,
+  place,
+  onSaved,
+}: SaveRestaurantProps) {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [clientId, setClientId] = useState("");
+  const [clientName, setClientName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    request(encodeURIComponent(workspaceId))
+      .then(setWorkspace)
+      .catch((err) => setError((err as Error).message));
+  }, [workspaceId]);
+
+  const save = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const path = encodeURIComponent(workspaceId);
+      const client =
+        clientId === NEW_CLIENT
+          ? await request(`${path}/clients`, {
+              method: "POST",
+              body: JSON.stringify({ name: clientName }),
+            })
+          : { id: clientId };
+      onSaved(
+        await request(`${path}/restaurants`, {
+          method: "POST",
+          body: JSON.stringify({ clientId: client.id, name, url, place }),
+        }),
+      );
+    } catch (err) {
+      setError(
+        err instanceof TypeError
+          ? "Error connecting to backend server"
+          : (err as Error).message,
+      );
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 rounded-xl">
+      <p className="text-xs font-semibold text-gray-600 mb-2">
+        🏢 Save to {workspace?.name ?? "workspace"}
+      </p>
+      <div className="flex gap-2">
+        <select
+          value={clientId}
+          onChange={(e) => setClientId(e.target.value)}
+          className="flex-1 min-w-0 p-2 bg-white border border-gray-200 rounded-lg text-xs outline-none"
+        >
+          <option value="">Client...</option>
+          {workspace?.clients.map((client) => (
+            <option key={client.id} value={client.id}>
+              {client.name}
+            </option>
+          ))}
+          <option value={NEW_CLIENT}>+ New client</option>
+        </select>
+        {clientId === NEW_CLIENT && (
+          <input
+            value={clientName}
+            onChange={(e) => setClientName(e.target.value)}
+            placeholder="Client name"
+            className="flex-1 min-w-0 p-2 bg-white border border-gray-200 rounded-lg text-xs outline-none"
+          />
+        )}
+        <button
+          onClick={save}
+          disabled={
+            !clientId || (clientId === NEW_CLIENT && !clientName.trim()) || busy
+          }
+          className="px-3 bg-orange-500 text-white rounded-lg text-xs font-bold hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
+
+export default SaveRestaurant;
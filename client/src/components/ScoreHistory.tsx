@@ -0,0 +1,161 @@
+import type { AuditChanges, AuditSummary, Issue } from "../types";
+
+type ScoreHistoryProps = {
+  history: AuditSummary[];
+  changes?: AuditChanges | null;
+  currentId?: string;
+};
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+const CHART_PADDING = 8;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+
+function IssueChangeList({
+  title,
+  issues,
+  tone,
+}: {
+  title: string;
+  issues: Issue[];
+  tone: "fixed" | "introduced";
+}) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="mt-3">
+      <p
+        className={`text-xs font-semibold mb-1 ${tone === "fixed" ? "text-green-700" : "text-red-700"}`}
+      >
+        {title} ({issues.length})
+      </p>
+      <ul className="space-y-1">
+        {issues.map((issue, i) => (
+          <li key={i} className="text-xs text-gray-600 flex items-start gap-2">
+            <span
+              className={tone === "fixed" ? "text-green-500" : "text-red-500"}
+            >
+              {tone === "fixed" ? "✓" : "+"}
+            </span>
+            <span>
+              {issue.text}
+              <span className="text-gray-400"> · {issue.category}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Score trend for every stored audit of the same site, plus what changed
+// since the audit before this one
+function ScoreHistory({ history, changes, currentId }: ScoreHistoryProps) {
+  const points = history.map((audit, i) => ({
+    ...audit,
+    x:
+      history.length === 1
+        ? CHART_WIDTH / 2
+        : CHART_PADDING +
+          (i / (history.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2),
+    y:
+      CHART_PADDING +
+      (1 - audit.score / 100) * (CHART_HEIGHT - CHART_PADDING * 2),
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-gray-50 rounded-xl">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-semibold text-gray-600">
+            📈 Score history
+          </span>
+          <span className="text-xs text-gray-400">
+            {history.length} audit{history.length === 1 ? "" : "s"}
+          </span>
+        </div>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="w-full h-20"
+          role="img"
+          aria-label="Score history chart"
+        >
+          {[0, 50, 100].map((score) => {
+            const y =
+              CHART_PADDING +
+              (1 - score / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+            return (
+              <line
+                key={score}
+                x1={0}
+                x2={CHART_WIDTH}
+                y1={y}
+                y2={y}
+                stroke="#e5e7eb"
+                strokeDasharray="4 4"
+              />
+            );
+          })}
+          <polyline
+            fill="none"
+            stroke="#f97316"
+            strokeWidth={2}
+            points={points.map((p) => `${p.x},${p.y}`).join(" ")}
+          />
+          {points.map((p) => (
+            <circle
+              key={p.id}
+              cx={p.x}
+              cy={p.y}
+              r={p.id === currentId ? 5 : 3}
+              fill={p.id === currentId ? "#ea580c" : "#fdba74"}
+            >
+              <title>
+                {formatDate(p.createdAt)}: {p.score}/100
+              </title>
+            </circle>
+          ))}
+        </svg>
+        <div className="flex justify-between text-xs text-gray-400 mt-1">
+          <span>{formatDate(history[0].createdAt)}</span>
+          {history.length > 1 && (
+            <span>{formatDate(history[history.length - 1].createdAt)}</span>
+          )}
+        </div>
+      </div>
+
+      {changes ? (
+        <div className="p-3 bg-gray-50 rounded-xl">
+          <p className="text-xs font-semibold text-gray-600">
+            🔁 Since previous audit
+            <span className="font-normal text-gray-400">
+              {" "}
+              ({changes.previousScore} → {history[history.length - 1].score})
+            </span>
+          </p>
+          {changes.fixed.length === 0 && changes.introduced.length === 0 && (
+            <p className="text-xs text-gray-400 mt-2">No issues changed</p>
+          )}
+          <IssueChangeList title="Fixed" issues={changes.fixed} tone="fixed" />
+          <IssueChangeList
+            title="New issues"
+            issues={changes.introduced}
+            tone="introduced"
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400 text-center">
+          This is the first audit of this site. Run it again later to track
+          progress.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default ScoreHistory;
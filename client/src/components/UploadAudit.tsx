@@ -0,0 +1,103 @@
+import { useState } from "react";
+import type { UploadRequest } from "../types";
+
+type UploadAuditProps = {
+  onSubmit: (request: UploadRequest) => void;
+  onClose: () => void;
+};
+
+// Grade a site before it's live: paste a page's HTML, or pick a single HTML
+// file or the zipped build (e.g. dist/) of a static site
+function UploadAudit({ onSubmit, onClose }: UploadAuditProps) {
+  const [mode, setMode] = useState<"paste" | "file">("paste");
+  const [html, setHtml] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [url, setUrl] = useState("");
+
+  const submit = () => {
+    const address = url.trim() || undefined;
+    if (mode === "paste") {
+      onSubmit({ body: html, contentType: "text/html", url: address });
+    } else if (file) {
+      onSubmit({
+        body: file,
+        contentType: /\.zip$/i.test(file.name)
+          ? "application/zip"
+          : "text/html",
+        name: file.name,
+        url: address,
+      });
+    }
+  };
+
+  const ready = mode === "paste" ? html.trim() !== "" : file !== null;
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-xl animate-fadeIn space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1 bg-white p-1 rounded-lg border border-gray-200">
+          {(["paste", "file"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${mode === option ? "bg-orange-500 text-white" : "text-gray-500 hover:text-gray-700"}`}
+            >
+              {option === "paste" ? "Paste HTML" : "Upload build"}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onClose}
+          className="text-xs text-gray-500 hover:text-gray-700 underline"
+        >
+          Cancel
+        </button>
+      </div>
+
+      {mode === "paste" ? (
+        <textarea
+          value={html}
+          onChange={(e) => setHtml(e.target.value)}
+          placeholder="<!doctype html>..."
+          rows={8}
+          className="w-full p-3 bg-white border border-gray-200 rounded-xl text-xs font-mono focus:ring-2 focus:ring-orange-500 outline-none"
+        />
+      ) : (
+        <div>
+          <input
+            type="file"
+            accept=".html,.htm,.zip,text/html,application/zip"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="text-xs text-gray-500 file:mr-2 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-orange-50 file:text-orange-600"
+          />
+          <p className="text-xs text-gray-400 mt-2">
+            An HTML file, or a .zip of the site's build; links between its pages
+            are followed inside the archive.
+          </p>
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        placeholder="Launch address, e.g. https://restaurant-website.com (optional)"
+        className="w-full p-3 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 outline-none"
+      />
+      <p className="text-xs text-gray-400">
+        Speed, HTTPS and header checks need the live site and are left out of
+        the score.
+      </p>
+
+      <button
+        onClick={submit}
+        disabled={!ready}
+        className="w-full py-3 bg-orange-500 text-white rounded-xl font-bold hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Grade
+      </button>
+    </div>
+  );
+}
+
+export default UploadAudit;
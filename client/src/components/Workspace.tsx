@@ -0,0 +1,557 @@
+import { useEffect, useState } from "react";
+import { authHeaders, setSessionToken } from "../session";
+import type {
+  SavedRestaurant,
+  Session,
+  Workspace as WorkspaceData,
+} from "../types";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:4000";
+
+type WorkspaceProps = {
+  session: Session | null;
+  workspaceId: string | null;
+  onSessionChange: (session: Session | null) => void;
+  onSelectWorkspace: (id: string) => void;
+  onAuditRestaurant: (restaurant: SavedRestaurant) => void;
+  onOpenReport: (auditId: string) => void;
+  onClose: () => void;
+};
+
+type AccountForm = {
+  name: string;
+  email: string;
+  password: string;
+  workspace: string;
+};
+
+const EMPTY_ACCOUNT: AccountForm = {
+  name: "",
+  email: "",
+  password: "",
+  workspace: "",
+};
+
+const INPUT_CLASS =
+  "w-full p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:bg-white outline-none";
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return "text-green-600";
+  if (score >= 50) return "text-yellow-600";
+  return "text-red-600";
+};
+
+const getPercentageColor = (percentage: number) => {
+  if (percentage >= 70) return "bg-green-100 text-green-700";
+  if (percentage >= 40) return "bg-yellow-100 text-yellow-700";
+  return "bg-red-100 text-red-700";
+};
+
+const request = async (path: string, init?: RequestInit) => {
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+  });
+  const data = res.status === 204 ? null : await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+};
+
+const errorMessage = (err: unknown) =>
+  err instanceof TypeError
+    ? "Error connecting to backend server"
+    : (err as Error).message;
+
+// Load a workspace's dashboard, again whenever `reload` is called
+function useWorkspace(workspaceId: string | null) {
+  const [workspace, setWorkspace] = useState<WorkspaceData | null>(null);
+  const [error, setError] = useState("");
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+    let cancelled = false;
+
+    request(`/workspaces/${encodeURIComponent(workspaceId)}`)
+      .then((data: WorkspaceData) => {
+        if (!cancelled) setWorkspace(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(errorMessage(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, version]);
+
+  return { workspace, error, reload: () => setVersion((v) => v + 1) };
+}
+
+// Sign in, or create an account along with the agency's workspace
+function SignIn({ onSignedIn }: { onSignedIn: (session: Session) => void }) {
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [form, setForm] = useState<AccountForm>(EMPTY_ACCOUNT);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const setField =
+    (field: keyof AccountForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm({ ...form, [field]: e.target.value });
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    try {
+      const data: Session & { token: string } = await request(`/auth/${mode}`, {
+        method: "POST",
+        body: JSON.stringify(
+          mode === "login"
+            ? { email: form.email, password: form.password }
+            : form,
+        ),
+      });
+      setSessionToken(data.token);
+      onSignedIn({ user: data.user, workspaces: data.workspaces });
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+    setBusy(false);
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-2">
+      <p className="text-xs text-gray-500">
+        Sign in to keep your clients' restaurants and their audits in a
+        workspace your team shares.
+      </p>
+      {mode === "register" && (
+        <input
+          value={form.name}
+          onChange={setField("name")}
+          placeholder="Your name"
+          className={INPUT_CLASS}
+        />
+      )}
+      <input
+        type="email"
+        value={form.email}
+        onChange={setField("email")}
+        placeholder="Email"
+        autoComplete="email"
+        className={INPUT_CLASS}
+      />
+      <input
+        type="password"
+        value={form.password}
+        onChange={setField("password")}
+        placeholder={
+          mode === "register" ? "Password (8+ characters)" : "Password"
+        }
+        autoComplete={mode === "register" ? "new-password" : "current-password"}
+        className={INPUT_CLASS}
+      />
+      {mode === "register" && (
+        <input
+          value={form.workspace}
+          onChange={setField("workspace")}
+          placeholder="Agency name (optional)"
+          className={INPUT_CLASS}
+        />
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={!form.email || !form.password || busy}
+        className="w-full py-3 bg-orange-500 text-white rounded-xl font-bold hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {mode === "login" ? "Sign in" : "Create account"}
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          setMode(mode === "login" ? "register" : "login");
+          setError("");
+        }}
+        className="w-full text-xs text-gray-500 hover:text-orange-600 underline"
+      >
+        {mode === "login"
+          ? "New here? Create an account"
+          : "Have an account? Sign in"}
+      </button>
+    </form>
+  );
+}
+
+function RestaurantRow({
+  restaurant,
+  onAudit,
+  onOpenReport,
+  onDelete,
+}: {
+  restaurant: SavedRestaurant;
+  onAudit: () => void;
+  onOpenReport: (auditId: string) => void;
+  onDelete: () => void;
+}) {
+  const audit = restaurant.latestAudit;
+
+  return (
+    <li className="p-3 bg-gray-50 rounded-lg">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-gray-800 truncate">
+            {restaurant.name}
+          </p>
+          <p className="text-xs text-gray-400 truncate">{restaurant.url}</p>
+        </div>
+        {audit ? (
+          <button
+            onClick={() => onOpenReport(audit.id)}
+            className={`text-lg font-bold hover:underline ${getScoreColor(audit.score)}`}
+            title={`Audited ${new Date(audit.createdAt).toLocaleString()}`}
+          >
+            {audit.score}
+          </button>
+        ) : (
+          <span className="text-xs text-gray-400">Not audited</span>
+        )}
+        <button
+          onClick={onAudit}
+          className="text-xs text-orange-600 hover:text-orange-700 underline"
+        >
+          Audit
+        </button>
+        <button
+          onClick={onDelete}
+          className="text-xs text-gray-400 hover:text-red-600"
+          title="Remove restaurant"
+        >
+          🗑️
+        </button>
+      </div>
+      {audit && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {Object.entries(audit.breakdown).map(([category, percentage]) => (
+            <span
+              key={category}
+              className={`text-xs px-1.5 py-0.5 rounded capitalize ${getPercentageColor(percentage)}`}
+            >
+              {category} {percentage}%
+            </span>
+          ))}
+        </div>
+      )}
+    </li>
+  );
+}
+
+// The agency dashboard: clients with their saved restaurants and latest
+// scores, and the team that shares them
+function Workspace({
+  session,
+  workspaceId,
+  onSessionChange,
+  onSelectWorkspace,
+  onAuditRestaurant,
+  onOpenReport,
+  onClose,
+}: WorkspaceProps) {
+  const { workspace, error, reload } = useWorkspace(
+    session ? workspaceId : null,
+  );
+  const [clientName, setClientName] = useState("");
+  const [restaurant, setRestaurant] = useState({
+    clientId: "",
+    name: "",
+    url: "",
+  });
+  const [memberEmail, setMemberEmail] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState("");
+
+  // Run a request and refresh the dashboard, or show why it failed
+  const act = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setActionError("");
+    try {
+      await action();
+      reload();
+    } catch (err) {
+      setActionError(errorMessage(err));
+    }
+    setBusy(false);
+  };
+
+  const path = `/workspaces/${encodeURIComponent(workspaceId ?? "")}`;
+
+  const addClient = () =>
+    act(async () => {
+      await request(`${path}/clients`, {
+        method: "POST",
+        body: JSON.stringify({ name: clientName }),
+      });
+      setClientName("");
+    });
+
+  const deleteClient = (id: string) =>
+    act(() => request(`${path}/clients/${id}`, { method: "DELETE" }));
+
+  const addRestaurant = () =>
+    act(async () => {
+      await request(`${path}/restaurants`, {
+        method: "POST",
+        body: JSON.stringify(restaurant),
+      });
+      setRestaurant({ ...restaurant, name: "", url: "" });
+    });
+
+  const deleteRestaurant = (id: string) =>
+    act(() => request(`${path}/restaurants/${id}`, { method: "DELETE" }));
+
+  const addMember = () =>
+    act(async () => {
+      await request(`${path}/members`, {
+        method: "POST",
+        body: JSON.stringify({ email: memberEmail }),
+      });
+      setMemberEmail("");
+    });
+
+  const removeMember = (userId: string) =>
+    act(async () => {
+      await request(`${path}/members/${userId}`, { method: "DELETE" });
+      // Leaving the workspace
+      if (userId === session?.user.id) {
+        onSessionChange(await request("/auth/me"));
+      }
+    });
+
+  const signOut = async () => {
+    try {
+      await request("/auth/logout", { method: "POST" });
+    } catch {
+      // The session is forgotten here either way
+    }
+    setSessionToken(null);
+    onSessionChange(null);
+  };
+
+  const header = (
+    <div className="flex items-center justify-between mb-4">
+      <h2 className="font-bold text-gray-800">🏢 Workspace</h2>
+      <button
+        onClick={onClose}
+        className="text-sm text-gray-500 hover:text-gray-700 underline"
+      >
+        Back to single audit
+      </button>
+    </div>
+  );
+
+  if (!session) {
+    return (
+      <div className="animate-fadeIn">
+        {header}
+        <SignIn onSignedIn={onSessionChange} />
+      </div>
+    );
+  }
+
+  const clients = workspace?.clients ?? [];
+  const isOwner = workspace?.role === "owner";
+
+  return (
+    <div className="animate-fadeIn">
+      {header}
+      <div className="flex items-center gap-2 mb-4 text-xs text-gray-500">
+        <span className="flex-1 truncate">
+          Signed in as {session.user.name}
+        </span>
+        {session.workspaces.length > 1 && (
+          <select
+            value={workspaceId ?? ""}
+            onChange={(e) => onSelectWorkspace(e.target.value)}
+            className="bg-gray-100 rounded-md px-2 py-1 text-gray-600"
+          >
+            {session.workspaces.map((w) => (
+              <option key={w.id} value={w.id}>
+                {w.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <button onClick={signOut} className="underline hover:text-gray-700">
+          Sign out
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-center py-8 text-red-700 font-medium">{error}</p>
+      ) : !workspace ? (
+        <p className="text-center py-8 text-gray-500">Loading workspace...</p>
+      ) : (
+        <div className="space-y-4">
+          <h3 className="font-semibold text-gray-800">{workspace.name}</h3>
+          {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+
+          {clients.length === 0 && (
+            <p className="text-xs text-gray-500">
+              No clients yet. Add one below, then save the restaurants you audit
+              for them here or from a search result.
+            </p>
+          )}
+          {clients.map((client) => (
+            <div key={client.id}>
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="text-sm font-semibold text-gray-700">
+                  {client.name}
+                </h4>
+                {client.restaurants.length === 0 && (
+                  <button
+                    onClick={() => deleteClient(client.id)}
+                    disabled={busy}
+                    className="text-xs text-gray-400 hover:text-red-600 underline"
+                  >
+                    Delete client
+                  </button>
+                )}
+              </div>
+              {client.restaurants.length === 0 ? (
+                <p className="text-xs text-gray-400">No restaurants saved</p>
+              ) : (
+                <ul className="space-y-2">
+                  {client.restaurants.map((r) => (
+                    <RestaurantRow
+                      key={r.id}
+                      restaurant={r}
+                      onAudit={() => onAuditRestaurant(r)}
+                      onOpenReport={onOpenReport}
+                      onDelete={() => deleteRestaurant(r.id)}
+                    />
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+
+          <div className="p-4 border border-gray-200 rounded-xl space-y-2">
+            <h3 className="text-sm font-semibold text-gray-700">
+              Add a restaurant
+            </h3>
+            <select
+              value={restaurant.clientId}
+              onChange={(e) =>
+                setRestaurant({ ...restaurant, clientId: e.target.value })
+              }
+              className={INPUT_CLASS}
+            >
+              <option value="">Client...</option>
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>
+                  {client.name}
+                </option>
+              ))}
+            </select>
+            <input
+              value={restaurant.name}
+              onChange={(e) =>
+                setRestaurant({ ...restaurant, name: e.target.value })
+              }
+              placeholder="Restaurant name"
+              className={INPUT_CLASS}
+            />
+            <input
+              value={restaurant.url}
+              onChange={(e) =>
+                setRestaurant({ ...restaurant, url: e.target.value })
+              }
+              placeholder="Website URL"
+              className={INPUT_CLASS}
+            />
+            <button
+              onClick={addRestaurant}
+              disabled={
+                !restaurant.clientId ||
+                !restaurant.name.trim() ||
+                !restaurant.url.trim() ||
+                busy
+              }
+              className="w-full py-2 bg-orange-500 text-white rounded-xl text-sm font-bold hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save restaurant
+            </button>
+            <div className="flex gap-2 pt-2">
+              <input
+                value={clientName}
+                onChange={(e) => setClientName(e.target.value)}
+                placeholder="New client name"
+                className={INPUT_CLASS}
+              />
+              <button
+                onClick={addClient}
+                disabled={!clientName.trim() || busy}
+                className="px-4 border-2 border-orange-200 rounded-lg text-orange-600 text-sm font-medium hover:bg-orange-50 hover:border-orange-500 transition-colors disabled:opacity-50"
+              >
+                Add client
+              </button>
+            </div>
+          </div>
+
+          <details className="p-4 border border-gray-200 rounded-xl">
+            <summary className="text-sm font-semibold text-gray-700 cursor-pointer">
+              Team ({workspace.members.length})
+            </summary>
+            <ul className="mt-2 space-y-1">
+              {workspace.members.map((member) => (
+                <li
+                  key={member.id}
+                  className="flex items-center gap-2 text-xs text-gray-600"
+                >
+                  <span className="flex-1 truncate">
+                    {member.name}{" "}
+                    <span className="text-gray-400">{member.email}</span>
+                  </span>
+                  {member.role === "owner" && (
+                    <span className="text-gray-400">owner</span>
+                  )}
+                  {(isOwner || member.id === session.user.id) &&
+                    member.role !== "owner" && (
+                      <button
+                        onClick={() => removeMember(member.id)}
+                        disabled={busy}
+                        className="underline hover:text-red-600"
+                      >
+                        {member.id === session.user.id ? "Leave" : "Remove"}
+                      </button>
+                    )}
+                </li>
+              ))}
+            </ul>
+            {isOwner && (
+              <div className="flex gap-2 mt-2">
+                <input
+                  type="email"
+                  value={memberEmail}
+                  onChange={(e) => setMemberEmail(e.target.value)}
+                  placeholder="Teammate's email (they sign up first)"
+                  className={INPUT_CLASS}
+                />
+                <button
+                  onClick={addMember}
+                  disabled={!memberEmail.trim() || busy}
+                  className="px-4 border-2 border-orange-200 rounded-lg text-orange-600 text-sm font-medium hover:bg-orange-50 hover:border-orange-500 transition-colors disabled:opacity-50"
+                >
+                  Add
+                </button>
+              </div>
+            )}
+          </details>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Workspace;
@@ -0,0 +1,65 @@
+import type { PlaceListing, ScanEvent, ScanPhase, SearchResult } from "./types";
+
+// The search → scan flow shared by the grader page and the embeddable
+// widget
+
+// Restaurants matching `query` on OpenStreetMap, with their website and
+// contact tags
+export const searchPlaces = async (query: string): Promise<SearchResult[]> => {
+  const res = await fetch(
+    `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(query)}&format=json&addressdetails=1&extratags=1&limit=5`,
+  );
+  return res.json();
+};
+
+// What the OpenStreetMap listing says about the restaurant, compared with
+// the website's own name, address, phone and hours
+export const getPlaceListing = (place: SearchResult): PlaceListing => ({
+  source: `osm:${place.osm_type}/${place.osm_id}`,
+  name: place.display_name.split(",")[0],
+  phone: place.extratags?.phone || place.extratags?.["contact:phone"],
+  openingHours: place.extratags?.opening_hours,
+  address: place.address && {
+    houseNumber: place.address.house_number,
+    street: place.address.road,
+    postcode: place.address.postcode,
+    city: place.address.city || place.address.town || place.address.village,
+  },
+  countryCode: place.address?.country_code,
+  cuisine: place.extratags?.cuisine,
+  lat: place.lat,
+  lon: place.lon,
+});
+
+export const PHASE_LABELS: Record<ScanPhase, string> = {
+  fetch: "Fetching website...",
+  grade: "Running checks...",
+  insights: "Generating AI insights...",
+  save: "Saving report...",
+};
+
+// Parse a text/event-stream response, calling `onEvent` for every event
+export const readScanEvents = async (
+  res: Response,
+  onEvent: (event: ScanEvent) => void,
+) => {
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+
+    buffer += value;
+    const frames = buffer.split("\n\n");
+    buffer = frames.pop() ?? "";
+
+    for (const frame of frames) {
+      const event = frame.match(/^event: (.*)$/m)?.[1];
+      const data = frame.match(/^data: (.*)$/m)?.[1];
+      if (event && data) {
+        onEvent({ event, data: JSON.parse(data) } as ScanEvent);
+      }
+    }
+  }
+};
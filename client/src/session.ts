@@ -0,0 +1,27 @@
+// The signed-in user's session token and chosen workspace, kept across
+// reloads. The token goes in the Authorization header of every request
+// that may read a workspace's audits.
+
+const TOKEN_KEY = "grader-session";
+const WORKSPACE_KEY = "grader-workspace";
+
+export const getSessionToken = () => localStorage.getItem(TOKEN_KEY);
+
+export const setSessionToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(WORKSPACE_KEY);
+  }
+};
+
+export const getWorkspaceId = () => localStorage.getItem(WORKSPACE_KEY);
+
+export const setWorkspaceId = (id: string) =>
+  localStorage.setItem(WORKSPACE_KEY, id);
+
+export const authHeaders = (): Record<string, string> => {
+  const token = getSessionToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
@@ -0,0 +1,218 @@
+import type { components } from "./api.gen";
+
+export type SearchResult = {
+  place_id: number;
+  osm_type?: string;
+  osm_id?: number;
+  display_name: string;
+  lat: string;
+  lon: string;
+  address?: {
+    house_number?: string;
+    road?: string;
+    postcode?: string;
+    city?: string;
+    town?: string;
+    village?: string;
+    country_code?: string;
+  };
+  extratags?: {
+    website?: string;
+    cuisine?: string;
+    opening_hours?: string;
+    phone?: string;
+    "contact:phone"?: string;
+  };
+};
+
+// What the server takes and sends, generated from its OpenAPI document
+// (npm run generate:api) so these can't drift from the server
+type Schemas = components["schemas"];
+
+// The map listing sent with POST /grade to compare the website against
+export type PlaceListing = Schemas["PlaceListing"];
+export type WcagCriterion = Schemas["WcagCriterion"];
+export type PlatformGuidance = Schemas["PlatformGuidance"];
+export type IssueType = Schemas["IssueType"];
+// Effort to fix an issue and its impact on the restaurant
+export type Level = Schemas["Level"];
+// The element, file and measured values an issue is about
+export type IssueEvidence = Schemas["IssueEvidence"];
+export type Issue = Schemas["Issue"];
+// Markup generated from the audit to fix a failed check
+export type Fix = Schemas["Fix"];
+export type CrawledPage = Schemas["CrawledPage"];
+export type StructuredDataField = Schemas["StructuredDataField"];
+export type StructuredData = Schemas["StructuredData"];
+export type MenuItem = Schemas["MenuItem"];
+export type MenuPdf = Schemas["MenuPdf"];
+export type MenuSummary = Schemas["MenuSummary"];
+export type StackCategory = Schemas["StackCategory"];
+export type Technology = Schemas["Technology"];
+export type Stack = Schemas["Stack"];
+
+// Opening time ranges per day, e.g. ["11:00-22:00"]; [] means closed and a
+// missing day is unknown
+export type WeeklySchedule = Schemas["WeeklySchedule"];
+export type Weekday = keyof WeeklySchedule;
+
+export type BusinessMismatch = Schemas["BusinessMismatch"];
+export type BusinessDetails = Schemas["BusinessDetails"];
+// The locale pack the site was read with
+export type Locale = Schemas["Locale"];
+export type ResourceType = Schemas["ResourceType"];
+// A file the homepage loads, sized with a HEAD request. `size` is null when
+// it couldn't be sized within the request budget.
+export type PageResource = Schemas["PageResource"];
+export type Redirect = Schemas["Redirect"];
+export type PageWeight = Schemas["PageWeight"];
+// The certificate the server presents; only `error` is set when the
+// server doesn't answer on HTTPS
+export type Certificate = Schemas["Certificate"];
+export type SecurityReport = Schemas["SecurityReport"];
+export type ScoreBreakdown = Schemas["ScoreBreakdown"];
+export type AIInsights = Schemas["AIInsights"];
+export type GradingProfile = Schemas["GradingProfile"];
+export type AuditSummary = Schemas["AuditSummary"];
+export type AuditChanges = Schemas["AuditChanges"];
+
+// A report as streamed while grading; the stored audit adds its id,
+// history and changes once it's saved
+export type ReportData = Schemas["AuditResult"] &
+  Partial<
+    Pick<
+      Schemas["Audit"],
+      | "id"
+      | "createdAt"
+      | "history"
+      | "changes"
+      | "restaurant"
+      | "locked"
+      | "issueCount"
+    >
+  > & {
+    // Set when /grade answered with a recent stored result instead of scanning
+    cached?: boolean;
+    error?: string;
+  };
+
+export type BatchRow = Schemas["BatchRow"];
+export type BatchJob = Schemas["BatchJob"];
+// What got worse since a monitor's previous run
+export type Regression = Schemas["Regression"];
+export type MonitorRun = Schemas["MonitorRun"];
+export type Monitor = Schemas["Monitor"];
+
+export type User = { id: string; email: string; name: string };
+export type WorkspaceRole = "owner" | "member";
+export type WorkspaceSummary = {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+};
+// What /auth/me answers; signing in adds the session token
+export type Session = { user: User; workspaces: WorkspaceSummary[] };
+export type WorkspaceMember = User & { role: WorkspaceRole };
+
+// A restaurant an agency audits for a client: the map listing and website
+// picked in the search
+export type SavedRestaurant = {
+  id: string;
+  clientId: string;
+  name: string;
+  url: string;
+  place: PlaceListing | null;
+  createdAt: string;
+  latestAudit?: AuditSummary | null;
+};
+
+export type Client = {
+  id: string;
+  name: string;
+  notes: string;
+  createdAt: string;
+  restaurants: SavedRestaurant[];
+};
+
+// A workspace's dashboard, as GET /workspaces/:id answers
+export type Workspace = {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  createdAt: string;
+  members: WorkspaceMember[];
+  clients: Client[];
+};
+
+export type ScanPhase = "fetch" | "grade" | "insights" | "save";
+
+export type CategoryResult = ScoreBreakdown & {
+  category: string;
+  issues: Issue[];
+};
+
+// Progress events streamed by POST /grade for text/event-stream clients
+export type ScanEvent =
+  | { event: "phase"; data: { phase: ScanPhase } }
+  | { event: "redirect"; data: { from: string; to: string } }
+  | {
+      event: "crawl";
+      data: {
+        url: string;
+        depth: number;
+        error?: string;
+        crawled: number;
+        maxPages: number;
+      };
+    }
+  | { event: "category"; data: CategoryResult }
+  | { event: "result" | "done"; data: ReportData }
+  | { event: "error"; data: { phase: ScanPhase; error: string } };
+
+// A page or site build sent to POST /grade/upload; `url` is the address the
+// site will be published at
+export type UploadRequest = {
+  body: Blob | string;
+  contentType: "text/html" | "application/zip";
+  name?: string;
+  url?: string;
+};
+
+export type Competitor = {
+  id: string;
+  name: string;
+  website: string;
+  cuisine: string[];
+  distanceKm: number;
+  sameCuisine: boolean;
+};
+
+export type BenchmarkRank = {
+  rank: number;
+  of: number;
+  note: string;
+};
+
+export type BenchmarkSite = {
+  role: "target" | "competitor";
+  name: string;
+  url: string;
+  distanceKm: number | null;
+  auditId?: string;
+  score?: number;
+  breakdown?: Record<string, ScoreBreakdown>;
+  error?: string;
+};
+
+export type BenchmarkResult = {
+  sites: BenchmarkSite[];
+  overall: BenchmarkRank;
+  categories: (BenchmarkRank & { key: string; label: string })[];
+  checks: (BenchmarkRank & {
+    rule: string;
+    title: string;
+    category: string;
+    weight: number;
+    score: number;
+  })[];
+};
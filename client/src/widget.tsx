@@ -0,0 +1,45 @@
+import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import "./index.css";
+import GraderWidget, { type WidgetConfig } from "./components/GraderWidget.tsx";
+
+// Entry point of widget.html, the page public/embed.js puts in an iframe
+// on partner sites. The embed's settings arrive in the query string.
+
+const params = new URLSearchParams(window.location.search);
+
+const httpUrl = (value: string | null) =>
+  value && /^https?:\/\//i.test(value) ? value : null;
+
+const config: WidgetConfig = {
+  apiUrl: (
+    httpUrl(params.get("api")) ??
+    (import.meta.env.VITE_API_URL || "http://localhost:4000")
+  ).replace(/\/+$/, ""),
+  accent: CSS.supports("color", params.get("accent") ?? "")
+    ? params.get("accent")!
+    : "#f97316",
+  logo: httpUrl(params.get("logo")),
+  title: params.get("title") || "How good is your restaurant's website?",
+  gate: params.get("gate") === "true",
+  partner: params.get("partner"),
+  pageUrl: httpUrl(params.get("page")),
+};
+
+// Tell the embedding page how tall the widget is, so its iframe grows
+// with the report instead of scrolling
+new ResizeObserver(() => {
+  window.parent.postMessage(
+    {
+      type: "lionlokal-grader:resize",
+      height: document.documentElement.scrollHeight,
+    },
+    "*",
+  );
+}).observe(document.body);
+
+createRoot(document.getElementById("root")!).render(
+  <StrictMode>
+    <GraderWidget config={config} />
+  </StrictMode>,
+);
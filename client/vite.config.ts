@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  build: {
+    rollupOptions: {
+      // widget.html is the embeddable grader that public/embed.js loads
+      input: { main: 'index.html', widget: 'widget.html' },
+    },
+  },
 })
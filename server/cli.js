@@ -0,0 +1,318 @@
+#!/usr/bin/env node
+const fs = require("fs");
+const path = require("path");
+const { parseArgs } = require("util");
+
+// Grades sites from scripts and CI pipelines with the same code as
+// POST /grade, without storing the audits:
+//
+//   node cli.js https://example-restaurant.com --min-score 70 --fail-on error
+//   node cli.js dist/index.html --url https://example-restaurant.com
+//
+// Exits with 1 when a site misses a threshold and with 2 when a site can't
+// be graded or the arguments are wrong.
+
+// The grading code logs its progress; stdout is kept for the results
+console.log = console.error;
+
+// The address guard keeps a public server's visitors away from internal
+// addresses. Here the user picks what to scan, staging and localhost
+// included; ALLOW_PRIVATE_URLS=false in the environment turns it back on.
+process.env.ALLOW_PRIVATE_URLS ??= "true";
+
+// Load environment variables (check both local and parent directory)
+require("dotenv").config({ quiet: true });
+require("dotenv").config({
+  path: path.resolve(__dirname, "../.env"),
+  quiet: true,
+});
+
+const { reportSite } = require("./lib/pipeline");
+const { loadProfile } = require("./lib/profiles");
+const { CATEGORIES, SEVERITIES, getRules } = require("./lib/rules");
+const { checkThresholds } = require("./lib/thresholds");
+const { readUpload } = require("./lib/upload");
+const { isValidUrl } = require("./lib/urls");
+
+const FORMATS = ["table", "json", "markdown"];
+
+const USAGE = `Usage: node cli.js <url | file.html | build.zip>... [options]
+
+Output
+  -f, --format <format>      ${FORMATS.join(", ")} (default table)
+
+Thresholds (exit code 1 when a site misses one)
+  --min-score <0-100>        Lowest overall score
+  --min-<category> <0-100>   Lowest percentage in a category, e.g.
+                             --min-seo 80 (${Object.keys(CATEGORIES).join(", ")})
+  --fail-on <severity>       Any issue of this severity or worse: ${SEVERITIES.join(", ")}
+  --require-check <rule>     A check that must earn points, e.g.
+                             technical.viewport (repeatable)
+
+Grading
+  --profile <id>             Grading profile (default from GRADING_PROFILE)
+  --max-pages <n>            Pages to crawl per site
+  --max-depth <n>            Link depth to crawl
+  --url <address>            Address HTML files and builds will be published at
+  --no-insights              Skip AI insights
+  -h, --help                 Show this help`;
+
+const OPTIONS = {
+  format: { type: "string", short: "f", default: "table" },
+  "min-score": { type: "string" },
+  ...Object.fromEntries(
+    Object.keys(CATEGORIES).map((key) => [`min-${key}`, { type: "string" }]),
+  ),
+  "fail-on": { type: "string" },
+  "require-check": { type: "string", multiple: true, default: [] },
+  profile: { type: "string" },
+  "max-pages": { type: "string" },
+  "max-depth": { type: "string" },
+  url: { type: "string" },
+  "no-insights": { type: "boolean", default: false },
+  help: { type: "boolean", short: "h", default: false },
+};
+
+function usageError(message) {
+  const error = new Error(message);
+  error.code = "USAGE";
+  return error;
+}
+
+function wholeNumber(name, value, { min, max }) {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw usageError(`--${name} must be a whole number from ${min} to ${max}`);
+  }
+  return number;
+}
+
+// The sites to grade: HTML files and zipped builds on disk are read like
+// POST /grade/upload, anything else must be a URL
+function readInputs(inputs, url) {
+  if (inputs.length === 0) throw usageError("Give at least one URL or file");
+  if (url && !isValidUrl(url)) throw usageError("--url is not a valid URL");
+
+  return inputs.map((input) => {
+    if (fs.existsSync(input) && fs.statSync(input).isFile()) {
+      const source = readUpload(fs.readFileSync(input), {
+        name: path.basename(input),
+        url,
+      });
+      return { input, source };
+    }
+    if (!isValidUrl(input)) {
+      throw usageError(`${input} is neither a file nor a valid URL`);
+    }
+    return { input, source: null };
+  });
+}
+
+function readOptions(values) {
+  if (!FORMATS.includes(values.format)) {
+    throw usageError(`--format must be one of ${FORMATS.join(", ")}`);
+  }
+
+  const profile = loadProfile(values.profile);
+  if (!profile) throw usageError(`Unknown grading profile "${values.profile}"`);
+
+  const failOn = values["fail-on"];
+  if (failOn !== undefined && !SEVERITIES.includes(failOn)) {
+    throw usageError(`--fail-on must be one of ${SEVERITIES.join(", ")}`);
+  }
+
+  const ruleIds = new Set(getRules().map((rule) => rule.id));
+  const unknown = values["require-check"].find((id) => !ruleIds.has(id));
+  if (unknown) throw usageError(`Unknown check "${unknown}"`);
+
+  const percent = { min: 0, max: 100 };
+  const categories = {};
+  for (const key of Object.keys(CATEGORIES)) {
+    const min = wholeNumber(`min-${key}`, values[`min-${key}`], percent);
+    if (min !== undefined) categories[key] = min;
+  }
+
+  return {
+    format: values.format,
+    grading: {
+      profile,
+      maxPages: wholeNumber("max-pages", values["max-pages"], {
+        min: 1,
+        max: 20,
+      }),
+      maxDepth: wholeNumber("max-depth", values["max-depth"], {
+        min: 0,
+        max: 3,
+      }),
+      insights: !values["no-insights"],
+    },
+    thresholds: {
+      minScore: wholeNumber("min-score", values["min-score"], percent),
+      categories,
+      failOn,
+      requireChecks: values["require-check"],
+    },
+  };
+}
+
+async function gradeInputs(sites, { grading, thresholds }) {
+  const results = [];
+  // One at a time, like a batch job's polite queue
+  for (const { input, source } of sites) {
+    try {
+      const report = await reportSite(input, {
+        ...grading,
+        ...(source && { source }),
+      });
+      const failures = checkThresholds(report, thresholds);
+      results.push({ input, passed: failures.length === 0, failures, report });
+    } catch (error) {
+      results.push({
+        input,
+        passed: false,
+        failures: [],
+        error: `Could not grade: ${error.message} (during the ${error.phase} step)`,
+      });
+    }
+  }
+  return results;
+}
+
+const COLUMNS = [
+  { header: "Site", cell: (result) => result.input },
+  { header: "Score", cell: (result) => result.report?.score },
+  ...Object.entries(CATEGORIES).map(([key, { label }]) => ({
+    header: label,
+    cell: (result) => {
+      const percentage = result.report?.breakdown?.[key]?.percentage;
+      return percentage === undefined ? undefined : `${percentage}%`;
+    },
+  })),
+  {
+    header: "Errors",
+    cell: (result) =>
+      result.report?.issues.filter((issue) => issue.type === "error").length,
+  },
+  {
+    header: "Warnings",
+    cell: (result) =>
+      result.report?.issues.filter((issue) => issue.type === "warning").length,
+  },
+  {
+    header: "Result",
+    cell: (result) =>
+      result.error ? "error" : result.passed ? "pass" : "FAIL",
+  },
+];
+
+function rows(results) {
+  return [
+    COLUMNS.map((column) => column.header),
+    ...results.map((result) =>
+      COLUMNS.map((column) => String(column.cell(result) ?? "-")),
+    ),
+  ];
+}
+
+function problems(result) {
+  return result.error ? [result.error] : result.failures.map((f) => f.message);
+}
+
+function summary(results) {
+  const passed = results.filter((result) => result.passed).length;
+  return `${passed} of ${results.length} site${results.length === 1 ? "" : "s"} passed`;
+}
+
+function formatTable(results) {
+  const table = rows(results);
+  const widths = table[0].map((_, i) =>
+    Math.max(...table.map((row) => row[i].length)),
+  );
+  const lines = table.map((row) =>
+    row
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd(),
+  );
+
+  for (const result of results.filter((result) => !result.passed)) {
+    lines.push("", `✗ ${result.input}`);
+    lines.push(...problems(result).map((problem) => `  - ${problem}`));
+  }
+  lines.push("", summary(results));
+  return lines.join("\n");
+}
+
+// GitHub-flavored Markdown, e.g. for a pull request comment
+function formatMarkdown(results) {
+  const escape = (cell) => cell.replace(/\|/g, "\\|");
+  const [header, ...body] = rows(results);
+  const lines = [
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...body.map((row) => `| ${row.map(escape).join(" | ")} |`),
+  ];
+
+  for (const result of results.filter((result) => !result.passed)) {
+    lines.push("", `**${result.error ? "⚠️" : "❌"} ${result.input}**`, "");
+    lines.push(...problems(result).map((problem) => `- ${problem}`));
+  }
+  lines.push("", summary(results));
+  return lines.join("\n");
+}
+
+function formatJson(results) {
+  return JSON.stringify(
+    {
+      passed: results.every((result) => result.passed),
+      sites: results,
+    },
+    null,
+    2,
+  );
+}
+
+const FORMATTERS = {
+  table: formatTable,
+  json: formatJson,
+  markdown: formatMarkdown,
+};
+
+async function main() {
+  let options;
+  let sites;
+  try {
+    const { values, positionals } = parseArgs({
+      options: OPTIONS,
+      allowPositionals: true,
+    });
+    if (values.help) {
+      process.stdout.write(`${USAGE}\n`);
+      return 0;
+    }
+    options = readOptions(values);
+    sites = readInputs(positionals, values.url);
+  } catch (error) {
+    // parseArgs and readUpload fail with codes of their own
+    if (!error.code) throw error;
+    console.error(`❌ ${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const results = await gradeInputs(sites, options);
+  process.stdout.write(`${FORMATTERS[options.format](results)}\n`);
+
+  if (results.some((result) => result.error)) return 2;
+  return results.every((result) => result.passed) ? 0 : 1;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error("❌", error);
+    process.exitCode = 2;
+  },
+);
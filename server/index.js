@@ -1,565 +1,321 @@
-const express = require("express");
-const cors = require("cors");
-const axios = require("axios");
-const cheerio = require("cheerio");
-const https = require("https");
-const { GoogleGenerativeAI } = require("@google/generative-ai");
 const path = require("path");
 
 // Load environment variables (check both local and parent directory)
 require("dotenv").config();
 require("dotenv").config({ path: path.resolve(__dirname, "../.env") });
 
-const app = express();
-app.use(express.json());
-app.use(cors());
-
-// Debug: Log API key status
-console.log(
-  "🔑 GEMINI_API_KEY:",
-  process.env.GEMINI_API_KEY
-    ? `Found (${process.env.GEMINI_API_KEY.substring(0, 10)}...)`
-    : "NOT FOUND",
-);
-
-// Initialize Gemini (optional - works without it)
-let genAI = null;
-try {
-  if (process.env.GEMINI_API_KEY) {
-    genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    console.log("✅ Gemini AI initialized successfully");
-  } else {
-    console.log("⚠️ No GEMINI_API_KEY found - AI insights disabled");
-  }
-} catch (error) {
-  console.error("❌ Failed to initialize Gemini:", error.message);
+const express = require("express");
+const cors = require("cors");
+const { assertPublicUrl } = require("./lib/addressGuard");
+const { getAudit, listAudits, lockReport } = require("./lib/audits");
+const { loadUser } = require("./lib/auth");
+const { resumeBatchJobs } = require("./lib/batch");
+const { gradeCache, gradeCacheKey } = require("./lib/cache");
+const { describeProviders } = require("./lib/insights");
+const { getProviders, getUsage } = require("./lib/llm");
+const { auditSite } = require("./lib/pipeline");
+const { getApiKeys } = require("./lib/api/keys");
+const { startMonitors } = require("./lib/monitors");
+const { describeRules, loadProfile } = require("./lib/profiles");
+const { rejectIfLimited } = require("./lib/rateLimit");
+const { renderReportFile } = require("./lib/reports");
+const { openEventStream } = require("./lib/sse");
+const { isValidUrl, withProtocol } = require("./lib/urls");
+const { findRestaurantForUser } = require("./lib/workspaces");
+const { apiRouter } = require("./routes/api");
+const authRoutes = require("./routes/auth");
+const batchRoutes = require("./routes/batch");
+const benchmarkRoutes = require("./routes/benchmark");
+const leadRoutes = require("./routes/leads");
+const monitorRoutes = require("./routes/monitors");
+const uploadRoutes = require("./routes/upload");
+const workspaceRoutes = require("./routes/workspaces");
+
+// Scan failures caused by the URL itself rather than by the server
+const SCAN_ERROR_STATUS = {
+  BLOCKED_ADDRESS: 400,
+  NOT_HTML: 422,
+  TOO_LARGE: 422,
+};
+
+// What a gated widget scan sees of its progress events: the categories
+// and the result without their issues, as the stored audit is locked
+function lockEvent(event, data) {
+  if (event === "category") return { ...data, issues: [] };
+  if (event === "result") return lockReport(data);
+  return data;
 }
 
-// Validation helper
-function isValidUrl(string) {
-  try {
-    new URL(string.startsWith("http") ? string : `https://${string}`);
-    return true;
-  } catch (_) {
-    return false;
-  }
+// "true", a hop count or an address list, as Express's "trust proxy" takes
+function trustProxy(value) {
+  if (value === "true") return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
 }
 
-// AI-powered insights generator using Gemini
-async function generateAIInsights(websiteData, issues) {
-  if (!genAI) {
-    console.log("⚠️ Skipping AI insights - Gemini not initialized");
-    return null;
-  }
-
-  // Models to try - gemini-2.5-flash works based on your test!
-  const modelNames = [
-    "gemini-2.5-flash",
-    "gemini-2.0-flash",
-    "gemini-1.5-flash-latest",
-    "gemini-pro",
-  ];
-
-  const prompt = `You are a restaurant marketing expert. Analyze this restaurant website audit and provide actionable insights.
-
-Website: ${websiteData.title} (${websiteData.url})
-Score: ${websiteData.score}/100
-Load Time: ${websiteData.loadTime}ms
-
-Issues Found:
-${issues.map((i) => `- [${i.type.toUpperCase()}] ${i.text} (${i.category})`).join("\n")}
-
-Provide a JSON response with ONLY these fields (no markdown, no code blocks, just raw JSON):
-{
-  "summary": "A 2-sentence summary of the website's online presence",
-  "topPriority": "The single most important thing to fix and why (1-2 sentences)",
-  "quickWins": ["Easy fix 1", "Easy fix 2", "Easy fix 3"],
-  "competitorTip": "One tip about what successful restaurants do differently",
-  "estimatedImpact": "20-30%"
+const app = express();
+// Behind a reverse proxy, rate limits need the client's address from
+// X-Forwarded-For rather than the proxy's
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", trustProxy(process.env.TRUST_PROXY));
 }
+// CORS_ORIGINS limits which sites may call the API from a browser; any
+// origin is allowed when it isn't set
+app.use(
+  cors(
+    process.env.CORS_ORIGINS
+      ? { origin: process.env.CORS_ORIGINS.split(",").map((o) => o.trim()) }
+      : {},
+  ),
+);
+app.use("/api/v1", apiRouter);
+app.use(express.json());
+// Sets req.user from the session token, if there is one
+app.use(loadUser);
 
-Respond ONLY with valid JSON. No explanation, no markdown.`;
-
-  for (const modelName of modelNames) {
-    try {
-      console.log(`🤖 Trying model: ${modelName}...`);
-      const model = genAI.getGenerativeModel({ model: modelName });
-
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      let text = response.text();
-
-      console.log("📝 Raw AI response:", text.substring(0, 200) + "...");
-
-      // Clean up response - remove markdown code blocks if present
-      text = text
-        .replace(/```json\n?/g, "")
-        .replace(/```\n?/g, "")
-        .trim();
-
-      const parsed = JSON.parse(text);
-      console.log(`✅ AI insights generated successfully using ${modelName}`);
-      return parsed;
-    } catch (error) {
-      console.log(
-        `   ❌ ${modelName} failed: ${error.message.substring(0, 100)}`,
-      );
-      // Continue to next model - don't return null here!
-      continue;
-    }
-  }
-
-  console.error("❌ All Gemini models failed");
-  return null;
-}
+app.use("/auth", authRoutes);
+app.use("/workspaces", workspaceRoutes);
+app.use("/grade/batch", batchRoutes);
+app.use("/grade/upload", uploadRoutes);
+app.use(benchmarkRoutes);
+app.use("/monitors", monitorRoutes);
+app.use("/leads", leadRoutes);
 
-// Grading function
-function gradeWebsite($, bodyText, url, loadTime) {
-  const results = {
-    seo: { score: 0, maxScore: 30, issues: [] },
-    content: { score: 0, maxScore: 25, issues: [] },
-    usability: { score: 0, maxScore: 25, issues: [] },
-    technical: { score: 0, maxScore: 20, issues: [] },
-  };
+app.post("/grade", async (req, res) => {
+  const { url, maxPages, maxDepth, place } = req.body;
 
-  // ===== SEO CHECKS (30 points) =====
-  const description = $('meta[name="description"]').attr("content") || "";
-  const title = $("title").text() || "";
-  const h1Count = $("h1").length;
-  const hasCanonical = $('link[rel="canonical"]').length > 0;
-  const hasOgTags = $('meta[property="og:title"]').length > 0;
-
-  if (title.length >= 30 && title.length <= 60) {
-    results.seo.score += 8;
-  } else if (title.length > 0) {
-    results.seo.score += 4;
-    results.seo.issues.push({
-      type: "warning",
-      text: `Title length (${title.length} chars) should be 30-60 characters`,
-    });
-  } else {
-    results.seo.issues.push({ type: "error", text: "Missing page title" });
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "URL is required" });
   }
 
-  if (description.length >= 120 && description.length <= 160) {
-    results.seo.score += 8;
-  } else if (description.length > 0) {
-    results.seo.score += 4;
-    results.seo.issues.push({
-      type: "warning",
-      text: `Meta description (${description.length} chars) should be 120-160 characters`,
-    });
-  } else {
-    results.seo.issues.push({
-      type: "error",
-      text: "Missing meta description - hurts Google rankings",
-    });
+  if (!isValidUrl(url)) {
+    return res.status(400).json({ error: "Invalid URL format" });
   }
 
-  if (h1Count === 1) {
-    results.seo.score += 6;
-  } else if (h1Count === 0) {
-    results.seo.issues.push({ type: "error", text: "Missing H1 heading" });
-  } else {
-    results.seo.score += 3;
-    results.seo.issues.push({
-      type: "warning",
-      text: `Multiple H1 tags found (${h1Count}) - should have exactly 1`,
-    });
+  // The map listing picked in the search box, compared with the website's
+  // name, address, phone and opening hours
+  if (
+    place !== undefined &&
+    (typeof place !== "object" || Array.isArray(place))
+  ) {
+    return res.status(400).json({ error: "place must be an object" });
   }
 
-  if (hasCanonical) {
-    results.seo.score += 4;
-  } else {
-    results.seo.issues.push({ type: "info", text: "No canonical URL set" });
+  const profile = loadProfile(req.body.profile);
+  if (!profile) {
+    return res.status(400).json({ error: "Unknown grading profile" });
   }
 
-  if (hasOgTags) {
-    results.seo.score += 4;
-  } else {
-    results.seo.issues.push({
-      type: "warning",
-      text: "Missing Open Graph tags - social sharing won't look good",
-    });
+  // Audits of a workspace's saved restaurant are stored with it, so only
+  // its members can read them, and always scan the site again
+  let restaurant = null;
+  if (req.body.restaurantId !== undefined) {
+    if (!req.user) {
+      return res
+        .status(401)
+        .json({ error: "Sign in to audit a saved restaurant" });
+    }
+    restaurant = findRestaurantForUser(req.body.restaurantId, req.user.id);
+    if (!restaurant) {
+      return res.status(404).json({ error: "Restaurant not found" });
+    }
   }
+  const viewer = { userId: req.user?.id };
 
-  // ===== CONTENT CHECKS (25 points) =====
-  const hasPdf = $('a[href$=".pdf"]').length > 0;
-  const hasMenu =
-    bodyText.includes("menu") ||
-    $('a[href*="menu"]').length > 0 ||
-    $('img[alt*="menu"]').length > 0;
-  const hasHours =
-    bodyText.includes("hours") ||
-    bodyText.includes("open") ||
-    bodyText.includes("am") ||
-    bodyText.includes("pm");
-  const hasAddress =
-    bodyText.includes("address") ||
-    bodyText.includes("location") ||
-    bodyText.includes("street");
-  const hasPhone =
-    /(\+?1?[-.\s]?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4})/.test(bodyText) ||
-    $('a[href^="tel:"]').length > 0;
-  const imageCount = $("img").length;
-  const imagesWithAlt = $("img[alt]").filter((_, el) =>
-    $(el).attr("alt")?.trim(),
-  ).length;
-
-  if (hasPdf) {
-    results.content.score += 2;
-    results.content.issues.push({
-      type: "error",
-      text: "PDF menu detected - hard for Google to read, bad on mobile",
-    });
-  } else if (hasMenu) {
-    results.content.score += 8;
-  } else {
-    results.content.issues.push({
-      type: "warning",
-      text: "No menu found on homepage",
-    });
-  }
+  // The widget's lead form: the audit is stored locked and only shown in
+  // full by POST /leads once the visitor has left their contact details
+  const gated = req.body.gate === true && !restaurant;
 
-  if (hasHours) {
-    results.content.score += 5;
-  } else {
-    results.content.issues.push({
-      type: "error",
-      text: "Business hours not found - customers need this!",
-    });
+  try {
+    await assertPublicUrl(withProtocol(url));
+  } catch (error) {
+    // Unresolvable hosts are left to fail in the crawl with its message
+    if (error.code === "BLOCKED_ADDRESS") {
+      return res
+        .status(400)
+        .json({ error: `Cannot scan this URL: ${error.message}` });
+    }
   }
 
-  if (hasAddress) {
-    results.content.score += 4;
-  } else {
-    results.content.issues.push({
-      type: "warning",
-      text: "Address/location not clearly visible",
-    });
+  const wantsStream =
+    req.accepts(["json", "text/event-stream"]) === "text/event-stream";
+
+  // A recent result for the same site and options is returned as is;
+  // ?refresh=1 scans again. Gated scans neither use nor fill the cache, as
+  // its audits are open to anyone with the id.
+  const cacheKey = gradeCacheKey(url, { profile, maxPages, maxDepth, place });
+  const cachedId =
+    req.query.refresh === "1" || restaurant || gated
+      ? null
+      : gradeCache.get(cacheKey);
+  const cached = cachedId && getAudit(cachedId);
+  if (cached) {
+    res.set("X-Cache", "HIT");
+    if (wantsStream) {
+      const stream = openEventStream(res);
+      stream.send("done", { ...cached, cached: true });
+      return stream.close();
+    }
+    return res.json({ ...cached, cached: true });
   }
 
-  if (hasPhone) {
-    results.content.score += 4;
-  } else {
-    results.content.issues.push({
-      type: "warning",
-      text: "Phone number not found",
-    });
-  }
+  if (rejectIfLimited(req, res)) return;
+  const options = {
+    profile,
+    maxPages,
+    maxDepth,
+    // A saved restaurant is compared with the listing it was saved with
+    place: place ?? restaurant?.place ?? undefined,
+    refresh: req.query.refresh === "1",
+    restaurant,
+    gated,
+  };
+  const cacheable = !restaurant && !gated;
 
-  if (imageCount >= 5) {
-    results.content.score += 4;
-    if (imagesWithAlt / imageCount < 0.5) {
-      results.content.issues.push({
-        type: "warning",
-        text: `Only ${Math.round((imagesWithAlt / imageCount) * 100)}% of images have alt text`,
+  // Clients asking for text/event-stream get progress events as the audit
+  // runs, ending with "done" (the stored audit) or "error"
+  if (wantsStream) {
+    const stream = openEventStream(res);
+    try {
+      const { id } = await auditSite(url, {
+        ...options,
+        onProgress: gated
+          ? (event, data) => stream.send(event, lockEvent(event, data))
+          : stream.send,
+      });
+      if (cacheable) gradeCache.set(cacheKey, id);
+      stream.send("done", getAudit(id, viewer));
+    } catch (error) {
+      console.error(`❌ Error during ${error.phase}:`, error.message);
+      stream.send("error", {
+        phase: error.phase,
+        error: `Could not scan site: ${error.message}`,
       });
     }
-  } else {
-    results.content.issues.push({
-      type: "info",
-      text: "Consider adding more food photos",
-    });
-  }
-
-  // ===== USABILITY CHECKS (25 points) =====
-  const hasOrdering =
-    bodyText.includes("order online") ||
-    bodyText.includes("order now") ||
-    $('a[href*="order"]').length > 0 ||
-    $('a[href*="doordash"]').length > 0 ||
-    $('a[href*="ubereats"]').length > 0 ||
-    $('a[href*="grubhub"]').length > 0;
-  const hasReservation =
-    bodyText.includes("reserv") ||
-    bodyText.includes("book a table") ||
-    $('a[href*="opentable"]').length > 0 ||
-    $('a[href*="resy"]').length > 0;
-  const hasSocialLinks =
-    $('a[href*="facebook.com"]').length > 0 ||
-    $('a[href*="instagram.com"]').length > 0 ||
-    $('a[href*="twitter.com"]').length > 0 ||
-    $('a[href*="tiktok.com"]').length > 0;
-  const hasClickablePhone = $('a[href^="tel:"]').length > 0;
-  const hasGoogleMaps =
-    $('iframe[src*="google.com/maps"]').length > 0 ||
-    $('a[href*="maps.google"]').length > 0 ||
-    $('a[href*="goo.gl/maps"]').length > 0;
-
-  if (hasOrdering) {
-    results.usability.score += 8;
-  } else {
-    results.usability.issues.push({
-      type: "error",
-      text: "No online ordering option found - you're losing sales!",
-    });
-  }
-
-  if (hasReservation) {
-    results.usability.score += 5;
-  } else {
-    results.usability.issues.push({
-      type: "info",
-      text: "No reservation system detected",
-    });
+    return stream.close();
   }
 
-  if (hasSocialLinks) {
-    results.usability.score += 4;
-  } else {
-    results.usability.issues.push({
-      type: "warning",
-      text: "No social media links found",
-    });
-  }
-
-  if (hasClickablePhone) {
-    results.usability.score += 4;
-  } else if (hasPhone) {
-    results.usability.issues.push({
-      type: "warning",
-      text: "Phone number not clickable on mobile",
+  try {
+    const { id } = await auditSite(url, options);
+    if (cacheable) gradeCache.set(cacheKey, id);
+    res.set("X-Cache", "MISS").json(getAudit(id, viewer));
+  } catch (error) {
+    console.error(`❌ Error during ${error.phase}:`, error.message);
+    res.status(SCAN_ERROR_STATUS[error.code] || 500).json({
+      error: `Could not scan site: ${error.message}`,
+      phase: error.phase,
     });
   }
+});
 
-  if (hasGoogleMaps) {
-    results.usability.score += 4;
-  } else {
-    results.usability.issues.push({
-      type: "info",
-      text: "Consider embedding Google Maps",
-    });
+// Public audit history for a site (?url=...), oldest first. A saved
+// restaurant's audits are listed with it under /workspaces.
+app.get("/audits", (req, res) => {
+  const { url } = req.query;
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "URL is required" });
   }
 
-  // ===== TECHNICAL CHECKS (20 points) =====
-  const hasViewport = $('meta[name="viewport"]').length > 0;
-  const hasHttps = url.startsWith("https");
-  const hasFavicon =
-    $('link[rel="icon"]').length > 0 ||
-    $('link[rel="shortcut icon"]').length > 0;
-  const hasStructuredData = $('script[type="application/ld+json"]').length > 0;
-
-  if (hasViewport) {
-    results.technical.score += 6;
-  } else {
-    results.technical.issues.push({
-      type: "error",
-      text: "Not mobile-friendly - missing viewport meta tag",
-    });
-  }
+  res.json({ audits: listAudits(url) });
+});
 
-  if (hasHttps) {
-    results.technical.score += 5;
-  } else {
-    results.technical.issues.push({
-      type: "error",
-      text: "Site not secure (no HTTPS) - Google penalizes this",
-    });
+// A stored audit, used by the shareable /report/:id page. Audits of a saved
+// restaurant are only found for members of its workspace.
+app.get("/audits/:id", (req, res) => {
+  const audit = getAudit(req.params.id, { userId: req.user?.id });
+  if (!audit) {
+    return res.status(404).json({ error: "Audit not found" });
   }
 
-  if (hasFavicon) {
-    results.technical.score += 3;
-  } else {
-    results.technical.issues.push({ type: "info", text: "Missing favicon" });
-  }
+  res.json(audit);
+});
 
-  if (hasStructuredData) {
-    results.technical.score += 6;
-  } else {
-    results.technical.issues.push({
-      type: "warning",
-      text: "No structured data (Schema.org) - missing rich snippets in Google",
-    });
+// Branded report for a stored audit as a PDF (default) or standalone HTML
+// file (?format=html). A locked widget audit has no issues to list, and a
+// report without them would read as a clean bill of health.
+app.get("/audits/:id/report", async (req, res) => {
+  const audit = getAudit(req.params.id, { userId: req.user?.id });
+  if (!audit) {
+    return res.status(404).json({ error: "Audit not found" });
   }
-
-  if (loadTime && loadTime < 2000) {
-    results.technical.score += 2;
-  } else if (loadTime && loadTime > 5000) {
-    results.technical.issues.push({
-      type: "warning",
-      text: `Slow load time (${(loadTime / 1000).toFixed(1)}s) - aim for under 3 seconds`,
-    });
+  if (audit.locked) {
+    return res
+      .status(403)
+      .json({ error: "The report opens once the widget's form is sent" });
   }
 
-  // Calculate total score
-  const totalScore =
-    results.seo.score +
-    results.content.score +
-    results.usability.score +
-    results.technical.score;
-
-  const maxScore =
-    results.seo.maxScore +
-    results.content.maxScore +
-    results.usability.maxScore +
-    results.technical.maxScore;
-
-  // Collect all issues
-  const allIssues = [
-    ...results.seo.issues.map((i) => ({ ...i, category: "SEO" })),
-    ...results.content.issues.map((i) => ({ ...i, category: "Content" })),
-    ...results.usability.issues.map((i) => ({ ...i, category: "Usability" })),
-    ...results.technical.issues.map((i) => ({ ...i, category: "Technical" })),
-  ];
-
-  // Sort: errors first, then warnings, then info
-  const priority = { error: 0, warning: 1, info: 2 };
-  allIssues.sort((a, b) => priority[a.type] - priority[b.type]);
-
-  return {
-    score: Math.round((totalScore / maxScore) * 100),
-    breakdown: {
-      seo: {
-        score: results.seo.score,
-        maxScore: results.seo.maxScore,
-        percentage: Math.round(
-          (results.seo.score / results.seo.maxScore) * 100,
-        ),
-      },
-      content: {
-        score: results.content.score,
-        maxScore: results.content.maxScore,
-        percentage: Math.round(
-          (results.content.score / results.content.maxScore) * 100,
-        ),
-      },
-      usability: {
-        score: results.usability.score,
-        maxScore: results.usability.maxScore,
-        percentage: Math.round(
-          (results.usability.score / results.usability.maxScore) * 100,
-        ),
-      },
-      technical: {
-        score: results.technical.score,
-        maxScore: results.technical.maxScore,
-        percentage: Math.round(
-          (results.technical.score / results.technical.maxScore) * 100,
-        ),
-      },
-    },
-    issues: allIssues,
-  };
-}
-
-app.post("/grade", async (req, res) => {
-  let { url } = req.body;
-
-  if (!url || typeof url !== "string") {
-    return res.status(400).json({ error: "URL is required" });
-  }
-
-  if (!isValidUrl(url)) {
-    return res.status(400).json({ error: "Invalid URL format" });
+  try {
+    const file = await renderReportFile(audit, req.query.format);
+    res.attachment(file.filename).type(file.type).send(file.body);
+  } catch (error) {
+    console.error("❌ Report error:", error.message);
+    res.status(500).json({ error: "Could not render report" });
   }
+});
 
-  console.log(`\n🔎 Scanning: ${url}`);
-
-  if (!url.startsWith("http")) {
-    url = "https://" + url;
+// Active grading rules for a profile (?profile=id, default from env)
+app.get("/rules", (req, res) => {
+  const profile = loadProfile(req.query.profile);
+  if (!profile) {
+    return res.status(400).json({ error: "Unknown grading profile" });
   }
 
-  try {
-    const agent = new https.Agent({ rejectUnauthorized: false });
-    const startTime = Date.now();
-
-    const response = await axios.get(url, {
-      httpsAgent: agent,
-      timeout: 15000,
-      maxRedirects: 5,
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-        Accept:
-          "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.5",
-      },
-    });
-
-    const loadTime = Date.now() - startTime;
-    const html = response.data;
-    const $ = cheerio.load(html);
-    const title = $("title").text();
-    const bodyText = $("body").text().toLowerCase();
-
-    const { score, breakdown, issues } = gradeWebsite(
-      $,
-      bodyText,
-      url,
-      loadTime,
-    );
-
-    // Generate AI insights
-    const websiteData = { url, title: title.substring(0, 60), score, loadTime };
-    const aiInsights = await generateAIInsights(websiteData, issues);
-
-    console.log(
-      `✅ Success! Score: ${score}${aiInsights ? " (with AI insights)" : " (no AI insights)"}`,
-    );
-
-    res.json({
-      url,
-      score,
-      breakdown,
-      issues,
-      title: title.substring(0, 60) + (title.length > 60 ? "..." : ""),
-      loadTime,
-      aiInsights,
-    });
-  } catch (error) {
-    console.error("❌ Error:", error.message);
-    res.status(500).json({ error: `Could not scan site: ${error.message}` });
-  }
+  res.json(describeRules(profile));
 });
 
-// Test endpoint for AI
+// Test endpoint for AI: tries each configured model in order until one
+// answers, and reports token usage since the server started
 app.get("/test-ai", async (req, res) => {
-  if (!genAI) {
+  const providers = getProviders();
+  if (providers.length === 0) {
     return res.json({
       status: "error",
-      message: "Gemini not initialized",
-      apiKeyFound: !!process.env.GEMINI_API_KEY,
+      message: "No LLM provider configured",
+      providers: (process.env.LLM_PROVIDERS || "gemini,openai").split(","),
     });
   }
 
-  const modelNames = [
-    "gemini-2.5-flash",
-    "gemini-2.0-flash",
-    "gemini-1.5-flash-latest",
-    "gemini-pro",
-  ];
-
   const results = [];
 
-  for (const modelName of modelNames) {
-    try {
-      const model = genAI.getGenerativeModel({ model: modelName });
-      const result = await model.generateContent(
-        'Say "Hello" in JSON: {"message": "Hello"}',
-      );
-      const text = result.response.text();
-      results.push({
-        model: modelName,
-        status: "success",
-        response: text.substring(0, 100),
-      });
-      break; // Stop after first success
-    } catch (error) {
-      results.push({
-        model: modelName,
-        status: "error",
-        message: error.message.substring(0, 100),
-      });
+  for (const { name, provider, models } of providers) {
+    for (const model of models) {
+      try {
+        const { text, usage } = await provider.generate({
+          model,
+          prompt: 'Say "Hello" in JSON: {"message": "Hello"}',
+          maxTokens: 50,
+        });
+        results.push({
+          provider: name,
+          model,
+          status: "success",
+          response: text.substring(0, 100),
+          usage,
+        });
+        return res.json({ results, usage: getUsage() });
+      } catch (error) {
+        results.push({
+          provider: name,
+          model,
+          status: "error",
+          message: error.message.substring(0, 100),
+        });
+      }
     }
   }
 
-  res.json({ results });
+  res.json({ results, usage: getUsage() });
 });
 
 const PORT = process.env.PORT || 4000;
 app.listen(PORT, () => {
   console.log(`\n🚀 Server running on port ${PORT}`);
-  console.log(`🤖 Gemini AI: ${genAI ? "Enabled" : "Disabled (no API key)"}`);
+  console.log(
+    `🤖 AI insights: ${describeProviders() || "Disabled (no provider)"}`,
+  );
+  console.log(
+    `🔑 API v1: ${getApiKeys().length} key(s), spec at http://localhost:${PORT}/api/v1/openapi.json`,
+  );
   console.log(`🧪 Test AI at: http://localhost:${PORT}/test-ai\n`);
+  resumeBatchJobs();
+  startMonitors();
 });
@@ -0,0 +1,364 @@
+// Static accessibility checks on the crawled HTML. Only what can be decided
+// without a browser is checked: no computed styles, scripts or focus order.
+
+// WCAG 2.1 success criteria the accessibility rules report against
+const WCAG_CRITERIA = {
+  "1.3.1": { name: "Info and Relationships", level: "A" },
+  "1.4.2": { name: "Audio Control", level: "A" },
+  "1.4.3": { name: "Contrast (Minimum)", level: "AA" },
+  "2.2.2": { name: "Pause, Stop, Hide", level: "A" },
+  "2.4.1": { name: "Bypass Blocks", level: "A" },
+  "2.4.4": { name: "Link Purpose (In Context)", level: "A" },
+  "3.1.1": { name: "Language of Page", level: "A" },
+  "4.1.1": { name: "Parsing", level: "A" },
+  "4.1.2": { name: "Name, Role, Value", level: "A" },
+};
+
+// Issue payload for a success criterion, e.g. wcag("1.3.1")
+function wcag(criterion) {
+  const { name, level } = WCAG_CRITERIA[criterion];
+  const slug = name.toLowerCase().replace(/[(),]/g, "").replace(/\s+/g, "-");
+  return {
+    criterion,
+    name,
+    level,
+    url: `https://www.w3.org/WAI/WCAG21/Understanding/${slug}.html`,
+  };
+}
+
+// Examples quoted in issue texts
+const MAX_EXAMPLES = 3;
+
+const NAMED_COLORS = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  silver: [192, 192, 192],
+  red: [255, 0, 0],
+  maroon: [128, 0, 0],
+  orange: [255, 165, 0],
+  yellow: [255, 255, 0],
+  green: [0, 128, 0],
+  lime: [0, 255, 0],
+  blue: [0, 0, 255],
+  navy: [0, 0, 128],
+  purple: [128, 0, 128],
+};
+
+const LANG_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+const FORM_CONTROLS =
+  'input:not([type="hidden"], [type="submit"], [type="button"], [type="reset"], [type="image"]), select, textarea';
+
+function clean(text) {
+  return (text || "").replace(/\s+/g, " ").trim();
+}
+
+function attrSelector(name, value) {
+  return `[${name}="${value.replace(/["\\]/g, "\\$&")}"]`;
+}
+
+// Short description of an element for issue texts, e.g. <a href="/order">
+function describe($el) {
+  const tag = $el[0].tagName;
+  for (const attr of ["id", "href", "src", "name", "type", "class"]) {
+    const value = $el.attr(attr);
+    if (value) {
+      const short = value.length > 40 ? `${value.slice(0, 40)}...` : value;
+      return `<${tag} ${attr}="${short}">`;
+    }
+  }
+  return `<${tag}>`;
+}
+
+// CSS selector for an element in issue evidence, e.g. a[href="/order"],
+// keyed on the same attribute describe() quotes
+function selectorFor($el) {
+  const tag = $el[0].tagName;
+  for (const attr of ["id", "href", "src", "name", "type", "class"]) {
+    const value = $el.attr(attr);
+    if (value) return `${tag}${attrSelector(attr, value)}`;
+  }
+  return tag;
+}
+
+function examples(elements) {
+  return elements.slice(0, MAX_EXAMPLES).map(describe).join(", ");
+}
+
+// The name a screen reader announces for a link or button
+function accessibleName($, el) {
+  const $el = $(el);
+
+  const labelledBy = clean($el.attr("aria-labelledby"))
+    .split(" ")
+    .filter(Boolean)
+    .map((id) => clean($(attrSelector("id", id)).text()))
+    .join(" ");
+  if (labelledBy) return labelledBy;
+
+  const label = clean($el.attr("aria-label"));
+  if (label) return label;
+
+  const text = clean($el.text());
+  if (text) return text;
+
+  const imageAlt = $el
+    .find("img[alt], [role='img'][aria-label]")
+    .toArray()
+    .map((img) => clean($(img).attr("alt") || $(img).attr("aria-label")))
+    .join(" ");
+  if (imageAlt.trim()) return imageAlt.trim();
+
+  const svgTitle = clean($el.find("svg title").first().text());
+  if (svgTitle) return svgTitle;
+
+  return clean($el.attr("title"));
+}
+
+function checkLang($) {
+  const lang = clean($("html").attr("lang"));
+  if (!lang) return { lang: null, problem: "missing" };
+  if (!LANG_PATTERN.test(lang)) return { lang, problem: "invalid" };
+  return { lang, problem: null };
+}
+
+// Headings that jump more than one level down, e.g. an h2 followed by an h4
+function findHeadingSkips($) {
+  const skips = [];
+  let previous = null;
+
+  $("h1, h2, h3, h4, h5, h6").each((_, el) => {
+    const level = Number(el.tagName[1]);
+    if (previous !== null && level > previous + 1) {
+      skips.push({
+        from: `h${previous}`,
+        to: `h${level}`,
+        text: clean($(el).text()).slice(0, 60),
+      });
+    }
+    previous = level;
+  });
+
+  return skips;
+}
+
+function findUnnamedLinks($) {
+  return $("a[href]")
+    .toArray()
+    .filter((el) => $(el).attr("aria-hidden") !== "true")
+    .filter((el) => !accessibleName($, el))
+    .map((el) => $(el));
+}
+
+function findUnnamedButtons($) {
+  return $('button, [role="button"], input[type="button"], input[type="image"]')
+    .toArray()
+    .filter((el) => {
+      const $el = $(el);
+      if ($el.attr("aria-hidden") === "true") return false;
+      if (el.tagName === "input") {
+        const name =
+          $el.attr("type") === "image" ? $el.attr("alt") : $el.attr("value");
+        return !clean(name) && !accessibleName($, el);
+      }
+      return !accessibleName($, el);
+    })
+    .map((el) => $(el));
+}
+
+// Form controls with no label, aria-label or title. A placeholder
+// disappears while typing, so it doesn't count as a label.
+function findUnlabeledControls($) {
+  return $(FORM_CONTROLS)
+    .toArray()
+    .filter((el) => {
+      const $el = $(el);
+      if (clean($el.attr("aria-label")) || clean($el.attr("title"))) {
+        return false;
+      }
+      if ($el.attr("aria-labelledby")) return false;
+      if ($el.closest("label").length) return false;
+      const id = $el.attr("id");
+      return !(id && $(`label${attrSelector("for", id)}`).length);
+    })
+    .map((el) => $(el));
+}
+
+function findDuplicateIds($) {
+  const counts = {};
+  $("[id]").each((_, el) => {
+    const id = $(el).attr("id");
+    if (id) counts[id] = (counts[id] || 0) + 1;
+  });
+  return Object.keys(counts).filter((id) => counts[id] > 1);
+}
+
+function checkLandmarks($) {
+  return {
+    main: $('main, [role="main"]').length > 0,
+    navigation:
+      $("a[href]").length < 3 || $('nav, [role="navigation"]').length > 0,
+  };
+}
+
+// Media that starts on its own: sound that can't be stopped (1.4.2) and
+// silent video that keeps moving without controls (2.2.2)
+function findAutoplay($) {
+  const withSound = $("audio[autoplay], video[autoplay]:not([muted])")
+    .toArray()
+    .map((el) => $(el));
+  const embedsWithSound = $('iframe[src*="autoplay=1"]')
+    .toArray()
+    .filter((el) => !/[?&]mute=1/.test($(el).attr("src")))
+    .map((el) => $(el));
+  const silentVideo = $("video[autoplay][muted]:not([controls])")
+    .toArray()
+    .map((el) => $(el));
+
+  return {
+    withSound: [...withSound, ...embedsWithSound],
+    silentVideo,
+  };
+}
+
+function parseStyle(style) {
+  const declarations = {};
+  for (const part of (style || "").split(";")) {
+    const index = part.indexOf(":");
+    if (index === -1) continue;
+    declarations[part.slice(0, index).trim().toLowerCase()] = part
+      .slice(index + 1)
+      .replace(/!important/i, "")
+      .trim()
+      .toLowerCase();
+  }
+  return declarations;
+}
+
+// [r, g, b] for solid colors; transparent and unknown values are null
+function parseColor(value) {
+  if (!value) return null;
+  if (NAMED_COLORS[value]) return NAMED_COLORS[value];
+
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits =
+      hex[1].length === 3 ? [...hex[1]].map((d) => d + d).join("") : hex[1];
+    return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16));
+  }
+
+  const rgb = value.match(
+    /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/,
+  );
+  if (rgb) {
+    // Semi-transparent colors depend on what's behind them
+    const opaque =
+      rgb[4] === undefined ||
+      parseFloat(rgb[4]) >= (rgb[4].endsWith("%") ? 100 : 1);
+    if (!opaque) return null;
+    return [1, 2, 3].map((i) => Math.min(Number(rgb[i]), 255));
+  }
+
+  return null;
+}
+
+function backgroundColor(declarations) {
+  if (declarations["background-color"]) {
+    return parseColor(declarations["background-color"]);
+  }
+  // Only a plain color; images and gradients can't be judged statically
+  return declarations.background ? parseColor(declarations.background) : null;
+}
+
+function luminance([r, g, b]) {
+  const [R, G, B] = [r, g, b].map((c) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+}
+
+function contrastRatio(a, b) {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// 18pt, or 14pt bold, counts as large text with a lower 3:1 minimum
+function isLargeText(declarations) {
+  const size = declarations["font-size"]?.match(/^([\d.]+)(px|pt)$/);
+  if (!size) return false;
+  const px = parseFloat(size[1]) * (size[2] === "pt" ? 4 / 3 : 1);
+  const bold =
+    declarations["font-weight"] === "bold" ||
+    Number(declarations["font-weight"]) >= 700;
+  return px >= 24 || (bold && px >= 18.66);
+}
+
+// Text whose foreground and background colors are both set in inline
+// styles (on the element or an ancestor) and don't contrast enough
+function findLowContrast($) {
+  const found = new Map();
+
+  $("[style]").each((_, el) => {
+    const own = parseStyle($(el).attr("style"));
+    if (!own.color && !own["background-color"] && !own.background) return;
+
+    const hasText = el.children?.some(
+      (child) => child.type === "text" && clean(child.data),
+    );
+    if (!hasText) return;
+
+    let foreground = null;
+    let background = null;
+    for (const node of [el, ...$(el).parents().toArray()]) {
+      const style = parseStyle($(node).attr("style"));
+      if (!foreground && style.color) foreground = parseColor(style.color);
+      if (!background) background = backgroundColor(style);
+      if (foreground && background) break;
+    }
+    if (!foreground || !background) return;
+
+    const ratio = contrastRatio(foreground, background);
+    const minimum = isLargeText(own) ? 3 : 4.5;
+    const key = `${foreground}|${background}`;
+    if (ratio < minimum && !found.has(key)) {
+      found.set(key, {
+        ratio: Math.round(ratio * 100) / 100,
+        minimum,
+        text: clean($(el).text()).slice(0, 40),
+      });
+    }
+  });
+
+  return [...found.values()];
+}
+
+// Accessibility findings for each crawled page
+function analyzeAccessibility(pages) {
+  return pages.map((page) => {
+    const { $ } = page;
+    return {
+      url: page.url,
+      lang: checkLang($),
+      headingSkips: findHeadingSkips($),
+      unnamedLinks: findUnnamedLinks($),
+      unnamedButtons: findUnnamedButtons($),
+      unlabeledControls: findUnlabeledControls($),
+      formControls: $(FORM_CONTROLS).length,
+      duplicateIds: findDuplicateIds($),
+      landmarks: checkLandmarks($),
+      autoplay: findAutoplay($),
+      lowContrast: findLowContrast($),
+    };
+  });
+}
+
+module.exports = {
+  analyzeAccessibility,
+  describe,
+  examples,
+  selectorFor,
+  wcag,
+};
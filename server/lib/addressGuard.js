@@ -0,0 +1,128 @@
+const dns = require("dns");
+const net = require("net");
+
+// Audited URLs come from users, so the server must not be talked into
+// requesting its own network: localhost, the cloud metadata service at
+// 169.254.169.254, or internal hosts. Every hostname is checked after DNS
+// resolution, on each redirect hop as well, since the lookup below is
+// installed on the agents all audit requests go through.
+//
+// ALLOW_PRIVATE_URLS=true turns the guard off for local development.
+
+const BLOCKED = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // documentation
+  ["192.88.99.0", 24], // 6to4 relay
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["198.51.100.0", 24], // documentation
+  ["203.0.113.0", 24], // documentation
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, broadcast
+]) {
+  BLOCKED.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 128], // unspecified
+  ["::1", 128], // loopback
+  ["100::", 64], // discard
+  ["2001:db8::", 32], // documentation
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+]) {
+  BLOCKED.addSubnet(address, prefix, "ipv6");
+}
+
+function guardEnabled() {
+  return process.env.ALLOW_PRIVATE_URLS !== "true";
+}
+
+// IPv6 forms that embed an IPv4 address (::ffff:10.0.0.1, 64:ff9b::a00:1)
+// are judged by that address
+function embeddedIpv4(address) {
+  const mapped = address.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return mapped[1];
+
+  const hex = address.match(
+    /^(?:::ffff:|64:ff9b::)([\da-f]{1,4}):([\da-f]{1,4})$/i,
+  );
+  if (!hex) return null;
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+}
+
+function isPrivateAddress(address) {
+  const family = net.isIP(address);
+  if (family === 4) return BLOCKED.check(address, "ipv4");
+  if (family !== 6) return false;
+
+  const ipv4 = embeddedIpv4(address);
+  return ipv4 ? BLOCKED.check(ipv4, "ipv4") : BLOCKED.check(address, "ipv6");
+}
+
+function blockedError(hostname, address) {
+  const error = new Error(
+    hostname === address
+      ? `${hostname} is a private or reserved address`
+      : `${hostname} resolves to a private or reserved address (${address})`,
+  );
+  error.code = "BLOCKED_ADDRESS";
+  return error;
+}
+
+// Drop-in for dns.lookup on http(s) agents and tls.connect
+function publicLookup(hostname, options, callback) {
+  if (typeof options === "function") {
+    callback = options;
+    options = {};
+  } else if (typeof options === "number") {
+    options = { family: options };
+  }
+
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    const blocked = guardEnabled()
+      ? addresses.find(({ address }) => isPrivateAddress(address))
+      : null;
+    if (blocked) return callback(blockedError(hostname, blocked.address));
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// Sockets to IP literals skip the lookup, so URLs are also checked before
+// each request and redirect
+function assertPublicHostname(hostname) {
+  const address = hostname.replace(/^\[|\]$/g, "");
+  if (guardEnabled() && isPrivateAddress(address)) {
+    throw blockedError(address, address);
+  }
+}
+
+// Checked up front by POST /grade so a private URL is refused with a 400
+// before a scan starts
+async function assertPublicUrl(url) {
+  const { hostname } = new URL(url);
+  assertPublicHostname(hostname);
+  if (!guardEnabled() || net.isIP(hostname.replace(/^\[|\]$/g, ""))) return;
+
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) throw blockedError(hostname, blocked.address);
+}
+
+module.exports = {
+  assertPublicHostname,
+  assertPublicUrl,
+  isPrivateAddress,
+  publicLookup,
+};
@@ -0,0 +1,134 @@
+const axios = require("axios");
+const http = require("http");
+const https = require("https");
+const nodemailer = require("nodemailer");
+const { assertPublicUrl, publicLookup } = require("./addressGuard");
+
+// Regression alerts for monitors (./monitors), sent to a webhook as JSON
+// and by email over SMTP. Each channel reports its own failure so one
+// broken channel doesn't hide the other. New leads (./leads) go out
+// through the same webhook sender.
+
+// Webhook URLs come from users, like audited URLs. The agents check the
+// address again when they connect (./addressGuard), so a host can't pass
+// the check and then resolve to an internal address for the post itself.
+const httpAgent = new http.Agent({ lookup: publicLookup });
+const httpsAgent = new https.Agent({ lookup: publicLookup });
+
+let transport = null;
+
+// Created on first use so the env overrides from .env are in place.
+// Without SMTP_HOST email alerts are off.
+function getTransport() {
+  if (!process.env.SMTP_HOST) return null;
+  if (!transport) {
+    transport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT, 10) || 587,
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+  return transport;
+}
+
+function reportUrl(auditId) {
+  return process.env.APP_URL
+    ? `${process.env.APP_URL.replace(/\/+$/, "")}/report/${auditId}`
+    : null;
+}
+
+// The JSON body posted to webhooks
+function alertPayload(monitor, run, { test = false } = {}) {
+  return {
+    event: test ? "monitor.test" : "monitor.regression",
+    monitor: { id: monitor.id, name: monitor.name, url: monitor.url },
+    auditId: run.auditId,
+    reportUrl: run.auditId ? reportUrl(run.auditId) : null,
+    ...run.regression,
+  };
+}
+
+function alertEmail(payload) {
+  const { monitor, score, previousScore } = payload;
+  const site = monitor.name || monitor.url;
+  const lines = [
+    payload.event === "monitor.test"
+      ? `This is a test alert. ${monitor.url} last scored ${score}/100.`
+      : `${monitor.url} scored ${score}/100, down from ${previousScore}.`,
+    ...(payload.lostChecks.length > 0
+      ? ["", "Checks that passed last time and fail now:"]
+      : []),
+    ...payload.lostChecks.map((check) => `- ${check.title}`),
+    ...(payload.newErrors.length > 0 ? ["", "New errors:"] : []),
+    ...payload.newErrors.map(
+      (issue) => `- ${issue.text}${issue.page ? ` (${issue.page})` : ""}`,
+    ),
+    ...(payload.reportUrl ? ["", `Full report: ${payload.reportUrl}`] : []),
+  ];
+
+  return {
+    subject:
+      payload.event === "monitor.test"
+        ? `Test alert for ${site}`
+        : `${site} dropped to ${score}/100`,
+    text: lines.join("\n"),
+  };
+}
+
+// Post `payload` as JSON. `trusted` URLs come from the server's own
+// settings, like LEAD_WEBHOOK_URL, and may be internal addresses (a CRM on
+// the same network); the rest must be public.
+async function sendWebhook(url, payload, { trusted = false } = {}) {
+  if (!trusted) await assertPublicUrl(url);
+  await axios.post(url, payload, {
+    ...(!trusted && { httpAgent, httpsAgent }),
+    timeout: 10000,
+    maxRedirects: 0,
+    headers: { "User-Agent": "LionLokal-Grader/1.0" },
+  });
+}
+
+async function sendEmail(recipients, payload) {
+  const mailer = getTransport();
+  if (!mailer) throw new Error("SMTP_HOST is not set");
+
+  const { subject, text } = alertEmail(payload);
+  await mailer.sendMail({
+    from: process.env.ALERT_EMAIL_FROM || "grader@localhost",
+    to: recipients,
+    subject,
+    text,
+  });
+}
+
+// Send an alert to every channel the monitor has. Resolves to the failures
+// per channel, or null when every channel succeeded.
+async function sendAlert(monitor, run, options) {
+  const payload = alertPayload(monitor, run, options);
+  const failures = {};
+
+  if (monitor.webhookUrl) {
+    try {
+      await sendWebhook(monitor.webhookUrl, payload);
+    } catch (error) {
+      failures.webhook = error.message;
+    }
+  }
+  if (monitor.email.length > 0) {
+    try {
+      await sendEmail(monitor.email, payload);
+    } catch (error) {
+      failures.email = error.message;
+    }
+  }
+
+  for (const [channel, message] of Object.entries(failures)) {
+    console.error(`❌ ${channel} alert for monitor ${monitor.id}:`, message);
+  }
+  return Object.keys(failures).length > 0 ? failures : null;
+}
+
+module.exports = { reportUrl, sendAlert, sendWebhook };
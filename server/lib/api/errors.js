@@ -0,0 +1,89 @@
+// Every /api/v1 failure is answered with
+// { "error": { "code", "message", "details"? } } and the status of its code,
+// so callers can branch on `code` instead of parsing messages.
+const ERROR_STATUS = {
+  INVALID_REQUEST: 400,
+  UNKNOWN_PROFILE: 400,
+  BLOCKED_ADDRESS: 400,
+  API_KEY_MISSING: 401,
+  API_KEY_INVALID: 401,
+  AUDIT_LOCKED: 403,
+  NOT_FOUND: 404,
+  RUN_IN_PROGRESS: 409,
+  NOT_HTML: 422,
+  PAGE_TOO_LARGE: 422,
+  RATE_LIMITED: 429,
+  SCAN_FAILED: 500,
+  INTERNAL_ERROR: 500,
+  SITE_UNREACHABLE: 502,
+  ALERT_FAILED: 502,
+};
+
+// Network failures reaching the audited site, as opposed to bugs or
+// problems on our side
+const UNREACHABLE_CODES = new Set([
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+]);
+
+function apiError(code, message, details) {
+  const error = new Error(message);
+  error.code = code;
+  error.status = ERROR_STATUS[code];
+  if (details) error.details = details;
+  return error;
+}
+
+// The API error for an audit that failed in the pipeline (../pipeline)
+function scanError(error) {
+  const details = error.phase ? { phase: error.phase } : undefined;
+  const message = `Could not scan site: ${error.message}`;
+
+  if (error.code === "BLOCKED_ADDRESS" || error.code === "NOT_HTML") {
+    return apiError(error.code, message, details);
+  }
+  if (error.code === "TOO_LARGE") {
+    return apiError("PAGE_TOO_LARGE", message, details);
+  }
+  if (error.response || UNREACHABLE_CODES.has(error.code)) {
+    return apiError("SITE_UNREACHABLE", message, {
+      ...details,
+      ...(error.response && { status: error.response.status }),
+    });
+  }
+  return apiError("SCAN_FAILED", message, details);
+}
+
+// Express error handler for the API router. Errors without an API code
+// are logged and hidden behind INTERNAL_ERROR; body parser errors keep
+// their 4xx status.
+function handleApiError(error, req, res, next) {
+  if (res.headersSent) return next(error);
+
+  let apiErr = error;
+  if (!ERROR_STATUS[error.code]) {
+    if (error.type === "entity.parse.failed") {
+      apiErr = apiError("INVALID_REQUEST", "Request body is not valid JSON");
+    } else {
+      console.error("❌ API error:", error);
+      apiErr = apiError("INTERNAL_ERROR", "Something went wrong");
+    }
+  }
+
+  res.status(apiErr.status).json({
+    error: {
+      code: apiErr.code,
+      message: apiErr.message,
+      ...(apiErr.details && { details: apiErr.details }),
+    },
+  });
+}
+
+module.exports = { ERROR_STATUS, apiError, handleApiError, scanError };
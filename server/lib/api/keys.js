@@ -0,0 +1,62 @@
+const crypto = require("crypto");
+const { apiError } = require("./errors");
+
+// API keys for /api/v1 come from API_KEYS, a comma-separated list of
+// name:key pairs (e.g. "acme-crm:3f9c...,agency:81ab..."). The name shows
+// up in logs and is what rate limits count against; the key is only
+// compared as a hash, in constant time.
+
+let keys = null;
+
+function digest(value) {
+  return crypto.createHash("sha256").update(value).digest();
+}
+
+// Parsed on first use so the env overrides from .env are in place
+function getApiKeys() {
+  if (!keys) {
+    keys = (process.env.API_KEYS || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry, i) => {
+        const separator = entry.indexOf(":");
+        return separator === -1
+          ? { name: `key-${i + 1}`, hash: digest(entry) }
+          : {
+              name: entry.slice(0, separator).trim(),
+              hash: digest(entry.slice(separator + 1).trim()),
+            };
+      });
+  }
+  return keys;
+}
+
+// The key sent as "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function keyFromRequest(req) {
+  const bearer = req.get("Authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer || req.get("X-API-Key") || null;
+}
+
+// Middleware: sets req.apiKey to { name } or fails with API_KEY_MISSING
+// or API_KEY_INVALID
+function requireApiKey(req, res, next) {
+  const key = keyFromRequest(req);
+  if (!key) {
+    throw apiError(
+      "API_KEY_MISSING",
+      "Send your API key as Authorization: Bearer <key> or X-API-Key",
+    );
+  }
+
+  const hash = digest(key);
+  const match = getApiKeys().find((entry) =>
+    crypto.timingSafeEqual(entry.hash, hash),
+  );
+  if (!match) throw apiError("API_KEY_INVALID", "Unknown API key");
+
+  req.apiKey = { name: match.name };
+  next();
+}
+
+module.exports = { getApiKeys, requireApiKey };
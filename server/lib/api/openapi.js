@@ -0,0 +1,136 @@
+const http = require("http");
+const { version } = require("../../package.json");
+const { ERROR_STATUS } = require("./errors");
+const { SCHEMAS, ref } = require("./schemas");
+
+// Builds the OpenAPI 3.1 document for /api/v1 from the same operation list
+// the router is built from (../../routes/api), so the document can't drift
+// from the routes. An operation is
+//
+//   {
+//     method, path,              // Express style, e.g. "/audits/:id"
+//     operationId, summary, description?,
+//     query?: { name: { schema, required?, description? } },
+//     body?: "SchemaName",
+//     responses: { 200: "SchemaName" | null | { description, content } },
+//     errors?: ["NOT_FOUND", ...],
+//     rateLimited?, public?,     // public operations need no API key
+//   }
+
+const DESCRIPTION = `Grade restaurant websites from your own systems.
+
+Authenticate with an API key as \`Authorization: Bearer <key>\` or \`X-API-Key: <key>\`. Failures are answered with \`{ "error": { "code", "message", "details"? } }\`; branch on \`code\`, the message is for people.`;
+
+function openApiPath(path) {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+function response(status, value) {
+  const description = http.STATUS_CODES[status];
+  if (value === null) return { description };
+  if (typeof value === "string") {
+    return {
+      description,
+      content: { "application/json": { schema: ref(value) } },
+    };
+  }
+  return { description, ...value };
+}
+
+// One response per status, listing the codes callers can get with it
+function errorResponses(codes) {
+  const byStatus = {};
+  for (const code of codes) {
+    (byStatus[ERROR_STATUS[code]] ||= []).push(code);
+  }
+  return Object.fromEntries(
+    Object.entries(byStatus).map(([status, list]) => [
+      status,
+      {
+        description: `${http.STATUS_CODES[status]}: ${list.map((code) => `\`${code}\``).join(", ")}`,
+        content: { "application/json": { schema: ref("Error") } },
+      },
+    ]),
+  );
+}
+
+function operationObject(operation) {
+  const parameters = [
+    ...[...operation.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    })),
+    ...Object.entries(operation.query || {}).map(([name, param]) => ({
+      name,
+      in: "query",
+      required: Boolean(param.required),
+      ...(param.description && { description: param.description }),
+      schema: param.schema,
+    })),
+  ];
+
+  const errors = [
+    ...(operation.body || operation.query ? ["INVALID_REQUEST"] : []),
+    ...(operation.public ? [] : ["API_KEY_MISSING", "API_KEY_INVALID"]),
+    ...(operation.errors || []),
+    ...(operation.rateLimited ? ["RATE_LIMITED"] : []),
+    "INTERNAL_ERROR",
+  ];
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    ...(operation.description && { description: operation.description }),
+    ...(operation.public && { security: [] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: { "application/json": { schema: ref(operation.body) } },
+      },
+    }),
+    responses: {
+      ...Object.fromEntries(
+        Object.entries(operation.responses).map(([status, value]) => [
+          status,
+          response(status, value),
+        ]),
+      ),
+      ...errorResponses(errors),
+    },
+  };
+}
+
+function buildOpenApi(operations) {
+  const paths = {};
+  for (const operation of operations) {
+    const path = openApiPath(operation.path);
+    paths[path] = {
+      ...paths[path],
+      [operation.method]: operationObject(operation),
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "LionLokal Restaurant Grader API",
+      version,
+      description: DESCRIPTION,
+    },
+    servers: [{ url: "/api/v1" }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: SCHEMAS,
+    },
+  };
+}
+
+module.exports = { buildOpenApi };
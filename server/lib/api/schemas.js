@@ -0,0 +1,756 @@
+const { INSIGHTS_SCHEMA } = require("../insights");
+const { CATEGORIES } = require("../rules");
+const { ERROR_STATUS } = require("./errors");
+
+// JSON Schemas for the bodies /api/v1 takes and returns. They are the
+// components of the OpenAPI document (./openapi), request bodies are
+// validated against them (../schema), and the client's types are generated
+// from the document, so a change here reaches all three.
+//
+// Response objects list every property the server sends; properties that
+// audits stored by older versions may lack are optional.
+
+const string = { type: "string" };
+const integer = { type: "integer" };
+const number = { type: "number" };
+const boolean = { type: "boolean" };
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+const arrayOf = (items) => ({ type: "array", items });
+const oneOf = (...values) => ({ type: "string", enum: values });
+
+function nullable(schema) {
+  if (schema.$ref) return { anyOf: [schema, { type: "null" }] };
+  return {
+    ...schema,
+    type: [].concat(schema.type, "null"),
+    ...(schema.enum && { enum: [...schema.enum, null] }),
+  };
+}
+
+// An object with every property required except those in `optional`
+function object(properties, optional = []) {
+  return {
+    type: "object",
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+    properties,
+  };
+}
+
+// Request bodies reject unknown properties so typos don't pass silently
+function requestObject(properties, required = []) {
+  return { type: "object", required, properties, additionalProperties: false };
+}
+
+const CATEGORY_IDS = Object.keys(CATEGORIES);
+const WEEKDAYS = ["mo", "tu", "we", "th", "fr", "sa", "su"];
+
+const SCHEMAS = {
+  Error: object({
+    error: object(
+      {
+        code: oneOf(...Object.keys(ERROR_STATUS)),
+        message: string,
+        details: { type: "object", additionalProperties: true },
+      },
+      ["details"],
+    ),
+  }),
+
+  // Requests
+
+  AuditRequest: requestObject(
+    {
+      url: { ...string, minLength: 1, description: "Website to audit" },
+      profile: { ...string, description: "Grading profile id" },
+      maxPages: { ...integer, minimum: 1, maximum: 20 },
+      maxDepth: { ...integer, minimum: 0, maximum: 3 },
+      place: {
+        ...ref("PlaceListing"),
+        description:
+          "Map listing to compare the site's name, address, phone and hours with",
+      },
+      insights: {
+        ...boolean,
+        description: "Ask the AI provider for insights (default true)",
+      },
+      refresh: {
+        ...boolean,
+        description: "Scan again instead of returning a recent result",
+      },
+    },
+    ["url"],
+  ),
+  PlaceListing: requestObject({
+    source: { ...string, description: 'Where the listing is from, e.g. "osm"' },
+    name: string,
+    phone: string,
+    openingHours: {
+      ...string,
+      description: 'OpenStreetMap opening_hours, e.g. "Mo-Fr 11:00-22:00"',
+    },
+    address: requestObject({
+      houseNumber: string,
+      street: string,
+      postcode: string,
+      city: string,
+    }),
+    countryCode: string,
+    cuisine: { ...string, description: 'e.g. "italian;pizza"' },
+    lat: { type: ["string", "number"] },
+    lon: { type: ["string", "number"] },
+  }),
+  BatchRequest: requestObject({
+    rows: {
+      ...arrayOf(
+        requestObject({ name: string, url: { ...string, minLength: 1 } }, [
+          "url",
+        ]),
+      ),
+      minItems: 1,
+    },
+    csv: {
+      ...string,
+      description: "CSV with name and url columns, instead of rows",
+    },
+    profile: string,
+    insights: boolean,
+  }),
+  MonitorRequest: requestObject(
+    {
+      url: { ...string, minLength: 1 },
+      name: string,
+      profile: string,
+      place: ref("PlaceListing"),
+      frequency: oneOf("daily", "weekly"),
+      scoreDrop: { ...integer, minimum: 0, maximum: 100 },
+      webhookUrl: nullable(string),
+      email: arrayOf(string),
+      enabled: boolean,
+    },
+    ["url", "frequency"],
+  ),
+  MonitorUpdate: requestObject({
+    url: { ...string, minLength: 1 },
+    name: nullable(string),
+    profile: string,
+    place: nullable(ref("PlaceListing")),
+    frequency: oneOf("daily", "weekly"),
+    scoreDrop: { ...integer, minimum: 0, maximum: 100 },
+    webhookUrl: nullable(string),
+    email: arrayOf(string),
+    enabled: boolean,
+  }),
+
+  // Audits
+
+  WcagCriterion: object({
+    criterion: string,
+    name: string,
+    level: oneOf("A", "AA", "AAA"),
+    url: string,
+  }),
+  PlatformGuidance: object({ platform: string, text: string }),
+  IssueType: oneOf("error", "warning", "info"),
+  Level: oneOf("low", "medium", "high"),
+  IssueEvidence: object(
+    {
+      selector: { ...string, description: "CSS selector of the element" },
+      html: { ...string, description: "The element's opening tag" },
+      url: { ...string, description: "The file or address it's about" },
+      values: {
+        type: "object",
+        description: "Measured values, e.g. { length: 72, maxLength: 60 }",
+        additionalProperties: { type: ["number", "string"] },
+      },
+    },
+    ["selector", "html", "url", "values"],
+  ),
+  Issue: object(
+    {
+      id: {
+        ...string,
+        description: "Stays the same for the same problem across audits",
+      },
+      type: ref("IssueType"),
+      text: string,
+      category: { ...string, description: 'Category label, e.g. "SEO"' },
+      page: string,
+      rule: string,
+      pointsLost: {
+        ...number,
+        description: "Rule points fixing it wins back (see Check.weight)",
+      },
+      effort: ref("Level"),
+      impact: ref("Level"),
+      learnMore: { ...string, description: "Why the check matters" },
+      evidence: ref("IssueEvidence"),
+      wcag: ref("WcagCriterion"),
+      guidance: ref("PlatformGuidance"),
+      fix: { ...string, description: "Id of the fix in the audit's fixes" },
+      note: {
+        ...string,
+        description: "The team's note, on audits of a saved restaurant",
+      },
+      assignee: {
+        ...object({ id: string, name: string }),
+        description: "Who is fixing it, on audits of a saved restaurant",
+      },
+    },
+    [
+      "id",
+      "page",
+      "rule",
+      "pointsLost",
+      "effort",
+      "impact",
+      "learnMore",
+      "evidence",
+      "wcag",
+      "guidance",
+      "fix",
+      "note",
+      "assignee",
+    ],
+  ),
+  Fix: object({
+    id: string,
+    rule: string,
+    title: string,
+    text: string,
+    language: oneOf("html"),
+    code: string,
+  }),
+  Check: object({
+    rule: string,
+    category: oneOf(...CATEGORY_IDS),
+    score: number,
+    weight: number,
+  }),
+  ScoreBreakdown: object({
+    score: number,
+    maxScore: number,
+    percentage: integer,
+  }),
+  CrawledPage: object(
+    {
+      url: string,
+      title: string,
+      depth: integer,
+      loadTime: integer,
+      findings: arrayOf(string),
+      error: string,
+    },
+    ["title", "loadTime", "error"],
+  ),
+  StructuredDataField: object(
+    {
+      field: string,
+      status: oneOf("valid", "missing", "invalid"),
+      problem: string,
+    },
+    ["problem"],
+  ),
+  StructuredData: object({
+    type: string,
+    source: oneOf("json-ld", "microdata", "rdfa"),
+    page: string,
+    entity: { type: "object", additionalProperties: true },
+    fields: arrayOf(ref("StructuredDataField")),
+  }),
+  MenuItem: object({
+    name: string,
+    price: number,
+    currency: nullable(string),
+    section: nullable(string),
+  }),
+  MenuPdf: object(
+    {
+      url: string,
+      page: string,
+      sizeBytes: integer,
+      pageCount: integer,
+      textBased: boolean,
+      error: string,
+    },
+    ["sizeBytes", "pageCount", "textBased", "error"],
+  ),
+  MenuSummary: object({
+    source: nullable(oneOf("html", "pdf", "scanned-pdf", "image", "page")),
+    pages: arrayOf(string),
+    itemCount: integer,
+    pricedCount: integer,
+    unpricedCount: integer,
+    sections: arrayOf(string),
+    priceRange: nullable(object({ min: number, max: number })),
+    currency: nullable(string),
+    labels: arrayOf(string),
+    items: arrayOf(ref("MenuItem")),
+    images: arrayOf(object({ src: string, alt: string, page: string })),
+    pdfs: arrayOf(ref("MenuPdf")),
+  }),
+  StackCategory: oneOf(
+    "builder",
+    "ordering",
+    "reservations",
+    "analytics",
+    "tag-manager",
+    "chat",
+    "cookie-consent",
+  ),
+  Technology: object({
+    name: string,
+    category: ref("StackCategory"),
+    website: nullable(string),
+    version: nullable(string),
+    page: string,
+    evidence: arrayOf(string),
+  }),
+  Stack: object({
+    builder: nullable(ref("Technology")),
+    technologies: arrayOf(ref("Technology")),
+  }),
+  // Opening time ranges per day, e.g. ["11:00-22:00"]; [] means closed and
+  // a missing day is unknown
+  WeeklySchedule: object(
+    Object.fromEntries(WEEKDAYS.map((day) => [day, arrayOf(string)])),
+    WEEKDAYS,
+  ),
+  BusinessMismatch: object(
+    {
+      field: oneOf("hours", "phone", "address", "name"),
+      sources: arrayOf(string),
+      text: string,
+      type: ref("IssueType"),
+    },
+    ["type"],
+  ),
+  BusinessDetails: object({
+    name: nullable(string),
+    phones: arrayOf(
+      object({
+        value: string,
+        number: nullable(string),
+        source: string,
+        page: string,
+      }),
+    ),
+    addresses: arrayOf(object({ value: string, source: string, page: string })),
+    hours: nullable(
+      object({
+        schedule: ref("WeeklySchedule"),
+        source: oneOf("text", "structured data"),
+        page: string,
+      }),
+    ),
+    compared: arrayOf(oneOf("hours", "phone", "address", "name")),
+    mismatches: arrayOf(ref("BusinessMismatch")),
+    listing: nullable(
+      object(
+        {
+          source: string,
+          name: nullable(string),
+          phone: nullable(string),
+          openingHours: nullable(string),
+          address: object({
+            houseNumber: nullable(string),
+            street: nullable(string),
+            postcode: nullable(string),
+            city: nullable(string),
+          }),
+          hours: nullable(ref("WeeklySchedule")),
+          cuisine: arrayOf(string),
+          geo: nullable(object({ lat: number, lon: number })),
+        },
+        ["cuisine", "geo"],
+      ),
+    ),
+  }),
+  Locale: object({
+    code: string,
+    name: string,
+    source: oneOf("html-lang", "text", "default"),
+    declared: nullable(string),
+    phoneCountry: nullable(string),
+    phoneCountrySource: oneOf("listing", "domain", "locale"),
+  }),
+  ResourceType: oneOf("image", "script", "stylesheet", "font"),
+  // A file the homepage loads, sized with a HEAD request. `size` is null
+  // when it couldn't be sized within the request budget.
+  PageResource: object(
+    {
+      type: ref("ResourceType"),
+      url: string,
+      renderBlocking: boolean,
+      lazy: boolean,
+      status: integer,
+      size: nullable(integer),
+      contentType: nullable(string),
+      format: nullable(string),
+      encoding: nullable(string),
+      cacheable: boolean,
+      thirdParty: boolean,
+      duration: integer,
+      error: string,
+    },
+    [
+      "renderBlocking",
+      "lazy",
+      "status",
+      "size",
+      "contentType",
+      "format",
+      "encoding",
+      "cacheable",
+      "duration",
+      "error",
+    ],
+  ),
+  Redirect: object({ from: string, to: string, status: integer }),
+  PageWeight: object({
+    document: object({
+      url: string,
+      ttfb: nullable(integer),
+      redirects: arrayOf(ref("Redirect")),
+      size: nullable(integer),
+      encoding: nullable(string),
+      cacheable: nullable(boolean),
+    }),
+    resources: arrayOf(ref("PageResource")),
+    totalBytes: integer,
+    byType: object({
+      image: integer,
+      script: integer,
+      stylesheet: integer,
+      font: integer,
+    }),
+    unmeasured: integer,
+  }),
+  // The certificate the server presents; only `error` is set when the
+  // server doesn't answer on HTTPS
+  Certificate: object(
+    {
+      subject: nullable(string),
+      issuer: nullable(string),
+      validFrom: string,
+      validTo: string,
+      daysLeft: integer,
+      expired: boolean,
+      notYetValid: boolean,
+      selfSigned: boolean,
+      hostnameMatch: boolean,
+      trusted: boolean,
+      error: nullable(string),
+      protocol: string,
+    },
+    [
+      "subject",
+      "issuer",
+      "validFrom",
+      "validTo",
+      "daysLeft",
+      "expired",
+      "notYetValid",
+      "selfSigned",
+      "hostnameMatch",
+      "trusted",
+      "protocol",
+    ],
+  ),
+  SecurityReport: object({
+    https: boolean,
+    certificate: nullable(ref("Certificate")),
+    httpRedirect: nullable(
+      object(
+        {
+          url: string,
+          finalUrl: string,
+          redirectsToHttps: boolean,
+          error: string,
+        },
+        ["finalUrl", "error"],
+      ),
+    ),
+    hsts: nullable(
+      object({ maxAge: integer, includeSubDomains: boolean, preload: boolean }),
+    ),
+    headers: object({
+      contentSecurityPolicy: boolean,
+      contentTypeOptions: boolean,
+      frameOptions: boolean,
+    }),
+    mixedContent: arrayOf(
+      object({ page: string, url: string, kind: string, active: boolean }),
+    ),
+    insecureForms: arrayOf(
+      object({ page: string, action: string, password: boolean }),
+    ),
+  }),
+  AIInsights: INSIGHTS_SCHEMA,
+  GradingProfile: object({ id: string, name: string, hash: string }),
+  AuditSummary: object({
+    id: string,
+    url: string,
+    score: integer,
+    profile: nullable(string),
+    createdAt: string,
+    breakdown: {
+      type: "object",
+      description: "Percentage per category",
+      additionalProperties: integer,
+    },
+  }),
+  AuditChanges: object({
+    previousId: string,
+    previousScore: integer,
+    fixed: arrayOf(ref("Issue")),
+    introduced: arrayOf(ref("Issue")),
+  }),
+};
+
+// The graded site as the pipeline produces it, before it is stored
+const auditResult = {
+  url: string,
+  title: string,
+  profile: ref("GradingProfile"),
+  score: integer,
+  breakdown: object(
+    Object.fromEntries(CATEGORY_IDS.map((id) => [id, ref("ScoreBreakdown")])),
+    ["accessibility", "security"],
+  ),
+  issues: arrayOf(ref("Issue")),
+  fixes: arrayOf(ref("Fix")),
+  checks: arrayOf(ref("Check")),
+  pages: arrayOf(ref("CrawledPage")),
+  structuredData: nullable(ref("StructuredData")),
+  menu: ref("MenuSummary"),
+  stack: ref("Stack"),
+  business: ref("BusinessDetails"),
+  locale: ref("Locale"),
+  resources: ref("PageWeight"),
+  security: ref("SecurityReport"),
+  loadTime: integer,
+  source: {
+    ...object({
+      type: oneOf("html", "archive"),
+      name: nullable(string),
+      files: integer,
+    }),
+    description: "Set when the site was graded from an upload",
+  },
+  notApplicable: {
+    ...arrayOf(object({ rule: string, title: string, category: string })),
+    description: "Checks skipped because they need the live site (uploads)",
+  },
+  aiInsights: nullable(ref("AIInsights")),
+};
+const AUDIT_RESULT_OPTIONAL = [
+  "profile",
+  "breakdown",
+  "fixes",
+  "checks",
+  "pages",
+  "structuredData",
+  "menu",
+  "stack",
+  "business",
+  "locale",
+  "resources",
+  "security",
+  "loadTime",
+  "source",
+  "notApplicable",
+  "aiInsights",
+];
+
+SCHEMAS.AuditResult = object(auditResult, AUDIT_RESULT_OPTIONAL);
+// A stored audit with the site's score history up to it and what changed
+// since the audit before it
+SCHEMAS.Audit = object(
+  {
+    id: string,
+    createdAt: string,
+    ...auditResult,
+    history: arrayOf(ref("AuditSummary")),
+    changes: nullable(ref("AuditChanges")),
+    restaurant: {
+      ...object({
+        id: string,
+        name: string,
+        workspaceId: string,
+        clientId: string,
+        clientName: string,
+      }),
+      description:
+        "The workspace's saved restaurant the audit belongs to; only its members can read these audits",
+    },
+    cached: {
+      ...boolean,
+      description: "Set when a recent result was returned instead of a scan",
+    },
+    locked: {
+      ...boolean,
+      description:
+        "Set on a widget audit behind the lead form: only the score and breakdown are shown until a lead is left for it",
+    },
+    issueCount: {
+      ...integer,
+      description: "The number of issues of a locked audit",
+    },
+  },
+  [...AUDIT_RESULT_OPTIONAL, "restaurant", "cached", "locked", "issueCount"],
+);
+SCHEMAS.AuditList = object({ audits: arrayOf(ref("AuditSummary")) });
+
+// Rules
+
+SCHEMAS.RuleSet = object({
+  profile: object({
+    id: string,
+    name: string,
+    description: string,
+    hash: string,
+  }),
+  profiles: arrayOf(string),
+  categories: arrayOf(
+    object({ id: oneOf(...CATEGORY_IDS), label: string, maxScore: number }),
+  ),
+  rules: arrayOf(
+    object({
+      id: string,
+      category: oneOf(...CATEGORY_IDS),
+      title: string,
+      description: string,
+      weight: number,
+      severity: ref("IssueType"),
+      effort: ref("Level"),
+      impact: ref("Level"),
+      config: { type: "object", additionalProperties: true },
+      wcag: nullable(ref("WcagCriterion")),
+      network: {
+        ...boolean,
+        description: "Needs the live site; not applicable to uploads",
+      },
+    }),
+  ),
+});
+
+// Batches
+
+SCHEMAS.BatchRow = object({
+  position: integer,
+  name: string,
+  url: string,
+  status: oneOf("queued", "running", "done", "failed"),
+  auditId: nullable(string),
+  score: nullable(integer),
+  error: nullable(string),
+});
+SCHEMAS.BatchJob = object({
+  id: string,
+  profile: string,
+  insights: boolean,
+  status: oneOf("queued", "running", "done"),
+  createdAt: string,
+  finishedAt: nullable(string),
+  total: integer,
+  completed: integer,
+  failed: integer,
+  rows: arrayOf(ref("BatchRow")),
+});
+SCHEMAS.BatchExportRow = object({
+  name: string,
+  url: string,
+  status: oneOf("queued", "running", "done", "failed"),
+  score: nullable(integer),
+  errors: nullable(integer),
+  warnings: nullable(integer),
+  topIssues: string,
+  auditId: nullable(string),
+  error: nullable(string),
+  ...Object.fromEntries(
+    CATEGORY_IDS.map((id) => [`${id}Percentage`, nullable(integer)]),
+  ),
+});
+
+// Monitors
+
+SCHEMAS.Regression = object({
+  score: integer,
+  previousScore: integer,
+  scoreDrop: integer,
+  lostChecks: arrayOf(
+    object({ rule: string, title: string, category: oneOf(...CATEGORY_IDS) }),
+  ),
+  newErrors: arrayOf(
+    object({ text: string, rule: string, page: string, category: string }, [
+      "page",
+    ]),
+  ),
+});
+SCHEMAS.MonitorRun = object({
+  id: integer,
+  status: oneOf("queued", "running", "done", "failed"),
+  startedAt: string,
+  finishedAt: nullable(string),
+  auditId: nullable(string),
+  score: nullable(integer),
+  regression: nullable(ref("Regression")),
+  alertError: nullable(
+    object({ webhook: string, email: string }, ["webhook", "email"]),
+  ),
+  error: nullable(string),
+});
+SCHEMAS.Monitor = object(
+  {
+    id: string,
+    name: nullable(string),
+    url: string,
+    profile: string,
+    place: nullable(ref("PlaceListing")),
+    frequency: oneOf("daily", "weekly"),
+    scoreDrop: integer,
+    webhookUrl: nullable(string),
+    email: arrayOf(string),
+    enabled: boolean,
+    createdAt: string,
+    nextRunAt: string,
+    lastRun: nullable(ref("MonitorRun")),
+    runs: {
+      ...arrayOf(ref("MonitorRun")),
+      description: "Recent runs, newest first; only on single monitors",
+    },
+  },
+  ["runs"],
+);
+SCHEMAS.MonitorList = object({ monitors: arrayOf(ref("Monitor")) });
+SCHEMAS.AlertTestResult = object({
+  sent: boolean,
+  failures: object({ webhook: string, email: string }, ["webhook", "email"]),
+});
+
+// Contact details captured by the grader widget (POST /leads)
+SCHEMAS.Lead = object({
+  id: string,
+  name: string,
+  email: string,
+  phone: string,
+  partner: nullable(string),
+  pageUrl: {
+    ...nullable(string),
+    description: "The page the widget was embedded in",
+  },
+  createdAt: string,
+  audit: object({
+    id: string,
+    url: string,
+    score: integer,
+    reportUrl: {
+      ...nullable(string),
+      description: "Only set when the server has APP_URL",
+    },
+  }),
+});
+SCHEMAS.LeadList = object({ leads: arrayOf(ref("Lead")) });
+
+module.exports = { SCHEMAS, ref };
@@ -0,0 +1,281 @@
+const crypto = require("crypto");
+const { getDb } = require("./db");
+
+const HISTORY_LIMIT = 20;
+
+// Audits of http://www.example.com/ and https://example.com count as the
+// same site when building score history
+function urlKey(url) {
+  try {
+    const parsed = new URL(url.startsWith("http") ? url : `https://${url}`);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+    return `${host}${parsed.pathname.replace(/\/+$/, "")}`;
+  } catch (_) {
+    return url.toLowerCase();
+  }
+}
+
+// Issue texts carry measured values ("Title length (72 chars)..."), so
+// numbers are ignored when matching an issue against an earlier audit
+function issueKey(issue) {
+  return `${issue.rule || issue.category}|${issue.text.replace(/\d+(\.\d+)?/g, "#")}`;
+}
+
+// Issues are matched by their stable id; audits stored before issues had
+// one are matched by text
+function diffIssues(previous, current) {
+  const hasIds = [...previous, ...current].every((issue) => issue.id);
+  const keyOf = hasIds ? (issue) => issue.id : issueKey;
+  const previousKeys = new Set(previous.map(keyOf));
+  const currentKeys = new Set(current.map(keyOf));
+
+  return {
+    fixed: previous.filter((issue) => !currentKeys.has(keyOf(issue))),
+    introduced: current.filter((issue) => !previousKeys.has(keyOf(issue))),
+  };
+}
+
+function summarize(row) {
+  const report = JSON.parse(row.report);
+  return {
+    id: row.id,
+    url: row.url,
+    score: row.score,
+    profile: row.profile,
+    createdAt: row.created_at,
+    breakdown: Object.fromEntries(
+      Object.entries(report.breakdown || {}).map(([key, value]) => [
+        key,
+        value.percentage,
+      ]),
+    ),
+  };
+}
+
+// Uploads (./upload) get a history of their own: they skip the checks that
+// need the live site, so comparing them with live audits of the same
+// address would list those checks as fixed. Their address is a placeholder
+// or whatever the uploader named, so only uploads of the same saved
+// restaurant share one; any other upload stands alone rather than show
+// other people's unpublished sites in its history.
+function historyKey(report, id, restaurant) {
+  if (!report.source) return urlKey(report.url);
+  return restaurant ? `upload:${urlKey(report.url)}` : `upload:${id}`;
+}
+
+// Store a finished /grade result and return its id. Audits of a saved
+// restaurant ({ id, workspaceId }, see ./workspaces) belong to its workspace.
+// `gated` audits were run by the widget behind its lead form (see lockReport).
+function saveAudit(report, { restaurant, gated = false } = {}) {
+  const id = crypto.randomBytes(8).toString("base64url");
+
+  getDb()
+    .prepare(
+      `INSERT INTO audits (id, url, url_key, score, profile, created_at, report,
+         workspace_id, restaurant_id, gated)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      id,
+      report.url,
+      historyKey(report, id, restaurant),
+      report.score,
+      report.profile?.id || null,
+      new Date().toISOString(),
+      JSON.stringify(report),
+      restaurant?.workspaceId || null,
+      restaurant?.id || null,
+      gated ? 1 : 0,
+    );
+
+  return id;
+}
+
+// The saved restaurant an audit belongs to, with its client
+function restaurantOf(db, restaurantId) {
+  const row = db
+    .prepare(
+      `SELECT r.id, r.name, r.workspace_id, c.id AS client_id,
+         c.name AS client_name
+       FROM restaurants r JOIN clients c ON c.id = r.client_id
+       WHERE r.id = ?`,
+    )
+    .get(restaurantId);
+  return (
+    row && {
+      id: row.id,
+      name: row.name,
+      workspaceId: row.workspace_id,
+      clientId: row.client_id,
+      clientName: row.client_name,
+    }
+  );
+}
+
+// The team's notes and assignees, kept per restaurant by issue id so they
+// carry over to the next audit while the issue is still there
+function withIssueNotes(db, issues, restaurantId) {
+  const notes = new Map(
+    db
+      .prepare(
+        `SELECT n.issue_id, n.note, u.id AS assignee_id, u.name AS assignee_name
+         FROM issue_notes n LEFT JOIN users u ON u.id = n.assignee_id
+         WHERE n.restaurant_id = ?`,
+      )
+      .all(restaurantId)
+      .map((row) => [row.issue_id, row]),
+  );
+
+  return issues.map((issue) => {
+    const row = issue.id && notes.get(issue.id);
+    if (!row) return issue;
+    return {
+      ...issue,
+      ...(row.note && { note: row.note }),
+      ...(row.assignee_id && {
+        assignee: { id: row.assignee_id, name: row.assignee_name },
+      }),
+    };
+  });
+}
+
+// What the widget shows of a gated audit until a lead is left for it (see
+// ./leads): the score and category breakdown, with the issues counted but
+// not listed
+function lockReport(report) {
+  return {
+    id: report.id,
+    createdAt: report.createdAt,
+    url: report.url,
+    title: report.title,
+    profile: report.profile,
+    score: report.score,
+    breakdown: report.breakdown,
+    issues: [],
+    issueCount: report.issues.length,
+    aiInsights: null,
+    history: report.history,
+    changes: null,
+    locked: true,
+  };
+}
+
+// Audits of a workspace's restaurants can only be read by its members;
+// the rest are public to anyone with the id
+const READABLE_BY = `(workspace_id IS NULL OR workspace_id IN
+  (SELECT workspace_id FROM workspace_members WHERE user_id = ?))`;
+
+// A stored audit with the score history of its URL up to that audit and
+// the issues fixed or introduced since the audit before it. Returns null
+// when it doesn't exist or `userId` (null when signed out) may not read it.
+// History only spans audits of the same restaurant, or audits outside any
+// workspace for public ones. Gated audits are locked unless `unlocked`.
+function getAudit(id, { userId = null, unlocked = false } = {}) {
+  const db = getDb();
+  const row = db
+    .prepare(`SELECT * FROM audits WHERE id = ? AND ${READABLE_BY}`)
+    .get(id, userId);
+  if (!row) return null;
+
+  const earlier = db
+    .prepare(
+      `SELECT * FROM audits
+       WHERE url_key = ? AND workspace_id IS ? AND restaurant_id IS ?
+         AND created_at <= ? AND id != ?
+       ORDER BY created_at DESC LIMIT ?`,
+    )
+    .all(
+      row.url_key,
+      row.workspace_id,
+      row.restaurant_id,
+      row.created_at,
+      row.id,
+      HISTORY_LIMIT - 1,
+    );
+
+  const report = JSON.parse(row.report);
+  const previousRow = earlier[0];
+  const previous = previousRow ? JSON.parse(previousRow.report) : null;
+  const restaurant = row.restaurant_id && restaurantOf(db, row.restaurant_id);
+
+  const audit = {
+    ...report,
+    id: row.id,
+    createdAt: row.created_at,
+    ...(restaurant && {
+      restaurant,
+      issues: withIssueNotes(db, report.issues || [], restaurant.id),
+    }),
+    history: [...earlier].reverse().concat(row).map(summarize),
+    changes: previous && {
+      previousId: previousRow.id,
+      previousScore: previous.score,
+      ...diffIssues(previous.issues || [], report.issues || []),
+    },
+  };
+  return row.gated && !unlocked ? lockReport(audit) : audit;
+}
+
+// All public audits of a URL, oldest first
+function listAudits(url) {
+  return getDb()
+    .prepare(
+      `SELECT * FROM audits WHERE url_key = ? AND workspace_id IS NULL
+       ORDER BY created_at`,
+    )
+    .all(urlKey(url))
+    .map(summarize);
+}
+
+// All audits of a saved restaurant, oldest first
+function listRestaurantAudits(restaurantId) {
+  return getDb()
+    .prepare("SELECT * FROM audits WHERE restaurant_id = ? ORDER BY created_at")
+    .all(restaurantId)
+    .map(summarize);
+}
+
+// The newest audit of each of a workspace's restaurants, by restaurant id
+function latestRestaurantAudits(workspaceId) {
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM audits a
+       WHERE a.workspace_id = ? AND a.restaurant_id IS NOT NULL
+         AND a.created_at = (SELECT MAX(created_at) FROM audits
+                             WHERE restaurant_id = a.restaurant_id)`,
+    )
+    .all(workspaceId);
+  return new Map(rows.map((row) => [row.restaurant_id, summarize(row)]));
+}
+
+// The newest public audit of a URL graded with the same profile version
+// within `maxAgeMs`, or null. Lets comparisons reuse fresh results instead of
+// crawling the same site again.
+function findRecentAudit(url, { profileHash, maxAgeMs }) {
+  const since = new Date(Date.now() - maxAgeMs).toISOString();
+  const rows = getDb()
+    .prepare(
+      `SELECT id, report FROM audits
+       WHERE url_key = ? AND created_at >= ? AND workspace_id IS NULL
+         AND gated = 0
+       ORDER BY created_at DESC`,
+    )
+    .all(urlKey(url), since);
+
+  const row = rows.find(
+    (candidate) => JSON.parse(candidate.report).profile?.hash === profileHash,
+  );
+  return row ? getAudit(row.id) : null;
+}
+
+module.exports = {
+  diffIssues,
+  findRecentAudit,
+  getAudit,
+  latestRestaurantAudits,
+  listAudits,
+  listRestaurantAudits,
+  lockReport,
+  saveAudit,
+  urlKey,
+};
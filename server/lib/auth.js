@@ -0,0 +1,203 @@
+const crypto = require("crypto");
+const { promisify } = require("util");
+const { getDb } = require("./db");
+const { createRateLimiter, formatWait } = require("./rateLimit");
+
+// Local accounts for agency teams (./workspaces). Passwords are stored as
+// scrypt hashes; signing in hands out a random session token the client
+// sends back as "Authorization: Bearer <token>". Only the token's SHA-256
+// is stored, so a copy of the database can't be used to sign in.
+
+const scrypt = promisify(crypto.scrypt);
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Plain address check, the same as monitors use for alert emails
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/;
+
+// Failed and successful sign-ins both count, per client IP
+const signInLimiter = createRateLimiter({
+  windowMs: 15 * 60 * 1000,
+  perIp: 10,
+  global: 0,
+});
+
+function sessionTtlMs() {
+  const days = parseInt(process.env.SESSION_TTL_DAYS, 10) || 30;
+  return days * 24 * 60 * 60 * 1000;
+}
+
+function digest(token) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, 64);
+  return `scrypt:${salt.toString("base64url")}:${hash.toString("base64url")}`;
+}
+
+async function verifyPassword(password, stored) {
+  const [, salt, expected] = stored.split(":");
+  const hash = await scrypt(password, Buffer.from(salt, "base64url"), 64);
+  return crypto.timingSafeEqual(hash, Buffer.from(expected, "base64url"));
+}
+
+function toUser(row) {
+  return { id: row.id, email: row.email, name: row.name };
+}
+
+function normalizeEmail(email) {
+  return String(email || "")
+    .trim()
+    .toLowerCase();
+}
+
+// Create an account from { email, name, password }. Throws with a message
+// for the client on bad input; a taken email has code EMAIL_TAKEN.
+async function createUser(input) {
+  const email = normalizeEmail(input.email);
+  if (!EMAIL_PATTERN.test(email)) throw new Error("Invalid email address");
+
+  const name = String(input.name || "").trim();
+  if (!name) throw new Error("name is required");
+
+  const password = String(input.password || "");
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
+  }
+
+  const db = getDb();
+  if (db.prepare("SELECT 1 FROM users WHERE email = ?").get(email)) {
+    throw Object.assign(new Error("An account with this email exists"), {
+      code: "EMAIL_TAKEN",
+    });
+  }
+
+  const user = { id: crypto.randomUUID(), email, name };
+  db.prepare(
+    `INSERT INTO users (id, email, name, password_hash, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+  ).run(
+    user.id,
+    email,
+    name,
+    await hashPassword(password),
+    new Date().toISOString(),
+  );
+  return user;
+}
+
+// The account for an email and password, or null when they don't match
+async function authenticate(email, password) {
+  const row = getDb()
+    .prepare("SELECT * FROM users WHERE email = ?")
+    .get(normalizeEmail(email));
+  if (
+    !row ||
+    !(await verifyPassword(String(password || ""), row.password_hash))
+  ) {
+    return null;
+  }
+  return toUser(row);
+}
+
+function findUserByEmail(email) {
+  const row = getDb()
+    .prepare("SELECT * FROM users WHERE email = ?")
+    .get(normalizeEmail(email));
+  return row ? toUser(row) : null;
+}
+
+// Start a session and return its token, which is only shown this once
+function createSession(userId) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = Date.now();
+  getDb()
+    .prepare(
+      `INSERT INTO sessions (token_hash, user_id, created_at, expires_at)
+       VALUES (?, ?, ?, ?)`,
+    )
+    .run(
+      digest(token),
+      userId,
+      new Date(now).toISOString(),
+      new Date(now + sessionTtlMs()).toISOString(),
+    );
+  return token;
+}
+
+function endSession(token) {
+  getDb()
+    .prepare("DELETE FROM sessions WHERE token_hash = ?")
+    .run(digest(token));
+}
+
+// The signed-in user for a session token, or null once it has expired
+function userForToken(token) {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `SELECT users.*, sessions.expires_at FROM sessions
+       JOIN users ON users.id = sessions.user_id
+       WHERE sessions.token_hash = ?`,
+    )
+    .get(digest(token));
+  if (!row) return null;
+
+  if (row.expires_at <= new Date().toISOString()) {
+    endSession(token);
+    return null;
+  }
+  return toUser(row);
+}
+
+function tokenFromRequest(req) {
+  return req.get("Authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1] || null;
+}
+
+// Middleware: sets req.user to the signed-in user, or null. Requests
+// without a session are still served; routes that need one check
+// req.user or use requireUser.
+function loadUser(req, res, next) {
+  const token = tokenFromRequest(req);
+  req.user = token ? userForToken(token) : null;
+  next();
+}
+
+function requireUser(req, res, next) {
+  if (!req.user) {
+    return res.status(401).json({ error: "Sign in to continue" });
+  }
+  next();
+}
+
+// Counts a sign-in attempt against the per-IP limit, or answers it with a
+// 429 and returns true when the limit is reached
+function rejectIfSignInLimited(req, res) {
+  const limited = signInLimiter.take(`ip:${req.ip}`);
+  if (!limited) return false;
+
+  res
+    .status(429)
+    .set("Retry-After", String(limited.retryAfter))
+    .json({
+      error: `Too many sign-in attempts - try again in ${formatWait(limited.retryAfter)}`,
+      retryAfter: limited.retryAfter,
+    });
+  return true;
+}
+
+module.exports = {
+  authenticate,
+  createSession,
+  createUser,
+  endSession,
+  findUserByEmail,
+  loadUser,
+  rejectIfSignInLimited,
+  requireUser,
+  tokenFromRequest,
+};
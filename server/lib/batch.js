@@ -0,0 +1,282 @@
+const crypto = require("crypto");
+const { toCsv, parseCsv } = require("./csv");
+const { getDb } = require("./db");
+const { auditSite } = require("./pipeline");
+const { loadProfile } = require("./profiles");
+const { createQueue } = require("./queue");
+const { CATEGORIES } = require("./rules");
+const { isValidUrl, withProtocol } = require("./urls");
+
+const URL_HEADERS = ["url", "website", "site", "homepage"];
+const NAME_HEADERS = ["name", "restaurant", "business"];
+
+let queue = null;
+
+// Created on first use so the env overrides from .env are in place
+function getQueue() {
+  if (!queue) {
+    queue = createQueue({
+      concurrency: parseInt(process.env.BATCH_CONCURRENCY, 10) || 2,
+      hostDelayMs: parseInt(process.env.BATCH_HOST_DELAY_MS, 10) || 2000,
+    });
+  }
+  return queue;
+}
+
+function maxRows() {
+  return parseInt(process.env.BATCH_MAX_ROWS, 10) || 200;
+}
+
+// Read { name, url } rows from CSV. With a header row the name/url columns
+// are found by name; without one, a single column is the URL and otherwise
+// the first two columns are name and URL.
+function rowsFromCsv(text) {
+  const cells = parseCsv(text);
+  if (cells.length === 0) return [];
+
+  const header = cells[0].map((cell) => cell.toLowerCase());
+  const urlIndex = header.findIndex((cell) => URL_HEADERS.includes(cell));
+
+  if (urlIndex !== -1) {
+    const nameIndex = header.findIndex((cell) => NAME_HEADERS.includes(cell));
+    return cells.slice(1).map((row) => ({
+      name: nameIndex === -1 ? "" : row[nameIndex] || "",
+      url: row[urlIndex] || "",
+    }));
+  }
+
+  return cells.map((row) =>
+    row.length === 1
+      ? { name: "", url: row[0] }
+      : { name: row[0], url: row[1] || "" },
+  );
+}
+
+function hostOf(url) {
+  return new URL(withProtocol(url)).hostname
+    .toLowerCase()
+    .replace(/^www\./, "");
+}
+
+function updateRow(jobId, position, fields) {
+  const columns = Object.keys(fields);
+  getDb()
+    .prepare(
+      `UPDATE batch_rows SET ${columns.map((c) => `${c} = ?`).join(", ")}
+       WHERE job_id = ? AND position = ?`,
+    )
+    .run(...columns.map((c) => fields[c]), jobId, position);
+}
+
+function finishJobIfDone(jobId) {
+  const db = getDb();
+  const { remaining } = db
+    .prepare(
+      `SELECT COUNT(*) AS remaining FROM batch_rows
+       WHERE job_id = ? AND status IN ('queued', 'running')`,
+    )
+    .get(jobId);
+
+  if (remaining === 0) {
+    db.prepare("UPDATE batch_jobs SET finished_at = ? WHERE id = ?").run(
+      new Date().toISOString(),
+      jobId,
+    );
+    console.log(`📦 Batch ${jobId} finished`);
+  }
+}
+
+function enqueueRow(jobId, row, profile, insights) {
+  getQueue().push(hostOf(row.url), async () => {
+    updateRow(jobId, row.position, { status: "running" });
+    try {
+      const { id } = await auditSite(row.url, { profile, insights });
+      updateRow(jobId, row.position, { status: "done", audit_id: id });
+    } catch (error) {
+      console.error(`❌ Batch ${jobId} row ${row.position}:`, error.message);
+      updateRow(jobId, row.position, {
+        status: "failed",
+        error: `Could not scan site: ${error.message.trim()}`,
+      });
+    }
+    finishJobIfDone(jobId);
+  });
+}
+
+// Create a batch job and queue its rows. Rows with unusable URLs are marked
+// failed straight away so they still show up in the status and export.
+function createBatchJob(rows, { profile, insights = false }) {
+  if (rows.length === 0) {
+    throw new Error("No restaurants found in the batch");
+  }
+  if (rows.length > maxRows()) {
+    throw new Error(`Batches are limited to ${maxRows()} restaurants`);
+  }
+
+  const db = getDb();
+  const id = crypto.randomBytes(8).toString("base64url");
+  const insertRow = db.prepare(
+    `INSERT INTO batch_rows (job_id, position, name, url, status, error)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+  );
+  const queued = [];
+
+  db.transaction(() => {
+    db.prepare(
+      "INSERT INTO batch_jobs (id, profile, insights, created_at) VALUES (?, ?, ?, ?)",
+    ).run(id, profile.id, insights ? 1 : 0, new Date().toISOString());
+
+    rows.forEach((row, position) => {
+      const url = String(row.url || "").trim();
+      const name = String(row.name || "").trim();
+
+      if (!url || !isValidUrl(url)) {
+        insertRow.run(id, position, name, url, "failed", "Invalid URL format");
+      } else {
+        insertRow.run(id, position, name, url, "queued", null);
+        queued.push({ position, url });
+      }
+    });
+  })();
+
+  console.log(`📦 Batch ${id}: ${queued.length} of ${rows.length} rows queued`);
+  queued.forEach((row) => enqueueRow(id, row, profile, insights));
+  finishJobIfDone(id);
+
+  return id;
+}
+
+// Requeue rows that were pending when the server last stopped
+function resumeBatchJobs() {
+  const db = getDb();
+  const jobs = db
+    .prepare("SELECT * FROM batch_jobs WHERE finished_at IS NULL")
+    .all();
+
+  for (const job of jobs) {
+    const profile = loadProfile(job.profile) || loadProfile();
+    const rows = db
+      .prepare(
+        `SELECT position, url FROM batch_rows
+         WHERE job_id = ? AND status IN ('queued', 'running')`,
+      )
+      .all(job.id);
+
+    console.log(`📦 Resuming batch ${job.id} (${rows.length} rows left)`);
+    for (const row of rows) {
+      updateRow(job.id, row.position, { status: "queued" });
+      enqueueRow(job.id, row, profile, Boolean(job.insights));
+    }
+    finishJobIfDone(job.id);
+  }
+}
+
+function loadRows(jobId) {
+  return getDb()
+    .prepare(
+      `SELECT r.*, a.score, a.report FROM batch_rows r
+       LEFT JOIN audits a ON a.id = r.audit_id
+       WHERE r.job_id = ? ORDER BY r.position`,
+    )
+    .all(jobId);
+}
+
+// Job status with per-row progress, or null for unknown ids
+function getBatchJob(jobId) {
+  const job = getDb()
+    .prepare("SELECT * FROM batch_jobs WHERE id = ?")
+    .get(jobId);
+  if (!job) return null;
+
+  const rows = loadRows(jobId);
+  const count = (status) => rows.filter((row) => row.status === status).length;
+
+  return {
+    id: job.id,
+    profile: job.profile,
+    insights: Boolean(job.insights),
+    status: job.finished_at
+      ? "done"
+      : count("queued") === rows.length
+        ? "queued"
+        : "running",
+    createdAt: job.created_at,
+    finishedAt: job.finished_at,
+    total: rows.length,
+    completed: count("done"),
+    failed: count("failed"),
+    rows: rows.map((row) => ({
+      position: row.position,
+      name: row.name,
+      url: row.url,
+      status: row.status,
+      auditId: row.audit_id,
+      score: row.score ?? null,
+      error: row.error,
+    })),
+  };
+}
+
+const EXPORT_COLUMNS = [
+  { key: "name", header: "Name" },
+  { key: "url", header: "URL" },
+  { key: "status", header: "Status" },
+  { key: "score", header: "Score" },
+  ...Object.entries(CATEGORIES).map(([key, { label }]) => ({
+    key: `${key}Percentage`,
+    header: `${label} %`,
+  })),
+  { key: "errors", header: "Errors" },
+  { key: "warnings", header: "Warnings" },
+  { key: "topIssues", header: "Top Issues" },
+  { key: "auditId", header: "Audit ID" },
+  { key: "error", header: "Failure" },
+];
+
+// One flat record per row for CSV/JSON export
+function exportBatchJob(jobId) {
+  if (!getDb().prepare("SELECT 1 FROM batch_jobs WHERE id = ?").get(jobId)) {
+    return null;
+  }
+
+  return loadRows(jobId).map((row) => {
+    const report = row.report ? JSON.parse(row.report) : null;
+    const issues = report?.issues || [];
+    const record = {
+      name: row.name,
+      url: row.url,
+      status: row.status,
+      score: report?.score ?? null,
+      errors: report
+        ? issues.filter((issue) => issue.type === "error").length
+        : null,
+      warnings: report
+        ? issues.filter((issue) => issue.type === "warning").length
+        : null,
+      // Issues are stored errors first, so the first few are the worst
+      topIssues: issues
+        .slice(0, 3)
+        .map((issue) => issue.text)
+        .join(" | "),
+      auditId: row.audit_id,
+      error: row.error,
+    };
+    for (const key of Object.keys(CATEGORIES)) {
+      record[`${key}Percentage`] = report?.breakdown?.[key]?.percentage ?? null;
+    }
+    return record;
+  });
+}
+
+function exportBatchCsv(records) {
+  return toCsv(records, EXPORT_COLUMNS);
+}
+
+module.exports = {
+  createBatchJob,
+  exportBatchCsv,
+  exportBatchJob,
+  getBatchJob,
+  resumeBatchJobs,
+  rowsFromCsv,
+};
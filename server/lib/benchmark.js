@@ -0,0 +1,196 @@
+const { findRecentAudit, getAudit } = require("./audits");
+const { auditSite } = require("./pipeline");
+const { createQueue } = require("./queue");
+const { CATEGORIES, getRules } = require("./rules");
+const { isValidUrl, withProtocol } = require("./urls");
+
+// Audits younger than this are reused instead of crawling the site again
+const REUSE_AUDITS_FOR_MS = 24 * 60 * 60 * 1000;
+
+function maxCompetitors() {
+  return parseInt(process.env.BENCHMARK_MAX_COMPETITORS, 10) || 5;
+}
+
+let queue = null;
+
+function getQueue() {
+  if (!queue) {
+    queue = createQueue({
+      concurrency: parseInt(process.env.BATCH_CONCURRENCY, 10) || 2,
+      hostDelayMs: 0,
+    });
+  }
+  return queue;
+}
+
+function ordinal(n) {
+  const suffix = { 1: "st", 2: "nd", 3: "rd" }[
+    n % 100 > 10 && n % 100 < 14 ? 0 : n % 10
+  ];
+  return `${n}${suffix || "th"}`;
+}
+
+// Load or run the audit behind one site of the comparison
+function gradeSite(site, profile) {
+  if (site.auditId) {
+    const audit = getAudit(site.auditId);
+    // A locked widget audit has no checks to compare; it is graded again
+    if (audit && !audit.locked) return Promise.resolve(audit);
+  }
+
+  const recent = findRecentAudit(site.url, {
+    profileHash: profile.hash,
+    maxAgeMs: REUSE_AUDITS_FOR_MS,
+  });
+  if (recent) return Promise.resolve(recent);
+
+  return new Promise((resolve, reject) => {
+    const host = new URL(withProtocol(site.url)).hostname;
+    getQueue().push(host, () =>
+      auditSite(site.url, { profile, insights: false }).then(
+        ({ id }) => resolve(getAudit(id)),
+        reject,
+      ),
+    );
+  });
+}
+
+// Where the target stands among the sites that have a value, highest first
+function rankTarget(entries) {
+  const target = entries.find((entry) => entry.role === "target");
+  if (!target) return null;
+
+  const ahead = entries.filter((entry) => entry.value > target.value);
+  const tied = entries.filter(
+    (entry) => entry !== target && entry.value === target.value,
+  );
+  const rank = ahead.length + 1;
+
+  let note;
+  if (entries.length === 1) {
+    note = "No competitors to compare with";
+  } else if (ahead.length === 0 && tied.length === entries.length - 1) {
+    note = "Same as every competitor";
+  } else if (ahead.length === 0) {
+    note = tied.length > 0 ? "Tied for best" : "Best of the group";
+  } else {
+    const leader = ahead.reduce((best, entry) =>
+      entry.value > best.value ? entry : best,
+    );
+    note = `Ranks ${ordinal(rank)} of ${entries.length}, behind ${leader.name}`;
+  }
+
+  return { rank, of: entries.length, note };
+}
+
+function compareCategories(graded) {
+  return Object.entries(CATEGORIES)
+    .filter(([key]) => graded.some((site) => site.breakdown?.[key]))
+    .map(([key, { label }]) => {
+      const entries = graded
+        .filter((site) => site.breakdown?.[key])
+        .map((site) => ({
+          ...site,
+          value: site.breakdown[key].percentage,
+        }));
+      return { key, label, ...rankTarget(entries) };
+    });
+}
+
+// Per-check ranking; audits stored before checks were recorded are skipped
+function compareChecks(graded) {
+  const withChecks = graded.filter((site) => site.checks);
+  const target = withChecks.find((site) => site.role === "target");
+  if (!target) return [];
+
+  const rules = new Map(getRules().map((rule) => [rule.id, rule]));
+
+  return target.checks.map((check) => {
+    const entries = withChecks
+      .map((site) => ({
+        ...site,
+        value: site.checks.find((c) => c.rule === check.rule)?.score,
+      }))
+      .filter((entry) => entry.value !== undefined);
+
+    return {
+      rule: check.rule,
+      title: rules.get(check.rule)?.title || check.rule,
+      category: check.category,
+      weight: check.weight,
+      score: check.score,
+      ...rankTarget(entries),
+    };
+  });
+}
+
+// Grade a target and its competitors with the same profile and rank the
+// target on the overall score, each category and each check. Sites that
+// fail to load are returned with an error and left out of the ranking.
+async function runBenchmark({ target, competitors, profile }) {
+  if (!target || !isValidUrl(String(target.url || ""))) {
+    throw new Error("A target with a valid URL is required");
+  }
+  if (competitors.length === 0) {
+    throw new Error("At least one competitor is required");
+  }
+  if (competitors.length > maxCompetitors()) {
+    throw new Error(
+      `Benchmarks are limited to ${maxCompetitors()} competitors`,
+    );
+  }
+
+  const sites = [
+    { ...target, role: "target" },
+    // Entries from GET /competitors can be passed straight through
+    ...competitors.map((competitor) => ({
+      ...competitor,
+      url: competitor.url || competitor.website,
+      role: "competitor",
+    })),
+  ];
+
+  const results = await Promise.all(
+    sites.map(async (site) => {
+      const entry = {
+        role: site.role,
+        name: site.name || site.url,
+        url: site.url,
+        distanceKm: site.distanceKm ?? null,
+      };
+
+      if (!isValidUrl(String(site.url || ""))) {
+        return { ...entry, error: "Invalid URL format" };
+      }
+
+      try {
+        const audit = await gradeSite(site, profile);
+        return {
+          ...entry,
+          auditId: audit.id,
+          score: audit.score,
+          breakdown: audit.breakdown,
+          checks: audit.checks || null,
+        };
+      } catch (error) {
+        console.error(`❌ Benchmark ${site.url}:`, error.message);
+        return { ...entry, error: `Could not scan site: ${error.message}` };
+      }
+    }),
+  );
+
+  const graded = results.filter((site) => !site.error);
+  if (!graded.some((site) => site.role === "target")) {
+    throw new Error(results[0].error);
+  }
+
+  return {
+    profile: { id: profile.id, name: profile.name, hash: profile.hash },
+    sites: results.map(({ checks, ...site }) => site),
+    overall: rankTarget(graded.map((site) => ({ ...site, value: site.score }))),
+    categories: compareCategories(graded),
+    checks: compareChecks(graded),
+  };
+}
+
+module.exports = { runBenchmark };
@@ -0,0 +1,569 @@
+const cheerio = require("cheerio");
+const {
+  findPhoneNumbersInText,
+  parsePhoneNumberFromString,
+} = require("libphonenumber-js");
+const {
+  DAYS,
+  DAY_NAMES,
+  compareSchedules,
+  parseHoursSpecification,
+  parseOsmHours,
+  parseTextHours,
+} = require("./hours");
+const { wordsPattern } = require("./locale");
+const { splitCuisine } = require("./places/osm");
+
+// Name, address, phone and opening hours (NAP) as the website shows them,
+// compared with structured data and the map listing the user picked.
+
+const BLOCK_ELEMENTS =
+  "p, div, li, tr, td, th, dt, dd, h1, h2, h3, h4, h5, h6, address, section, article, header, footer, table, ul, ol";
+
+// Digits in the shortest phone number read from page text
+const MIN_PHONE_DIGITS = 7;
+
+const compiled = new WeakMap();
+
+// Phone labels and street patterns of a locale pack, e.g. "12 Main Street",
+// "Keizersgracht 12" or "Jl. Sudirman No. 5"
+function localePatterns(locale) {
+  if (compiled.has(locale.address)) return compiled.get(locale.address);
+
+  const { streetTypes, streetSuffixes, streetPrefixes } = locale.address;
+  const alternation = (words) => words.join("|");
+  const streets = [
+    streetTypes.length &&
+      String.raw`\b\d{1,5}[a-z]?\s+(?:[\p{L}'.-]+\s+){1,4}(?:${alternation(streetTypes)})\b\.?`,
+    streetSuffixes.length &&
+      String.raw`\b[\p{L}'-]*(?:${alternation(streetSuffixes)})\.?\s+\d{1,5}[a-z]?\b`,
+    streetPrefixes.length &&
+      String.raw`${wordsPattern(streetPrefixes)}\s+[\p{L}'.-]+(?:\s+[\p{L}'.-]+){0,4}`,
+  ].filter(Boolean);
+
+  const patterns = {
+    street: streets.length ? new RegExp(streets.join("|"), "iu") : /(?!)/,
+    addressLabel: new RegExp(
+      String.raw`^${wordsPattern(locale.address.labels)}\s*:\s*(.+\d.*)$`,
+      "iu",
+    ),
+    phoneLabel: new RegExp(wordsPattern(locale.phone.labels), "iu"),
+  };
+  compiled.set(locale.address, patterns);
+  return patterns;
+}
+
+const ABBREVIATIONS = {
+  st: "street",
+  ave: "avenue",
+  rd: "road",
+  blvd: "boulevard",
+  ln: "lane",
+  dr: "drive",
+  pl: "place",
+  sq: "square",
+  ct: "court",
+  hwy: "highway",
+  pkwy: "parkway",
+  str: "strasse",
+  straße: "strasse",
+};
+
+// Words left out when comparing restaurant names
+const NAME_STOPWORDS = new Set([
+  "the",
+  "and",
+  "restaurant",
+  "restaurante",
+  "ristorante",
+  "cafe",
+  "bar",
+  "grill",
+  "kitchen",
+  "bistro",
+  "eatery",
+]);
+
+function clean(text) {
+  return String(text || "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function normalizeWords(text) {
+  return clean(text)
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ABBREVIATIONS[word] || word);
+}
+
+// A copy of the page body whose text has a line break at every block
+// element and <br>, so "12 Main St<br>Springfield" doesn't run together
+function lineBrokenBody($) {
+  const $copy = cheerio.load($("body").html() || "");
+  $copy("script, style, noscript, template").remove();
+  $copy("br").replaceWith("\n");
+  $copy(BLOCK_ELEMENTS).each((_, el) => {
+    $copy(el).prepend("\n").append("\n");
+  });
+  return $copy;
+}
+
+function lines(text) {
+  return text.split("\n").map(clean).filter(Boolean);
+}
+
+function digits(phone) {
+  return String(phone || "").replace(/\D/g, "");
+}
+
+// E.164 form ("+4930123456") of a number written for the given country
+function phoneNumber(value, country) {
+  return (
+    parsePhoneNumberFromString(String(value || ""), country || undefined)
+      ?.number || null
+  );
+}
+
+// Numbers libphonenumber can't read are compared on their last nine
+// digits, which skips country codes and trunk zeros
+function samePhone(a, b, country) {
+  const x = phoneNumber(a, country);
+  const y = phoneNumber(b, country);
+  if (x && y) return x === y;
+  const [dx, dy] = [digits(a), digits(b)];
+  return dx.length >= 7 && dy.length >= 7 && dx.slice(-9) === dy.slice(-9);
+}
+
+// Everything the website itself says about the business, per page
+function extractPageBusiness(page, locale) {
+  const { $ } = page;
+  const $body = lineBrokenBody($);
+  const bodyLines = lines($body.root().text());
+  const patterns = localePatterns(locale);
+  const country = locale.phoneCountry;
+
+  const phones = [];
+  $('a[href^="tel:"]').each((_, el) => {
+    const value = decodeURIComponent($(el).attr("href").slice(4)).trim();
+    if (digits(value).length >= 7) {
+      phones.push({
+        value,
+        number: phoneNumber(value, country),
+        source: "tel link",
+      });
+    }
+  });
+  for (const line of bodyLines) {
+    const labelled = patterns.phoneLabel.test(line);
+    for (const match of findPhoneNumbersInText(line, country || undefined)) {
+      const value = line.slice(match.startsAt, match.endsAt);
+      // Short matches are times or prices ("12 - 23"); without a "Phone"
+      // label, a bare run of digits is more likely an order id or a date
+      if (digits(value).length < MIN_PHONE_DIGITS) continue;
+      if (!labelled && /^\d+$/.test(value)) continue;
+      phones.push({ value, number: match.number.number, source: "text" });
+    }
+  }
+
+  const addresses = [];
+  $body('address, [itemprop="address"], [itemprop="streetAddress"]').each(
+    (_, el) => {
+      const value = lines($body(el).text()).join(", ");
+      if (value && value.length <= 200) {
+        addresses.push({ value, source: "address element" });
+      }
+    },
+  );
+  for (const line of bodyLines) {
+    if (line.length > 150) continue;
+    const labelled = line.match(patterns.addressLabel);
+    if (labelled) {
+      addresses.push({ value: clean(labelled[1]), source: "text" });
+    } else if (patterns.street.test(line)) {
+      addresses.push({ value: line, source: "text" });
+    }
+  }
+
+  return {
+    url: page.url,
+    phones: dedupe(phones, phoneKey),
+    addresses: dedupe(addresses, (a) => a.value.toLowerCase()),
+    hours: parseTextHours(bodyLines, locale.hours),
+  };
+}
+
+function phoneKey(phone) {
+  return phone.number || digits(phone.value).slice(-9);
+}
+
+function dedupe(items, key) {
+  const seen = new Set();
+  return items.filter((item) => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+function structuredAddress(address) {
+  if (!address) return null;
+  if (typeof address === "string") return clean(address);
+  const node = Array.isArray(address) ? address[0] : address;
+  if (!node || typeof node !== "object") return null;
+  return (
+    clean(
+      [
+        node.streetAddress,
+        [node.postalCode, node.addressLocality]
+          .filter((part) => typeof part === "string")
+          .join(" "),
+      ]
+        .filter((part) => typeof part === "string" && part)
+        .join(", "),
+    ) || null
+  );
+}
+
+// What structured data says, from the Restaurant/LocalBusiness entity
+function structuredBusiness(structuredData) {
+  const entity = structuredData.match?.node;
+  if (!entity) return null;
+
+  const openingHours = [].concat(entity.openingHours || []).join("; ");
+  const first = (value) => (Array.isArray(value) ? value[0] : value);
+
+  return {
+    page: structuredData.match.page,
+    name: typeof first(entity.name) === "string" ? first(entity.name) : null,
+    phone:
+      typeof first(entity.telephone) === "string"
+        ? first(entity.telephone)
+        : null,
+    address: structuredAddress(entity.address),
+    hours:
+      parseHoursSpecification(entity.openingHoursSpecification) ||
+      parseOsmHours(openingHours),
+  };
+}
+
+// The map listing sent along with /grade, e.g. the Nominatim place picked
+// in the search box:
+//
+//   {
+//     "name": "Luigi's",
+//     "phone": "+1 555 123 4567",
+//     "openingHours": "Mo-Fr 11:00-22:00; Sa-Su 12:00-23:00",
+//     "address": { "houseNumber": "12", "street": "Main Street",
+//                  "postcode": "12345", "city": "Springfield" },
+//     "countryCode": "us",
+//     "cuisine": "italian;pizza",
+//     "lat": "39.7817", "lon": "-89.6501"
+//   }
+//
+// Unknown fields and non-string values are ignored. The country code picks
+// how phone numbers are read (./locale); cuisine and coordinates only feed
+// the structured data fix (./fixes).
+function normalizeListing(place) {
+  if (!place || typeof place !== "object") return null;
+
+  const text = (value) =>
+    typeof value === "string" && clean(value)
+      ? clean(value).slice(0, 200)
+      : null;
+  const address =
+    place.address && typeof place.address === "object" ? place.address : {};
+
+  const listing = {
+    source: text(place.source) || "listing",
+    name: text(place.name),
+    phone: text(place.phone),
+    openingHours: text(place.openingHours),
+    address: {
+      houseNumber: text(address.houseNumber),
+      street: text(address.street),
+      postcode: text(address.postcode),
+      city: text(address.city),
+    },
+  };
+  listing.hours = parseOsmHours(listing.openingHours);
+  listing.cuisine = splitCuisine(text(place.cuisine));
+  const [lat, lon] = [place.lat, place.lon].map((value) =>
+    typeof value === "string" || typeof value === "number"
+      ? parseFloat(value)
+      : NaN,
+  );
+  listing.geo =
+    Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? { lat, lon } : null;
+
+  const hasData =
+    listing.name ||
+    listing.phone ||
+    listing.hours ||
+    listing.address.street ||
+    listing.address.postcode;
+  return hasData ? listing : null;
+}
+
+function siteName(pages) {
+  const { $ } = pages[0];
+  return (
+    clean($('meta[property="og:site_name"]').attr("content")) ||
+    clean($("title").first().text()).split(/\s[|–—-]\s/)[0] ||
+    null
+  );
+}
+
+function dayList(days) {
+  const names = days.map((day) => `${DAY_NAMES[day]}s`);
+  return names.length > 1
+    ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+    : names[0];
+}
+
+// "Website says closed Mondays, map listing says open 11:00-22:00"
+function describeHoursMismatch(days, a, b, labels) {
+  const ranges = (r) => r.join(", ");
+  if (a.length === 0) {
+    return `${labels[0]} says closed ${dayList(days)}, ${labels[1]} says open ${ranges(b)}`;
+  }
+  if (b.length === 0) {
+    return `${labels[0]} says open ${dayList(days)} ${ranges(a)}, ${labels[1]} says closed`;
+  }
+  return `${dayList(days)}: ${labels[0].toLowerCase()} says ${ranges(a)}, ${labels[1]} says ${ranges(b)}`;
+}
+
+// Days with the same disagreement are reported together
+function hoursMismatches(a, b, labels) {
+  const groups = new Map();
+  for (const { day, a: x, b: y } of compareSchedules(a, b)) {
+    const key = `${x.join(",")}|${y.join(",")}`;
+    if (!groups.has(key)) groups.set(key, { days: [], a: x, b: y });
+    groups.get(key).days.push(day);
+  }
+  return [...groups.values()].map((group) =>
+    describeHoursMismatch(group.days, group.a, group.b, labels),
+  );
+}
+
+function addressMatches(siteAddress, listingAddress) {
+  const words = normalizeWords(siteAddress);
+  const street = normalizeWords(listingAddress.street).filter(
+    (word) => !Object.values(ABBREVIATIONS).includes(word),
+  );
+  const streetWord = street.sort((x, y) => y.length - x.length)[0];
+  const joined = words.join(" ");
+
+  return (
+    (!listingAddress.houseNumber ||
+      words.includes(listingAddress.houseNumber.toLowerCase())) &&
+    (!streetWord || joined.includes(streetWord))
+  );
+}
+
+function namesMatch(a, b) {
+  const words = (name) =>
+    normalizeWords(name).filter((word) => !NAME_STOPWORDS.has(word));
+  const x = words(a);
+  const y = new Set(words(b));
+  return x.length === 0 || y.size === 0 || x.some((word) => y.has(word));
+}
+
+function formatListingAddress(address) {
+  return clean(
+    [
+      [address.street, address.houseNumber].filter(Boolean).join(" "),
+      address.postcode,
+      address.city,
+    ]
+      .filter(Boolean)
+      .join(", "),
+  );
+}
+
+// Compare what the website shows with its own structured data and with the
+// map listing. Each mismatch names the two sources it came from. Phone
+// numbers without a country code are read as numbers in `country`.
+function compareBusiness(site, structured, listing, country) {
+  const mismatches = [];
+  const compared = new Set();
+  const add = (field, sources, text, type) =>
+    mismatches.push({ field, sources, text, ...(type && { type }) });
+
+  const visibleHours =
+    site.hours?.source === "text" ? site.hours.schedule : null;
+  const siteHours = site.hours?.schedule || null;
+
+  if (listing?.hours && siteHours) {
+    compared.add("hours");
+    hoursMismatches(siteHours, listing.hours, [
+      "Website",
+      "map listing",
+    ]).forEach((text) => add("hours", ["website", "listing"], text));
+  }
+  if (structured?.hours && visibleHours) {
+    compared.add("hours");
+    hoursMismatches(visibleHours, structured.hours, [
+      "Website",
+      "structured data",
+    ]).forEach((text) =>
+      add("hours", ["website", "structured data"], text, "warning"),
+    );
+  }
+
+  const visiblePhones = site.phones.filter(
+    (p) => p.source !== "structured data",
+  );
+  if (listing?.phone && site.phones.length) {
+    compared.add("phone");
+    if (!site.phones.some((p) => samePhone(p.value, listing.phone, country))) {
+      add(
+        "phone",
+        ["website", "listing"],
+        `Phone number differs: website shows ${site.phones[0].value}, map listing has ${listing.phone}`,
+      );
+    }
+  }
+  if (structured?.phone && visiblePhones.length) {
+    compared.add("phone");
+    if (
+      !visiblePhones.some((p) => samePhone(p.value, structured.phone, country))
+    ) {
+      add(
+        "phone",
+        ["website", "structured data"],
+        `Phone number differs: website shows ${visiblePhones[0].value}, structured data has ${structured.phone}`,
+        "warning",
+      );
+    }
+  }
+
+  if (listing?.address.street && site.addresses.length) {
+    compared.add("address");
+    if (!site.addresses.some((a) => addressMatches(a.value, listing.address))) {
+      add(
+        "address",
+        ["website", "listing"],
+        `Address differs: website shows "${site.addresses[0].value}", map listing has "${formatListingAddress(listing.address)}"`,
+      );
+    }
+  }
+
+  if (listing?.name && site.name) {
+    compared.add("name");
+    if (!namesMatch(site.name, listing.name)) {
+      add(
+        "name",
+        ["website", "listing"],
+        `Restaurant name differs: website says "${site.name}", map listing says "${listing.name}"`,
+        "info",
+      );
+    }
+  }
+
+  return { mismatches, compared: [...compared] };
+}
+
+// NAP and opening hours across the crawled pages. Visible text wins over
+// structured data when both have hours; `pages` holds the per-page finds
+// used for page findings. Text is read in the words of `locale` (./locale).
+function analyzeBusiness(pages, structuredData, place, locale) {
+  const perPage = pages.map((page) => extractPageBusiness(page, locale));
+  const structured = structuredBusiness(structuredData);
+  const listing = normalizeListing(place);
+
+  const textHours = perPage.find((page) => page.hours);
+  const hours = textHours
+    ? { schedule: textHours.hours, source: "text", page: textHours.url }
+    : structured?.hours
+      ? {
+          schedule: structured.hours,
+          source: "structured data",
+          page: structured.page,
+        }
+      : null;
+
+  const site = {
+    name: structured?.name || siteName(pages),
+    phones: dedupe(
+      [
+        ...perPage.flatMap((page) =>
+          page.phones.map((phone) => ({ ...phone, page: page.url })),
+        ),
+        ...(structured?.phone
+          ? [
+              {
+                value: structured.phone,
+                number: phoneNumber(structured.phone, locale.phoneCountry),
+                source: "structured data",
+                page: structured.page,
+              },
+            ]
+          : []),
+      ],
+      phoneKey,
+    ),
+    addresses: [
+      ...perPage.flatMap((page) =>
+        page.addresses.map((address) => ({ ...address, page: page.url })),
+      ),
+      ...(structured?.address
+        ? [
+            {
+              value: structured.address,
+              source: "structured data",
+              page: structured.page,
+            },
+          ]
+        : []),
+    ].slice(0, 5),
+    hours,
+  };
+
+  const { mismatches, compared } = compareBusiness(
+    site,
+    structured,
+    listing,
+    locale.phoneCountry,
+  );
+
+  return {
+    ...site,
+    listing,
+    compared,
+    mismatches,
+    pages: perPage,
+  };
+}
+
+// The business details as returned in the report
+function summarizeBusiness(business) {
+  const { pages, listing, ...summary } = business;
+  return {
+    ...summary,
+    hours: business.hours && {
+      ...business.hours,
+      schedule: Object.fromEntries(
+        DAYS.filter((day) => business.hours.schedule[day]).map((day) => [
+          day,
+          business.hours.schedule[day],
+        ]),
+      ),
+    },
+    listing: listing && {
+      source: listing.source,
+      name: listing.name,
+      phone: listing.phone,
+      address: listing.address,
+      openingHours: listing.openingHours,
+      hours: listing.hours,
+    },
+  };
+}
+
+module.exports = { analyzeBusiness, summarizeBusiness };
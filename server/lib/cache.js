@@ -0,0 +1,59 @@
+const { urlKey } = require("./audits");
+
+// In-memory cache whose entries expire `ttlMs` after they were set. The
+// oldest entries are dropped once `maxEntries` is reached. A ttlMs of 0
+// turns the cache off.
+function createTtlCache({ ttlMs, maxEntries = 500 }) {
+  const entries = new Map();
+
+  function get(key) {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  function set(key, value) {
+    if (ttlMs <= 0) return;
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    // Maps keep insertion order, so the first key is the oldest
+    while (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value);
+    }
+  }
+
+  return { get, set, delete: (key) => entries.delete(key) };
+}
+
+function ttlFromEnv(name, fallback) {
+  const value = parseInt(process.env[name], 10);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+// Finished /grade results, as stored audit ids. The same site graded with
+// another profile, crawl limits or map listing is a different result.
+const gradeCache = createTtlCache({
+  ttlMs: ttlFromEnv("GRADE_CACHE_TTL_MS", 60 * 60 * 1000),
+});
+
+// AI insights per site, kept longer since they cost a Gemini request and
+// the free tier allows 20 a day
+const insightsCache = createTtlCache({
+  ttlMs: ttlFromEnv("INSIGHTS_CACHE_TTL_MS", 24 * 60 * 60 * 1000),
+});
+
+function gradeCacheKey(url, { profile, maxPages, maxDepth, place }) {
+  return JSON.stringify([
+    urlKey(url),
+    profile.hash,
+    maxPages ?? null,
+    maxDepth ?? null,
+    place ?? null,
+  ]);
+}
+
+module.exports = { createTtlCache, gradeCache, gradeCacheKey, insightsCache };
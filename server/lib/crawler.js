@@ -0,0 +1,194 @@
+const cheerio = require("cheerio");
+const fetcher = require("./fetcher");
+
+// Pages restaurants usually keep their key details on, most important first.
+// Links matching an earlier pattern are crawled before later ones.
+const PRIORITY_PATTERNS = [
+  /menu|food|drinks/,
+  /contact|location|find-us|visit/,
+  /order|delivery|takeout|pickup/,
+  /reserv|booking|book-a-table/,
+  /about|story|hours/,
+];
+
+// Links that never point at an HTML page worth grading
+const SKIPPED_EXTENSIONS =
+  /\.(pdf|jpe?g|png|gif|webp|avif|svg|ico|css|js|json|xml|txt|zip|mp3|mp4|mov|docx?|xlsx?)$/i;
+
+// Request values win over env defaults, but are always kept within bounds
+const LIMITS = {
+  maxPages: { env: "CRAWL_MAX_PAGES", fallback: 6, min: 1, max: 20 },
+  maxDepth: { env: "CRAWL_MAX_DEPTH", fallback: 2, min: 0, max: 3 },
+};
+
+function clampLimit(name, value) {
+  const { env, fallback, min, max } = LIMITS[name];
+  const requested = parseInt(value, 10);
+  const configured = parseInt(process.env[env], 10);
+
+  const limit = Number.isFinite(requested)
+    ? requested
+    : Number.isFinite(configured)
+      ? configured
+      : fallback;
+
+  return Math.min(Math.max(limit, min), max);
+}
+
+function siteKey(hostname) {
+  return hostname.toLowerCase().replace(/^www\./, "");
+}
+
+function pageKey(url) {
+  return `${siteKey(url.hostname)}${url.pathname.replace(/\/+$/, "")}${url.search}`;
+}
+
+function linkPriority(url, linkText) {
+  const haystack = `${url.pathname} ${linkText}`.toLowerCase();
+  const index = PRIORITY_PATTERNS.findIndex((pattern) =>
+    pattern.test(haystack),
+  );
+  return index === -1 ? PRIORITY_PATTERNS.length : index;
+}
+
+// Collect same-origin links from a page that look like HTML pages
+function extractLinks($, baseUrl, site) {
+  const links = [];
+
+  $("a[href]").each((_, el) => {
+    const href = $(el).attr("href").trim();
+    if (!href || /^(mailto|tel|javascript|sms):/i.test(href)) return;
+
+    let url;
+    try {
+      url = new URL(href, baseUrl);
+    } catch (_) {
+      return;
+    }
+
+    if (!["http:", "https:"].includes(url.protocol)) return;
+    if (siteKey(url.hostname) !== site) return;
+    if (SKIPPED_EXTENSIONS.test(url.pathname)) return;
+
+    url.hash = "";
+    links.push({ url, text: $(el).text().trim() });
+  });
+
+  return links;
+}
+
+function loadPage(fetched, depth) {
+  const $ = cheerio.load(fetched.html);
+  return {
+    url: fetched.url,
+    depth,
+    status: fetched.status,
+    headers: fetched.headers,
+    loadTime: fetched.loadTime,
+    ttfb: fetched.ttfb,
+    redirects: fetched.redirects,
+    transferSize: fetched.transferSize,
+    encoding: fetched.encoding,
+    title: $("title").first().text().trim(),
+    $,
+    bodyText: $("body").text().toLowerCase(),
+  };
+}
+
+// Breadth-limited crawl of a restaurant site. The homepage is fetched first
+// and any failure there is thrown; failures on inner pages are recorded on
+// the page entry so the rest of the crawl can carry on. `onProgress` is
+// told about the redirect (if any) and each page as it is crawled.
+// `fetchPage` reads the pages from somewhere other than the network, e.g.
+// an uploaded build (./upload).
+async function crawlSite(startUrl, options = {}) {
+  const maxPages = clampLimit("maxPages", options.maxPages);
+  const maxDepth = clampLimit("maxDepth", options.maxDepth);
+  const onProgress = options.onProgress || (() => {});
+  const fetchPage = options.fetchPage || fetcher.fetchPage;
+
+  const home = await fetchPage(startUrl);
+  const homePage = loadPage(home, 0);
+  const site = siteKey(new URL(homePage.url).hostname);
+
+  if (pageKey(new URL(homePage.url)) !== pageKey(new URL(startUrl))) {
+    onProgress("redirect", { from: startUrl, to: homePage.url });
+  }
+
+  const pages = [homePage];
+  const seen = new Set([
+    pageKey(new URL(startUrl)),
+    pageKey(new URL(homePage.url)),
+  ]);
+  const queue = [];
+  let discovered = 0;
+
+  const enqueueLinks = (page) => {
+    if (page.depth >= maxDepth) return;
+    for (const { url, text } of extractLinks(page.$, page.url, site)) {
+      const key = pageKey(url);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      queue.push({
+        url: url.toString(),
+        depth: page.depth + 1,
+        priority: linkPriority(url, text),
+        order: discovered++,
+      });
+    }
+    queue.sort(
+      (a, b) =>
+        a.priority - b.priority || a.depth - b.depth || a.order - b.order,
+    );
+  };
+
+  const reportPage = (page) =>
+    onProgress("crawl", {
+      url: page.url,
+      depth: page.depth,
+      error: page.error,
+      crawled: pages.length,
+      maxPages,
+    });
+
+  reportPage(homePage);
+  enqueueLinks(homePage);
+
+  while (queue.length > 0 && pages.length < maxPages) {
+    const next = queue.shift();
+
+    try {
+      const fetched = await fetchPage(next.url, { timeout: 10000 });
+      // A missing content type passes, as it does for the homepage
+      const contentType = String(fetched.headers["content-type"] || "");
+      if (
+        typeof fetched.html !== "string" ||
+        (contentType && !contentType.includes("html"))
+      ) {
+        continue;
+      }
+
+      const finalKey = pageKey(new URL(fetched.url));
+      if (finalKey !== pageKey(new URL(next.url)) && seen.has(finalKey)) {
+        continue; // Redirected onto a page we already have
+      }
+      seen.add(finalKey);
+
+      const page = loadPage(fetched, next.depth);
+      pages.push(page);
+      reportPage(page);
+      enqueueLinks(page);
+    } catch (error) {
+      // Links to images, downloads and the like aren't pages to grade
+      if (error.code === "NOT_HTML") continue;
+      console.log(`   ⚠️ Could not crawl ${next.url}: ${error.message}`);
+      const page = { url: next.url, depth: next.depth, error: error.message };
+      pages.push(page);
+      reportPage(page);
+    }
+  }
+
+  return { pages, maxPages, maxDepth };
+}
+
+module.exports = { crawlSite };
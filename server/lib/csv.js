@@ -0,0 +1,83 @@
+// Minimal RFC 4180 CSV reading and writing for batch imports and exports
+
+// Spreadsheets in many European locales export with semicolons
+function detectDelimiter(text) {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const count = (char) => firstLine.split(char).length - 1;
+  return count(";") > count(",") ? ";" : ",";
+}
+
+function parseCsv(text) {
+  const delimiter = detectDelimiter(text);
+  const rows = [];
+  let row = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows
+    .map((cells) => cells.map((cell) => cell.trim()))
+    .filter((cells) => cells.some(Boolean));
+}
+
+// Exported cells hold text from forms and scanned sites; a leading "=",
+// "+", "-" or "@" would make a spreadsheet read it as a formula
+function plainText(value) {
+  return /^[=+\-@]/.test(value) ? `'${value}` : value;
+}
+
+function escapeCell(value) {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : typeof value === "string"
+        ? plainText(value)
+        : String(value);
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// `columns` is a list of { key, header } describing each object's fields.
+// Numbers are written as they are, so negative ones stay numbers.
+function toCsv(records, columns) {
+  return [
+    columns.map((column) => escapeCell(column.header)).join(","),
+    ...records.map((record) =>
+      columns.map((column) => escapeCell(record[column.key])).join(","),
+    ),
+  ].join("\r\n");
+}
+
+module.exports = { parseCsv, toCsv };
@@ -0,0 +1,161 @@
+const Database = require("better-sqlite3");
+const fs = require("fs");
+const path = require("path");
+
+// Schema changes, applied in order and tracked with PRAGMA user_version.
+// Append new migrations; never edit one that has shipped.
+const MIGRATIONS = [
+  `CREATE TABLE audits (
+     id TEXT PRIMARY KEY,
+     url TEXT NOT NULL,
+     url_key TEXT NOT NULL,
+     score INTEGER NOT NULL,
+     profile TEXT,
+     created_at TEXT NOT NULL,
+     report TEXT NOT NULL
+   );
+   CREATE INDEX audits_url_key ON audits (url_key, created_at);`,
+  `CREATE TABLE batch_jobs (
+     id TEXT PRIMARY KEY,
+     profile TEXT NOT NULL,
+     insights INTEGER NOT NULL DEFAULT 0,
+     created_at TEXT NOT NULL,
+     finished_at TEXT
+   );
+   CREATE TABLE batch_rows (
+     job_id TEXT NOT NULL REFERENCES batch_jobs (id),
+     position INTEGER NOT NULL,
+     name TEXT,
+     url TEXT NOT NULL,
+     status TEXT NOT NULL,
+     audit_id TEXT REFERENCES audits (id),
+     error TEXT,
+     PRIMARY KEY (job_id, position)
+   );`,
+  `CREATE TABLE monitors (
+     id TEXT PRIMARY KEY,
+     name TEXT,
+     url TEXT NOT NULL,
+     profile TEXT NOT NULL,
+     place TEXT,
+     frequency TEXT NOT NULL,
+     score_drop INTEGER NOT NULL,
+     webhook_url TEXT,
+     email TEXT,
+     enabled INTEGER NOT NULL DEFAULT 1,
+     created_at TEXT NOT NULL,
+     next_run_at TEXT NOT NULL
+   );
+   CREATE TABLE monitor_runs (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     monitor_id TEXT NOT NULL REFERENCES monitors (id),
+     status TEXT NOT NULL,
+     started_at TEXT NOT NULL,
+     finished_at TEXT,
+     audit_id TEXT REFERENCES audits (id),
+     score INTEGER,
+     regression TEXT,
+     alert_error TEXT,
+     error TEXT
+   );
+   CREATE INDEX monitor_runs_monitor ON monitor_runs (monitor_id, started_at);`,
+  `CREATE TABLE users (
+     id TEXT PRIMARY KEY,
+     email TEXT NOT NULL UNIQUE,
+     name TEXT NOT NULL,
+     password_hash TEXT NOT NULL,
+     created_at TEXT NOT NULL
+   );
+   CREATE TABLE sessions (
+     token_hash TEXT PRIMARY KEY,
+     user_id TEXT NOT NULL REFERENCES users (id),
+     created_at TEXT NOT NULL,
+     expires_at TEXT NOT NULL
+   );
+   CREATE TABLE workspaces (
+     id TEXT PRIMARY KEY,
+     name TEXT NOT NULL,
+     created_at TEXT NOT NULL
+   );
+   CREATE TABLE workspace_members (
+     workspace_id TEXT NOT NULL REFERENCES workspaces (id),
+     user_id TEXT NOT NULL REFERENCES users (id),
+     role TEXT NOT NULL,
+     created_at TEXT NOT NULL,
+     PRIMARY KEY (workspace_id, user_id)
+   );
+   CREATE TABLE clients (
+     id TEXT PRIMARY KEY,
+     workspace_id TEXT NOT NULL REFERENCES workspaces (id),
+     name TEXT NOT NULL,
+     notes TEXT,
+     created_at TEXT NOT NULL
+   );
+   CREATE TABLE restaurants (
+     id TEXT PRIMARY KEY,
+     workspace_id TEXT NOT NULL REFERENCES workspaces (id),
+     client_id TEXT NOT NULL REFERENCES clients (id),
+     name TEXT NOT NULL,
+     url TEXT NOT NULL,
+     place TEXT,
+     created_at TEXT NOT NULL
+   );
+   CREATE TABLE issue_notes (
+     restaurant_id TEXT NOT NULL REFERENCES restaurants (id),
+     issue_id TEXT NOT NULL,
+     note TEXT,
+     assignee_id TEXT REFERENCES users (id),
+     updated_by TEXT REFERENCES users (id),
+     updated_at TEXT NOT NULL,
+     PRIMARY KEY (restaurant_id, issue_id)
+   );
+   ALTER TABLE audits ADD COLUMN workspace_id TEXT REFERENCES workspaces (id);
+   ALTER TABLE audits ADD COLUMN restaurant_id TEXT REFERENCES restaurants (id);
+   CREATE INDEX audits_restaurant ON audits (restaurant_id, created_at);`,
+  `CREATE TABLE leads (
+     id TEXT PRIMARY KEY,
+     audit_id TEXT NOT NULL REFERENCES audits (id),
+     name TEXT NOT NULL,
+     email TEXT NOT NULL,
+     phone TEXT NOT NULL,
+     partner TEXT,
+     page_url TEXT,
+     created_at TEXT NOT NULL
+   );
+   CREATE INDEX leads_created ON leads (created_at);`,
+  `ALTER TABLE audits ADD COLUMN gated INTEGER NOT NULL DEFAULT 0;`,
+  `ALTER TABLE monitors ADD COLUMN user_id TEXT REFERENCES users (id);
+   ALTER TABLE monitors ADD COLUMN workspace_id TEXT REFERENCES workspaces (id);
+   ALTER TABLE monitors ADD COLUMN api_key TEXT;`,
+  `UPDATE audits SET url_key = 'upload:' || id
+   WHERE url_key LIKE 'upload:%' AND restaurant_id IS NULL;`,
+];
+
+let db = null;
+
+// Open the SQLite database on first use (DATABASE_PATH, default
+// server/data/grader.db) and bring its schema up to date
+function getDb() {
+  if (db) return db;
+
+  const file =
+    process.env.DATABASE_PATH || path.resolve(__dirname, "../data/grader.db");
+  if (file !== ":memory:") {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  db = new Database(file);
+  db.pragma("journal_mode = WAL");
+
+  const version = db.pragma("user_version", { simple: true });
+  MIGRATIONS.slice(version).forEach((sql, i) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version + i + 1}`);
+    })();
+  });
+
+  return db;
+}
+
+module.exports = { getDb };
@@ -0,0 +1,305 @@
+const axios = require("axios");
+const http = require("http");
+const https = require("https");
+const net = require("net");
+const tls = require("tls");
+const zlib = require("zlib");
+const { assertPublicHostname, publicLookup } = require("./addressGuard");
+
+// Both agents refuse private and reserved addresses (./addressGuard).
+// Certificates aren't verified while fetching, so sites with a broken
+// certificate can still be audited; fetchCertificate reports the problem.
+const httpAgent = new http.Agent({ lookup: publicLookup });
+const agent = new https.Agent({
+  rejectUnauthorized: false,
+  lookup: publicLookup,
+});
+
+// Largest page body read, compressed or not (MAX_PAGE_BYTES)
+const DEFAULT_MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+const HTML_TYPES = ["text/html", "application/xhtml+xml"];
+
+const DEFAULT_HEADERS = {
+  "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+  Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.5",
+  "Accept-Encoding": "gzip, deflate, br",
+};
+
+function maxPageBytes() {
+  return parseInt(process.env.MAX_PAGE_BYTES, 10) || DEFAULT_MAX_PAGE_BYTES;
+}
+
+function fetchError(message, code) {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+}
+
+// Options shared by every audit request: the guarded agents, and the
+// address check repeated on each redirect hop. follow-redirects wraps
+// errors thrown there (and axios wraps those), so callers unwrap them with
+// guarded().
+function requestOptions(url, onRedirect) {
+  assertPublicHostname(new URL(url).hostname);
+  return {
+    httpAgent,
+    httpsAgent: agent,
+    maxRedirects: 5,
+    beforeRedirect: (options, response) => {
+      assertPublicHostname(options.hostname);
+      onRedirect?.(options, response);
+    },
+  };
+}
+
+async function guarded(request) {
+  try {
+    return await request;
+  } catch (error) {
+    let cause = error;
+    while (cause && cause.code !== "BLOCKED_ADDRESS") cause = cause.cause;
+    throw cause || error;
+  }
+}
+
+// Bodies are fetched compressed so the transfer size and encoding can be
+// reported, and decompressed here, within the same size limit
+function decodeBody(body, encoding, maxOutputLength) {
+  const options = { maxOutputLength };
+  try {
+    switch (encoding) {
+      case "gzip":
+      case "x-gzip":
+        return zlib.gunzipSync(body, options);
+      case "deflate":
+        try {
+          return zlib.inflateSync(body, options);
+        } catch (error) {
+          if (error.code === "ERR_BUFFER_TOO_LARGE") throw error;
+          return zlib.inflateRawSync(body, options);
+        }
+      case "br":
+        return zlib.brotliDecompressSync(body, options);
+      default:
+        return body;
+    }
+  } catch (error) {
+    if (error.code !== "ERR_BUFFER_TOO_LARGE") throw error;
+    throw fetchError(
+      `Page is larger than ${maxOutputLength} bytes uncompressed`,
+      "TOO_LARGE",
+    );
+  }
+}
+
+// The body of a streamed response, up to `maxBytes`
+async function readBody(stream, maxBytes) {
+  const chunks = [];
+  let length = 0;
+  for await (const chunk of stream) {
+    length += chunk.length;
+    if (length > maxBytes) {
+      stream.destroy();
+      throw fetchError(`Page is larger than ${maxBytes} bytes`, "TOO_LARGE");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Fetch a single page and time it. `url` in the result is the final URL
+// after redirects, which is what relative links have to resolve against.
+// `redirects` lists every hop, `ttfb` is the time until the final
+// response's headers arrived, and `transferSize` and `encoding` describe
+// the body as it was sent, before decompression.
+//
+// Responses that aren't HTML are refused with code NOT_HTML, and bodies over
+// MAX_PAGE_BYTES with TOO_LARGE, before they are read into memory.
+async function fetchPage(url, { timeout = 15000 } = {}) {
+  const startTime = Date.now();
+  const maxBytes = maxPageBytes();
+  const redirects = [];
+  let from = url;
+
+  const response = await guarded(
+    axios.get(url, {
+      ...requestOptions(url, (options, { statusCode }) => {
+        redirects.push({ from, to: options.href, status: statusCode });
+        from = options.href;
+      }),
+      timeout,
+      signal: AbortSignal.timeout(timeout),
+      headers: DEFAULT_HEADERS,
+      responseType: "stream",
+      decompress: false,
+    }),
+  );
+  const ttfb = Date.now() - startTime;
+
+  // A missing content type is given the benefit of the doubt
+  const contentType = String(response.headers["content-type"] || "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+  if (contentType && !HTML_TYPES.includes(contentType)) {
+    response.data.destroy();
+    throw fetchError(`Not a web page (${contentType})`, "NOT_HTML");
+  }
+  if (parseInt(response.headers["content-length"], 10) > maxBytes) {
+    response.data.destroy();
+    throw fetchError(`Page is larger than ${maxBytes} bytes`, "TOO_LARGE");
+  }
+
+  const body = await readBody(response.data, maxBytes);
+  const encoding =
+    String(response.headers["content-encoding"] || "").toLowerCase() || null;
+
+  return {
+    url: response.request?.res?.responseUrl || url,
+    status: response.status,
+    headers: response.headers,
+    html: decodeBody(body, encoding, maxBytes).toString("utf8"),
+    loadTime: Date.now() - startTime,
+    ttfb,
+    redirects,
+    transferSize: body.length,
+    encoding,
+  };
+}
+
+// Size and caching headers of a linked resource without downloading it: a
+// HEAD request, or a one-byte ranged GET when the server refuses HEAD or
+// leaves out the length. `size` is null when neither tells.
+async function fetchResourceInfo(url, { timeout = 5000 } = {}) {
+  const startTime = Date.now();
+  const request = async (method, headers = {}) => {
+    const response = await guarded(
+      axios.request({
+        ...requestOptions(url),
+        url,
+        method,
+        timeout,
+        responseType: "stream",
+        decompress: false,
+        validateStatus: () => true,
+        headers: { ...DEFAULT_HEADERS, Accept: "*/*", ...headers },
+      }),
+    );
+    response.data.destroy();
+    return response;
+  };
+
+  let response = await request("HEAD");
+  let size = parseInt(response.headers["content-length"], 10);
+  if (response.status >= 400 || !Number.isFinite(size)) {
+    response = await request("GET", { Range: "bytes=0-0" });
+    const total = String(response.headers["content-range"] || "").match(
+      /\/(\d+)$/,
+    );
+    size = total
+      ? Number(total[1])
+      : parseInt(response.headers["content-length"], 10);
+  }
+
+  return {
+    url: response.request?.res?.responseUrl || url,
+    status: response.status,
+    headers: response.headers,
+    size: Number.isFinite(size) ? size : null,
+    duration: Date.now() - startTime,
+  };
+}
+
+// Where a URL ends up without downloading the final page, e.g. whether
+// http:// redirects to https://
+async function fetchRedirects(url, { timeout = 5000 } = {}) {
+  const redirects = [];
+  let from = url;
+
+  const response = await guarded(
+    axios.get(url, {
+      ...requestOptions(url, (options, { statusCode }) => {
+        redirects.push({ from, to: options.href, status: statusCode });
+        from = options.href;
+      }),
+      timeout,
+      signal: AbortSignal.timeout(timeout),
+      responseType: "stream",
+      validateStatus: () => true,
+      headers: DEFAULT_HEADERS,
+    }),
+  );
+  response.data.destroy();
+
+  return {
+    url: response.request?.res?.responseUrl || url,
+    status: response.status,
+    redirects,
+  };
+}
+
+// The TLS certificate a server presents, with Node's verdict on it.
+// `authorizationError` is an OpenSSL code such as CERT_HAS_EXPIRED or
+// DEPTH_ZERO_SELF_SIGNED_CERT, or ERR_TLS_CERT_ALTNAME_INVALID when the
+// certificate is for another hostname.
+function fetchCertificate(hostname, { port = 443, timeout = 5000 } = {}) {
+  assertPublicHostname(hostname);
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({
+      host: hostname,
+      port,
+      servername: net.isIP(hostname) ? undefined : hostname,
+      rejectUnauthorized: false,
+      lookup: publicLookup,
+      timeout,
+    });
+    socket.once("secureConnect", () => {
+      const certificate = socket.getPeerCertificate();
+      resolve({
+        authorized: socket.authorized,
+        authorizationError: socket.authorizationError
+          ? String(socket.authorizationError.code || socket.authorizationError)
+          : null,
+        protocol: socket.getProtocol(),
+        certificate: certificate && certificate.subject ? certificate : null,
+      });
+      socket.end();
+    });
+    socket.once("timeout", () => {
+      socket.destroy();
+      reject(new Error(`TLS connection to ${hostname} timed out`));
+    });
+    socket.once("error", reject);
+  });
+}
+
+// Download a linked file (e.g. a PDF menu) as a Buffer. Files larger than
+// `maxBytes` are rejected rather than read into memory.
+async function fetchFile(url, { timeout = 20000, maxBytes } = {}) {
+  const response = await guarded(
+    axios.get(url, {
+      ...requestOptions(url),
+      timeout,
+      maxContentLength: maxBytes,
+      responseType: "arraybuffer",
+      headers: { ...DEFAULT_HEADERS, Accept: "*/*" },
+    }),
+  );
+
+  return {
+    url: response.request?.res?.responseUrl || url,
+    status: response.status,
+    headers: response.headers,
+    data: Buffer.from(response.data),
+  };
+}
+
+module.exports = {
+  fetchCertificate,
+  fetchFile,
+  fetchPage,
+  fetchRedirects,
+  fetchResourceInfo,
+};
@@ -0,0 +1,408 @@
+const { DAYS, DAY_NAMES } = require("./hours");
+
+// Ready-to-paste fixes for failed checks, built from what the audit found:
+// the map listing, the site's own name, phone, address and hours, its menu
+// and images. Each builder takes the grading context, the rule's config and
+// a lookup for other rules' config, and returns { title, text, language,
+// code }, or null when there isn't enough to go on.
+//
+// Issues link to their fix by rule id (`issue.fix`).
+
+// Countries that write the house number before the street
+const NUMBER_FIRST = ["US", "CA", "GB", "IE", "AU", "NZ", "FR", "IN", "SG"];
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// OSM cuisine tags ("fish_and_chips") as text ("Fish and chips")
+function cuisineLabel(cuisine) {
+  const text = cuisine.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function homepage(context) {
+  const { origin, pathname } = new URL(context.pages[0].url);
+  return `${origin}${pathname}`;
+}
+
+function absolute(src, base) {
+  try {
+    return new URL(src, base).href;
+  } catch {
+    return null;
+  }
+}
+
+// The image shown when the site is shared: an existing og:image, else the
+// largest photo the homepage loads
+function shareImage(context) {
+  const { $ } = context;
+  const existing = $('meta[property="og:image"]').attr("content");
+  if (existing) return absolute(existing, context.pages[0].url);
+
+  const photo = context.resources.resources
+    .filter(
+      (resource) =>
+        resource.type === "image" &&
+        resource.size &&
+        !/svg|icon/i.test(`${resource.format} ${resource.url}`),
+    )
+    .sort((a, b) => b.size - a.size)[0];
+  return photo ? photo.url : null;
+}
+
+// What the fixes say about the restaurant. The map listing is preferred,
+// since the owner picked it; the site's own details fill the gaps.
+function siteFacts(context) {
+  const { business, menu, locale } = context;
+  const listing = business.listing;
+  const phone =
+    business.phones.find((p) => p.number) || business.phones[0] || null;
+
+  return {
+    name: listing?.name || business.name,
+    url: homepage(context),
+    cuisines: (listing?.cuisine || []).map(cuisineLabel),
+    city: listing?.address.city || null,
+    address: listing?.address.street ? listing.address : null,
+    country: locale.phoneCountry,
+    phone: phone
+      ? { display: phone.value, number: phone.number || phone.value }
+      : listing?.phone
+        ? { display: listing.phone, number: listing.phone }
+        : null,
+    geo: listing?.geo || null,
+    schedule: listing?.hours || business.hours?.schedule || null,
+    menuUrl: menu.pages[0] || menu.pdfs[0]?.url || null,
+    priceRange: menu.priceRange && {
+      ...menu.priceRange,
+      currency: menu.currency,
+    },
+    reservations: Boolean(context.foundOn("reservation")),
+    ordering: Boolean(context.foundOn("ordering")),
+    image: shareImage(context),
+  };
+}
+
+// The first candidate within [min, max] characters, else the longest one
+// that fits under max, else the first cut at a word boundary
+function fitLength(candidates, min, max) {
+  const fitting = candidates.filter((text) => text.length <= max);
+  const inRange = fitting.find((text) => text.length >= min);
+  if (inRange) return inRange;
+  if (fitting.length > 0) {
+    return fitting.reduce((a, b) => (b.length > a.length ? b : a));
+  }
+  const cut = candidates[0].slice(0, max - 1);
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 0 ? cut.lastIndexOf(" ") : cut.length)}…`;
+}
+
+function suggestTitle(facts, { minLength, maxLength }) {
+  const { name, cuisines, city } = facts;
+  const kind = cuisines[0] ? `${cuisines[0]} Restaurant` : "Restaurant";
+  const bases = [
+    city && `${name} | ${kind} in ${city}`,
+    city && `${name} | Restaurant in ${city}`,
+    `${name} | ${kind}`,
+  ].filter(Boolean);
+  const suffixes = [
+    "",
+    facts.reservations && " | Menu & Reservations",
+    facts.ordering && " | Menu & Online Ordering",
+    " | Menu & Opening Hours",
+    " | Menu",
+  ].filter((suffix) => suffix !== false);
+
+  return fitLength(
+    bases.flatMap((base) => suffixes.map((suffix) => base + suffix)),
+    minLength,
+    maxLength,
+  );
+}
+
+function suggestDescription(facts, { minLength, maxLength }) {
+  const { name, cuisines, city, address, phone } = facts;
+  const kind = cuisines[0] ? `${cuisines[0]} restaurant` : "restaurant";
+  const actions = [
+    facts.reservations && "book a table",
+    facts.ordering && "order online",
+  ].filter(Boolean);
+
+  const sentences = [
+    `${name} is ${/^[aeiou]/i.test(kind) ? "an" : "a"} ${kind}${city ? ` in ${city}` : ""}.`,
+    `See the menu and ${actions.length > 0 ? actions.join(" or ") : "opening hours"}.`,
+    address && `Find us at ${formatStreet(address, facts.country)}.`,
+    phone && `Call ${phone.display}.`,
+    "We look forward to your visit.",
+  ].filter(Boolean);
+
+  // Add sentences while they fit, so the text ends on a full stop
+  let text = sentences[0];
+  for (const sentence of sentences.slice(1)) {
+    if (text.length >= minLength) break;
+    if (text.length + 1 + sentence.length <= maxLength) {
+      text += ` ${sentence}`;
+    }
+  }
+  return fitLength([text], minLength, maxLength);
+}
+
+function formatStreet(address, country) {
+  if (!address.houseNumber) return address.street;
+  return NUMBER_FIRST.includes(country)
+    ? `${address.houseNumber} ${address.street}`
+    : `${address.street} ${address.houseNumber}`;
+}
+
+function withinLimits(text, { minLength, maxLength }) {
+  return text.length >= minLength && text.length <= maxLength;
+}
+
+function lengthNote(text, limits) {
+  const { minLength, maxLength } = limits;
+  return withinLimits(text, limits)
+    ? `${text.length} characters, within the ${minLength}-${maxLength} the check asks for.`
+    : `${text.length} characters - there wasn't enough about the restaurant to reach ${minLength}-${maxLength}; add a sentence of your own.`;
+}
+
+// Days with the same hours share one OpeningHoursSpecification
+function openingHoursSpecification(schedule) {
+  const byRange = new Map();
+  for (const day of DAYS) {
+    for (const range of schedule[day] || []) {
+      byRange.set(range, [...(byRange.get(range) || []), DAY_NAMES[day]]);
+    }
+  }
+  return [...byRange].map(([range, days]) => {
+    const [opens, closes] = range.split("-");
+    return {
+      "@type": "OpeningHoursSpecification",
+      dayOfWeek: days,
+      opens,
+      closes,
+    };
+  });
+}
+
+function formatPriceRange({ min, max, currency }) {
+  const format = (amount) =>
+    currency
+      ? amount.toLocaleString("en-US", {
+          style: "currency",
+          currency,
+          maximumFractionDigits: 0,
+        })
+      : String(Math.round(amount));
+  return min === max ? format(min) : `${format(min)}-${format(max)}`;
+}
+
+// A Restaurant entity with everything the audit knows. Fields the site
+// already has valid values for are kept as they are.
+function restaurantEntity(context, facts) {
+  const { match, fields } = context.structuredData;
+  const valid = new Set(
+    fields.filter((field) => field.status === "valid").map((f) => f.field),
+  );
+  const existing = match?.node || {};
+  const keep = (field, value) =>
+    valid.has(field) && existing[field] !== undefined ? existing[field] : value;
+
+  const { address, schedule, geo, priceRange } = facts;
+  const entity = {
+    "@context": "https://schema.org",
+    "@type": "Restaurant",
+    name: keep("name", facts.name),
+    url: facts.url,
+    image: facts.image,
+    telephone: keep("telephone", facts.phone?.number),
+    address: keep(
+      "address",
+      address && {
+        "@type": "PostalAddress",
+        streetAddress: formatStreet(address, facts.country),
+        addressLocality: address.city,
+        postalCode: address.postcode,
+        addressCountry: facts.country,
+      },
+    ),
+    geo: keep(
+      "geo",
+      geo && {
+        "@type": "GeoCoordinates",
+        latitude: geo.lat,
+        longitude: geo.lon,
+      },
+    ),
+    openingHoursSpecification: keep(
+      "openingHoursSpecification",
+      schedule && openingHoursSpecification(schedule),
+    ),
+    servesCuisine: keep(
+      "servesCuisine",
+      facts.cuisines.length ? facts.cuisines : null,
+    ),
+    menu: keep("menu", facts.menuUrl),
+    priceRange: keep("priceRange", priceRange && formatPriceRange(priceRange)),
+    acceptsReservations: keep(
+      "acceptsReservations",
+      facts.reservations || null,
+    ),
+  };
+  if (valid.has("openingHoursSpecification") && existing.openingHours) {
+    entity.openingHours = existing.openingHours;
+    delete entity.openingHoursSpecification;
+  }
+
+  return Object.fromEntries(
+    Object.entries(entity).filter(
+      ([, value]) =>
+        value !== null &&
+        value !== undefined &&
+        !(Array.isArray(value) && value.length === 0),
+    ),
+  );
+}
+
+const FIXES = {
+  "seo.title-length": (context, config) => {
+    const facts = siteFacts(context);
+    if (!facts.name) return null;
+    const title = suggestTitle(facts, config);
+    return {
+      title: "Suggested page title",
+      text: `Replace the homepage's <title> with this. ${lengthNote(title, config)}`,
+      language: "html",
+      code: `<title>${escapeHtml(title)}</title>`,
+    };
+  },
+
+  "seo.meta-description": (context, config) => {
+    const facts = siteFacts(context);
+    if (!facts.name) return null;
+    const description = suggestDescription(facts, config);
+    return {
+      title: "Suggested meta description",
+      text: `Add this inside <head> on the homepage, replacing any existing description. ${lengthNote(description, config)}`,
+      language: "html",
+      code: `<meta name="description" content="${escapeHtml(description)}">`,
+    };
+  },
+
+  "seo.canonical": (context) => ({
+    title: "Canonical link",
+    text: "Add this inside <head> on the homepage. Every other page gets one with its own address.",
+    language: "html",
+    code: `<link rel="canonical" href="${escapeHtml(homepage(context))}">`,
+  }),
+
+  "seo.open-graph": (context, config, configOf) => {
+    const facts = siteFacts(context);
+    if (!facts.name) return null;
+    const { $ } = context;
+    // The page's own title and description when they pass their checks
+    const titleLimits = configOf("seo.title-length");
+    const descriptionLimits = configOf("seo.meta-description");
+    const currentTitle = $("title").first().text().trim();
+    const currentDescription =
+      $('meta[name="description"]').attr("content")?.trim() || "";
+    const title = withinLimits(currentTitle, titleLimits)
+      ? currentTitle
+      : suggestTitle(facts, titleLimits);
+    const description = withinLimits(currentDescription, descriptionLimits)
+      ? currentDescription
+      : suggestDescription(facts, descriptionLimits);
+
+    const tags = [
+      ["property", "og:type", "website"],
+      ["property", "og:site_name", facts.name],
+      ["property", "og:title", title],
+      ["property", "og:description", description],
+      ["property", "og:url", facts.url],
+      ["property", "og:image", facts.image],
+      ["name", "twitter:card", facts.image ? "summary_large_image" : "summary"],
+      ["name", "twitter:title", title],
+      ["name", "twitter:description", description],
+      ["name", "twitter:image", facts.image],
+    ].filter(([, , content]) => content);
+
+    return {
+      title: "Open Graph and Twitter tags",
+      text: facts.image
+        ? "Add these inside <head> on the homepage. The image is the largest photo on the page; a 1200×630 photo of a signature dish works best."
+        : 'Add these inside <head> on the homepage, plus <meta property="og:image"> with a 1200×630 photo of a signature dish.',
+      language: "html",
+      code: tags
+        .map(
+          ([attribute, key, content]) =>
+            `<meta ${attribute}="${key}" content="${escapeHtml(content)}">`,
+        )
+        .join("\n"),
+    };
+  },
+
+  "technical.viewport": () => ({
+    title: "Viewport tag",
+    text: "Add this inside <head> on every page so phones show the site at their own width.",
+    language: "html",
+    code: '<meta name="viewport" content="width=device-width, initial-scale=1">',
+  }),
+
+  "technical.structured-data": (context) => {
+    const facts = siteFacts(context);
+    if (!facts.name) return null;
+    const entity = restaurantEntity(context, facts);
+    const missing = [
+      "telephone",
+      "address",
+      "openingHoursSpecification",
+      "servesCuisine",
+    ].filter(
+      (field) =>
+        !entity[field] &&
+        !(field === "openingHoursSpecification" && entity.openingHours),
+    );
+
+    return {
+      title: "Restaurant structured data (JSON-LD)",
+      text: [
+        context.structuredData.match
+          ? "Replace the existing restaurant data with this block, inside <head> on the homepage."
+          : "Add this block inside <head> on the homepage.",
+        "Check every value before publishing.",
+        missing.length > 0 &&
+          `The audit couldn't find ${missing.join(", ")} - add them by hand.`,
+      ]
+        .filter(Boolean)
+        .join(" "),
+      language: "html",
+      code: `<script type="application/ld+json">\n${JSON.stringify(entity, null, 2).replace(/</g, "\\u003c")}\n</script>`,
+    };
+  },
+
+  "usability.clickable-phone": (context) => {
+    const { phone } = siteFacts(context);
+    if (!phone) return null;
+    return {
+      title: "Click-to-call link",
+      text: "Replace the phone number on the page with this link, so visitors on a phone can call with one tap.",
+      language: "html",
+      code: `<a href="tel:${escapeHtml(phone.number.replace(/[^\d+]/g, ""))}">${escapeHtml(phone.display)}</a>`,
+    };
+  },
+};
+
+// The fix for a rule that reported issues, or null when there is none.
+// `rules` are the profile's rules, for builders that borrow their limits.
+function buildFix(rule, context, rules) {
+  const build = FIXES[rule.id];
+  const configOf = (id) => rules.find((r) => r.id === id)?.config;
+  const fix = build && build(context, rule.config, configOf);
+  return fix ? { id: rule.id, rule: rule.id, ...fix } : null;
+}
+
+module.exports = { buildFix };
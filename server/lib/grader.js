@@ -0,0 +1,266 @@
+const crypto = require("crypto");
+const { analyzeAccessibility } = require("./accessibility");
+const { analyzeBusiness, summarizeBusiness } = require("./business");
+const { buildFix } = require("./fixes");
+const { detectLocale, summarizeLocale } = require("./locale");
+const { analyzeMenu } = require("./menu");
+const { analyzeResources } = require("./resources");
+const { analyzeSecurity } = require("./security");
+const { CATEGORIES } = require("./rules");
+const { detectSignals } = require("./signals");
+const { detectStack, guidanceFor, summarizeStack } = require("./stack");
+const { analyzeStructuredData } = require("./structuredData");
+
+// Facts about the crawled site that rules score against. `pages` has the
+// homepage first; `$` is the homepage for rules that only look there.
+// `menuPdfs` are the linked PDF menus, downloaded before grading, and
+// `place` the map listing the user picked, if any. `resources` are the
+// homepage's images, scripts, stylesheets and fonts, sized before grading,
+// and `securityProbe` the certificate and http:// redirect check.
+function buildContext(
+  pages,
+  url,
+  loadTime,
+  menuPdfs,
+  place,
+  resources,
+  securityProbe,
+) {
+  const locale = detectLocale(pages, { url, place });
+  const structuredData = analyzeStructuredData(pages);
+  const business = analyzeBusiness(pages, structuredData, place, locale);
+  const signals = pages.map((page, i) => ({
+    url: page.url,
+    found: {
+      ...detectSignals(page.$, page.bodyText, locale),
+      hours: Boolean(business.pages[i].hours),
+      address: business.pages[i].addresses.length > 0,
+      phone: business.pages[i].phones.length > 0,
+    },
+  }));
+
+  return {
+    pages,
+    $: pages[0].$,
+    url,
+    loadTime,
+    locale,
+    signals,
+    foundOn: (signal) =>
+      signals.find((page) => page.found[signal])?.url || null,
+    structuredData,
+    business,
+    menu: analyzeMenu(pages, locale, menuPdfs),
+    accessibility: analyzeAccessibility(pages),
+    stack: detectStack(pages),
+    resources: analyzeResources(pages[0], resources),
+    security: analyzeSecurity(pages, securityProbe),
+  };
+}
+
+// Issue ids stay the same from one audit to the next so an issue can be
+// followed over time: the rule id, plus a short hash of the issue's `key`
+// and page when it has them, e.g. "security.headers#1f3a9c02"
+function issueId(ruleId, { key, page }) {
+  const subject = [key, page && new URL(page).pathname]
+    .filter(Boolean)
+    .join("|");
+  if (!subject) return ruleId;
+  const hash = crypto.createHash("sha1").update(subject).digest("hex");
+  return `${ruleId}#${hash.slice(0, 8)}`;
+}
+
+// Run every rule in the profile against the crawled pages. `onCategory` is
+// called with each category's result as soon as its rules have run. For
+// `offline` sites (uploads, ./upload) the rules that need the live site are
+// listed as not applicable and left out of the score, which is then out of
+// the remaining points.
+//
+// Issues carry the rule's effort and impact, its description as
+// `learnMore`, and `pointsLost`: the points the rule missed, shared between
+// the issues that cost them, which fixing them wins back.
+function gradeWebsite(
+  pages,
+  url,
+  loadTime,
+  profile,
+  {
+    onCategory,
+    menuPdfs = [],
+    place = null,
+    resources = [],
+    securityProbe = {},
+    offline = false,
+  } = {},
+) {
+  const context = buildContext(
+    pages,
+    url,
+    loadTime,
+    menuPdfs,
+    place,
+    resources,
+    securityProbe,
+  );
+  const results = {};
+  const checks = [];
+  const fixes = [];
+  const notApplicable = [];
+  // Missed points of rules that failed because of another rule's issue
+  const borrowed = [];
+  const seenIds = new Map();
+
+  // A rule reporting two issues with the same key on the same page would
+  // give them the same id; the later ones are numbered
+  const uniqueId = (id) => {
+    const count = (seenIds.get(id) || 0) + 1;
+    seenIds.set(id, count);
+    return count === 1 ? id : `${id}-${count}`;
+  };
+
+  for (const key of Object.keys(CATEGORIES)) {
+    const category = { score: 0, maxScore: 0, issues: [] };
+    results[key] = category;
+
+    for (const rule of profile.rules.filter((r) => r.category === key)) {
+      if (offline && rule.network) {
+        notApplicable.push({
+          rule: rule.id,
+          title: rule.title,
+          category: CATEGORIES[key].label,
+        });
+        continue;
+      }
+
+      const {
+        score = 0,
+        issues = [],
+        causedBy,
+      } = rule.check(context, rule.config);
+      const earned = Math.round(rule.weight * Math.min(Math.max(score, 0), 1));
+
+      category.maxScore += rule.weight;
+      category.score += earned;
+      checks.push({
+        rule: rule.id,
+        category: key,
+        score: earned,
+        weight: rule.weight,
+      });
+      const guidance = guidanceFor(context.stack, rule.id);
+      const fix =
+        issues.length > 0 ? buildFix(rule, context, profile.rules) : null;
+      if (fix) fixes.push(fix);
+      // The missed points are shared by the issues that cost them: a note
+      // the rule marks as info below its own severity costs nothing, unless
+      // notes are all there is ("HSTS needs HTTPS first"), so every lost
+      // point belongs to an issue
+      const severe = issues.filter(
+        (issue) => rule.severity === "info" || issue.type !== "info",
+      );
+      const costly = severe.length > 0 ? severe : issues;
+      if (causedBy && costly.length === 0 && earned < rule.weight) {
+        borrowed.push({ causedBy, points: rule.weight - earned });
+      }
+      const pointsLost =
+        costly.length > 0
+          ? Math.round(((rule.weight - earned) / costly.length) * 10) / 10
+          : 0;
+      category.issues.push(
+        ...issues.map(({ key, ...issue }, i) => ({
+          type: rule.severity,
+          ...(rule.wcag && { wcag: rule.wcag }),
+          ...(guidance && { guidance }),
+          ...(fix && { fix: fix.id }),
+          ...issue,
+          id: uniqueId(issueId(rule.id, { key, page: issue.page })),
+          rule: rule.id,
+          pointsLost: costly.includes(issues[i]) ? pointsLost : 0,
+          effort: rule.effort,
+          impact: rule.impact,
+          learnMore: rule.description,
+        })),
+      );
+    }
+
+    if (onCategory && category.maxScore > 0) {
+      onCategory(key, {
+        score: category.score,
+        maxScore: category.maxScore,
+        percentage: Math.round((category.score / category.maxScore) * 100),
+        issues: category.issues.map((issue) => ({
+          ...issue,
+          category: CATEGORIES[key].label,
+        })),
+      });
+    }
+  }
+
+  // Borrowed points go to the issues of the rule that caused them, so
+  // fixing those wins them back too
+  for (const { causedBy, points } of borrowed) {
+    const causes = Object.values(results)
+      .flatMap((category) => category.issues)
+      .filter((issue) => issue.rule === causedBy && issue.pointsLost > 0);
+    for (const issue of causes) {
+      issue.pointsLost =
+        Math.round((issue.pointsLost + points / causes.length) * 10) / 10;
+    }
+  }
+
+  const graded = Object.keys(results).filter(
+    (key) => results[key].maxScore > 0,
+  );
+  const totalScore = graded.reduce((sum, key) => sum + results[key].score, 0);
+  const maxScore = graded.reduce((sum, key) => sum + results[key].maxScore, 0);
+
+  // Collect all issues
+  const allIssues = graded.flatMap((key) =>
+    results[key].issues.map((issue) => ({
+      ...issue,
+      category: CATEGORIES[key].label,
+    })),
+  );
+
+  // Sort: errors first, then warnings, then info
+  const priority = { error: 0, warning: 1, info: 2 };
+  allIssues.sort((a, b) => priority[a.type] - priority[b.type]);
+
+  return {
+    score: maxScore > 0 ? Math.round((totalScore / maxScore) * 100) : 0,
+    breakdown: Object.fromEntries(
+      graded.map((key) => [
+        key,
+        {
+          score: results[key].score,
+          maxScore: results[key].maxScore,
+          percentage: Math.round(
+            (results[key].score / results[key].maxScore) * 100,
+          ),
+        },
+      ]),
+    ),
+    issues: allIssues,
+    fixes,
+    checks,
+    notApplicable,
+    pages: pages.map((page, i) => ({
+      url: page.url,
+      title: page.title,
+      depth: page.depth,
+      loadTime: page.loadTime,
+      findings: Object.keys(context.signals[i].found).filter(
+        (signal) => context.signals[i].found[signal],
+      ),
+    })),
+    structuredData: context.structuredData.summary,
+    menu: context.menu,
+    stack: summarizeStack(context.stack),
+    business: summarizeBusiness(context.business),
+    locale: summarizeLocale(context.locale),
+    resources: context.resources,
+    security: context.security,
+  };
+}
+
+module.exports = { gradeWebsite };
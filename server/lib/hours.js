@@ -0,0 +1,380 @@
+const { escapeRegExp, wordsPattern } = require("./locale");
+
+// Opening hours as a weekly schedule: { mo: ["11:00-22:00"], tu: [], ... }.
+// An empty list means closed that day; a missing day is unknown.
+
+const DAYS = ["mo", "tu", "we", "th", "fr", "sa", "su"];
+
+const DAY_NAMES = {
+  mo: "Monday",
+  tu: "Tuesday",
+  we: "Wednesday",
+  th: "Thursday",
+  fr: "Friday",
+  sa: "Saturday",
+  su: "Sunday",
+};
+
+const DASHES = ["-", "–", "—"];
+const LIST_SIGNS = [",", "&", "+"];
+
+const TIME = String.raw`(?:\d{1,2}(?:[:.]\d{2})?\s*(?:a\.?m\.?|p\.?m\.?)?|noon|midnight)`;
+
+function normalizeWord(word) {
+  return word.toLowerCase().replace(/\.$/, "").replace(/\s+/g, " ").trim();
+}
+
+const compiled = new WeakMap();
+
+// Patterns for the "hours" section of a locale pack (./locale): day names,
+// words for ranges ("to", "bis", "t/m") and lists ("and"), closed days and
+// suffixes written after times ("Uhr")
+function compileVocabulary(vocabulary) {
+  if (compiled.has(vocabulary)) return compiled.get(vocabulary);
+
+  const dayKeys = new Map();
+  const addDays = (words, days) =>
+    words.forEach((word) => dayKeys.set(normalizeWord(word), days));
+  for (const [day, words] of Object.entries(vocabulary.days)) {
+    addDays(words, [day]);
+  }
+  addDays(vocabulary.everyDay, DAYS);
+  addDays(vocabulary.weekdays, DAYS.slice(0, 5));
+  addDays(vocabulary.weekends, ["sa", "su"]);
+
+  const day = wordsPattern([
+    ...Object.values(vocabulary.days).flat(),
+    ...vocabulary.everyDay,
+    ...vocabulary.weekdays,
+    ...vocabulary.weekends,
+  ]);
+  const range = `(?:${DASHES.join("|")}|${wordsPattern(vocabulary.ranges)})`;
+  const list = `(?:${LIST_SIGNS.map(escapeRegExp).join("|")}|${wordsPattern(vocabulary.lists)})`;
+  const suffix = String.raw`(?:\s*${wordsPattern(vocabulary.timeSuffixes)})?`;
+
+  const patterns = {
+    dayKeys,
+    daySpec: new RegExp(
+      String.raw`${day}(?:\s*(?:${range}|${list})\s*${day})*`,
+      "giu",
+    ),
+    dayToken: new RegExp(
+      `(?<day>${day})|(?<range>${range})|(?<list>${list})`,
+      "giu",
+    ),
+    timeRange: new RegExp(
+      String.raw`(${TIME})${suffix}\s*${range}\s*(${TIME})`,
+      "giu",
+    ),
+    closed: new RegExp(wordsPattern(vocabulary.closed), "iu"),
+  };
+  compiled.set(vocabulary, patterns);
+  return patterns;
+}
+
+// Days from first to last, wrapping past Sunday ("Fr-Mo")
+function dayRange(from, to) {
+  const days = [];
+  let i = DAYS.indexOf(from);
+  for (let n = 0; n < 7; n++) {
+    days.push(DAYS[i]);
+    if (DAYS[i] === to) break;
+    i = (i + 1) % 7;
+  }
+  return days;
+}
+
+function pad(n) {
+  return String(n).padStart(2, "0");
+}
+
+// "11am", "11:30 pm", "23.00", "noon" -> "HH:MM"
+function parseTime(text, { isClose = false } = {}) {
+  const value = text.toLowerCase().replace(/\s+/g, "");
+  if (value === "noon") return "12:00";
+  if (value === "midnight") return isClose ? "24:00" : "00:00";
+
+  const match = value.match(/^(\d{1,2})(?:[:.](\d{2}))?(a\.?m\.?|p\.?m\.?)?$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const meridiem = match[3]?.[0];
+  if (hours > 24 || minutes > 59) return null;
+  if (meridiem === "p" && hours < 12) hours += 12;
+  if (meridiem === "a" && hours === 12) hours = 0;
+  // Closing at midnight is the end of the day, not the start
+  if (isClose && hours === 0 && minutes === 0) hours = 24;
+
+  return `${pad(hours)}:${pad(minutes)}`;
+}
+
+function parseTimeRanges(text, patterns) {
+  const ranges = [];
+  for (const match of text.matchAll(patterns.timeRange)) {
+    let open = parseTime(match[1]);
+    let close = parseTime(match[2], { isClose: true });
+    if (!open || !close) continue;
+
+    // "5-10pm": the opening time takes the closing meridiem if it fits
+    if (
+      !/[ap]\.?m|noon|midnight|:|\./i.test(match[1]) &&
+      /p\.?m/i.test(match[2])
+    ) {
+      const pm = parseTime(`${match[1]}pm`);
+      if (pm && pm < close) open = pm;
+    }
+    // "11:30-10" without am/pm closes in the evening, "17-1" after midnight
+    if (close < open && !/[ap]\.?m|noon|midnight/i.test(match[2])) {
+      const evening = parseTime(`${match[2]}pm`, { isClose: true });
+      if (evening && evening > open) close = evening;
+    }
+    ranges.push(`${open}-${close}`);
+  }
+  return ranges;
+}
+
+// Days named in a text like "Mon - Thu & Sat", in week order
+function parseDays(text, patterns) {
+  const days = new Set();
+
+  for (const spec of text.matchAll(patterns.daySpec)) {
+    let previous = null;
+    let pendingRange = false;
+
+    for (const token of spec[0].matchAll(patterns.dayToken)) {
+      if (token.groups.range) {
+        pendingRange = true;
+        continue;
+      }
+      if (token.groups.list) continue;
+
+      const keys = patterns.dayKeys.get(normalizeWord(token.groups.day));
+      if (!keys) continue;
+      if (pendingRange && previous && keys.length === 1) {
+        dayRange(previous, keys[0]).forEach((day) => days.add(day));
+      } else {
+        keys.forEach((day) => days.add(day));
+      }
+      previous = keys[keys.length - 1];
+      pendingRange = false;
+    }
+  }
+
+  return DAYS.filter((day) => days.has(day));
+}
+
+function isEmpty(schedule) {
+  return !schedule || Object.keys(schedule).length === 0;
+}
+
+// OSM opening_hours and schema.org openingHours, e.g.
+// "Mo-Fr 11:00-22:00; Sa 12:00-23:00; Su off". Rules with public holidays,
+// months or weeks are skipped; later rules override earlier ones.
+function parseOsmHours(value) {
+  if (typeof value !== "string") return null;
+  const schedule = {};
+
+  for (const rule of value.split(/\s*;\s*|\s*\|\|\s*/)) {
+    const text = rule.trim();
+    if (!text) continue;
+    if (text === "24/7") {
+      DAYS.forEach((day) => (schedule[day] = ["00:00-24:00"]));
+      continue;
+    }
+
+    const match = text.match(
+      /^((?:(?:Mo|Tu|We|Th|Fr|Sa|Su)(?:-(?:Mo|Tu|We|Th|Fr|Sa|Su))?,?)+)?\s*(.*)$/,
+    );
+    const daysPart = match[1];
+    const timesPart = match[2].trim();
+
+    const days = daysPart
+      ? daysPart
+          .split(",")
+          .filter(Boolean)
+          .flatMap((part) => {
+            const [from, to] = part.toLowerCase().split("-");
+            return to ? dayRange(from, to) : [from];
+          })
+      : DAYS;
+
+    if (/^(off|closed)$/i.test(timesPart)) {
+      days.forEach((day) => (schedule[day] = []));
+      continue;
+    }
+    if (
+      !/^\d{1,2}:\d{2}-\d{1,2}:\d{2}(,\d{1,2}:\d{2}-\d{1,2}:\d{2})*$/.test(
+        timesPart.replace(/\s/g, ""),
+      )
+    ) {
+      continue;
+    }
+
+    const ranges = timesPart
+      .replace(/\s/g, "")
+      .split(",")
+      .map((range) => {
+        const [open, close] = range.split("-");
+        return `${parseTime(open)}-${parseTime(close, { isClose: true })}`;
+      });
+    days.forEach((day) => (schedule[day] = ranges));
+  }
+
+  return isEmpty(schedule) ? null : schedule;
+}
+
+// schema.org openingHoursSpecification. opens and closes both at 00:00
+// means closed that day.
+function parseHoursSpecification(specs) {
+  const schedule = {};
+
+  for (const spec of [].concat(specs || [])) {
+    if (!spec || typeof spec !== "object" || spec.validFrom) continue;
+
+    const days = []
+      .concat(spec.dayOfWeek || [])
+      .map((day) =>
+        String(day)
+          .replace(/^.*[/:#]/, "")
+          .slice(0, 2)
+          .toLowerCase(),
+      )
+      .filter((day) => DAYS.includes(day));
+    const opens = parseTime(String(spec.opens || "").slice(0, 5));
+    const closes = parseTime(String(spec.closes || "").slice(0, 5), {
+      isClose: true,
+    });
+
+    for (const day of days) {
+      if (
+        opens === "00:00" &&
+        closes === "24:00" &&
+        spec.opens === spec.closes
+      ) {
+        schedule[day] = [];
+      } else if (opens && closes) {
+        schedule[day] = [...(schedule[day] || []), `${opens}-${closes}`];
+      }
+    }
+  }
+
+  return isEmpty(schedule) ? null : schedule;
+}
+
+// A line cut at each group of days, with the text before and after it:
+// "Mon-Fri 11am-10pm, Sun closed" has the groups Mon-Fri (" 11am-10pm, ")
+// and Sun (" closed")
+function daySegments(line, patterns) {
+  const specs = [...line.matchAll(patterns.daySpec)];
+  return specs.map((spec, i) => {
+    const previous = specs[i - 1];
+    const next = specs[i + 1];
+    const end = spec.index + spec[0].length;
+    return {
+      days: parseDays(spec[0], patterns),
+      before: line.slice(
+        previous ? previous.index + previous[0].length : 0,
+        spec.index,
+      ),
+      after: line.slice(end, next ? next.index : line.length),
+    };
+  });
+}
+
+// The text after a segment's last time range, where a "Closed" meant for
+// the next group of days is written ("5pm - 10pm. Closed Mondays")
+function afterTimes(text, patterns) {
+  let rest = text;
+  for (const match of text.matchAll(patterns.timeRange)) {
+    rest = text.slice(match.index + match[0].length);
+  }
+  return rest;
+}
+
+// Hours written on the page, one line at a time, in the words of the given
+// locale pack's "hours" section. Each group of days on a line takes the
+// times or the "closed" that follow it; a group with nothing after it
+// shares the next group's ("Sat Sun 10am-4pm"), or, at the end of a line,
+// the times on the next line ("Monday - Friday" / "11am - 10pm").
+// The first mention of a day wins, so a later "Kitchen closes at..." line
+// doesn't overwrite the main hours.
+function parseTextHours(lines, vocabulary) {
+  const patterns = compileVocabulary(vocabulary);
+  const schedule = {};
+  let pendingDays = null;
+
+  const assign = (days, ranges) => {
+    for (const day of days) {
+      if (!(day in schedule)) schedule[day] = ranges;
+    }
+  };
+
+  for (const line of lines) {
+    if (line.length > 200) {
+      pendingDays = null;
+      continue;
+    }
+    const segments = daySegments(line, patterns);
+
+    if (segments.length === 0) {
+      const ranges = parseTimeRanges(line, patterns);
+      if (pendingDays && ranges.length) {
+        assign(pendingDays, ranges);
+      } else if (pendingDays && patterns.closed.test(line)) {
+        assign(pendingDays, []);
+      }
+      pendingDays = null;
+      continue;
+    }
+
+    let days = [];
+    let before = "";
+    for (const segment of segments) {
+      if (days.length === 0) before = afterTimes(segment.before, patterns);
+      days = [...days, ...segment.days];
+
+      const ranges = parseTimeRanges(segment.after, patterns);
+      if (ranges.length) {
+        assign(days, ranges);
+        days = [];
+      } else if (
+        patterns.closed.test(segment.after) ||
+        patterns.closed.test(before)
+      ) {
+        assign(days, []);
+        days = [];
+      }
+    }
+    pendingDays = days.length ? days : null;
+  }
+
+  // A single day with times is more likely an event than opening hours
+  return Object.keys(schedule).length >= 2 ? schedule : null;
+}
+
+function formatDay(ranges) {
+  if (!ranges) return "unknown";
+  return ranges.length ? ranges.join(", ") : "closed";
+}
+
+// Days the two schedules disagree on; days unknown to either are skipped
+function compareSchedules(a, b) {
+  return DAYS.filter(
+    (day) =>
+      a[day] &&
+      b[day] &&
+      [...a[day]].sort().join(",") !== [...b[day]].sort().join(","),
+  ).map((day) => ({ day, a: a[day], b: b[day] }));
+}
+
+module.exports = {
+  DAYS,
+  DAY_NAMES,
+  compareSchedules,
+  formatDay,
+  parseHoursSpecification,
+  parseOsmHours,
+  parseTextHours,
+  parseTime,
+};
@@ -0,0 +1,64 @@
+const { generateJson, getProviders } = require("./llm");
+
+// The shape the client, HTML and PDF reports render
+const INSIGHTS_SCHEMA = {
+  type: "object",
+  required: [
+    "summary",
+    "topPriority",
+    "quickWins",
+    "competitorTip",
+    "estimatedImpact",
+  ],
+  additionalProperties: false,
+  properties: {
+    summary: { type: "string", minLength: 1, maxLength: 600 },
+    topPriority: { type: "string", minLength: 1, maxLength: 400 },
+    quickWins: {
+      type: "array",
+      minItems: 1,
+      maxItems: 5,
+      items: { type: "string", minLength: 1, maxLength: 200 },
+    },
+    competitorTip: { type: "string", minLength: 1, maxLength: 400 },
+    estimatedImpact: { type: "string", minLength: 1, maxLength: 40 },
+  },
+};
+
+function describeProviders() {
+  const providers = getProviders();
+  return providers.length > 0
+    ? providers
+        .map(({ name, models }) => `${name} (${models.join(", ")})`)
+        .join(", ")
+    : null;
+}
+
+// Marketing insights for an audit from the configured LLM providers, or
+// null when none is configured or none gave a valid answer
+async function generateAIInsights(websiteData, issues) {
+  const prompt = `You are a restaurant marketing expert. Analyze this restaurant website audit and provide actionable insights.
+
+Website: ${websiteData.title} (${websiteData.url})
+Score: ${websiteData.score}/100
+Load Time: ${websiteData.loadTime}ms
+
+Issues Found:
+${issues.map((i) => `- [${i.type.toUpperCase()}] ${i.text} (${i.category})`).join("\n")}
+
+Provide a JSON response with ONLY these fields (no markdown, no code blocks, just raw JSON):
+{
+  "summary": "A 2-sentence summary of the website's online presence",
+  "topPriority": "The single most important thing to fix and why (1-2 sentences)",
+  "quickWins": ["Easy fix 1", "Easy fix 2", "Easy fix 3"],
+  "competitorTip": "One tip about what successful restaurants do differently",
+  "estimatedImpact": "20-30%"
+}
+
+Respond ONLY with valid JSON. No explanation, no markdown.`;
+
+  const result = await generateJson({ prompt, schema: INSIGHTS_SCHEMA });
+  return result ? result.value : null;
+}
+
+module.exports = { INSIGHTS_SCHEMA, describeProviders, generateAIInsights };
@@ -0,0 +1,180 @@
+const crypto = require("crypto");
+const { reportUrl, sendWebhook } = require("./alerts");
+const { getDb } = require("./db");
+const { toCsv } = require("./csv");
+
+// Leads captured by the embeddable grader widget: the visitor's contact
+// details, stored with the public audit they ran. Each new lead is posted
+// to LEAD_WEBHOOK_URL, if set, and exported through GET /api/v1/leads to
+// the API key named like the embed's partner id, and to no other key.
+
+const MAX_NAME_LENGTH = 100;
+
+// Plain address check, the same as monitors use for alert emails
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/;
+
+// Digits with the usual separators and an optional leading +
+const PHONE_PATTERN = /^\+?[\d\s().-]{6,30}$/;
+
+// The partner id set on the embed, e.g. "harbour-agency"
+const PARTNER_PATTERN = /^[\w.-]{1,64}$/;
+
+function parseLead(input) {
+  const value = (key) => (input[key] === undefined ? "" : input[key]);
+
+  const name = String(value("name")).trim();
+  if (!name) throw new Error("name is required");
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new Error(`name can be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const email = String(value("email")).trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) throw new Error("Invalid email address");
+
+  const phone = String(value("phone")).trim();
+  if (!PHONE_PATTERN.test(phone) || phone.replace(/\D/g, "").length < 6) {
+    throw new Error("Invalid phone number");
+  }
+
+  const partner = String(value("partner")).trim() || null;
+  if (partner && !PARTNER_PATTERN.test(partner)) {
+    throw new Error("partner may only have letters, digits, _, . and -");
+  }
+
+  // The page the widget is embedded in, as its loader reports it
+  let pageUrl = String(value("pageUrl")).trim() || null;
+  if (pageUrl && !/^https?:\/\//i.test(pageUrl)) pageUrl = null;
+
+  return { name, email, phone, partner, pageUrl: pageUrl?.slice(0, 2000) };
+}
+
+function toLead(row) {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    partner: row.partner,
+    pageUrl: row.page_url,
+    createdAt: row.created_at,
+    audit: {
+      id: row.audit_id,
+      url: row.url,
+      score: row.score,
+      reportUrl: reportUrl(row.audit_id),
+    },
+  };
+}
+
+const SELECT_LEADS = `SELECT leads.*, audits.url, audits.score FROM leads
+  JOIN audits ON audits.id = leads.audit_id`;
+
+function getLead(id) {
+  const row = getDb().prepare(`${SELECT_LEADS} WHERE leads.id = ?`).get(id);
+  return row ? toLead(row) : null;
+}
+
+// Post the lead to LEAD_WEBHOOK_URL. Failures are logged; the lead is
+// stored either way and can still be exported.
+async function notifyLead(lead) {
+  const url = process.env.LEAD_WEBHOOK_URL;
+  if (!url) return;
+
+  try {
+    // Set by the operator, so it may be an internal address
+    await sendWebhook(url, { event: "lead.created", lead }, { trusted: true });
+  } catch (error) {
+    console.error(`❌ Lead webhook for ${lead.id}:`, error.message);
+  }
+}
+
+// Store the contact details from the widget's form with the audit they
+// unlock. Throws with a message for the client on bad input; returns null
+// when the audit doesn't exist or belongs to a workspace.
+function createLead(auditId, input) {
+  const lead = parseLead(input);
+  const db = getDb();
+  const audit = db
+    .prepare("SELECT 1 FROM audits WHERE id = ? AND workspace_id IS NULL")
+    .get(String(auditId || ""));
+  if (!audit) return null;
+
+  const id = crypto.randomUUID();
+  db.prepare(
+    `INSERT INTO leads
+       (id, audit_id, name, email, phone, partner, page_url, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    id,
+    auditId,
+    lead.name,
+    lead.email,
+    lead.phone,
+    lead.partner,
+    lead.pageUrl,
+    new Date().toISOString(),
+  );
+
+  const created = getLead(id);
+  notifyLead(created);
+  return created;
+}
+
+// A partner's leads, newest first, optionally only those captured at or
+// after `since` (an ISO date). Throws on a bad date.
+function listLeads(partner, { since } = {}) {
+  const conditions = ["leads.partner = ?"];
+  const params = [partner];
+  if (since) {
+    if (Number.isNaN(Date.parse(since))) throw new Error("since is not a date");
+    conditions.push("leads.created_at >= ?");
+    params.push(new Date(since).toISOString());
+  }
+
+  return getDb()
+    .prepare(
+      `${SELECT_LEADS}
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY leads.created_at DESC`,
+    )
+    .all(...params)
+    .map(toLead);
+}
+
+// Whether the partner captured a lead for the audit, which unlocks it for
+// them if it was gated
+function hasPartnerLead(auditId, partner) {
+  return Boolean(
+    getDb()
+      .prepare("SELECT 1 FROM leads WHERE audit_id = ? AND partner = ?")
+      .get(auditId, partner),
+  );
+}
+
+const EXPORT_COLUMNS = [
+  { key: "createdAt", header: "Captured" },
+  { key: "name", header: "Name" },
+  { key: "email", header: "Email" },
+  { key: "phone", header: "Phone" },
+  { key: "website", header: "Website" },
+  { key: "score", header: "Score" },
+  { key: "partner", header: "Partner" },
+  { key: "pageUrl", header: "Embedded On" },
+  { key: "auditId", header: "Audit ID" },
+  { key: "reportUrl", header: "Report" },
+];
+
+function exportLeadsCsv(leads) {
+  return toCsv(
+    leads.map(({ audit, ...lead }) => ({
+      ...lead,
+      website: audit.url,
+      score: audit.score,
+      auditId: audit.id,
+      reportUrl: audit.reportUrl,
+    })),
+    EXPORT_COLUMNS,
+  );
+}
+
+module.exports = { createLead, exportLeadsCsv, hasPartnerLead, listLeads };
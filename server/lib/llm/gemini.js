@@ -0,0 +1,39 @@
+const { GoogleGenerativeAI } = require("@google/generative-ai");
+
+// LLM provider backed by the Google Gemini API
+const DEFAULT_MODELS = [
+  "gemini-2.5-flash",
+  "gemini-2.0-flash",
+  "gemini-1.5-flash-latest",
+  "gemini-pro",
+];
+
+let client = null;
+
+function configured() {
+  return Boolean(process.env.GEMINI_API_KEY);
+}
+
+async function generate({ model, prompt, maxTokens }) {
+  client ??= new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+  const result = await client
+    .getGenerativeModel({
+      model,
+      generationConfig: {
+        responseMimeType: "application/json",
+        maxOutputTokens: maxTokens,
+      },
+    })
+    .generateContent(prompt);
+
+  const usage = result.response.usageMetadata || {};
+  return {
+    text: result.response.text(),
+    usage: {
+      inputTokens: usage.promptTokenCount || 0,
+      outputTokens: usage.candidatesTokenCount || 0,
+    },
+  };
+}
+
+module.exports = { DEFAULT_MODELS, configured, generate };
@@ -0,0 +1,159 @@
+const { validateSchema } = require("../schema");
+
+// LLM providers turn a prompt into text. Each exports DEFAULT_MODELS,
+// configured() and generate({ model, prompt, maxTokens }) resolving to
+// { text, usage: { inputTokens, outputTokens } }. Parsing, validation,
+// repairs and falling back to the next model happen here so providers can
+// stay thin.
+//
+// LLM_PROVIDERS sets the order providers are tried in, and <NAME>_MODELS
+// (e.g. GEMINI_MODELS=gemini-2.5-flash,gemini-2.0-flash) the order of each
+// provider's models. Providers without credentials are skipped.
+const PROVIDERS = {
+  gemini: () => require("./gemini"),
+  openai: () => require("./openai"),
+  mock: () => require("./mock"),
+};
+
+const DEFAULT_PROVIDERS = "gemini,openai";
+
+function listFromEnv(name) {
+  return (process.env[name] || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Configured providers in the order they are tried, with their models
+function getProviders() {
+  const names = listFromEnv("LLM_PROVIDERS");
+  return (names.length > 0 ? names : DEFAULT_PROVIDERS.split(","))
+    .map((name) => {
+      if (!PROVIDERS[name]) {
+        throw new Error(`Unknown LLM provider "${name}"`);
+      }
+      const provider = PROVIDERS[name]();
+      const models = listFromEnv(`${name.toUpperCase()}_MODELS`);
+      return {
+        name,
+        provider,
+        models: models.length > 0 ? models : provider.DEFAULT_MODELS,
+      };
+    })
+    .filter(({ provider }) => provider.configured());
+}
+
+// Token usage per provider and model since the server started
+const usageTotals = new Map();
+
+function recordUsage(provider, model, usage, failed) {
+  const key = `${provider}/${model}`;
+  const totals = usageTotals.get(key) || {
+    provider,
+    model,
+    requests: 0,
+    failures: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+  };
+  totals.requests++;
+  if (failed) totals.failures++;
+  totals.inputTokens += usage?.inputTokens || 0;
+  totals.outputTokens += usage?.outputTokens || 0;
+  usageTotals.set(key, totals);
+}
+
+function getUsage() {
+  return [...usageTotals.values()];
+}
+
+// Models often wrap JSON in a markdown code block or a sentence
+function parseJson(text) {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("Response contains no JSON object");
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+function repairPrompt(prompt, text, problems) {
+  return `${prompt}
+
+Your previous response was:
+${text.substring(0, 4000)}
+
+It was rejected because:
+${problems.map((problem) => `- ${problem}`).join("\n")}
+
+Respond again with the corrected JSON only.`;
+}
+
+// Asks each configured model in turn for JSON matching `schema`. A response
+// that doesn't parse or match is sent back to the same model with the
+// problems up to `repairs` times before moving on to the next model.
+// Resolves to { value, provider, model, usage } or null when every model
+// failed.
+async function generateJson({ prompt, schema, maxTokens = 1024, repairs = 1 }) {
+  const providers = getProviders();
+  if (providers.length === 0) {
+    console.log("⚠️ Skipping AI insights - no LLM provider configured");
+    return null;
+  }
+
+  for (const { name, provider, models } of providers) {
+    for (const model of models) {
+      const usage = { requests: 0, inputTokens: 0, outputTokens: 0 };
+      let request = prompt;
+
+      for (let attempt = 0; attempt <= repairs; attempt++) {
+        let response;
+        try {
+          console.log(`🤖 Trying ${name}/${model}...`);
+          response = await provider.generate({
+            model,
+            prompt: request,
+            maxTokens,
+          });
+        } catch (error) {
+          recordUsage(name, model, null, true);
+          console.log(
+            `   ❌ ${name}/${model} failed: ${error.message.substring(0, 100)}`,
+          );
+          break;
+        }
+
+        usage.requests++;
+        usage.inputTokens += response.usage.inputTokens;
+        usage.outputTokens += response.usage.outputTokens;
+
+        let value;
+        let problems;
+        try {
+          value = parseJson(response.text);
+          problems = validateSchema(value, schema);
+        } catch (error) {
+          problems = [error.message];
+        }
+        recordUsage(name, model, response.usage, problems.length > 0);
+
+        if (problems.length === 0) {
+          console.log(
+            `✅ ${name}/${model} answered (${usage.inputTokens} in / ${usage.outputTokens} out tokens)`,
+          );
+          return { value, provider: name, model, usage };
+        }
+
+        console.log(
+          `   ⚠️ ${name}/${model} gave an invalid response: ${problems.slice(0, 3).join("; ")}`,
+        );
+        request = repairPrompt(prompt, response.text, problems);
+      }
+    }
+  }
+
+  console.error("❌ All LLM providers failed");
+  return null;
+}
+
+module.exports = { generateJson, getProviders, getUsage, parseJson };
@@ -0,0 +1,49 @@
+const fs = require("fs");
+const path = require("path");
+
+// LLM provider that answers from a local JSON file instead of calling a
+// model, for tests and offline demos. The file holds an array of responses,
+// returned in turn and starting over at the end; objects are sent as JSON,
+// strings as they are (e.g. to test repairs of malformed output).
+// LLM_MOCK_RESPONSES_PATH is resolved from the server directory; pointing it
+// at another file starts over at that file's first response.
+const DEFAULT_MODELS = ["mock"];
+
+let calls = 0;
+let lastFile = null;
+
+function responsesFile() {
+  return path.resolve(
+    __dirname,
+    "../..",
+    process.env.LLM_MOCK_RESPONSES_PATH || "fixtures/llm-responses.json",
+  );
+}
+
+// Only used when listed in LLM_PROVIDERS
+function configured() {
+  return true;
+}
+
+async function generate({ prompt }) {
+  const file = responsesFile();
+  if (file !== lastFile) {
+    lastFile = file;
+    calls = 0;
+  }
+  const responses = JSON.parse(fs.readFileSync(file, "utf8"));
+  const response = responses[calls++ % responses.length];
+  const text =
+    typeof response === "string" ? response : JSON.stringify(response);
+
+  // Roughly four characters per token, like the real tokenizers
+  return {
+    text,
+    usage: {
+      inputTokens: Math.ceil(prompt.length / 4),
+      outputTokens: Math.ceil(text.length / 4),
+    },
+  };
+}
+
+module.exports = { DEFAULT_MODELS, configured, generate };
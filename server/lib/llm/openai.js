@@ -0,0 +1,48 @@
+const axios = require("axios");
+
+// LLM provider for the OpenAI chat completions API and the servers that
+// copy it: Ollama (http://localhost:11434/v1), llama.cpp, LM Studio, vLLM.
+// Local servers need no API key, so setting either variable enables it.
+const DEFAULT_MODELS = ["gpt-4o-mini"];
+
+function baseUrl() {
+  return (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(
+    /\/+$/,
+    "",
+  );
+}
+
+function configured() {
+  return Boolean(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL);
+}
+
+async function generate({ model, prompt, maxTokens }) {
+  const { data } = await axios.post(
+    `${baseUrl()}/chat/completions`,
+    {
+      model,
+      messages: [{ role: "user", content: prompt }],
+      response_format: { type: "json_object" },
+      max_tokens: maxTokens,
+      temperature: 0.4,
+    },
+    {
+      headers: process.env.OPENAI_API_KEY
+        ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` }
+        : {},
+      // Local models on a CPU can take a while
+      timeout: 120000,
+    },
+  );
+
+  const usage = data.usage || {};
+  return {
+    text: data.choices?.[0]?.message?.content || "",
+    usage: {
+      inputTokens: usage.prompt_tokens || 0,
+      outputTokens: usage.completion_tokens || 0,
+    },
+  };
+}
+
+module.exports = { DEFAULT_MODELS, configured, generate };
@@ -0,0 +1,213 @@
+const fs = require("fs");
+const path = require("path");
+const { isSupportedCountry } = require("libphonenumber-js");
+
+// Locale packs live in server/locales/<language>.json, named by the ISO 639-1
+// code that html[lang] uses:
+//
+//   {
+//     "name": "German",
+//     "country": "DE",                  // phone numbering plan by default
+//     "stopwords": ["und", "der"],      // common words for text detection
+//     "signals": {                      // content signals (./signals)
+//       "menu": { "text": ["speisekarte"], "links": ["speisekarte"] },
+//       "ordering": { ... },
+//       "reservation": { ... }
+//     },
+//     "menu": {                         // menu pages and labels (./menu)
+//       "names": ["speisekarte"],       // in paths, link text and titles
+//       "dietary": { "vegetarian": ["vegetarisch"], ... }
+//     },
+//     "hours": { "days": { "mo": ["montag", "mo"] }, "ranges": ["bis"], ... },
+//     "address": { "labels": ["adresse"], "streetSuffixes": ["straße"] },
+//     "phone": { "labels": ["telefon"] }
+//   }
+//
+// Words are lowercase. Every pack is merged with English, since menus and
+// buttons on other sites are often partly in English.
+const LOCALES_DIR = path.resolve(__dirname, "../locales");
+
+const DEFAULT_LOCALE = "en";
+
+// Stopword hits needed before the page text can name or overrule a locale
+const MIN_STOPWORDS = 10;
+
+// Words of the homepage text looked at for detection
+const MAX_WORDS = 3000;
+
+// Country-code domains whose code isn't the ISO country code, and ones
+// mostly used as generic domains ("orderfood.co", "menu.io")
+const TLD_COUNTRIES = { uk: "GB" };
+const GENERIC_TLDS = new Set(["ai", "co", "fm", "io", "me", "tv", "ws"]);
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// A pattern matching any of the words as a whole word (for the "u" flag),
+// longest first, with an optional abbreviation dot
+function wordsPattern(words) {
+  if (!words.length) return "(?!)";
+  const alternatives = [...new Set(words)]
+    .sort((a, b) => b.length - a.length)
+    .map((word) => escapeRegExp(word).replace(/\s+/g, String.raw`\s+`));
+  return String.raw`(?<!\p{L})(?:${alternatives.join("|")})\.?(?!\p{L})`;
+}
+
+let packs = null;
+const merged = new Map();
+
+// Read once; packs are only changed by deploying new files
+function loadPacks() {
+  if (!packs) {
+    packs = Object.fromEntries(
+      fs
+        .readdirSync(LOCALES_DIR)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => [
+          path.basename(file, ".json"),
+          JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, file), "utf8")),
+        ]),
+    );
+    if (!packs[DEFAULT_LOCALE]) {
+      throw new Error(`Missing default locale pack ${DEFAULT_LOCALE}.json`);
+    }
+  }
+  return packs;
+}
+
+// Word lists are concatenated, anything else is taken from the pack
+function mergeWords(base, extra) {
+  if (Array.isArray(base)) {
+    return [...new Set([...base, ...(extra || [])])];
+  }
+  if (base && typeof base === "object") {
+    return Object.fromEntries(
+      [...new Set([...Object.keys(base), ...Object.keys(extra || {})])].map(
+        (key) => [key, mergeWords(base[key], extra?.[key])],
+      ),
+    );
+  }
+  return extra ?? base;
+}
+
+// A pack merged with English; the same object is returned for a code so
+// the patterns compiled from it can be cached
+function getLocale(code) {
+  if (!merged.has(code)) {
+    const all = loadPacks();
+    const pack =
+      code === DEFAULT_LOCALE
+        ? all[code]
+        : mergeWords(all[DEFAULT_LOCALE], all[code]);
+    merged.set(code, { code, ...pack, stopwords: all[code].stopwords });
+  }
+  return merged.get(code);
+}
+
+function countStopwords(words, stopwords) {
+  const set = new Set(stopwords);
+  return words.filter((word) => set.has(word)).length;
+}
+
+// The pack whose stopwords are most common in the text
+function detectFromText(text) {
+  const words = (text.toLowerCase().match(/\p{L}+/gu) || []).slice(
+    0,
+    MAX_WORDS,
+  );
+  const scores = Object.entries(loadPacks())
+    .map(([code, pack]) => ({
+      code,
+      hits: countStopwords(words, pack.stopwords),
+    }))
+    .sort((a, b) => b.hits - a.hits);
+  return { best: scores[0], scores };
+}
+
+// Country for reading phone numbers written without a country code
+function phoneCountry(place, url, locale) {
+  const fromPlace =
+    typeof place?.countryCode === "string" && place.countryCode.toUpperCase();
+  if (fromPlace && isSupportedCountry(fromPlace)) {
+    return { country: fromPlace, source: "listing" };
+  }
+
+  let tld = null;
+  try {
+    tld = new URL(url).hostname.split(".").pop().toLowerCase();
+  } catch {
+    // Unparsable URLs are rejected before grading
+  }
+  const fromDomain =
+    tld && /^[a-z]{2}$/.test(tld) && !GENERIC_TLDS.has(tld)
+      ? TLD_COUNTRIES[tld] || tld.toUpperCase()
+      : null;
+  if (fromDomain && isSupportedCountry(fromDomain)) {
+    return { country: fromDomain, source: "domain" };
+  }
+
+  return { country: locale.country || null, source: "locale" };
+}
+
+// Locale of the site from the homepage's html[lang], checked against its
+// text: builders often leave lang="en" on sites written in other languages,
+// so a clear majority of another pack's stopwords wins. Without a usable
+// lang attribute the text decides, and English is the fallback.
+function detectLocale(pages, { url, place } = {}) {
+  const { $, bodyText } = pages[0];
+  const declared =
+    ($("html").attr("lang") || "").trim().toLowerCase().split(/[-_]/)[0] ||
+    null;
+  const { best, scores } = detectFromText(bodyText || $("body").text());
+  const hitsFor = (code) => scores.find((s) => s.code === code)?.hits || 0;
+
+  let code = DEFAULT_LOCALE;
+  let source = "default";
+  if (declared && loadPacks()[declared]) {
+    code = declared;
+    source = "html-lang";
+    if (
+      best.code !== declared &&
+      best.hits >= MIN_STOPWORDS &&
+      best.hits > hitsFor(declared) * 2
+    ) {
+      code = best.code;
+      source = "text";
+    }
+  } else if (best.hits >= MIN_STOPWORDS) {
+    code = best.code;
+    source = "text";
+  }
+
+  const locale = getLocale(code);
+  const { country, source: countrySource } = phoneCountry(place, url, locale);
+
+  return {
+    ...locale,
+    source,
+    declared,
+    phoneCountry: country,
+    phoneCountrySource: countrySource,
+  };
+}
+
+// The locale as returned in the report, without the word lists
+function summarizeLocale(locale) {
+  return {
+    code: locale.code,
+    name: locale.name,
+    source: locale.source,
+    declared: locale.declared,
+    phoneCountry: locale.phoneCountry,
+    phoneCountrySource: locale.phoneCountrySource,
+  };
+}
+
+module.exports = {
+  detectLocale,
+  escapeRegExp,
+  getLocale,
+  summarizeLocale,
+  wordsPattern,
+};
@@ -0,0 +1,359 @@
+const { PDFParse } = require("pdf-parse");
+const fetcher = require("./fetcher");
+const { escapeRegExp, wordsPattern } = require("./locale");
+
+const CURRENCIES = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  USD: "USD",
+  EUR: "EUR",
+  GBP: "GBP",
+  CHF: "CHF",
+};
+
+const AMOUNT = String.raw`\d{1,4}(?:[.,]\d{1,2})?`;
+
+// "$12", "12.50 €", "EUR 9" or a bare "12.50". Bare amounts only count when
+// they have exactly two decimals, so "2 eggs" isn't a price.
+const PRICE_PATTERN = new RegExp(
+  String.raw`([$€£]|\b(?:USD|EUR|GBP|CHF)\b)\s?(${AMOUNT})|(${AMOUNT})\s?([$€£]|(?:USD|EUR|GBP|CHF)\b)|(?<![\d.,:])(\d{1,3}[.,]\d{2})(?![\d.,:%])`,
+  "gi",
+);
+
+// Opening hours ("11.30 - 22.00") look like bare prices
+const TIME_RANGE = /\d{1,2}[.:]\d{2}\s*(?:-|–|to)\s*\d{1,2}[.:]\d{2}/gi;
+
+const compiled = new WeakMap();
+
+// Patterns for the `menu` section of a locale pack (./locale): `names`
+// matches pages, links, images and PDFs that are probably (part of) the
+// menu, anywhere in a path or text, and `dietary` the words for each label
+function menuPatterns(words) {
+  if (compiled.has(words)) return compiled.get(words);
+
+  const patterns = {
+    names: new RegExp(words.names.map(escapeRegExp).join("|") || "(?!)", "iu"),
+    dietary: Object.entries(words.dietary).map(([label, list]) => [
+      label,
+      new RegExp(wordsPattern(list), "iu"),
+    ]),
+  };
+  compiled.set(words, patterns);
+  return patterns;
+}
+
+const HEADINGS = ["h1", "h2", "h3", "h4", "h5", "h6"];
+const ITEM_ELEMENTS = "h3, h4, h5, h6, li, p, tr, td, dt, dd, div, span";
+const UNPRICED_ITEMS =
+  'li, [class*="menu-item"], [class*="dish"], [itemtype$="MenuItem"]';
+
+// Only linked PDFs up to this size are downloaded and read
+const MAX_PDF_BYTES = 15 * 1024 * 1024;
+const MAX_PDFS = 2;
+
+// A text-based PDF has at least this many characters per page
+const MIN_PDF_TEXT_PER_PAGE = 100;
+
+function clean(text) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function letterCount(text) {
+  return (text.match(/\p{L}/gu) || []).length;
+}
+
+function findPrices(text) {
+  const prices = [];
+  for (const match of text.replace(TIME_RANGE, " ").matchAll(PRICE_PATTERN)) {
+    const symbol = match[1] || match[4] || null;
+    const amount = match[2] || match[3] || match[5];
+    prices.push({
+      amount: parseFloat(amount.replace(",", ".")),
+      currency: symbol ? CURRENCIES[symbol.toUpperCase()] : null,
+      index: match.index,
+    });
+  }
+  return prices;
+}
+
+// Dish name from the text around its price: the text before the price,
+// or after it for menus that put the price first
+function itemName(text, price) {
+  const before = text.slice(0, price.index);
+  const after = text.slice(price.index).replace(PRICE_PATTERN, "");
+  const name = letterCount(before) >= 3 ? before : after;
+  return clean(name.split(/\s[-–—|·]\s|\.{3,}|…/)[0].replace(/[:\s]+$/, ""))
+    .replace(/^[-–—•*]\s*/, "")
+    .slice(0, 80);
+}
+
+// Priced items in document order, each under the nearest heading above it
+function extractHtmlItems($) {
+  const items = [];
+  let section = null;
+
+  $(`${HEADINGS.join(", ")}, ${ITEM_ELEMENTS}`).each((_, el) => {
+    const $el = $(el);
+    if ($el.closest("nav, header, footer, script, style").length) return;
+
+    const text = clean($el.text());
+    const prices = text.length <= 200 ? findPrices(text) : [];
+
+    if (HEADINGS.includes(el.tagName) && prices.length === 0) {
+      // A heading next to a single price is a dish name, not a section
+      const itemHeading = findPrices(clean($el.parent().text())).length === 1;
+      if (!itemHeading && text.length > 0 && text.length <= 60) {
+        section = text;
+      }
+      return;
+    }
+    if (prices.length === 0) return;
+
+    // Only the innermost element holding a price is the item
+    const nested = $el
+      .find(ITEM_ELEMENTS)
+      .toArray()
+      .some((child) => findPrices(clean($(child).text())).length > 0);
+    if (nested) return;
+
+    let name = itemName(text, prices[0]);
+    if (letterCount(name) < 3) {
+      // The price sits in its own element next to the name
+      const parentText = clean($el.parent().text());
+      const parentPrices = findPrices(parentText);
+      if (parentPrices.length === 1)
+        name = itemName(parentText, parentPrices[0]);
+    }
+    if (letterCount(name) < 3) return;
+
+    items.push({
+      name,
+      price: prices[0].amount,
+      currency: prices[0].currency,
+      section,
+    });
+  });
+
+  return items;
+}
+
+// List entries on a menu page that look like dishes but have no price
+function countUnpricedItems($) {
+  return $(UNPRICED_ITEMS)
+    .toArray()
+    .filter((el) => {
+      const $el = $(el);
+      if ($el.closest("nav, header, footer").length) return false;
+      if ($el.find(UNPRICED_ITEMS).length > 0) return false;
+      const text = clean($el.text());
+      return (
+        letterCount(text) >= 3 &&
+        text.length <= 120 &&
+        findPrices(text).length === 0
+      );
+    }).length;
+}
+
+function extractTextItems(text) {
+  const items = [];
+  let section = null;
+
+  for (const line of text.split(/\r?\n/).map(clean)) {
+    const prices = line.length <= 200 ? findPrices(line) : [];
+    if (prices.length === 0) {
+      // Short lines without a price are usually section titles
+      if (letterCount(line) >= 3 && line.length <= 40) section = line;
+      continue;
+    }
+
+    const name = itemName(line, prices[0]);
+    if (letterCount(name) >= 3) {
+      items.push({
+        name,
+        price: prices[0].amount,
+        currency: prices[0].currency,
+        section,
+      });
+    }
+  }
+
+  return items;
+}
+
+function findLabels(text, patterns) {
+  return patterns.dietary
+    .filter(([, pattern]) => pattern.test(text))
+    .map(([label]) => label);
+}
+
+function isMenuPage(page, patterns) {
+  try {
+    return patterns.names.test(`${new URL(page.url).pathname} ${page.title}`);
+  } catch (_) {
+    return false;
+  }
+}
+
+function menuImages($, page, patterns) {
+  return $("img")
+    .toArray()
+    .map((el) => ({
+      src: $(el).attr("src") || "",
+      alt: clean($(el).attr("alt") || ""),
+    }))
+    .filter((img) => patterns.names.test(`${img.src} ${img.alt}`))
+    .map((img) => ({ ...img, page: page.url }));
+}
+
+// Links to PDFs that look like menus, across all crawled pages
+function findMenuPdfLinks(pages, patterns) {
+  const links = new Map();
+
+  for (const page of pages) {
+    page.$("a[href]").each((_, el) => {
+      let url;
+      try {
+        url = new URL(page.$(el).attr("href"), page.url);
+      } catch (_) {
+        return;
+      }
+      if (!/\.pdf$/i.test(url.pathname)) return;
+
+      const text = page.$(el).text();
+      if (!patterns.names.test(`${url.pathname} ${text}`)) return;
+
+      url.hash = "";
+      if (!links.has(url.toString())) {
+        links.set(url.toString(), { url: url.toString(), page: page.url });
+      }
+    });
+  }
+
+  return [...links.values()];
+}
+
+async function readPdf(data) {
+  const parser = new PDFParse({ data });
+  try {
+    const { pages } = await parser.getText();
+    return pages.map((page) => page.text);
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// Download and read the menu PDFs linked from the crawled pages, named in
+// the words of the site's locale. Runs before grading because rules are
+// synchronous. Failures are kept per PDF. `fetchFile` reads them from an
+// upload (./upload) instead.
+async function fetchMenuPdfs(
+  pages,
+  locale,
+  { fetchFile = fetcher.fetchFile } = {},
+) {
+  const links = findMenuPdfLinks(pages, menuPatterns(locale.menu)).slice(
+    0,
+    MAX_PDFS,
+  );
+
+  return Promise.all(
+    links.map(async (link) => {
+      try {
+        const file = await fetchFile(link.url, { maxBytes: MAX_PDF_BYTES });
+        const pageTexts = await readPdf(file.data);
+        const text = pageTexts.join("\n");
+        return {
+          ...link,
+          sizeBytes: file.data.length,
+          pageCount: pageTexts.length,
+          textBased:
+            clean(text).length >=
+            MIN_PDF_TEXT_PER_PAGE * Math.max(pageTexts.length, 1),
+          text,
+        };
+      } catch (error) {
+        console.log(
+          `   ⚠️ Could not read PDF menu ${link.url}: ${error.message}`,
+        );
+        return { ...link, error: error.message };
+      }
+    }),
+  );
+}
+
+function summarizePrices(items) {
+  const amounts = items.map((item) => item.price).filter((p) => p > 0);
+  const currencies = items.map((item) => item.currency).filter(Boolean);
+  const counts = currencies.reduce(
+    (acc, currency) => ({ ...acc, [currency]: (acc[currency] || 0) + 1 }),
+    {},
+  );
+
+  return {
+    priceRange: amounts.length
+      ? { min: Math.min(...amounts), max: Math.max(...amounts) }
+      : null,
+    currency:
+      Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0] || null,
+  };
+}
+
+// Menu found across the crawled pages and linked PDFs. Pages count as menu
+// pages when their URL or title says so in the locale's words or when they
+// list priced dishes.
+function analyzeMenu(pages, locale, pdfs = []) {
+  const patterns = menuPatterns(locale.menu);
+  const menuPages = [];
+  const images = [];
+  let htmlItems = [];
+  let unpriced = 0;
+  let menuText = "";
+
+  for (const page of pages) {
+    const items = extractHtmlItems(page.$);
+    const byName = isMenuPage(page, patterns);
+    if (!byName && items.length < 3) continue;
+
+    menuPages.push(page.url);
+    htmlItems = htmlItems.concat(items);
+    unpriced += countUnpricedItems(page.$);
+    images.push(...menuImages(page.$, page, patterns));
+    menuText += ` ${page.$("body").text()}`;
+  }
+
+  const readPdfs = pdfs.filter((pdf) => !pdf.error);
+  const pdfItems = readPdfs.flatMap((pdf) =>
+    pdf.textBased ? extractTextItems(pdf.text) : [],
+  );
+  menuText += readPdfs.map((pdf) => ` ${pdf.text}`).join("");
+
+  const items = htmlItems.length > 0 ? htmlItems : pdfItems;
+  const sections = [
+    ...new Set(items.map((item) => item.section).filter(Boolean)),
+  ];
+
+  let source = null;
+  if (htmlItems.length > 0) source = "html";
+  else if (pdfItems.length > 0 || readPdfs.some((pdf) => pdf.textBased))
+    source = "pdf";
+  else if (readPdfs.length > 0) source = "scanned-pdf";
+  else if (images.length > 0) source = "image";
+  else if (menuPages.length > 0) source = "page";
+
+  return {
+    source,
+    pages: menuPages,
+    itemCount: items.length + (source === "html" ? unpriced : 0),
+    pricedCount: items.length,
+    unpricedCount: source === "html" || source === "page" ? unpriced : 0,
+    sections,
+    ...summarizePrices(items),
+    labels: findLabels(menuText, patterns),
+    items: items.slice(0, 10),
+    images,
+    pdfs: pdfs.map(({ text, ...pdf }) => pdf),
+  };
+}
+
+module.exports = { analyzeMenu, fetchMenuPdfs, findPrices, menuPatterns };
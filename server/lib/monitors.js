@@ -0,0 +1,596 @@
+const crypto = require("crypto");
+const { assertPublicUrl } = require("./addressGuard");
+const { sendAlert } = require("./alerts");
+const { diffIssues } = require("./audits");
+const { getDb } = require("./db");
+const { auditSite } = require("./pipeline");
+const { loadProfile } = require("./profiles");
+const { createQueue } = require("./queue");
+const { createRateLimiter } = require("./rateLimit");
+const { getRules } = require("./rules");
+const { isValidUrl, withProtocol } = require("./urls");
+const { getRole } = require("./workspaces");
+
+// Monitors re-audit a site on a schedule with the same pipeline as
+// POST /grade and compare each run with the one before it. A run is a
+// regression, and alerts go out (./alerts), when the score drops by more
+// than the monitor's `scoreDrop` points, a new error-level issue appears,
+// or a check that passed in full now scores nothing (lost HTTPS, viewport,
+// structured data).
+//
+// Every function below takes the `owner` a request acts for: { userId } for
+// a signed-in user, or { apiKey } with the key's name for /api/v1. A
+// monitor belongs to the user who added it and, when added to a workspace,
+// to its members; or to the API key that added it. Monitors added before
+// owners were recorded belong to the API keys.
+
+const FREQUENCIES = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_SCORE_DROP = 5;
+
+// Runs kept in the monitor detail
+const RUN_HISTORY = 20;
+
+// Plain address check; the SMTP server has the final word
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/;
+
+// Alert emails a monitor may send per run
+const MAX_RECIPIENTS = 5;
+
+// Test alerts mail and post on request, so each owner may send a few an hour
+const testAlertLimiter = createRateLimiter({
+  windowMs: 60 * 60 * 1000,
+  perIp: 5,
+  global: 0,
+});
+
+let queue = null;
+
+// Created on first use so the env overrides from .env are in place
+function getQueue() {
+  if (!queue) {
+    queue = createQueue({
+      concurrency: parseInt(process.env.MONITOR_CONCURRENCY, 10) || 1,
+      hostDelayMs: parseInt(process.env.BATCH_HOST_DELAY_MS, 10) || 2000,
+    });
+  }
+  return queue;
+}
+
+function hostOf(url) {
+  return new URL(withProtocol(url)).hostname
+    .toLowerCase()
+    .replace(/^www\./, "");
+}
+
+function emailList(value) {
+  const list = Array.isArray(value) ? value : String(value || "").split(",");
+  return list.map((address) => String(address).trim()).filter(Boolean);
+}
+
+// Validate a create or update body against the current values. Throws with
+// a message for the client on bad input.
+function parseMonitor(input, current = {}) {
+  const value = (key) => (input[key] !== undefined ? input[key] : current[key]);
+
+  const url = String(value("url") || "").trim();
+  if (!url || !isValidUrl(url)) throw new Error("Invalid URL format");
+
+  const profile = value("profile") || loadProfile().id;
+  if (!loadProfile(profile)) throw new Error("Unknown grading profile");
+
+  const frequency = value("frequency") || "weekly";
+  if (!FREQUENCIES[frequency]) {
+    throw new Error(
+      `frequency must be one of ${Object.keys(FREQUENCIES).join(", ")}`,
+    );
+  }
+
+  const scoreDrop = Number(value("scoreDrop") ?? DEFAULT_SCORE_DROP);
+  if (!Number.isInteger(scoreDrop) || scoreDrop < 0 || scoreDrop > 100) {
+    throw new Error("scoreDrop must be a whole number from 0 to 100");
+  }
+
+  const webhookUrl = String(value("webhookUrl") || "").trim() || null;
+  if (webhookUrl && !/^https?:\/\//i.test(webhookUrl)) {
+    throw new Error("webhookUrl must be an http:// or https:// URL");
+  }
+  if (webhookUrl && !isValidUrl(webhookUrl)) {
+    throw new Error("webhookUrl is not a valid URL");
+  }
+
+  const email = emailList(value("email"));
+  const invalid = email.find((address) => !EMAIL_PATTERN.test(address));
+  if (invalid) throw new Error(`"${invalid}" is not an email address`);
+  if (email.length > MAX_RECIPIENTS) {
+    throw new Error(`email can list at most ${MAX_RECIPIENTS} addresses`);
+  }
+
+  const place = value("place") ?? null;
+  if (place !== null && (typeof place !== "object" || Array.isArray(place))) {
+    throw new Error("place must be an object");
+  }
+
+  const enabled = value("enabled") ?? true;
+  if (typeof enabled !== "boolean") {
+    throw new Error("enabled must be true or false");
+  }
+
+  return {
+    name: String(value("name") || "").trim() || null,
+    url,
+    profile,
+    place,
+    frequency,
+    scoreDrop,
+    webhookUrl,
+    email,
+    enabled,
+  };
+}
+
+// Private addresses are refused when a monitor is saved, like POST /grade,
+// with code BLOCKED_ADDRESS. Unresolvable hosts are left to fail in the
+// run, which may be days away.
+async function assertMonitorAddresses(input) {
+  for (const url of [input.url, input.webhookUrl]) {
+    if (typeof url !== "string" || !url.trim()) continue;
+    try {
+      await assertPublicUrl(withProtocol(url.trim()));
+    } catch (error) {
+      if (error.code === "BLOCKED_ADDRESS") {
+        error.message = `Cannot use ${url.trim()}: ${error.message}`;
+        throw error;
+      }
+    }
+  }
+}
+
+function toRun(row) {
+  return {
+    id: row.id,
+    status: row.status,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    auditId: row.audit_id,
+    score: row.score,
+    regression: row.regression ? JSON.parse(row.regression) : null,
+    alertError: row.alert_error ? JSON.parse(row.alert_error) : null,
+    error: row.error,
+  };
+}
+
+function toMonitor(row) {
+  const lastRun = getDb()
+    .prepare(
+      "SELECT * FROM monitor_runs WHERE monitor_id = ? ORDER BY id DESC LIMIT 1",
+    )
+    .get(row.id);
+
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    profile: row.profile,
+    place: row.place ? JSON.parse(row.place) : null,
+    frequency: row.frequency,
+    scoreDrop: row.score_drop,
+    webhookUrl: row.webhook_url,
+    email: emailList(row.email),
+    enabled: Boolean(row.enabled),
+    createdAt: row.created_at,
+    nextRunAt: row.next_run_at,
+    lastRun: lastRun ? toRun(lastRun) : null,
+  };
+}
+
+// Alerts of a user's monitor only go to accounts: the user's own and, for a
+// workspace's monitor, its members'. Anyone can sign up, so mailing any
+// address would make scheduled alerts a way to send mail to strangers.
+// Addresses already on the monitor are kept when it is changed, e.g. after
+// a member left. Monitors of API keys are set up by the operator's
+// integrations and may mail anyone.
+function assertRecipients(email, { userId, workspaceId }, current = []) {
+  if (!userId) return;
+
+  const allowed = new Set(
+    getDb()
+      .prepare(
+        `SELECT email FROM users WHERE id = ?
+         UNION SELECT u.email FROM workspace_members m
+           JOIN users u ON u.id = m.user_id
+         WHERE m.workspace_id = ?`,
+      )
+      .all(userId, workspaceId)
+      .map((row) => row.email.toLowerCase()),
+  );
+  const stranger = email.find(
+    (address) =>
+      !allowed.has(address.toLowerCase()) && !current.includes(address),
+  );
+  if (stranger) {
+    throw new Error(
+      `"${stranger}" isn't the email of the monitor's owner${workspaceId ? " or a workspace member" : ""}`,
+    );
+  }
+}
+
+// The monitors the owner may see and change, as an SQL condition
+function ownedBy(owner) {
+  if (owner.apiKey) {
+    return {
+      where: "(api_key = ? OR (api_key IS NULL AND user_id IS NULL))",
+      params: [owner.apiKey],
+    };
+  }
+  return {
+    where: `(user_id = ? OR workspace_id IN
+      (SELECT workspace_id FROM workspace_members WHERE user_id = ?))`,
+    params: [owner.userId, owner.userId],
+  };
+}
+
+function findMonitorRow(id, owner) {
+  const { where, params } = ownedBy(owner);
+  return getDb()
+    .prepare(`SELECT * FROM monitors WHERE id = ? AND ${where}`)
+    .get(id, ...params);
+}
+
+function listMonitors(owner) {
+  const { where, params } = ownedBy(owner);
+  return getDb()
+    .prepare(`SELECT * FROM monitors WHERE ${where} ORDER BY created_at`)
+    .all(...params)
+    .map(toMonitor);
+}
+
+// A monitor with its recent runs, newest first, or null for unknown ids
+// and other owners' monitors
+function getMonitor(id, owner) {
+  const row = findMonitorRow(id, owner);
+  if (!row) return null;
+
+  const runs = getDb()
+    .prepare(
+      "SELECT * FROM monitor_runs WHERE monitor_id = ? ORDER BY id DESC LIMIT ?",
+    )
+    .all(id, RUN_HISTORY);
+  return { ...toMonitor(row), runs: runs.map(toRun) };
+}
+
+function columnsOf(monitor) {
+  return {
+    name: monitor.name,
+    url: monitor.url,
+    profile: monitor.profile,
+    place: monitor.place ? JSON.stringify(monitor.place) : null,
+    frequency: monitor.frequency,
+    score_drop: monitor.scoreDrop,
+    webhook_url: monitor.webhookUrl,
+    email: monitor.email.join(", ") || null,
+    enabled: monitor.enabled ? 1 : 0,
+  };
+}
+
+// Register a monitor; its first run is the baseline and starts right away.
+// A signed-in user may add it to one of their workspaces (`workspaceId`).
+function createMonitor(input, owner) {
+  const monitor = parseMonitor(input);
+  const workspaceId = input.workspaceId ?? null;
+  if (
+    workspaceId !== null &&
+    (!owner.userId || !getRole(String(workspaceId), owner.userId))
+  ) {
+    throw new Error("Workspace not found");
+  }
+  assertRecipients(monitor.email, { userId: owner.userId, workspaceId });
+
+  const id = crypto.randomBytes(8).toString("base64url");
+  const now = new Date().toISOString();
+  const columns = {
+    ...columnsOf(monitor),
+    user_id: owner.userId || null,
+    workspace_id: workspaceId,
+    api_key: owner.apiKey || null,
+    created_at: now,
+    next_run_at: now,
+  };
+
+  getDb()
+    .prepare(
+      `INSERT INTO monitors (id, ${Object.keys(columns).join(", ")})
+       VALUES (?, ${Object.keys(columns)
+         .map(() => "?")
+         .join(", ")})`,
+    )
+    .run(id, ...Object.values(columns));
+
+  console.log(`📡 Monitor ${id} added for ${monitor.url}`);
+  runDueMonitors();
+  return getMonitor(id, owner);
+}
+
+// Change some fields; returns null for unknown ids. A new frequency counts
+// from the last run.
+function updateMonitor(id, input, owner) {
+  const row = findMonitorRow(id, owner);
+  if (!row) return null;
+
+  const current = toMonitor(row);
+  const monitor = parseMonitor(input, current);
+  assertRecipients(
+    monitor.email,
+    { userId: row.user_id, workspaceId: row.workspace_id },
+    current.email,
+  );
+  const columns = columnsOf(monitor);
+  if (monitor.frequency !== current.frequency) {
+    const from = current.lastRun ? Date.parse(current.lastRun.startedAt) : 0;
+    columns.next_run_at = new Date(
+      Math.max(from + FREQUENCIES[monitor.frequency], Date.now()),
+    ).toISOString();
+  }
+
+  getDb()
+    .prepare(
+      `UPDATE monitors SET ${Object.keys(columns)
+        .map((column) => `${column} = ?`)
+        .join(", ")} WHERE id = ?`,
+    )
+    .run(...Object.values(columns), id);
+  return getMonitor(id, owner);
+}
+
+function deleteMonitor(id, owner) {
+  if (!findMonitorRow(id, owner)) return false;
+
+  const db = getDb();
+  return db.transaction(() => {
+    db.prepare("DELETE FROM monitor_runs WHERE monitor_id = ?").run(id);
+    return db.prepare("DELETE FROM monitors WHERE id = ?").run(id).changes > 0;
+  })();
+}
+
+// What got worse between two reports, or null when nothing crossed the
+// monitor's thresholds
+function findRegression(previous, current, scoreDrop) {
+  const rules = new Map(getRules().map((rule) => [rule.id, rule]));
+  const drop = previous.score - current.score;
+  const previousChecks = new Map(
+    (previous.checks || []).map((check) => [check.rule, check]),
+  );
+
+  const lostChecks = (current.checks || [])
+    .filter((check) => {
+      const before = previousChecks.get(check.rule);
+      return (
+        before &&
+        before.weight > 0 &&
+        before.score === before.weight &&
+        check.score === 0
+      );
+    })
+    .map((check) => ({
+      rule: check.rule,
+      title: rules.get(check.rule)?.title || check.rule,
+      category: check.category,
+    }));
+
+  const newErrors = diffIssues(previous.issues || [], current.issues || [])
+    .introduced.filter((issue) => issue.type === "error")
+    .map(({ text, rule, page, category }) => ({ text, rule, page, category }));
+
+  if (drop <= scoreDrop && lostChecks.length === 0 && newErrors.length === 0) {
+    return null;
+  }
+  return {
+    score: current.score,
+    previousScore: previous.score,
+    scoreDrop: drop,
+    lostChecks,
+    newErrors,
+  };
+}
+
+function updateRun(runId, fields) {
+  const columns = Object.keys(fields);
+  getDb()
+    .prepare(
+      `UPDATE monitor_runs SET ${columns.map((c) => `${c} = ?`).join(", ")}
+       WHERE id = ?`,
+    )
+    .run(...columns.map((c) => fields[c]), runId);
+}
+
+// The report of the monitor's last successful run before `runId`
+function previousReport(monitorId, runId) {
+  const row = getDb()
+    .prepare(
+      `SELECT a.report FROM monitor_runs r JOIN audits a ON a.id = r.audit_id
+       WHERE r.monitor_id = ? AND r.id < ? AND r.status = 'done'
+       ORDER BY r.id DESC LIMIT 1`,
+    )
+    .get(monitorId, runId);
+  return row ? JSON.parse(row.report) : null;
+}
+
+async function executeRun(monitor, runId) {
+  updateRun(runId, { status: "running", started_at: new Date().toISOString() });
+  try {
+    const profile = loadProfile(monitor.profile) || loadProfile();
+    const { id, report } = await auditSite(monitor.url, {
+      profile,
+      place: monitor.place || undefined,
+      insights: false,
+    });
+
+    const previous = previousReport(monitor.id, runId);
+    const regression =
+      previous && findRegression(previous, report, monitor.scoreDrop);
+    const alertError =
+      regression && (await sendAlert(monitor, { auditId: id, regression }));
+    if (regression) {
+      console.log(
+        `📉 Monitor ${monitor.id}: ${monitor.url} ${regression.previousScore} → ${regression.score}`,
+      );
+    }
+
+    updateRun(runId, {
+      status: "done",
+      finished_at: new Date().toISOString(),
+      audit_id: id,
+      score: report.score,
+      regression: regression ? JSON.stringify(regression) : null,
+      alert_error: alertError ? JSON.stringify(alertError) : null,
+    });
+  } catch (error) {
+    console.error(`❌ Monitor ${monitor.id}:`, error.message);
+    updateRun(runId, {
+      status: "failed",
+      finished_at: new Date().toISOString(),
+      error: `Could not scan site: ${error.message.trim()}`,
+    });
+  }
+}
+
+// Queue a run and move the next scheduled run one period ahead
+function enqueueRun(monitor) {
+  const db = getDb();
+  const now = Date.now();
+  const runId = db
+    .prepare(
+      "INSERT INTO monitor_runs (monitor_id, status, started_at) VALUES (?, 'queued', ?)",
+    )
+    .run(monitor.id, new Date(now).toISOString()).lastInsertRowid;
+  db.prepare("UPDATE monitors SET next_run_at = ? WHERE id = ?").run(
+    new Date(now + FREQUENCIES[monitor.frequency]).toISOString(),
+    monitor.id,
+  );
+
+  getQueue().push(hostOf(monitor.url), () => executeRun(monitor, runId));
+  return runId;
+}
+
+function isRunning(monitorId) {
+  return Boolean(
+    getDb()
+      .prepare(
+        `SELECT 1 FROM monitor_runs
+         WHERE monitor_id = ? AND status IN ('queued', 'running')`,
+      )
+      .get(monitorId),
+  );
+}
+
+// Run a monitor now, outside its schedule. Returns null for unknown ids and
+// false when a run is already waiting or in progress.
+function runMonitorNow(id, owner) {
+  const row = findMonitorRow(id, owner);
+  if (!row) return null;
+  if (isRunning(id)) return false;
+  enqueueRun(toMonitor(row));
+  return true;
+}
+
+function runDueMonitors() {
+  const due = getDb()
+    .prepare(
+      "SELECT * FROM monitors WHERE enabled = 1 AND next_run_at <= ? ORDER BY next_run_at",
+    )
+    .all(new Date().toISOString());
+
+  for (const row of due) {
+    if (!isRunning(row.id)) enqueueRun(toMonitor(row));
+  }
+}
+
+// Counts a test alert against the owner's hourly limit. Returns null when
+// it is allowed, otherwise { retryAfter } in seconds.
+function takeTestAlert(owner) {
+  return testAlertLimiter.take(
+    owner.apiKey ? `key:${owner.apiKey}` : `user:${owner.userId}`,
+  );
+}
+
+// Send a sample alert built from the last finished run, so channels can be
+// checked without waiting for a regression. Returns null for unknown ids.
+async function testMonitorAlert(id, owner) {
+  const row = findMonitorRow(id, owner);
+  if (!row) return null;
+
+  const monitor = toMonitor(row);
+  if (!monitor.webhookUrl && monitor.email.length === 0) {
+    throw new Error("The monitor has no webhook or email to alert");
+  }
+  const lastRun = getDb()
+    .prepare(
+      `SELECT * FROM monitor_runs WHERE monitor_id = ? AND status = 'done'
+       ORDER BY id DESC LIMIT 1`,
+    )
+    .get(id);
+  const score = lastRun?.score ?? 0;
+
+  return (
+    (await sendAlert(
+      monitor,
+      {
+        auditId: lastRun?.audit_id || null,
+        regression: {
+          score,
+          previousScore: score,
+          scoreDrop: 0,
+          lostChecks: [],
+          newErrors: [],
+        },
+      },
+      { test: true },
+    )) || {}
+  );
+}
+
+// Fail runs cut short by a restart and run their monitors again, then
+// check for due monitors every MONITOR_POLL_MS
+function startMonitors() {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const { changes } = db.transaction(() => {
+    db.prepare(
+      `UPDATE monitors SET next_run_at = ? WHERE id IN (
+         SELECT monitor_id FROM monitor_runs
+         WHERE status IN ('queued', 'running'))`,
+    ).run(now);
+    return db
+      .prepare(
+        `UPDATE monitor_runs SET status = 'failed', finished_at = ?,
+           error = 'Interrupted by a server restart'
+         WHERE status IN ('queued', 'running')`,
+      )
+      .run(now);
+  })();
+  if (changes > 0) {
+    console.log(`📡 Rerunning ${changes} interrupted monitor run(s)`);
+  }
+
+  runDueMonitors();
+  setInterval(
+    runDueMonitors,
+    parseInt(process.env.MONITOR_POLL_MS, 10) || 60000,
+  ).unref();
+}
+
+module.exports = {
+  assertMonitorAddresses,
+  createMonitor,
+  deleteMonitor,
+  getMonitor,
+  listMonitors,
+  runMonitorNow,
+  startMonitors,
+  takeTestAlert,
+  testMonitorAlert,
+  updateMonitor,
+};
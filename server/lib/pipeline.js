@@ -0,0 +1,202 @@
+const { saveAudit, urlKey } = require("./audits");
+const { insightsCache } = require("./cache");
+const { crawlSite } = require("./crawler");
+const { gradeWebsite } = require("./grader");
+const { generateAIInsights } = require("./insights");
+const { detectLocale } = require("./locale");
+const { fetchMenuPdfs } = require("./menu");
+const { fetchResources, listResources } = require("./resources");
+const { fetchSecurity } = require("./security");
+const { withProtocol } = require("./urls");
+
+// The full audit behind POST /grade: crawl, grade with the profile's rules,
+// optionally ask the AI for insights, and store the result. Returns the
+// stored audit id along with the report. `place` is the map listing to
+// compare the website's name, address, phone and hours with. AI insights
+// are reused for the same site for a while unless `refresh` is set.
+// `restaurant` ({ id, workspaceId }) stores the audit with a workspace's
+// saved restaurant; `gated` stores it locked behind the widget's lead form.
+//
+// `onProgress(event, data)` is called as the audit runs: "phase" when one of
+// fetch, grade, insights or save starts, "redirect" and "crawl" while pages
+// are fetched, "category" for each graded category, and "result" with the
+// deterministic report before AI insights are requested. Errors are rethrown
+// with `error.phase` set to the phase that failed.
+function auditSite(siteUrl, options = {}) {
+  return tracked(runAudit, withProtocol(siteUrl), options);
+}
+
+// The same audit for an upload (./upload) instead of a live site. Checks
+// that need the live site are not applicable, and AI insights aren't
+// cached since the address may be a placeholder.
+function auditUpload(source, options = {}) {
+  return tracked(runAudit, source.url, { ...options, source });
+}
+
+// The report for an upload without AI insights and without storing it, so
+// fixture sites (../test/fixtures.test.js) can be graded as often as the
+// rules change
+function gradeUpload(source, options = {}) {
+  return tracked(gradeSite, source.url, { ...options, source });
+}
+
+// The report of auditSite, or of auditUpload when `source` is given,
+// without storing it, for the command line (../cli.js)
+function reportSite(siteUrl, options = {}) {
+  const url = options.source ? options.source.url : withProtocol(siteUrl);
+  return tracked(gradeWithInsights, url, options);
+}
+
+// Runs `step` with `onProgress` tracked, so errors say which phase failed
+async function tracked(step, url, options) {
+  const { onProgress = () => {} } = options;
+  let phase = "fetch";
+
+  const track = (event, data) => {
+    if (event === "phase") phase = data.phase;
+    onProgress(event, data);
+  };
+
+  try {
+    return await step(url, { ...options, onProgress: track });
+  } catch (error) {
+    error.phase = phase;
+    throw error;
+  }
+}
+
+// Crawls and grades the site, read from `source` if given
+async function gradeSite(
+  url,
+  { profile, maxPages, maxDepth, place, source, onProgress },
+) {
+  console.log(`\n🔎 ${source ? "Reading upload" : "Scanning"}: ${url}`);
+
+  onProgress("phase", { phase: "fetch" });
+  const crawl = await crawlSite(url, {
+    maxPages,
+    // A single page has nothing to follow; its links aren't in the upload
+    maxDepth: source?.pages === 1 ? 0 : maxDepth,
+    onProgress,
+    fetchPage: source?.fetchPage,
+  });
+  const crawledPages = crawl.pages.filter((page) => !page.error);
+  const failedPages = crawl.pages.filter((page) => page.error);
+  const { title, loadTime } = crawledPages[0];
+
+  console.log(
+    `📄 Crawled ${crawledPages.length} page(s)${failedPages.length ? `, ${failedPages.length} failed` : ""}`,
+  );
+
+  // Grading detects the locale again; packs are cached, so it's cheap
+  const menuPdfs = await fetchMenuPdfs(
+    crawledPages,
+    detectLocale(crawledPages, { url, place }),
+    source && { fetchFile: source.fetchFile },
+  );
+  const resources = source
+    ? listResources(crawledPages[0])
+    : await fetchResources(crawledPages[0]);
+  const securityProbe = source ? {} : await fetchSecurity(crawledPages[0]);
+
+  onProgress("phase", { phase: "grade" });
+  const {
+    score,
+    breakdown,
+    issues,
+    fixes,
+    checks,
+    notApplicable,
+    pages,
+    structuredData,
+    menu,
+    stack,
+    business,
+    locale,
+    resources: pageWeight,
+    security,
+  } = gradeWebsite(crawledPages, url, loadTime, profile, {
+    menuPdfs,
+    place,
+    resources,
+    securityProbe,
+    offline: Boolean(source),
+    onCategory: (category, result) =>
+      onProgress("category", { category, ...result }),
+  });
+
+  const report = {
+    url,
+    profile: { id: profile.id, name: profile.name, hash: profile.hash },
+    score,
+    breakdown,
+    issues,
+    fixes,
+    checks,
+    pages: [
+      ...pages,
+      ...failedPages.map((page) => ({
+        url: page.url,
+        depth: page.depth,
+        error: page.error,
+        findings: [],
+      })),
+    ],
+    structuredData,
+    menu,
+    stack,
+    business,
+    locale,
+    resources: pageWeight,
+    security,
+    title: title.substring(0, 60) + (title.length > 60 ? "..." : ""),
+    loadTime,
+    ...(source && {
+      source: { type: source.type, name: source.name, files: source.files },
+      notApplicable,
+    }),
+    aiInsights: null,
+  };
+  // The score is final here; only the slow AI step is left
+  onProgress("result", report);
+  return report;
+}
+
+async function gradeWithInsights(url, options) {
+  const { insights = true, refresh = false, source, onProgress } = options;
+  const report = await gradeSite(url, options);
+  const { score, issues, loadTime } = report;
+
+  // Generate AI insights
+  if (insights) {
+    onProgress("phase", { phase: "insights" });
+    const websiteData = {
+      url,
+      title: report.title.substring(0, 60),
+      score,
+      loadTime,
+    };
+    const useCache = !refresh && !source;
+    const cached = useCache ? insightsCache.get(urlKey(url)) : undefined;
+    report.aiInsights =
+      cached || (await generateAIInsights(websiteData, issues));
+    if (report.aiInsights && !cached && !source) {
+      insightsCache.set(urlKey(url), report.aiInsights);
+    }
+  }
+
+  console.log(
+    `✅ Success! Score: ${score}${report.aiInsights ? " (with AI insights)" : " (no AI insights)"}`,
+  );
+  return report;
+}
+
+async function runAudit(url, options) {
+  const report = await gradeWithInsights(url, options);
+
+  options.onProgress("phase", { phase: "save" });
+  const { restaurant, gated } = options;
+  return { id: saveAudit(report, { restaurant, gated }), report };
+}
+
+module.exports = { auditSite, auditUpload, gradeUpload, reportSite };
@@ -0,0 +1,29 @@
+const fs = require("fs");
+const path = require("path");
+const { splitCuisine } = require("./osm");
+
+// Places adapter that reads a local JSON file instead of calling OSM, for
+// tests and offline demos. The file holds an array of
+// { id?, name, lat, lon, cuisine?, website? } where cuisine uses OSM's
+// "a;b" format. PLACES_FIXTURE_PATH is resolved from the server directory.
+function loadPlaces() {
+  const file = path.resolve(
+    __dirname,
+    "../..",
+    process.env.PLACES_FIXTURE_PATH || "fixtures/places.json",
+  );
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+async function findNearby() {
+  return loadPlaces().map((place, i) => ({
+    id: place.id || `fixture/${i}`,
+    name: place.name,
+    lat: Number(place.lat),
+    lon: Number(place.lon),
+    cuisine: splitCuisine(place.cuisine),
+    website: place.website || null,
+  }));
+}
+
+module.exports = { findNearby };
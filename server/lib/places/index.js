@@ -0,0 +1,78 @@
+const { urlKey } = require("../audits");
+
+// Places adapters find restaurants around a point. Each exports
+// findNearby({ lat, lon, radiusKm }) resolving to
+// [{ id, name, lat, lon, cuisine: [...], website }]; distance filtering and
+// ranking happen here so adapters can stay thin.
+const ADAPTERS = {
+  osm: () => require("./osm"),
+  fixture: () => require("./fixture"),
+};
+
+let override = null;
+
+// Swap the adapter in tests; pass null to go back to PLACES_ADAPTER
+function setPlacesAdapter(adapter) {
+  override = adapter;
+}
+
+function getPlacesAdapter() {
+  if (override) return override;
+
+  const name = process.env.PLACES_ADAPTER || "osm";
+  if (!ADAPTERS[name]) {
+    throw new Error(`Unknown places adapter "${name}"`);
+  }
+  return ADAPTERS[name]();
+}
+
+function distanceKm(a, b) {
+  const rad = (deg) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLon = rad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+// Nearby restaurants with a website, other than the target itself.
+// Restaurants sharing a cuisine with the target come first, then the
+// closest ones.
+async function findCompetitors({
+  lat,
+  lon,
+  cuisine = [],
+  exclude = {},
+  radiusKm = 2,
+  limit = 5,
+}) {
+  const places = await getPlacesAdapter().findNearby({ lat, lon, radiusKm });
+
+  // Chains often share one website; only grade it once
+  const seenSites = new Set(exclude.website ? [urlKey(exclude.website)] : []);
+  const hasNewSite = (place) => {
+    const key = urlKey(place.website);
+    if (seenSites.has(key)) return false;
+    seenSites.add(key);
+    return true;
+  };
+
+  return places
+    .filter((place) => place.website && place.id !== exclude.id)
+    .map((place) => ({
+      ...place,
+      distanceKm: Math.round(distanceKm({ lat, lon }, place) * 100) / 100,
+      sameCuisine: place.cuisine.some((c) => cuisine.includes(c)),
+    }))
+    .filter((place) => place.distanceKm <= radiusKm)
+    .sort(
+      (a, b) =>
+        Number(b.sameCuisine) - Number(a.sameCuisine) ||
+        a.distanceKm - b.distanceKm,
+    )
+    .filter(hasNewSite)
+    .slice(0, limit);
+}
+
+module.exports = { findCompetitors, getPlacesAdapter, setPlacesAdapter };
@@ -0,0 +1,64 @@
+const axios = require("axios");
+
+// OSM place types that count as somewhere to eat
+const PLACE_TYPES = ["restaurant", "fast_food", "cafe", "food_court"];
+
+// Nominatim returns at most 40 results per search
+const SEARCH_LIMIT = 40;
+
+function nominatimUrl() {
+  return (
+    process.env.NOMINATIM_URL || "https://nominatim.openstreetmap.org"
+  ).replace(/\/+$/, "");
+}
+
+// Bounding box of roughly `radiusKm` around a point, as Nominatim expects it
+function viewbox(lat, lon, radiusKm) {
+  const dLat = radiusKm / 111;
+  const dLon = radiusKm / (111 * Math.cos((lat * Math.PI) / 180));
+  return [lon - dLon, lat + dLat, lon + dLon, lat - dLat].join(",");
+}
+
+function splitCuisine(value) {
+  return value
+    ? value
+        .split(";")
+        .map((cuisine) => cuisine.trim().toLowerCase())
+        .filter(Boolean)
+    : [];
+}
+
+// Places adapter backed by the same Nominatim search the client uses
+async function findNearby({ lat, lon, radiusKm }) {
+  const { data } = await axios.get(`${nominatimUrl()}/search`, {
+    params: {
+      q: "restaurant",
+      format: "jsonv2",
+      viewbox: viewbox(lat, lon, radiusKm),
+      bounded: 1,
+      extratags: 1,
+      limit: SEARCH_LIMIT,
+    },
+    headers: {
+      // Required by the Nominatim usage policy
+      "User-Agent": "LionLokal-Grader/1.0",
+    },
+    timeout: 10000,
+  });
+
+  return data
+    .filter((place) => PLACE_TYPES.includes(place.type))
+    .map((place) => ({
+      id: `${place.osm_type}/${place.osm_id}`,
+      name: place.name || place.display_name.split(",")[0],
+      lat: parseFloat(place.lat),
+      lon: parseFloat(place.lon),
+      cuisine: splitCuisine(place.extratags?.cuisine),
+      website:
+        place.extratags?.website ||
+        place.extratags?.["contact:website"] ||
+        null,
+    }));
+}
+
+module.exports = { findNearby, splitCuisine };
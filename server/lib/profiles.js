@@ -0,0 +1,143 @@
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+const { CATEGORIES, getRules, SEVERITIES } = require("./rules");
+
+// Grading profiles live in server/profiles/<id>.json and override rule
+// weights, severities and config per market:
+//
+//   {
+//     "name": "Dine-in",
+//     "rules": {
+//       "usability.reservations": { "weight": 9, "severity": "error" },
+//       "seo.title-length": { "config": { "maxLength": 65 } },
+//       "usability.maps": { "enabled": false }
+//     }
+//   }
+const PROFILES_DIR = path.resolve(__dirname, "../profiles");
+
+const DEFAULT_PROFILE = "default";
+
+function listProfiles() {
+  return fs
+    .readdirSync(PROFILES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => path.basename(file, ".json"));
+}
+
+function resolveRule(rule, override = {}) {
+  const resolved = {
+    ...rule,
+    weight: override.weight ?? rule.weight,
+    severity: override.severity ?? rule.severity,
+    enabled: override.enabled ?? true,
+    config: { ...rule.config, ...override.config },
+  };
+
+  const { weight } = resolved;
+  if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+    throw new Error(`Profile weight for "${rule.id}" must be a number >= 0`);
+  }
+  if (!SEVERITIES.includes(resolved.severity)) {
+    throw new Error(
+      `Profile severity for "${rule.id}" must be one of ${SEVERITIES.join(", ")}`,
+    );
+  }
+  return resolved;
+}
+
+// Load a profile and apply it to the registered rules. Profiles are read on
+// every call so edits apply without a restart; the hash identifies exactly
+// which weights and thresholds produced a score. Returns null for unknown ids.
+function loadProfile(id = process.env.GRADING_PROFILE || DEFAULT_PROFILE) {
+  if (!/^[a-z0-9-]+$/i.test(id) || !listProfiles().includes(id)) {
+    return null;
+  }
+
+  const file = JSON.parse(
+    fs.readFileSync(path.join(PROFILES_DIR, `${id}.json`), "utf8"),
+  );
+  const overrides = file.rules || {};
+  const rules = getRules();
+
+  for (const ruleId of Object.keys(overrides)) {
+    if (!rules.some((rule) => rule.id === ruleId)) {
+      console.log(`⚠️ Profile "${id}" overrides unknown rule "${ruleId}"`);
+    }
+  }
+
+  const resolved = rules.map((rule) => resolveRule(rule, overrides[rule.id]));
+  const hash = crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify(
+        resolved.map(({ id, weight, severity, enabled, config }) => ({
+          id,
+          weight,
+          severity,
+          enabled,
+          config,
+        })),
+      ),
+    )
+    .digest("hex")
+    .substring(0, 12);
+
+  return {
+    id,
+    name: file.name || id,
+    description: file.description || "",
+    hash,
+    rules: resolved.filter((rule) => rule.enabled),
+  };
+}
+
+// A loaded profile with its categories and active rules, as GET /rules
+// returns it
+function describeRules(profile) {
+  return {
+    profile: {
+      id: profile.id,
+      name: profile.name,
+      description: profile.description,
+      hash: profile.hash,
+    },
+    profiles: listProfiles(),
+    categories: Object.entries(CATEGORIES).map(([id, { label }]) => ({
+      id,
+      label,
+      maxScore: profile.rules
+        .filter((rule) => rule.category === id)
+        .reduce((sum, rule) => sum + rule.weight, 0),
+    })),
+    rules: profile.rules.map(
+      ({
+        id,
+        category,
+        title,
+        description,
+        weight,
+        severity,
+        effort,
+        impact,
+        config,
+        wcag,
+        network,
+      }) => ({
+        id,
+        category,
+        title,
+        description,
+        weight,
+        severity,
+        effort,
+        impact,
+        config,
+        wcag: wcag || null,
+        network: Boolean(network),
+      }),
+    ),
+  };
+}
+
+module.exports = { DEFAULT_PROFILE, describeRules, listProfiles, loadProfile };
@@ -0,0 +1,60 @@
+// In-process task queue with a global concurrency limit and per-host
+// politeness: only one task per host runs at a time, and a host isn't hit
+// again until `hostDelayMs` after its previous task finished.
+function createQueue({ concurrency = 2, hostDelayMs = 2000 } = {}) {
+  const pending = [];
+  const activeHosts = new Set();
+  const lastFinished = new Map();
+  let running = 0;
+  let timer = null;
+
+  const readyAt = (host) => (lastFinished.get(host) || 0) + hostDelayMs;
+
+  function pump() {
+    clearTimeout(timer);
+    timer = null;
+
+    while (running < concurrency) {
+      const now = Date.now();
+      const index = pending.findIndex(
+        (task) => !activeHosts.has(task.host) && readyAt(task.host) <= now,
+      );
+
+      if (index === -1) {
+        // Wake up when the next waiting host is allowed again
+        const waiting = pending.filter((task) => !activeHosts.has(task.host));
+        if (waiting.length > 0) {
+          const next = Math.min(...waiting.map((task) => readyAt(task.host)));
+          timer = setTimeout(pump, Math.max(next - now, 0));
+        }
+        return;
+      }
+
+      const [task] = pending.splice(index, 1);
+      running++;
+      activeHosts.add(task.host);
+
+      Promise.resolve()
+        .then(task.run)
+        .catch((error) => console.error("❌ Queued task failed:", error))
+        .finally(() => {
+          running--;
+          activeHosts.delete(task.host);
+          lastFinished.set(task.host, Date.now());
+          pump();
+        });
+    }
+  }
+
+  return {
+    push(host, run) {
+      pending.push({ host, run });
+      pump();
+    },
+    get size() {
+      return pending.length + running;
+    },
+  };
+}
+
+module.exports = { createQueue };
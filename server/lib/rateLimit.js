@@ -0,0 +1,104 @@
+// Sliding-window limits on the audits clients can start: per client IP, so
+// one visitor can't use up the server and the Gemini quota, per API key
+// for /api/v1 callers, and for the whole server, to cap how much it crawls.
+// Batch jobs and benchmarks count as one request each; they have their own
+// row and competitor limits.
+function createRateLimiter({ windowMs, perIp, perKey = perIp, global }) {
+  const hits = new Map();
+
+  // Timestamps still inside the window, oldest first
+  function recent(key, since) {
+    const list = hits.get(key) || [];
+    while (list.length > 0 && list[0] <= since) list.shift();
+    if (list.length === 0) hits.delete(key);
+    return list;
+  }
+
+  // Records a request from `client` ("ip:<address>" or "key:<name>") if
+  // both limits allow it. Returns null when it was allowed, otherwise which
+  // limit was hit ("ip", "key" or "global") and the seconds until a request
+  // is allowed again.
+  function take(client, now = Date.now()) {
+    const since = now - windowMs;
+    // Forget clients that haven't been back within the window
+    if (hits.size > 1000) {
+      for (const key of hits.keys()) recent(key, since);
+    }
+
+    const scope = client.startsWith("key:") ? "key" : "ip";
+    const limit = scope === "key" ? perKey : perIp;
+    const fromClient = recent(client, since);
+    const all = recent("global", since);
+    const retryAfter = (list) =>
+      Math.max(1, Math.ceil((list[0] + windowMs - now) / 1000));
+
+    if (limit > 0 && fromClient.length >= limit) {
+      return { scope, retryAfter: retryAfter(fromClient) };
+    }
+    if (global > 0 && all.length >= global) {
+      return { scope: "global", retryAfter: retryAfter(all) };
+    }
+
+    hits.set(client, [...fromClient, now]);
+    hits.set("global", [...all, now]);
+    return null;
+  }
+
+  return { take };
+}
+
+function intFromEnv(name, fallback) {
+  const value = parseInt(process.env[name], 10);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+const limiter = createRateLimiter({
+  windowMs: intFromEnv("RATE_LIMIT_WINDOW_MS", 60 * 60 * 1000),
+  perIp: intFromEnv("RATE_LIMIT_PER_IP", 20),
+  perKey: intFromEnv("RATE_LIMIT_PER_KEY", 100),
+  global: intFromEnv("RATE_LIMIT_GLOBAL", 200),
+});
+
+// Counts an audit started by `client` against the limits; see take()
+function takeAudit(client) {
+  return limiter.take(client);
+}
+
+function formatWait(seconds) {
+  if (seconds < 90) return `${seconds} seconds`;
+  return `${Math.ceil(seconds / 60)} minutes`;
+}
+
+// Counts the request against the limits, or answers it with a 429 and
+// returns true when a limit is reached
+function rejectIfLimited(req, res) {
+  const limited = takeAudit(`ip:${req.ip}`);
+  if (!limited) return false;
+
+  const wait = formatWait(limited.retryAfter);
+  res
+    .status(429)
+    .set("Retry-After", String(limited.retryAfter))
+    .json({
+      error:
+        limited.scope === "ip"
+          ? `Too many audits from your address - try again in ${wait}`
+          : `The grader has reached its audit limit - try again in ${wait}`,
+      limit: limited.scope,
+      retryAfter: limited.retryAfter,
+    });
+  return true;
+}
+
+// The same check as Express middleware, for routes that always start work
+function rateLimit(req, res, next) {
+  if (!rejectIfLimited(req, res)) next();
+}
+
+module.exports = {
+  createRateLimiter,
+  formatWait,
+  rateLimit,
+  rejectIfLimited,
+  takeAudit,
+};
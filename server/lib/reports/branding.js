@@ -0,0 +1,44 @@
+const fs = require("fs");
+const path = require("path");
+
+const DEFAULT_AGENCY = "LionLokal";
+const DEFAULT_ACCENT = "#f97316";
+
+const LOGO_TYPES = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+};
+
+function loadLogo(logoPath) {
+  if (!logoPath) return null;
+
+  const file = path.resolve(__dirname, "../..", logoPath);
+  const type = LOGO_TYPES[path.extname(file).toLowerCase()];
+  if (!type) {
+    console.log(`⚠️ Report logo must be a PNG or JPEG: ${logoPath}`);
+    return null;
+  }
+
+  try {
+    return { type, data: fs.readFileSync(file) };
+  } catch (error) {
+    console.log(`⚠️ Could not read report logo: ${error.message}`);
+    return null;
+  }
+}
+
+// Agency details printed on downloadable reports. REPORT_LOGO_PATH is
+// resolved from the server directory and read on every call so a new logo
+// shows up without a restart.
+function loadBranding() {
+  const accent = process.env.REPORT_ACCENT_COLOR || "";
+
+  return {
+    agencyName: process.env.REPORT_AGENCY_NAME || DEFAULT_AGENCY,
+    accentColor: /^#[0-9a-f]{6}$/i.test(accent) ? accent : DEFAULT_ACCENT,
+    logo: loadLogo(process.env.REPORT_LOGO_PATH),
+  };
+}
+
+module.exports = { loadBranding };
@@ -0,0 +1,112 @@
+const { formatBytes } = require("../resources");
+const { CATEGORIES, getRules } = require("../rules");
+
+const SEVERITY_LABELS = {
+  error: "Critical",
+  warning: "Warning",
+  info: "Suggestion",
+};
+
+const SEVERITY_COLORS = {
+  error: "#dc2626",
+  warning: "#d97706",
+  info: "#2563eb",
+};
+
+// Same ranges as the client's score badge
+function describeScore(score) {
+  if (score >= 80) return { label: "Great", color: "#22c55e" };
+  if (score >= 50) return { label: "Fair", color: "#eab308" };
+  return { label: "Poor", color: "#ef4444" };
+}
+
+// Same thresholds as the client's category bars
+function categoryColor(percentage) {
+  if (percentage >= 70) return "#22c55e";
+  if (percentage >= 40) return "#eab308";
+  return "#ef4444";
+}
+
+function pagePath(pageUrl) {
+  try {
+    const { pathname, search } = new URL(pageUrl);
+    return pathname + search;
+  } catch (_) {
+    return pageUrl;
+  }
+}
+
+// Everything the PDF and HTML reports print, in order. Issues are grouped
+// by category and carry the explanation of the rule that raised them.
+// "Valid until March 3, 2027 (Let's Encrypt)", or what's wrong with it
+function describeCertificate(certificate) {
+  if (!certificate) return null;
+  if (!certificate.validTo) return `None (${certificate.error})`;
+  if (certificate.expired) return "Expired";
+  if (certificate.selfSigned) return "Self-signed";
+  if (!certificate.hostnameMatch) return `Issued for ${certificate.subject}`;
+  const validTo = new Date(certificate.validTo).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+  return `Valid until ${validTo}${certificate.issuer ? ` (${certificate.issuer})` : ""}`;
+}
+
+function buildReportContent(audit) {
+  const rules = new Map(getRules().map((rule) => [rule.id, rule]));
+  const date = audit.createdAt ? new Date(audit.createdAt) : new Date();
+
+  const categories = Object.entries(CATEGORIES)
+    .filter(([key]) => audit.breakdown?.[key])
+    .map(([key, { label }]) => ({
+      key,
+      label,
+      ...audit.breakdown[key],
+      color: categoryColor(audit.breakdown[key].percentage),
+      issues: audit.issues
+        .filter((issue) => issue.category === label)
+        .map((issue) => ({
+          text: issue.text,
+          type: issue.type,
+          severity: SEVERITY_LABELS[issue.type] || issue.type,
+          color: SEVERITY_COLORS[issue.type] || SEVERITY_COLORS.info,
+          page: issue.page ? pagePath(issue.page) : null,
+          explanation: rules.get(issue.rule)?.description || null,
+          wcag: issue.wcag
+            ? `WCAG 2.1 ${issue.wcag.criterion} ${issue.wcag.name} (${issue.wcag.level})`
+            : null,
+          guidance: issue.guidance
+            ? `${issue.guidance.platform}: ${issue.guidance.text}`
+            : null,
+        })),
+    }));
+
+  return {
+    url: audit.url,
+    title: audit.title || audit.url,
+    date: date.toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    }),
+    score: audit.score,
+    rating: describeScore(audit.score),
+    profile: audit.profile?.name || null,
+    builder: audit.stack?.builder?.name || null,
+    locale: audit.locale
+      ? `${audit.locale.name}${audit.locale.phoneCountry ? `, phone numbers for ${audit.locale.phoneCountry}` : ""}`
+      : null,
+    pageWeight: audit.resources
+      ? `${formatBytes(audit.resources.totalBytes)} in ${audit.resources.resources.length + 1} files${audit.resources.document.ttfb != null ? `, server responded in ${(audit.resources.document.ttfb / 1000).toFixed(1)}s` : ""}`
+      : null,
+    certificate: describeCertificate(audit.security?.certificate),
+    pagesCrawled: (audit.pages || []).filter((page) => !page.error).length,
+    loadTime: audit.loadTime,
+    categories,
+    issueCount: audit.issues.length,
+    aiInsights: audit.aiInsights || null,
+  };
+}
+
+module.exports = { buildReportContent };
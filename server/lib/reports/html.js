@@ -0,0 +1,187 @@
+const { buildReportContent } = require("./content");
+
+function escapeHtml(value) {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderGauge({ score, rating }) {
+  const circumference = 2 * Math.PI * 56;
+  return `<svg class="gauge" viewBox="0 0 128 128" role="img" aria-label="Score ${score} out of 100">
+    <circle cx="64" cy="64" r="56" fill="none" stroke="#e5e7eb" stroke-width="10" />
+    <circle cx="64" cy="64" r="56" fill="none" stroke="${rating.color}" stroke-width="10"
+      stroke-linecap="round" transform="rotate(-90 64 64)"
+      stroke-dasharray="${((score / 100) * circumference).toFixed(1)} ${circumference.toFixed(1)}" />
+    <text x="64" y="70" text-anchor="middle" class="gauge-score">${score}</text>
+    <text x="64" y="88" text-anchor="middle" class="gauge-max">/100</text>
+  </svg>`;
+}
+
+function renderBreakdown(categories) {
+  return categories
+    .map(
+      (category) => `<div class="category">
+      <div class="category-head">
+        <span>${escapeHtml(category.label)}</span>
+        <strong>${category.percentage}%</strong>
+      </div>
+      <div class="bar"><div style="width: ${category.percentage}%; background: ${category.color}"></div></div>
+      <small>${category.score} of ${category.maxScore} points</small>
+    </div>`,
+    )
+    .join("");
+}
+
+function renderIssues(categories) {
+  return categories
+    .map(
+      (category) => `<section class="issue-group">
+      <h3>${escapeHtml(category.label)} <span>${category.percentage}%</span></h3>
+      ${
+        category.issues.length === 0
+          ? `<p class="muted">No issues found.</p>`
+          : `<ul>${category.issues
+              .map(
+                (issue) => `<li>
+          <span class="tag" style="background: ${issue.color}">${escapeHtml(issue.severity)}</span>
+          <div>
+            <p>${escapeHtml(issue.text)}${issue.page ? ` <span class="muted">· ${escapeHtml(issue.page)}</span>` : ""}${issue.wcag ? ` <span class="muted">· ${escapeHtml(issue.wcag)}</span>` : ""}</p>
+            ${issue.explanation ? `<p class="explanation">${escapeHtml(issue.explanation)}</p>` : ""}
+            ${issue.guidance ? `<p class="explanation">💡 ${escapeHtml(issue.guidance)}</p>` : ""}
+          </div>
+        </li>`,
+              )
+              .join("")}</ul>`
+      }
+    </section>`,
+    )
+    .join("");
+}
+
+function renderInsights(insights) {
+  if (!insights) return "";
+
+  return `<section class="insights">
+    <h2>AI Insights</h2>
+    <p>${escapeHtml(insights.summary)}</p>
+    <h4>Top priority</h4>
+    <p>${escapeHtml(insights.topPriority)}</p>
+    <h4>Quick wins</h4>
+    <ol>${insights.quickWins.map((win) => `<li>${escapeHtml(win)}</li>`).join("")}</ol>
+    <h4>Pro tip</h4>
+    <p>${escapeHtml(insights.competitorTip)}</p>
+    <p class="impact">Estimated impact: <strong>${escapeHtml(insights.estimatedImpact)}</strong> increase in online visibility</p>
+  </section>`;
+}
+
+// A standalone HTML report: styles and logo are inlined so the file can be
+// emailed or opened offline
+function renderHtmlReport(audit, branding) {
+  const report = buildReportContent(audit);
+  const accent = branding.accentColor;
+  const logo = branding.logo
+    ? `<img class="logo" src="data:${branding.logo.type};base64,${branding.logo.data.toString("base64")}" alt="${escapeHtml(branding.agencyName)}" />`
+    : "";
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>Website audit: ${escapeHtml(report.title)}</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #1f2937; background: #f8fafc; }
+    main { max-width: 820px; margin: 0 auto; background: #fff; }
+    header { display: flex; align-items: center; gap: 16px; padding: 24px 40px; background: ${accent}; color: #fff; }
+    header .logo { max-height: 48px; max-width: 160px; }
+    header h1 { margin: 0; font-size: 20px; }
+    header p { margin: 2px 0 0; opacity: 0.85; font-size: 13px; }
+    .content { padding: 32px 40px; }
+    h2 { font-size: 18px; border-bottom: 2px solid ${accent}; padding-bottom: 6px; margin: 32px 0 16px; }
+    h4 { margin: 16px 0 4px; font-size: 13px; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; }
+    .summary { display: flex; gap: 32px; align-items: center; }
+    .gauge { width: 160px; height: 160px; flex-shrink: 0; }
+    .gauge-score { font-size: 32px; font-weight: 700; fill: #1f2937; }
+    .gauge-max { font-size: 12px; fill: #9ca3af; }
+    .site h3 { margin: 0 0 4px; font-size: 20px; }
+    .site a { color: ${accent}; word-break: break-all; }
+    .site dl { display: grid; grid-template-columns: auto 1fr; gap: 4px 12px; font-size: 13px; margin: 12px 0 0; }
+    .site dt { color: #6b7280; }
+    .site dd { margin: 0; }
+    .rating { display: inline-block; margin-top: 8px; padding: 2px 12px; border-radius: 999px; color: #fff; font-weight: 600; font-size: 13px; }
+    .breakdown { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+    .category { padding: 12px; background: #f9fafb; border-radius: 8px; }
+    .category-head { display: flex; justify-content: space-between; font-size: 14px; margin-bottom: 6px; }
+    .category small { color: #9ca3af; }
+    .bar { height: 8px; background: #e5e7eb; border-radius: 999px; overflow: hidden; margin-bottom: 4px; }
+    .bar div { height: 100%; border-radius: 999px; }
+    .issue-group { break-inside: avoid-page; }
+    .issue-group h3 { font-size: 15px; margin: 20px 0 8px; }
+    .issue-group h3 span { color: #9ca3af; font-weight: 400; }
+    .issue-group ul { list-style: none; padding: 0; margin: 0; }
+    .issue-group li { display: flex; gap: 12px; align-items: flex-start; padding: 8px 0; border-bottom: 1px solid #f3f4f6; break-inside: avoid; }
+    .issue-group li p { margin: 0; font-size: 14px; }
+    .tag { flex-shrink: 0; width: 80px; text-align: center; padding: 2px 0; border-radius: 4px; color: #fff; font-size: 11px; font-weight: 600; }
+    .explanation { color: #6b7280; font-size: 13px !important; margin-top: 2px !important; }
+    .muted { color: #9ca3af; }
+    .insights p, .insights li { font-size: 14px; line-height: 1.5; }
+    .impact { padding: 12px; background: #eff6ff; border-radius: 8px; }
+    footer { padding: 16px 40px; font-size: 12px; color: #9ca3af; border-top: 1px solid #e5e7eb; }
+    @media print {
+      body { background: #fff; }
+      header, .rating, .tag, .bar div { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+      .insights { break-before: page; }
+    }
+  </style>
+</head>
+<body>
+<main>
+  <header>
+    ${logo}
+    <div>
+      <h1>${escapeHtml(branding.agencyName)}</h1>
+      <p>Website Audit Report</p>
+    </div>
+  </header>
+  <div class="content">
+    <div class="summary">
+      ${renderGauge(report)}
+      <div class="site">
+        <h3>${escapeHtml(report.title)}</h3>
+        <a href="${escapeHtml(report.url)}">${escapeHtml(report.url)}</a>
+        <div><span class="rating" style="background: ${report.rating.color}">${report.rating.label}</span></div>
+        <dl>
+          <dt>Audit date</dt><dd>${escapeHtml(report.date)}</dd>
+          <dt>Pages checked</dt><dd>${report.pagesCrawled}</dd>
+          <dt>Issues found</dt><dd>${report.issueCount}</dd>
+          ${report.loadTime ? `<dt>Load time</dt><dd>${(report.loadTime / 1000).toFixed(2)}s</dd>` : ""}
+          ${report.profile ? `<dt>Grading profile</dt><dd>${escapeHtml(report.profile)}</dd>` : ""}
+          ${report.builder ? `<dt>Built with</dt><dd>${escapeHtml(report.builder)}</dd>` : ""}
+          ${report.locale ? `<dt>Language</dt><dd>${escapeHtml(report.locale)}</dd>` : ""}
+          ${report.certificate ? `<dt>Certificate</dt><dd>${escapeHtml(report.certificate)}</dd>` : ""}
+          ${report.pageWeight ? `<dt>Page weight</dt><dd>${escapeHtml(report.pageWeight)}</dd>` : ""}
+        </dl>
+      </div>
+    </div>
+
+    <h2>Score breakdown</h2>
+    <div class="breakdown">${renderBreakdown(report.categories)}</div>
+
+    <h2>Issues by category</h2>
+    ${renderIssues(report.categories)}
+
+    ${renderInsights(report.aiInsights)}
+  </div>
+  <footer>Prepared by ${escapeHtml(branding.agencyName)} on ${escapeHtml(report.date)}</footer>
+</main>
+</body>
+</html>
+`;
+}
+
+module.exports = { renderHtmlReport };
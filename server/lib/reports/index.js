@@ -0,0 +1,29 @@
+const { loadBranding } = require("./branding");
+const { renderHtmlReport } = require("./html");
+const { renderPdfReport } = require("./pdf");
+
+// A stored audit as a downloadable PDF (default) or standalone HTML file
+async function renderReportFile(audit, format = "pdf") {
+  const branding = loadBranding();
+  const host = new URL(audit.url).hostname.replace(/^www\./, "");
+  const filename = `audit-${host}-${audit.createdAt.slice(0, 10)}`;
+
+  return format === "html"
+    ? {
+        filename: `${filename}.html`,
+        type: "html",
+        body: renderHtmlReport(audit, branding),
+      }
+    : {
+        filename: `${filename}.pdf`,
+        type: "pdf",
+        body: await renderPdfReport(audit, branding),
+      };
+}
+
+module.exports = {
+  loadBranding,
+  renderHtmlReport,
+  renderPdfReport,
+  renderReportFile,
+};
@@ -0,0 +1,322 @@
+const PDFDocument = require("pdfkit");
+const { buildReportContent } = require("./content");
+
+const MARGIN = 50;
+const GRAY = "#6b7280";
+const LIGHT_GRAY = "#e5e7eb";
+const TEXT = "#1f2937";
+
+// SVG path for a clockwise arc from 12 o'clock covering `fraction` of a circle
+function arcPath(cx, cy, r, fraction) {
+  const angle = Math.min(fraction, 0.9999) * 2 * Math.PI;
+  const x = cx + r * Math.sin(angle);
+  const y = cy - r * Math.cos(angle);
+  return `M ${cx} ${cy - r} A ${r} ${r} 0 ${angle > Math.PI ? 1 : 0} 1 ${x} ${y}`;
+}
+
+function drawHeader(doc, branding) {
+  const height = 80;
+  doc.rect(0, 0, doc.page.width, height).fill(branding.accentColor);
+
+  let textX = MARGIN;
+  if (branding.logo) {
+    try {
+      doc.image(branding.logo.data, MARGIN, 16, { fit: [120, 48] });
+      textX = MARGIN + 135;
+    } catch (error) {
+      console.log(`⚠️ Could not draw report logo: ${error.message}`);
+    }
+  }
+
+  doc
+    .fillColor("#ffffff")
+    .font("Helvetica-Bold")
+    .fontSize(18)
+    .text(branding.agencyName, textX, 24)
+    .font("Helvetica")
+    .fontSize(11)
+    .text("Website Audit Report", textX, 48);
+
+  doc.x = MARGIN;
+  doc.y = height + 30;
+}
+
+function drawSummary(doc, report) {
+  const top = doc.y;
+  const cx = MARGIN + 65;
+  const cy = top + 65;
+
+  doc.lineWidth(10).lineCap("round");
+  doc.circle(cx, cy, 55).stroke(LIGHT_GRAY);
+  if (report.score > 0) {
+    doc
+      .path(arcPath(cx, cy, 55, report.score / 100))
+      .stroke(report.rating.color);
+  }
+  doc
+    .fillColor(TEXT)
+    .font("Helvetica-Bold")
+    .fontSize(30)
+    .text(String(report.score), cx - 50, cy - 20, {
+      width: 100,
+      align: "center",
+    })
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(GRAY)
+    .text("/100", cx - 50, cy + 12, { width: 100, align: "center" });
+
+  const x = MARGIN + 160;
+  const width = doc.page.width - MARGIN - x;
+  doc
+    .fillColor(TEXT)
+    .font("Helvetica-Bold")
+    .fontSize(16)
+    .text(report.title, x, top, { width })
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(GRAY)
+    .text(report.url, { width, link: report.url })
+    .moveDown(0.5)
+    .font("Helvetica-Bold")
+    .fillColor(report.rating.color)
+    .text(report.rating.label)
+    .moveDown(0.5)
+    .font("Helvetica")
+    .fillColor(TEXT);
+
+  const details = [
+    ["Audit date", report.date],
+    ["Pages checked", report.pagesCrawled],
+    ["Issues found", report.issueCount],
+    report.loadTime && ["Load time", `${(report.loadTime / 1000).toFixed(2)}s`],
+    report.profile && ["Grading profile", report.profile],
+    report.builder && ["Built with", report.builder],
+    report.locale && ["Language", report.locale],
+    report.certificate && ["Certificate", report.certificate],
+    report.pageWeight && ["Page weight", report.pageWeight],
+  ].filter(Boolean);
+
+  for (const [label, value] of details) {
+    doc
+      .fillColor(GRAY)
+      .text(`${label}: `, x, doc.y, { continued: true, width })
+      .fillColor(TEXT)
+      .text(String(value));
+  }
+
+  doc.x = MARGIN;
+  doc.y = Math.max(doc.y, top + 140);
+}
+
+function drawSectionTitle(doc, title, accent) {
+  // Keep the title on the same page as at least a few lines after it
+  if (doc.y > doc.page.height - MARGIN - 120) doc.addPage();
+
+  doc
+    .moveDown(1)
+    .fillColor(TEXT)
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .text(title, MARGIN);
+  const y = doc.y + 2;
+  doc
+    .lineWidth(2)
+    .moveTo(MARGIN, y)
+    .lineTo(doc.page.width - MARGIN, y)
+    .stroke(accent);
+  doc.y = y + 12;
+}
+
+function drawBreakdown(doc, categories) {
+  const width = doc.page.width - MARGIN * 2;
+
+  for (const category of categories) {
+    const y = doc.y;
+    doc
+      .fillColor(TEXT)
+      .font("Helvetica")
+      .fontSize(11)
+      .text(category.label, MARGIN, y, { width: 110 })
+      .font("Helvetica-Bold")
+      .text(`${category.percentage}%`, MARGIN + width - 110, y, {
+        width: 110,
+        align: "right",
+      });
+
+    const barX = MARGIN + 110;
+    const barWidth = width - 230;
+    doc.roundedRect(barX, y + 3, barWidth, 8, 4).fill(LIGHT_GRAY);
+    if (category.percentage > 0) {
+      doc
+        .roundedRect(barX, y + 3, (barWidth * category.percentage) / 100, 8, 4)
+        .fill(category.color);
+    }
+    doc
+      .fillColor(GRAY)
+      .font("Helvetica")
+      .fontSize(8)
+      .text(`${category.score} of ${category.maxScore} points`, barX, y + 14);
+    doc.y = y + 32;
+  }
+}
+
+function drawIssues(doc, categories) {
+  const tagWidth = 70;
+  const textX = MARGIN + tagWidth + 10;
+  const width = doc.page.width - MARGIN - textX;
+
+  for (const category of categories) {
+    if (doc.y > doc.page.height - MARGIN - 80) doc.addPage();
+
+    doc
+      .moveDown(0.5)
+      .fillColor(TEXT)
+      .font("Helvetica-Bold")
+      .fontSize(12)
+      .text(`${category.label}  `, MARGIN, doc.y, { continued: true })
+      .font("Helvetica")
+      .fillColor(GRAY)
+      .text(`${category.percentage}%`)
+      .moveDown(0.3);
+
+    if (category.issues.length === 0) {
+      doc.fontSize(10).text("No issues found.", MARGIN).moveDown(0.3);
+      continue;
+    }
+
+    for (const issue of category.issues) {
+      if (doc.y > doc.page.height - MARGIN - 50) doc.addPage();
+
+      const y = doc.y;
+      doc.roundedRect(MARGIN, y, tagWidth, 14, 3).fill(issue.color);
+      doc
+        .fillColor("#ffffff")
+        .font("Helvetica-Bold")
+        .fontSize(8)
+        .text(issue.severity, MARGIN, y + 3.5, {
+          width: tagWidth,
+          align: "center",
+        });
+
+      doc
+        .fillColor(TEXT)
+        .font("Helvetica")
+        .fontSize(10)
+        .text(issue.text, textX, y + 1, { width });
+      if (issue.page) {
+        doc.fillColor(GRAY).fontSize(8).text(`Found on ${issue.page}`, textX);
+      }
+      if (issue.wcag) {
+        doc.fillColor(GRAY).fontSize(8).text(issue.wcag, textX);
+      }
+      if (issue.explanation) {
+        doc
+          .fillColor(GRAY)
+          .fontSize(9)
+          .text(issue.explanation, textX, doc.y + 2, { width });
+      }
+      if (issue.guidance) {
+        doc
+          .fillColor(TEXT)
+          .fontSize(9)
+          .text(issue.guidance, textX, doc.y + 2, { width });
+      }
+      doc.y = Math.max(doc.y, y + 14) + 8;
+    }
+  }
+}
+
+function drawInsights(doc, insights, accent) {
+  doc.addPage();
+  drawSectionTitle(doc, "AI Insights", accent);
+
+  const paragraph = (heading, body) => {
+    doc
+      .moveDown(0.5)
+      .fillColor(GRAY)
+      .font("Helvetica-Bold")
+      .fontSize(9)
+      .text(heading.toUpperCase(), MARGIN)
+      .fillColor(TEXT)
+      .font("Helvetica")
+      .fontSize(11)
+      .text(body, MARGIN, doc.y + 2, { lineGap: 2 });
+  };
+
+  paragraph("Summary", insights.summary);
+  paragraph("Top priority", insights.topPriority);
+  paragraph(
+    "Quick wins",
+    insights.quickWins.map((win, i) => `${i + 1}. ${win}`).join("\n"),
+  );
+  paragraph("Pro tip", insights.competitorTip);
+  paragraph(
+    "Estimated impact",
+    `${insights.estimatedImpact} increase in online visibility`,
+  );
+}
+
+// Footers go on last, once the number of pages is known
+function drawFooters(doc, report, branding) {
+  const { start, count } = doc.bufferedPageRange();
+
+  for (let i = start; i < start + count; i++) {
+    doc.switchToPage(i);
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .fillColor(GRAY)
+      .font("Helvetica")
+      .fontSize(8)
+      .text(
+        `Prepared by ${branding.agencyName} on ${report.date}`,
+        MARGIN,
+        doc.page.height - 30,
+        { lineBreak: false },
+      )
+      .text(`Page ${i + 1} of ${count}`, MARGIN, doc.page.height - 30, {
+        width: doc.page.width - MARGIN * 2,
+        align: "right",
+        lineBreak: false,
+      });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+// Render a stored audit as a branded A4 PDF. Uses pdfkit's built-in fonts,
+// so nothing is fetched while rendering.
+function renderPdfReport(audit, branding) {
+  const report = buildReportContent(audit);
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `Website audit: ${report.title}`,
+      Author: branding.agencyName,
+    },
+  });
+
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    drawHeader(doc, branding);
+    drawSummary(doc, report);
+    drawSectionTitle(doc, "Score breakdown", branding.accentColor);
+    drawBreakdown(doc, report.categories);
+    drawSectionTitle(doc, "Issues by category", branding.accentColor);
+    drawIssues(doc, report.categories);
+    if (report.aiInsights) {
+      drawInsights(doc, report.aiInsights, branding.accentColor);
+    }
+    drawFooters(doc, report, branding);
+
+    doc.end();
+  });
+}
+
+module.exports = { renderPdfReport };
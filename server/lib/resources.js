@@ -0,0 +1,240 @@
+const { fetchResourceInfo } = require("./fetcher");
+
+// Images, scripts, stylesheets and fonts the homepage loads, sized with
+// HEAD requests so the page weight can be judged without downloading it.
+
+const RESOURCE_TYPES = ["image", "script", "stylesheet", "font"];
+
+// Requests made per audit, how many run at once and how long they may take
+// together; resources past the budget are listed without a size
+const MAX_RESOURCES = 40;
+const CONCURRENCY = 4;
+const TIME_BUDGET_MS = 15000;
+const REQUEST_TIMEOUT_MS = 5000;
+
+const FONT_URL =
+  /url\(\s*['"]?([^'")]+\.(?:woff2?|ttf|otf|eot)(?:\?[^'")]*)?)['"]?\s*\)/gi;
+const BACKGROUND_URL = /url\(\s*['"]?([^'")]+)['"]?\s*\)/i;
+
+// Content types worth compressing; images and fonts already are
+const TEXT_TYPES = ["script", "stylesheet"];
+
+const IMAGE_FORMATS = {
+  "image/jpeg": "jpeg",
+  "image/jpg": "jpeg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/bmp": "bmp",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/svg+xml": "svg",
+};
+
+function siteKey(url) {
+  return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+}
+
+function resolve(src, baseUrl) {
+  if (!src) return null;
+  try {
+    const url = new URL(src.trim(), baseUrl);
+    return ["http:", "https:"].includes(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// The image a browser without srcset support would load
+function imageSource($el) {
+  const src =
+    $el.attr("src") || $el.attr("data-src") || $el.attr("data-lazy-src");
+  if (src && !src.startsWith("data:")) return src;
+  const srcset = $el.attr("srcset") || $el.attr("data-srcset") || "";
+  return srcset.split(",")[0]?.trim().split(/\s+/)[0] || null;
+}
+
+// Resources referenced by the page's markup, in document order. Fonts and
+// images referenced from external stylesheets aren't seen.
+function collectResources($, baseUrl) {
+  const found = [];
+  const add = (type, src, extra = {}) => {
+    const url = resolve(src, baseUrl);
+    if (url && !found.some((resource) => resource.url === url)) {
+      found.push({ type, url, ...extra });
+    }
+  };
+
+  $("script[src], link[href], style, img, [style*='url(']").each((_, el) => {
+    const $el = $(el);
+    const rel = ($el.attr("rel") || "").toLowerCase().split(/\s+/);
+
+    if (el.tagName === "script") {
+      // Scripts in <head> without async or defer stop the page rendering
+      // until they have downloaded and run
+      const blocking =
+        $el.closest("head").length > 0 &&
+        $el.attr("async") === undefined &&
+        $el.attr("defer") === undefined &&
+        $el.attr("type") !== "module";
+      add("script", $el.attr("src"), { renderBlocking: blocking });
+    } else if (el.tagName === "link" && rel.includes("stylesheet")) {
+      add("stylesheet", $el.attr("href"));
+    } else if (
+      el.tagName === "link" &&
+      rel.includes("preload") &&
+      $el.attr("as") === "font"
+    ) {
+      add("font", $el.attr("href"));
+    } else if (el.tagName === "style") {
+      for (const match of $el.text().matchAll(FONT_URL)) {
+        add("font", match[1]);
+      }
+    } else if (el.tagName === "img") {
+      add("image", imageSource($el), {
+        lazy: $el.attr("loading") === "lazy",
+      });
+    }
+
+    const background = ($el.attr("style") || "").match(BACKGROUND_URL);
+    if (background && !background[1].startsWith("data:")) {
+      add("image", background[1]);
+    }
+  });
+
+  return found;
+}
+
+// Cache-Control max-age (or s-maxage, or a future Expires) lets browsers
+// reuse the file on the next visit without asking again
+function isCacheable(headers) {
+  const cacheControl = String(headers["cache-control"] || "").toLowerCase();
+  if (/no-store|no-cache/.test(cacheControl)) return false;
+  const maxAge = cacheControl.match(/(?:s-)?max-age=(\d+)/);
+  if (maxAge) return Number(maxAge[1]) > 0;
+  const expires = Date.parse(headers.expires || "");
+  return Number.isFinite(expires) && expires > Date.now();
+}
+
+function describeResponse(resource, info, site) {
+  const contentType = String(info.headers["content-type"] || "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+  return {
+    ...resource,
+    status: info.status,
+    size: info.size,
+    contentType: contentType || null,
+    format:
+      resource.type === "image"
+        ? IMAGE_FORMATS[contentType] ||
+          new URL(resource.url).pathname
+            .match(/\.(\w+)$/)?.[1]
+            ?.toLowerCase() ||
+          null
+        : null,
+    encoding:
+      String(info.headers["content-encoding"] || "").toLowerCase() || null,
+    cacheable: isCacheable(info.headers),
+    thirdParty: siteKey(resource.url) !== site,
+    duration: info.duration,
+  };
+}
+
+// Size every resource the page references, within the request budget
+async function fetchResources(page) {
+  const site = siteKey(page.url);
+  const resources = collectResources(page.$, page.url);
+  const deadline = Date.now() + TIME_BUDGET_MS;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < Math.min(resources.length, MAX_RESOURCES)) {
+      const index = next++;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return;
+
+      const resource = resources[index];
+      try {
+        const info = await fetchResourceInfo(resource.url, {
+          timeout: Math.min(REQUEST_TIMEOUT_MS, remaining),
+        });
+        resources[index] = describeResponse(resource, info, site);
+      } catch (error) {
+        resources[index] = { ...resource, error: error.message };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+  const measured = resources.filter((resource) => resource.size != null);
+  console.log(
+    `📦 Sized ${measured.length} of ${resources.length} page resource(s)`,
+  );
+  return resources;
+}
+
+// The page's resources without sizing them, for uploads (./upload) whose
+// files aren't served from anywhere yet
+function listResources(page) {
+  return collectResources(page.$, page.url);
+}
+
+// Page weight of the homepage: the HTML document as fetched by the crawler
+// plus every sized resource. Resources that weren't sized count as 0.
+function analyzeResources(page, resources) {
+  const site = siteKey(page.url);
+  const document = {
+    url: page.url,
+    ttfb: page.ttfb ?? null,
+    redirects: page.redirects || [],
+    size: page.transferSize ?? null,
+    encoding: page.encoding ?? null,
+    cacheable: page.headers ? isCacheable(page.headers) : null,
+  };
+
+  const byType = Object.fromEntries(RESOURCE_TYPES.map((type) => [type, 0]));
+  for (const resource of resources) {
+    byType[resource.type] += resource.size || 0;
+  }
+
+  return {
+    document,
+    resources: resources.map((resource) => ({
+      ...resource,
+      thirdParty: resource.thirdParty ?? siteKey(resource.url) !== site,
+    })),
+    totalBytes:
+      (document.size || 0) +
+      Object.values(byType).reduce((sum, bytes) => sum + bytes, 0),
+    byType,
+    unmeasured: resources.filter((resource) => resource.size == null).length,
+  };
+}
+
+// "8.2 MB", "320 KB"
+function formatBytes(bytes) {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+// Short name of a resource for issue texts, e.g. "hero.jpg"
+function fileName(url) {
+  const { pathname, hostname } = new URL(url);
+  let name = pathname.split("/").filter(Boolean).pop() || hostname;
+  try {
+    name = decodeURIComponent(name);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  return name.length > 40 ? `${name.slice(0, 37)}...` : name;
+}
+
+module.exports = {
+  TEXT_TYPES,
+  analyzeResources,
+  fetchResources,
+  fileName,
+  formatBytes,
+  listResources,
+};
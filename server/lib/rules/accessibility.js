@@ -0,0 +1,364 @@
+// ===== ACCESSIBILITY RULES (20 points) =====
+// Checked on every crawled page. Each rule names the WCAG 2.1 success
+// criterion it tests, which is copied onto its issues.
+
+const { describe, examples, selectorFor, wcag } = require("../accessibility");
+
+// Share of crawled pages without the problem
+function passingShare(accessibility, failing) {
+  return 1 - failing.length / accessibility.length;
+}
+
+// One issue for a problem found on several pages, pointing at the first
+function acrossPages(failing, text, evidence = {}) {
+  return {
+    text: failing.length > 1 ? `${text} (on ${failing.length} pages)` : text,
+    page: failing[0].url,
+    evidence: {
+      ...evidence,
+      values: { ...evidence.values, pages: failing.length },
+    },
+  };
+}
+
+// The first offending element and how many there are
+function elementEvidence(elements) {
+  return {
+    selector: selectorFor(elements[0]),
+    html: describe(elements[0]),
+    values: { count: elements.length },
+  };
+}
+
+function plural(count, word) {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+module.exports = [
+  {
+    id: "accessibility.lang",
+    category: "accessibility",
+    title: "Page language",
+    description:
+      "Screen readers pick their pronunciation from the page language; without it a menu can be read out in the wrong accent or voice.",
+    weight: 3,
+    severity: "error",
+    effort: "low",
+    impact: "low",
+    wcag: wcag("3.1.1"),
+    check({ accessibility }) {
+      const missing = accessibility.filter((p) => p.lang.problem === "missing");
+      const invalid = accessibility.filter((p) => p.lang.problem === "invalid");
+      const issues = [];
+
+      if (missing.length) {
+        issues.push(
+          acrossPages(
+            missing,
+            'Page language not set - add a lang attribute like lang="en" to <html>',
+            { selector: "html" },
+          ),
+        );
+      }
+      if (invalid.length) {
+        issues.push({
+          key: "invalid",
+          ...acrossPages(
+            invalid,
+            `Page language "${invalid[0].lang.lang}" is not a valid language code`,
+            { selector: "html", values: { lang: invalid[0].lang.lang } },
+          ),
+        });
+      }
+
+      return {
+        score: passingShare(accessibility, [...missing, ...invalid]),
+        issues,
+      };
+    },
+  },
+  {
+    id: "accessibility.heading-order",
+    category: "accessibility",
+    title: "Heading order",
+    description:
+      "Screen reader users skim a page by its headings; skipped levels make it look like sections are missing.",
+    weight: 3,
+    severity: "warning",
+    effort: "low",
+    impact: "low",
+    wcag: wcag("1.3.1"),
+    check({ accessibility }) {
+      const failing = accessibility.filter((p) => p.headingSkips.length > 0);
+      if (failing.length === 0) return { score: 1 };
+
+      const [skip] = failing[0].headingSkips;
+      return {
+        score: passingShare(accessibility, failing),
+        issues: [
+          acrossPages(
+            failing,
+            `Heading levels skip from ${skip.from} to ${skip.to}${skip.text ? ` at "${skip.text}"` : ""}`,
+            { values: { from: skip.from, to: skip.to } },
+          ),
+        ],
+      };
+    },
+  },
+  {
+    id: "accessibility.link-names",
+    category: "accessibility",
+    title: "Link names",
+    description:
+      'Links with only an icon or image and no text are announced as just "link", so guests can\'t tell where they lead.',
+    weight: 3,
+    severity: "error",
+    effort: "low",
+    impact: "medium",
+    wcag: wcag("2.4.4"),
+    check({ accessibility }) {
+      const failing = accessibility.filter((p) => p.unnamedLinks.length > 0);
+      if (failing.length === 0) return { score: 1 };
+
+      const links = failing.flatMap((p) => p.unnamedLinks);
+      return {
+        score: passingShare(accessibility, failing),
+        issues: [
+          acrossPages(
+            failing,
+            `${plural(links.length, "link")} without a text or label, e.g. ${examples(links)}`,
+            elementEvidence(links),
+          ),
+        ],
+      };
+    },
+  },
+  {
+    id: "accessibility.button-names",
+    category: "accessibility",
+    title: "Button names",
+    description:
+      'A button without a name, like an icon-only menu toggle, is announced as just "button".',
+    weight: 2,
+    severity: "error",
+    effort: "low",
+    impact: "medium",
+    wcag: wcag("4.1.2"),
+    check({ accessibility }) {
+      const failing = accessibility.filter((p) => p.unnamedButtons.length > 0);
+      if (failing.length === 0) return { score: 1 };
+
+      const buttons = failing.flatMap((p) => p.unnamedButtons);
+      return {
+        score: passingShare(accessibility, failing),
+        issues: [
+          acrossPages(
+            failing,
+            `${plural(buttons.length, "button")} without a text or label, e.g. ${examples(buttons)}`,
+            elementEvidence(buttons),
+          ),
+        ],
+      };
+    },
+  },
+  {
+    id: "accessibility.form-labels",
+    category: "accessibility",
+    title: "Form labels",
+    description:
+      "Reservation and contact forms need a label on every field so screen reader users know what to type; a placeholder alone disappears once they start.",
+    weight: 3,
+    severity: "error",
+    effort: "low",
+    impact: "medium",
+    wcag: wcag("1.3.1"),
+    check({ accessibility }) {
+      const withForms = accessibility.filter((p) => p.formControls > 0);
+      const failing = withForms.filter((p) => p.unlabeledControls.length > 0);
+      if (failing.length === 0) return { score: 1 };
+
+      const controls = failing.flatMap((p) => p.unlabeledControls);
+      return {
+        score: 1 - failing.length / withForms.length,
+        issues: [
+          acrossPages(
+            failing,
+            `${plural(controls.length, "form field")} without a label, e.g. ${examples(controls)}`,
+            elementEvidence(controls),
+          ),
+        ],
+      };
+    },
+  },
+  {
+    id: "accessibility.duplicate-ids",
+    category: "accessibility",
+    title: "Unique ids",
+    description:
+      "Labels and ARIA attributes point at elements by id; when an id is used twice they can point at the wrong one.",
+    weight: 1,
+    severity: "info",
+    effort: "low",
+    impact: "low",
+    wcag: wcag("4.1.1"),
+    check({ accessibility }) {
+      const failing = accessibility.filter((p) => p.duplicateIds.length > 0);
+      if (failing.length === 0) return { score: 1 };
+
+      const ids = [...new Set(failing.flatMap((p) => p.duplicateIds))];
+      return {
+        score: passingShare(accessibility, failing),
+        issues: [
+          acrossPages(
+            failing,
+            `${plural(ids.length, "id")} used more than once: ${ids
+              .slice(0, 3)
+              .map((id) => `#${id}`)
+              .join(", ")}`,
+            {
+              selector: `[id="${ids[0]}"]`,
+              values: { count: ids.length },
+            },
+          ),
+        ],
+      };
+    },
+  },
+  {
+    id: "accessibility.landmarks",
+    category: "accessibility",
+    title: "Landmark regions",
+    description:
+      "Landmarks like <main> and <nav> let keyboard and screen reader users jump past the header straight to the content.",
+    weight: 2,
+    severity: "warning",
+    effort: "medium",
+    impact: "low",
+    wcag: wcag("2.4.1"),
+    config: { missingNavigationScore: 0.75 },
+    check({ accessibility }, { missingNavigationScore }) {
+      const noMain = accessibility.filter((p) => !p.landmarks.main);
+      const noNavigation = accessibility.filter(
+        (p) => p.landmarks.main && !p.landmarks.navigation,
+      );
+      const issues = [];
+
+      if (noMain.length) {
+        issues.push(
+          acrossPages(
+            noMain,
+            "No <main> landmark - screen reader users can't skip to the content",
+            { selector: "main" },
+          ),
+        );
+      }
+      if (noNavigation.length) {
+        issues.push({
+          type: "info",
+          key: "nav",
+          ...acrossPages(
+            noNavigation,
+            "Site navigation isn't wrapped in <nav>",
+            { selector: "nav" },
+          ),
+        });
+      }
+
+      return {
+        score:
+          (accessibility.length -
+            noMain.length -
+            noNavigation.length * (1 - missingNavigationScore)) /
+          accessibility.length,
+        issues,
+      };
+    },
+  },
+  {
+    id: "accessibility.autoplay",
+    category: "accessibility",
+    title: "Autoplaying media",
+    description:
+      "Sound that starts by itself drowns out the screen reader, and moving video without a pause button distracts some visitors.",
+    weight: 2,
+    severity: "error",
+    effort: "low",
+    impact: "medium",
+    wcag: wcag("1.4.2"),
+    config: { silentVideoScore: 0.5 },
+    check({ accessibility }, { silentVideoScore }) {
+      const withSound = accessibility.filter(
+        (p) => p.autoplay.withSound.length > 0,
+      );
+      const silentVideo = accessibility.filter(
+        (p) =>
+          p.autoplay.withSound.length === 0 &&
+          p.autoplay.silentVideo.length > 0,
+      );
+      const issues = [];
+
+      if (withSound.length) {
+        const media = withSound.flatMap((p) => p.autoplay.withSound);
+        issues.push(
+          acrossPages(
+            withSound,
+            `Media plays sound automatically: ${examples(media)}`,
+            elementEvidence(media),
+          ),
+        );
+      }
+      if (silentVideo.length) {
+        const videos = silentVideo.flatMap((p) => p.autoplay.silentVideo);
+        issues.push({
+          type: "warning",
+          key: "silent-video",
+          wcag: wcag("2.2.2"),
+          ...acrossPages(
+            silentVideo,
+            "Autoplaying video has no controls to pause it",
+            elementEvidence(videos),
+          ),
+        });
+      }
+
+      return {
+        score:
+          (accessibility.length -
+            withSound.length -
+            silentVideo.length * (1 - silentVideoScore)) /
+          accessibility.length,
+        issues,
+      };
+    },
+  },
+  {
+    id: "accessibility.contrast",
+    category: "accessibility",
+    title: "Color contrast",
+    description:
+      "Light text on a light background is hard to read for older guests and anyone on a phone in the sun. Only colors set in inline styles can be checked.",
+    weight: 1,
+    severity: "warning",
+    effort: "low",
+    impact: "medium",
+    wcag: wcag("1.4.3"),
+    check({ accessibility }) {
+      const failing = accessibility.filter((p) => p.lowContrast.length > 0);
+      if (failing.length === 0) return { score: 1 };
+
+      const [worst] = failing
+        .flatMap((p) => p.lowContrast)
+        .sort((a, b) => a.ratio - b.ratio);
+      return {
+        score: passingShare(accessibility, failing),
+        issues: [
+          acrossPages(
+            failing,
+            `Low text contrast ${worst.ratio}:1 (needs ${worst.minimum}:1)${worst.text ? ` for "${worst.text}"` : ""}`,
+            { values: { ratio: worst.ratio, minimum: worst.minimum } },
+          ),
+        ],
+      };
+    },
+  },
+];
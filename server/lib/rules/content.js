@@ -0,0 +1,272 @@
+// ===== CONTENT RULES (30 points) =====
+// Content signals are looked for on every crawled page, so a menu or
+// contact page counts just as much as the homepage.
+
+module.exports = [
+  {
+    id: "content.menu",
+    category: "content",
+    title: "Menu on the website",
+    description:
+      "The menu is what most visitors come for; an HTML menu with prices can be read on phones and indexed by Google, a PDF or photo often can't.",
+    weight: 8,
+    severity: "warning",
+    effort: "medium",
+    impact: "high",
+    config: {
+      minItems: 5,
+      missingPricesPenalty: 0.25,
+      pdfScore: 0.5,
+      scannedPdfScore: 0.25,
+      imageScore: 0.1,
+      unreadablePageScore: 0.5,
+      maxPdfBytes: 5 * 1024 * 1024,
+    },
+    check({ menu }, config) {
+      const issues = [];
+      const pdf = menu.pdfs.find((p) => !p.error);
+      const page = menu.pages[0] || pdf?.url || menu.images[0]?.page;
+      let score;
+
+      switch (menu.source) {
+        case "html":
+          score = 1;
+          break;
+        case "pdf":
+          score = config.pdfScore;
+          issues.push({
+            text: "Menu is only available as a PDF - hard to read on phones and weaker for Google than an HTML menu",
+            page: pdf.url,
+            evidence: { url: pdf.url },
+          });
+          break;
+        case "scanned-pdf":
+          score = config.scannedPdfScore;
+          issues.push({
+            type: "error",
+            text: "PDF menu is a scanned image with no text - Google and screen readers can't read it",
+            page: pdf.url,
+            evidence: { url: pdf.url },
+          });
+          break;
+        case "image":
+          score = config.imageScore;
+          issues.push({
+            type: "error",
+            text: "Menu is an image with no text alternative - add the dishes and prices as text",
+            page: menu.images[0].page,
+          });
+          break;
+        case "page":
+          score = config.unreadablePageScore;
+          issues.push({
+            text: "Menu page has no readable dishes or prices - it may be loaded by JavaScript or an embedded widget",
+            page,
+          });
+          break;
+        default:
+          return {
+            score: 0,
+            issues: [{ text: "No menu found on the website" }],
+          };
+      }
+
+      if (pdf && pdf.sizeBytes > config.maxPdfBytes) {
+        issues.push({
+          type: "warning",
+          key: "pdf-size",
+          text: `PDF menu is ${(pdf.sizeBytes / 1024 / 1024).toFixed(1)} MB - slow to open on mobile data`,
+          page: pdf.url,
+          evidence: {
+            url: pdf.url,
+            values: { bytes: pdf.sizeBytes, maxBytes: config.maxPdfBytes },
+          },
+        });
+      }
+
+      // Dishes listed without prices, e.g. "Margherita" with no "$12"
+      if (
+        menu.unpricedCount >= config.minItems &&
+        menu.unpricedCount > menu.pricedCount
+      ) {
+        score -= config.missingPricesPenalty;
+        issues.push({
+          type: "warning",
+          key: "prices",
+          text: `Menu prices missing - ${menu.unpricedCount} dishes are listed without a price`,
+          page,
+          evidence: {
+            values: {
+              unpriced: menu.unpricedCount,
+              priced: menu.pricedCount,
+            },
+          },
+        });
+      }
+
+      if (menu.pricedCount > 0 && menu.labels.length === 0) {
+        issues.push({
+          type: "info",
+          key: "labels",
+          text: "No dietary or allergen labels (vegan, gluten-free, ...) on the menu",
+          page,
+        });
+      }
+
+      return { score, issues };
+    },
+  },
+  {
+    id: "content.hours",
+    category: "content",
+    title: "Business hours",
+    description:
+      "Guests check opening hours before they visit; missing hours send them to a competitor who lists theirs.",
+    weight: 5,
+    severity: "error",
+    effort: "low",
+    impact: "high",
+    config: { structuredOnlyScore: 0.5 },
+    check({ business }, { structuredOnlyScore }) {
+      if (!business.hours) {
+        return {
+          score: 0,
+          issues: [{ text: "Business hours not found - customers need this!" }],
+        };
+      }
+      if (business.hours.source !== "text") {
+        return {
+          score: structuredOnlyScore,
+          issues: [
+            {
+              type: "warning",
+              text: "Opening hours are only in structured data - show them on the page too",
+              page: business.hours.page,
+            },
+          ],
+        };
+      }
+      return { score: 1 };
+    },
+  },
+  {
+    id: "content.address",
+    category: "content",
+    title: "Address",
+    description:
+      "A visible address helps guests find the restaurant and confirms the location to search engines.",
+    weight: 4,
+    severity: "warning",
+    effort: "low",
+    impact: "high",
+    check({ business }) {
+      return business.addresses.some((a) => a.source !== "structured data")
+        ? { score: 1 }
+        : {
+            score: 0,
+            issues: [{ text: "Address/location not clearly visible" }],
+          };
+    },
+  },
+  {
+    id: "content.phone",
+    category: "content",
+    title: "Phone number",
+    description:
+      "Many guests still call to ask questions or book, so the number should be easy to find.",
+    weight: 4,
+    severity: "warning",
+    effort: "low",
+    impact: "high",
+    check({ foundOn }) {
+      return foundOn("phone")
+        ? { score: 1 }
+        : { score: 0, issues: [{ text: "Phone number not found" }] };
+    },
+  },
+  {
+    id: "content.listing-consistency",
+    category: "content",
+    title: "Consistent name, address, phone and hours",
+    description:
+      "Guests who find different hours or a different number on Google Maps than on the website end up at a closed door; search engines also trust consistent listings more.",
+    weight: 5,
+    severity: "error",
+    effort: "low",
+    impact: "high",
+    // Compares what the website shows with its structured data and with the
+    // map listing picked when starting the audit. Nothing to compare scores 1.
+    check({ business }) {
+      if (business.compared.length === 0) return { score: 1 };
+
+      const wrong = new Set(
+        business.mismatches
+          .filter((mismatch) => mismatch.type !== "info")
+          .map((mismatch) => mismatch.field),
+      );
+      return {
+        score: 1 - wrong.size / business.compared.length,
+        issues: business.mismatches.map(({ field, sources, text, type }) => ({
+          key: [field, ...sources].join(":"),
+          text,
+          ...(type && { type }),
+          evidence: { values: { field, sources: sources.join(", ") } },
+        })),
+      };
+    },
+  },
+  {
+    id: "content.images",
+    category: "content",
+    title: "Food photos with alt text",
+    description:
+      "Food photos sell dishes, and alt text lets search engines and screen readers understand them.",
+    weight: 4,
+    severity: "info",
+    effort: "medium",
+    impact: "medium",
+    config: { minImages: 5, minAltRatio: 0.5 },
+    check({ pages }, { minImages, minAltRatio }) {
+      const imageCount = pages.reduce(
+        (sum, page) => sum + page.$("img").length,
+        0,
+      );
+      const imagesWithAlt = pages.reduce(
+        (sum, page) =>
+          sum +
+          page.$("img[alt]").filter((_, el) => page.$(el).attr("alt")?.trim())
+            .length,
+        0,
+      );
+
+      if (imageCount < minImages) {
+        return {
+          score: 0,
+          issues: [
+            {
+              text: "Consider adding more food photos",
+              evidence: { values: { images: imageCount, minImages } },
+            },
+          ],
+        };
+      }
+      if (imagesWithAlt / imageCount < minAltRatio) {
+        return {
+          score: 1,
+          issues: [
+            {
+              type: "warning",
+              key: "alt-text",
+              text: `Only ${Math.round((imagesWithAlt / imageCount) * 100)}% of images have alt text`,
+              evidence: {
+                selector: 'img:not([alt]), img[alt=""]',
+                values: { images: imageCount, withAlt: imagesWithAlt },
+              },
+            },
+          ],
+        };
+      }
+      return { score: 1 };
+    },
+  },
+];
@@ -0,0 +1,16 @@
+const { registerRule } = require("./registry");
+
+// Built-in rules. Additional rule modules can call registerRule() the same
+// way before the first audit runs.
+for (const rules of [
+  require("./seo"),
+  require("./content"),
+  require("./usability"),
+  require("./technical"),
+  require("./accessibility"),
+  require("./security"),
+]) {
+  rules.forEach(registerRule);
+}
+
+module.exports = require("./registry");
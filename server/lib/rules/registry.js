@@ -0,0 +1,89 @@
+// Registry of grading rules. Each rule is a single check with a stable id:
+//
+//   {
+//     id: "seo.title-length",     // stable across releases, used by profiles
+//     category: "seo",            // one of CATEGORIES
+//     title: "Title length",      // short human-readable name
+//     description: "...",         // why the check matters, for reports
+//     weight: 8,                  // points the rule is worth
+//     severity: "warning",        // default issue type when the check fails
+//     effort: "low",              // work to fix it: low, medium or high
+//     impact: "high",             // what it costs the restaurant: low,
+//                                 // medium or high
+//     config: { minLength: 30 },  // thresholds a profile can override
+//     wcag: wcag("1.3.1"),        // optional WCAG success criterion
+//     network: true,              // needs the live site (timings, headers,
+//                                 // TLS); not applicable to uploads
+//     check(context, config) {    // returns the share of the weight earned
+//       return { score: 0.5, issues: [{ text: "..." }] };
+//     },
+//   }
+//
+// A check that only fails because another rule's issue stands in the way
+// (no phone number to make clickable) returns that rule's id as
+// `causedBy` instead of issues; its missed points count toward them.
+//
+// Issues default to the rule's severity but can set their own `type`, e.g.
+// a missing title is an error while a long one is only a warning. Issues
+// also carry the rule's `wcag` criterion unless they name their own.
+//
+// The text is for people and may quote measured values. What the issue is
+// about goes in `evidence` ({ selector, html, url, values }, all optional):
+// the offending element's selector and markup, the file it's about, and
+// the numbers measured, e.g. { values: { length: 72, maxLength: 60 } }.
+// A rule that reports several problems names each with a `key` (a header
+// name, a file URL) so it keeps the same id from one audit to the next.
+
+const CATEGORIES = {
+  seo: { label: "SEO" },
+  content: { label: "Content" },
+  usability: { label: "Usability" },
+  technical: { label: "Technical" },
+  accessibility: { label: "Accessibility" },
+  security: { label: "Security" },
+};
+
+const SEVERITIES = ["error", "warning", "info"];
+const LEVELS = ["low", "medium", "high"];
+
+const rules = new Map();
+
+function registerRule(rule) {
+  if (!rule.id || typeof rule.check !== "function") {
+    throw new Error("Rules need an id and a check function");
+  }
+  if (rules.has(rule.id)) {
+    throw new Error(`Rule "${rule.id}" is already registered`);
+  }
+  if (!CATEGORIES[rule.category]) {
+    throw new Error(
+      `Rule "${rule.id}" has unknown category "${rule.category}"`,
+    );
+  }
+  if (!SEVERITIES.includes(rule.severity)) {
+    throw new Error(
+      `Rule "${rule.id}" has unknown severity "${rule.severity}"`,
+    );
+  }
+
+  for (const field of ["effort", "impact"]) {
+    if (rule[field] !== undefined && !LEVELS.includes(rule[field])) {
+      throw new Error(
+        `Rule "${rule.id}" has unknown ${field} "${rule[field]}"`,
+      );
+    }
+  }
+
+  rules.set(rule.id, {
+    config: {},
+    effort: "medium",
+    impact: "medium",
+    ...rule,
+  });
+}
+
+function getRules() {
+  return [...rules.values()];
+}
+
+module.exports = { CATEGORIES, SEVERITIES, LEVELS, registerRule, getRules };
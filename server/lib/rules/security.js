@@ -0,0 +1,304 @@
+// ===== SECURITY RULES (20 points) =====
+// The certificate and http:// redirect are probed once per audit
+// (../security); headers are read from the homepage response, insecure
+// content and forms from every crawled page.
+
+// Problems listed one by one before the rest are summed up in one line
+const MAX_LISTED = 5;
+
+const DATE_FORMAT = { year: "numeric", month: "long", day: "numeric" };
+
+function formatDate(iso) {
+  return new Date(iso).toLocaleDateString("en-US", DATE_FORMAT);
+}
+
+function listed(items, toIssue) {
+  const issues = items.slice(0, MAX_LISTED).map(toIssue);
+  if (items.length > MAX_LISTED) {
+    issues.push({
+      ...toIssue(items[MAX_LISTED]),
+      key: "more",
+      text: `...and ${items.length - MAX_LISTED} more`,
+      evidence: { values: { count: items.length - MAX_LISTED } },
+    });
+  }
+  return issues;
+}
+
+// Rules that build on HTTPS have nothing to check on an http:// site; the
+// certificate rule reports the missing HTTPS itself
+function needsHttps(page, text) {
+  return {
+    score: 0,
+    issues: [{ text: `${text} needs HTTPS first`, page, type: "info" }],
+  };
+}
+
+module.exports = [
+  {
+    id: "security.certificate",
+    category: "security",
+    title: "Security certificate",
+    description:
+      'Browsers show a full-page "Your connection is not private" warning instead of the site when its certificate is expired, self-signed or issued for another address. Most visitors leave at that point.',
+    weight: 6,
+    severity: "error",
+    effort: "low",
+    impact: "high",
+    network: true,
+    config: { expiryWarningDays: 30 },
+    check({ security, pages }, { expiryWarningDays }) {
+      const { certificate } = security;
+      const page = pages[0].url;
+      const hostname = new URL(page).hostname;
+      if (!certificate) return { score: 1 };
+
+      const evidence = {
+        values: Object.fromEntries(
+          ["subject", "issuer", "validTo", "error"]
+            .filter((field) => certificate[field])
+            .map((field) => [field, certificate[field]]),
+        ),
+      };
+      const fail = (text, score = 0) => ({
+        score,
+        issues: [{ text, page, evidence }],
+      });
+
+      if (!certificate.validTo) {
+        return fail(
+          `${hostname} doesn't answer on https:// (${certificate.error}) - ask your host for a free Let's Encrypt certificate`,
+        );
+      }
+      if (certificate.expired) {
+        return fail(
+          `Security certificate expired on ${formatDate(certificate.validTo)} - visitors see a warning instead of the site; renew it now`,
+        );
+      }
+      if (certificate.notYetValid) {
+        return fail(
+          `Security certificate isn't valid until ${formatDate(certificate.validFrom)} - check the server's clock and certificate`,
+        );
+      }
+      if (certificate.selfSigned) {
+        return fail(
+          "Security certificate is self-signed - browsers don't trust it and show a warning; replace it with one from a certificate authority such as Let's Encrypt",
+        );
+      }
+      if (!certificate.hostnameMatch) {
+        return fail(
+          `Security certificate is for ${certificate.subject || "another address"}, not ${hostname} - browsers show a warning; ask your host to add ${hostname} to the certificate`,
+        );
+      }
+      if (certificate.error === "UNABLE_TO_VERIFY_LEAF_SIGNATURE") {
+        // Desktop browsers often fetch the missing certificate themselves
+        return fail(
+          "Security certificate chain is incomplete - some phones and apps refuse to connect; ask your host to install the intermediate certificate",
+          0.5,
+        );
+      }
+      if (!certificate.trusted) {
+        return fail(
+          `Browsers don't trust the security certificate (${certificate.error}) - ask your host to replace it`,
+        );
+      }
+      if (certificate.daysLeft <= expiryWarningDays) {
+        return {
+          score: 0.5,
+          issues: [
+            {
+              text: `Security certificate expires in ${certificate.daysLeft} day${certificate.daysLeft === 1 ? "" : "s"} (${formatDate(certificate.validTo)}${certificate.issuer ? `, issued by ${certificate.issuer}` : ""}) - renew it or check that automatic renewal works`,
+              page,
+              type: "warning",
+              evidence: {
+                values: { ...evidence.values, daysLeft: certificate.daysLeft },
+              },
+            },
+          ],
+        };
+      }
+      return { score: 1 };
+    },
+  },
+  {
+    id: "security.https-redirect",
+    category: "security",
+    title: "HTTP to HTTPS redirect",
+    description:
+      "Visitors who type the address without https://, and old links and listings, land on the insecure version unless it redirects.",
+    weight: 4,
+    severity: "warning",
+    effort: "low",
+    impact: "medium",
+    network: true,
+    check({ security, pages }) {
+      const { httpRedirect } = security;
+      const page = pages[0].url;
+      if (!security.https && !security.certificate?.trusted) {
+        return needsHttps(page, "Redirecting http:// to https://");
+      }
+      if (!httpRedirect || httpRedirect.redirectsToHttps) return { score: 1 };
+
+      return {
+        score: 0,
+        issues: [
+          {
+            text: httpRedirect.error
+              ? `${httpRedirect.url} doesn't answer (${httpRedirect.error}) - visitors who type the address without https:// get an error; make it redirect to https://`
+              : `${httpRedirect.url} stays on http:// instead of redirecting to https:// - turn on "force HTTPS" at your host or builder`,
+            page,
+            evidence: {
+              url: httpRedirect.url,
+              ...(httpRedirect.finalUrl && {
+                values: { finalUrl: httpRedirect.finalUrl },
+              }),
+            },
+          },
+        ],
+      };
+    },
+  },
+  {
+    id: "security.hsts",
+    category: "security",
+    title: "HSTS",
+    description:
+      "The Strict-Transport-Security header tells browsers to always use https:// for the site, even when a link or bookmark says http://.",
+    weight: 2,
+    severity: "warning",
+    effort: "low",
+    impact: "low",
+    network: true,
+    // 180 days; HSTS preload lists ask for a year
+    config: { minMaxAge: 180 * 24 * 60 * 60 },
+    check({ security, pages }, { minMaxAge }) {
+      const page = pages[0].url;
+      if (!security.https) return needsHttps(page, "HSTS");
+
+      const { hsts } = security;
+      if (!hsts || hsts.maxAge === 0) {
+        return {
+          score: 0,
+          issues: [
+            {
+              text: "No HSTS header - add Strict-Transport-Security: max-age=31536000 so browsers always use https://",
+              page,
+            },
+          ],
+        };
+      }
+      if (hsts.maxAge < minMaxAge) {
+        return {
+          score: 0.5,
+          issues: [
+            {
+              text: `HSTS lasts only ${hsts.maxAge < 86400 ? "hours" : `${Math.round(hsts.maxAge / 86400)} days`} - set max-age to at least ${Math.round(minMaxAge / 86400)} days`,
+              page,
+              evidence: { values: { maxAge: hsts.maxAge, minMaxAge } },
+            },
+          ],
+        };
+      }
+      return { score: 1 };
+    },
+  },
+  {
+    id: "security.headers",
+    category: "security",
+    title: "Security headers",
+    description:
+      "A few response headers limit the damage if a plugin or embedded widget is compromised, and stop other sites from framing yours to trick visitors.",
+    weight: 3,
+    severity: "info",
+    effort: "medium",
+    impact: "low",
+    network: true,
+    check({ security, pages }) {
+      const page = pages[0].url;
+      const { headers } = security;
+      const missing = [
+        !headers.contentSecurityPolicy && [
+          "Content-Security-Policy",
+          "No Content-Security-Policy - a policy limits which scripts can run if the site or a plugin is hacked",
+        ],
+        !headers.contentTypeOptions && [
+          "X-Content-Type-Options",
+          "No X-Content-Type-Options: nosniff header - browsers may guess file types, which attackers can abuse",
+        ],
+        !headers.frameOptions && [
+          "X-Frame-Options",
+          "No X-Frame-Options or frame-ancestors policy - other sites can show yours in a frame to trick visitors into clicking (clickjacking)",
+        ],
+      ].filter(Boolean);
+
+      return {
+        score: 1 - missing.length / 3,
+        issues: missing.map(([header, text]) => ({
+          key: header,
+          text,
+          page,
+          evidence: { values: { header } },
+        })),
+      };
+    },
+  },
+  {
+    // Blocked scripts and styles break the page; insecure images only
+    // cost the padlock
+    id: "security.mixed-content",
+    category: "security",
+    title: "Mixed content",
+    description:
+      "Files loaded over http:// on an https:// page are blocked or flagged by browsers: scripts and styles stop working, and the padlock disappears.",
+    weight: 3,
+    severity: "warning",
+    effort: "low",
+    impact: "medium",
+    check({ security }) {
+      const { mixedContent } = security;
+      if (mixedContent.length === 0) return { score: 1 };
+
+      const active = mixedContent.filter((item) => item.active);
+      const sorted = [...active, ...mixedContent.filter((i) => !i.active)];
+      return {
+        score: active.length > 0 ? 0 : 0.5,
+        issues: listed(sorted, (item) => ({
+          text: item.active
+            ? `The ${item.kind} ${item.url} is loaded over insecure http:// - browsers block it, which can break the page; change the link to https://`
+            : `The ${item.kind} ${item.url} is loaded over insecure http:// - browsers may not show it or drop the padlock; change the link to https://`,
+          page: item.page,
+          type: item.active ? "error" : "warning",
+          key: item.url,
+          evidence: { url: item.url, values: { kind: item.kind } },
+        })),
+      };
+    },
+  },
+  {
+    id: "security.form-actions",
+    category: "security",
+    title: "Secure forms",
+    description:
+      "Reservation, contact and login forms that submit over http:// send names, phone numbers and passwords readable by anyone on the same network.",
+    weight: 2,
+    severity: "error",
+    effort: "low",
+    impact: "high",
+    check({ security }) {
+      const { insecureForms } = security;
+      if (insecureForms.length === 0) return { score: 1 };
+
+      return {
+        score: 0,
+        issues: listed(insecureForms, (form) => ({
+          text: form.page.startsWith("https:")
+            ? `A ${form.password ? "login " : ""}form sends what visitors type to insecure ${form.action} - change the form's address to https://`
+            : `A ${form.password ? "login " : ""}form on an http:// page sends what visitors type unencrypted`,
+          page: form.page,
+          key: form.action,
+          evidence: { url: form.action },
+        })),
+      };
+    },
+  },
+];
@@ -0,0 +1,146 @@
+// ===== SEO RULES (30 points) =====
+
+module.exports = [
+  {
+    id: "seo.title-length",
+    category: "seo",
+    title: "Page title",
+    description:
+      "The title is the headline Google shows in search results and the text on the browser tab.",
+    weight: 8,
+    severity: "error",
+    effort: "low",
+    impact: "high",
+    config: { minLength: 30, maxLength: 60 },
+    check({ $ }, { minLength, maxLength }) {
+      const title = $("title").text() || "";
+
+      if (title.length >= minLength && title.length <= maxLength) {
+        return { score: 1 };
+      }
+      if (title.length > 0) {
+        return {
+          score: 0.5,
+          issues: [
+            {
+              type: "warning",
+              text: `Title length (${title.length} chars) should be ${minLength}-${maxLength} characters`,
+              evidence: {
+                selector: "title",
+                html: `<title>${title}</title>`,
+                values: { length: title.length, minLength, maxLength },
+              },
+            },
+          ],
+        };
+      }
+      return { score: 0, issues: [{ text: "Missing page title" }] };
+    },
+  },
+  {
+    id: "seo.meta-description",
+    category: "seo",
+    title: "Meta description",
+    description:
+      "The meta description is the snippet under the title in search results; a good one earns more clicks.",
+    weight: 8,
+    severity: "error",
+    effort: "low",
+    impact: "medium",
+    config: { minLength: 120, maxLength: 160 },
+    check({ $ }, { minLength, maxLength }) {
+      const description = $('meta[name="description"]').attr("content") || "";
+
+      if (description.length >= minLength && description.length <= maxLength) {
+        return { score: 1 };
+      }
+      if (description.length > 0) {
+        return {
+          score: 0.5,
+          issues: [
+            {
+              type: "warning",
+              text: `Meta description (${description.length} chars) should be ${minLength}-${maxLength} characters`,
+              evidence: {
+                selector: 'meta[name="description"]',
+                values: { length: description.length, minLength, maxLength },
+              },
+            },
+          ],
+        };
+      }
+      return {
+        score: 0,
+        issues: [{ text: "Missing meta description - hurts Google rankings" }],
+      };
+    },
+  },
+  {
+    id: "seo.h1",
+    category: "seo",
+    title: "Single H1 heading",
+    description:
+      "One clear main heading tells search engines and visitors what the page is about.",
+    weight: 6,
+    severity: "error",
+    effort: "low",
+    impact: "medium",
+    check({ $ }) {
+      const h1Count = $("h1").length;
+
+      if (h1Count === 1) return { score: 1 };
+      if (h1Count === 0) {
+        return { score: 0, issues: [{ text: "Missing H1 heading" }] };
+      }
+      return {
+        score: 0.5,
+        issues: [
+          {
+            type: "warning",
+            text: `Multiple H1 tags found (${h1Count}) - should have exactly 1`,
+            evidence: { selector: "h1", values: { count: h1Count } },
+          },
+        ],
+      };
+    },
+  },
+  {
+    id: "seo.canonical",
+    category: "seo",
+    title: "Canonical URL",
+    description:
+      "A canonical URL stops search engines from splitting rankings between duplicate addresses of the same page.",
+    weight: 4,
+    severity: "info",
+    effort: "low",
+    impact: "low",
+    check({ $ }) {
+      return $('link[rel="canonical"]').length > 0
+        ? { score: 1 }
+        : { score: 0, issues: [{ text: "No canonical URL set" }] };
+    },
+  },
+  {
+    id: "seo.open-graph",
+    category: "seo",
+    title: "Open Graph tags",
+    description:
+      "Open Graph tags control the title, text and image shown when the site is shared on social media or in chat apps.",
+    weight: 4,
+    severity: "warning",
+    effort: "low",
+    impact: "low",
+    check({ $ }) {
+      return $('meta[property="og:title"]').length > 0
+        ? { score: 1 }
+        : {
+            score: 0,
+            issues: [
+              {
+                text: "Missing Open Graph tags - social sharing won't look good",
+              },
+            ],
+          };
+    },
+  },
+];
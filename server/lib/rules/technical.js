@@ -0,0 +1,448 @@
+// ===== TECHNICAL RULES (34 points) =====
+// Page weight and resource checks look at the homepage and the files it
+// loads (./resources); files that couldn't be sized are left out.
+
+const { TEXT_TYPES, fileName, formatBytes } = require("../resources");
+
+// Per-file issues listed before the rest are summed up in one line
+const MAX_LISTED = 5;
+
+// One issue per file, largest first, then "...and N more"
+function perFile(files, page, text, type) {
+  const sorted = [...files].sort((a, b) => (b.size || 0) - (a.size || 0));
+  const issues = sorted.slice(0, MAX_LISTED).map((file) => ({
+    key: file.url,
+    text: text(file),
+    page,
+    evidence: {
+      url: file.url,
+      ...(file.size != null && { values: { bytes: file.size } }),
+    },
+    ...(type && { type }),
+  }));
+  if (sorted.length > MAX_LISTED) {
+    issues.push({
+      key: "more",
+      text: `...and ${sorted.length - MAX_LISTED} more files with the same problem`,
+      page,
+      evidence: { values: { files: sorted.length - MAX_LISTED } },
+      ...(type && { type }),
+    });
+  }
+  return issues;
+}
+
+module.exports = [
+  {
+    id: "technical.viewport",
+    category: "technical",
+    title: "Mobile viewport",
+    description:
+      "Without a viewport tag the site renders as a shrunken desktop page on phones, where most restaurant searches happen.",
+    weight: 6,
+    severity: "error",
+    effort: "low",
+    impact: "high",
+    check({ $ }) {
+      return $('meta[name="viewport"]').length > 0
+        ? { score: 1 }
+        : {
+            score: 0,
+            issues: [
+              { text: "Not mobile-friendly - missing viewport meta tag" },
+            ],
+          };
+    },
+  },
+  {
+    id: "technical.https",
+    category: "technical",
+    title: "HTTPS",
+    description:
+      "Browsers mark sites without HTTPS as not secure, and Google ranks them lower.",
+    weight: 5,
+    severity: "error",
+    effort: "medium",
+    impact: "high",
+    network: true,
+    // The homepage's final address, so http:// redirecting to https://
+    // passes and https:// redirecting to http:// doesn't
+    check({ pages }) {
+      return pages[0].url.startsWith("https:")
+        ? { score: 1 }
+        : {
+            score: 0,
+            issues: [
+              { text: "Site not secure (no HTTPS) - Google penalizes this" },
+            ],
+          };
+    },
+  },
+  {
+    id: "technical.favicon",
+    category: "technical",
+    title: "Favicon",
+    description:
+      "The favicon appears in browser tabs, bookmarks and some search results.",
+    weight: 1,
+    severity: "info",
+    effort: "low",
+    impact: "low",
+    check({ $ }) {
+      const hasFavicon =
+        $('link[rel="icon"]').length > 0 ||
+        $('link[rel="shortcut icon"]').length > 0;
+
+      return hasFavicon
+        ? { score: 1 }
+        : { score: 0, issues: [{ text: "Missing favicon" }] };
+    },
+  },
+  {
+    // A Restaurant/LocalBusiness entity earns `entityScore` of the weight and
+    // the rest is shared between its valid recommended fields
+    id: "technical.structured-data",
+    category: "technical",
+    title: "Schema.org restaurant data",
+    description:
+      "Schema.org restaurant data lets Google show hours, address, cuisine and menu directly in search results and Maps.",
+    weight: 6,
+    severity: "warning",
+    effort: "medium",
+    impact: "medium",
+    config: { entityScore: 1 / 3 },
+    check({ structuredData }, { entityScore }) {
+      const { errors, foundTypes, match, fields } = structuredData;
+      const issues = errors.map(({ text, page }) => ({
+        type: "error",
+        key: text,
+        text,
+        page,
+      }));
+
+      if (!match) {
+        issues.push({
+          text:
+            foundTypes.length > 0
+              ? `Structured data only describes ${foundTypes.join(", ")} - add a Restaurant or LocalBusiness entity`
+              : "No structured data (Schema.org) - missing rich snippets in Google",
+        });
+        return { score: 0, issues };
+      }
+
+      for (const field of fields) {
+        if (field.status === "missing") {
+          issues.push({
+            type: field.severity,
+            key: field.field,
+            text: `Structured data is missing "${field.field}"`,
+            page: match.page,
+            evidence: { values: { field: field.field } },
+          });
+        } else if (field.status === "invalid") {
+          issues.push({
+            type: "warning",
+            key: field.field,
+            text: `Structured data "${field.field}" ${field.problem}`,
+            page: match.page,
+            evidence: { values: { field: field.field } },
+          });
+        }
+      }
+
+      const validShare =
+        fields.filter((field) => field.status === "valid").length /
+        fields.length;
+
+      return {
+        score: entityScore + (1 - entityScore) * validShare,
+        issues,
+      };
+    },
+  },
+  {
+    id: "technical.load-time",
+    category: "technical",
+    title: "Load time",
+    description:
+      "Slow pages lose visitors, especially on mobile data, and rank lower in search.",
+    weight: 2,
+    severity: "warning",
+    effort: "high",
+    impact: "medium",
+    network: true,
+    config: { fastMs: 2000, slowMs: 5000 },
+    check({ loadTime }, { fastMs, slowMs }) {
+      if (loadTime && loadTime < fastMs) return { score: 1 };
+      if (loadTime && loadTime > slowMs) {
+        return {
+          score: 0,
+          issues: [
+            {
+              text: `Slow load time (${(loadTime / 1000).toFixed(1)}s) - aim for under 3 seconds`,
+              evidence: { values: { loadTime, slowMs } },
+            },
+          ],
+        };
+      }
+      if (loadTime) {
+        return {
+          score: 0,
+          issues: [
+            {
+              type: "info",
+              text: `Load time (${(loadTime / 1000).toFixed(1)}s) could be faster - aim for under ${fastMs / 1000} seconds`,
+              evidence: { values: { loadTime, fastMs } },
+            },
+          ],
+        };
+      }
+      return { score: 0 };
+    },
+  },
+  {
+    id: "technical.page-weight",
+    category: "technical",
+    title: "Page weight",
+    description:
+      "Every megabyte is seconds of waiting on mobile data; large photos are the usual reason restaurant homepages are slow.",
+    weight: 3,
+    severity: "warning",
+    effort: "medium",
+    impact: "medium",
+    network: true,
+    config: { goodBytes: 2 * 1024 * 1024, maxBytes: 6 * 1024 * 1024 },
+    check({ resources }, { goodBytes, maxBytes }) {
+      const { totalBytes, byType, document } = resources;
+      if (totalBytes <= goodBytes) return { score: 1 };
+
+      const heaviest = Object.entries(byType).sort((a, b) => b[1] - a[1])[0];
+      return {
+        score: Math.max(0, (maxBytes - totalBytes) / (maxBytes - goodBytes)),
+        issues: [
+          {
+            text: `Homepage weighs ${formatBytes(totalBytes)} (${heaviest[0]}s ${formatBytes(heaviest[1])}) - aim for under ${formatBytes(goodBytes)}`,
+            page: document.url,
+            evidence: {
+              values: {
+                totalBytes,
+                [`${heaviest[0]}Bytes`]: heaviest[1],
+                goodBytes,
+              },
+            },
+          },
+        ],
+      };
+    },
+  },
+  {
+    // Oversized images count fully against the score, older formats half
+    id: "technical.images",
+    category: "technical",
+    title: "Image sizes and formats",
+    description:
+      "Photos straight from a camera are often several megabytes; resized WebP or AVIF images look the same at a fraction of the size.",
+    weight: 3,
+    severity: "warning",
+    effort: "medium",
+    impact: "medium",
+    network: true,
+    config: { maxImageBytes: 500 * 1024, modernFormatMinBytes: 100 * 1024 },
+    check({ resources }, { maxImageBytes, modernFormatMinBytes }) {
+      const images = resources.resources.filter(
+        (r) => r.type === "image" && r.size != null,
+      );
+      if (images.length === 0) return { score: 1 };
+
+      const page = resources.document.url;
+      const oversized = images.filter((image) => image.size > maxImageBytes);
+      const oldFormat = images.filter(
+        (image) =>
+          !oversized.includes(image) &&
+          ["jpeg", "jpg", "png", "gif", "bmp"].includes(image.format) &&
+          image.size > modernFormatMinBytes,
+      );
+
+      return {
+        score: 1 - (oversized.length + oldFormat.length / 2) / images.length,
+        issues: [
+          ...perFile(
+            oversized,
+            page,
+            (image) =>
+              `Image ${fileName(image.url)} is ${formatBytes(image.size)} - resize and compress it to under ${formatBytes(maxImageBytes)}`,
+          ),
+          ...perFile(
+            oldFormat,
+            page,
+            (image) =>
+              `Image ${fileName(image.url)} is a ${formatBytes(image.size)} ${image.format.toUpperCase()} - WebP or AVIF would be much smaller`,
+            "info",
+          ),
+        ],
+      };
+    },
+  },
+  {
+    id: "technical.render-blocking",
+    category: "technical",
+    title: "Render-blocking scripts",
+    description:
+      "Scripts in the page head without async or defer keep the screen blank until they have downloaded and run.",
+    weight: 2,
+    severity: "warning",
+    effort: "medium",
+    impact: "low",
+    config: { maxBlocking: 2 },
+    check({ resources }, { maxBlocking }) {
+      const blocking = resources.resources.filter((r) => r.renderBlocking);
+      return {
+        score: Math.max(0, 1 - blocking.length / (maxBlocking + 1)),
+        issues: perFile(
+          blocking,
+          resources.document.url,
+          (script) =>
+            `Script ${fileName(script.url)} in <head> blocks rendering - add defer or async`,
+        ),
+      };
+    },
+  },
+  {
+    // Third-party files are left out; their servers aren't the site's to fix
+    id: "technical.compression",
+    category: "technical",
+    title: "Compression",
+    description:
+      "Gzip or Brotli shrinks HTML, CSS and JavaScript by two thirds or more at no cost to visitors.",
+    weight: 2,
+    severity: "warning",
+    effort: "low",
+    impact: "low",
+    network: true,
+    config: { minBytes: 1024 },
+    check({ resources }, { minBytes }) {
+      const { document } = resources;
+      const files = resources.resources.filter(
+        (r) =>
+          TEXT_TYPES.includes(r.type) && !r.thirdParty && r.size > minBytes,
+      );
+      const uncompressed = files.filter((file) => !file.encoding);
+      const documentUncompressed =
+        document.size > minBytes && !document.encoding;
+
+      const checked = files.length + (document.size != null ? 1 : 0);
+      if (checked === 0) return { score: 1 };
+
+      const issues = perFile(
+        uncompressed,
+        document.url,
+        (file) =>
+          `${fileName(file.url)} (${formatBytes(file.size)}) is sent uncompressed - enable gzip or Brotli on the server`,
+      );
+      if (documentUncompressed) {
+        issues.unshift({
+          key: "document",
+          text: "Page HTML is sent uncompressed - enable gzip or Brotli on the server",
+          page: document.url,
+          evidence: { url: document.url, values: { bytes: document.size } },
+        });
+      }
+
+      return {
+        score:
+          1 - (uncompressed.length + (documentUncompressed ? 1 : 0)) / checked,
+        issues,
+      };
+    },
+  },
+  {
+    id: "technical.caching",
+    category: "technical",
+    title: "Browser caching",
+    description:
+      "Cache headers let returning visitors reuse images, styles and scripts instead of downloading them again.",
+    weight: 1,
+    severity: "info",
+    effort: "low",
+    impact: "low",
+    network: true,
+    check({ resources }) {
+      const files = resources.resources.filter(
+        (r) => !r.thirdParty && r.size != null && r.status < 400,
+      );
+      if (files.length === 0) return { score: 1 };
+
+      const uncached = files.filter((file) => !file.cacheable);
+      return {
+        score: 1 - uncached.length / files.length,
+        issues: perFile(
+          uncached,
+          resources.document.url,
+          (file) =>
+            `${fileName(file.url)} has no caching headers - set Cache-Control max-age`,
+        ),
+      };
+    },
+  },
+  {
+    // http -> https is one expected hop; anything more is waiting for nothing
+    id: "technical.redirects",
+    category: "technical",
+    title: "Redirect chain",
+    description:
+      "Each redirect is another round trip before the page starts loading.",
+    weight: 1,
+    severity: "info",
+    effort: "low",
+    impact: "low",
+    network: true,
+    config: { maxRedirects: 1 },
+    check({ resources }, { maxRedirects }) {
+      const { redirects, url } = resources.document;
+      if (redirects.length <= maxRedirects) return { score: 1 };
+
+      const chain = [...redirects.map((hop) => hop.from), url].join(" > ");
+      return {
+        score: 0,
+        issues: [
+          {
+            text: `Homepage redirects ${redirects.length} times (${chain}) - link straight to the final address`,
+            page: url,
+            evidence: {
+              url: redirects[0].from,
+              values: { redirects: redirects.length, maxRedirects },
+            },
+          },
+        ],
+      };
+    },
+  },
+  {
+    id: "technical.ttfb",
+    category: "technical",
+    title: "Server response time",
+    description:
+      "Time to first byte is how long the server takes to start answering; slow hosting or an overloaded plugin stack delays everything after it.",
+    weight: 2,
+    severity: "warning",
+    effort: "high",
+    impact: "medium",
+    network: true,
+    config: { goodMs: 800, slowMs: 1800 },
+    check({ resources }, { goodMs, slowMs }) {
+      const { ttfb, url } = resources.document;
+      if (ttfb == null || ttfb <= goodMs) return { score: 1 };
+
+      return {
+        score: ttfb >= slowMs ? 0 : 0.5,
+        issues: [
+          {
+            text: `Server took ${(ttfb / 1000).toFixed(1)}s to respond (time to first byte) - aim for under ${(goodMs / 1000).toFixed(1)}s`,
+            page: url,
+            evidence: { values: { ttfb, goodMs } },
+          },
+        ],
+      };
+    },
+  },
+];
@@ -0,0 +1,104 @@
+// ===== USABILITY RULES (25 points) =====
+
+// Ordering and reservation vendors detected by their links and widgets
+function usesVendor(stack, category) {
+  return stack.technologies.some((tech) => tech.category === category);
+}
+
+module.exports = [
+  {
+    id: "usability.online-ordering",
+    category: "usability",
+    title: "Online ordering",
+    description:
+      "Online ordering lets guests order for pickup or delivery straight from the site instead of a third-party app.",
+    weight: 8,
+    severity: "error",
+    effort: "high",
+    impact: "high",
+    check({ foundOn, stack }) {
+      return foundOn("ordering") || usesVendor(stack, "ordering")
+        ? { score: 1 }
+        : {
+            score: 0,
+            issues: [
+              {
+                text: "No online ordering option found - you're losing sales!",
+              },
+            ],
+          };
+    },
+  },
+  {
+    id: "usability.reservations",
+    category: "usability",
+    title: "Reservations",
+    description:
+      "An online booking option turns visitors into guests without a phone call.",
+    weight: 5,
+    severity: "info",
+    effort: "medium",
+    impact: "medium",
+    check({ foundOn, stack }) {
+      return foundOn("reservation") || usesVendor(stack, "reservations")
+        ? { score: 1 }
+        : { score: 0, issues: [{ text: "No reservation system detected" }] };
+    },
+  },
+  {
+    id: "usability.social-links",
+    category: "usability",
+    title: "Social media links",
+    description:
+      "Social profiles show recent photos and reviews and keep guests following the restaurant.",
+    weight: 4,
+    severity: "warning",
+    effort: "low",
+    impact: "low",
+    check({ foundOn }) {
+      return foundOn("social")
+        ? { score: 1 }
+        : { score: 0, issues: [{ text: "No social media links found" }] };
+    },
+  },
+  {
+    id: "usability.clickable-phone",
+    category: "usability",
+    title: "Click-to-call phone",
+    description:
+      "On a phone, a tel: link calls the restaurant with one tap instead of copying the number.",
+    weight: 4,
+    severity: "warning",
+    effort: "low",
+    impact: "medium",
+    check({ foundOn }) {
+      if (foundOn("clickablePhone")) return { score: 1 };
+
+      // Without any phone number the content rule already reports it
+      const phonePage = foundOn("phone");
+      return phonePage
+        ? {
+            score: 0,
+            issues: [
+              { text: "Phone number not clickable on mobile", page: phonePage },
+            ],
+          }
+        : { score: 0, causedBy: "content.phone" };
+    },
+  },
+  {
+    id: "usability.maps",
+    category: "usability",
+    title: "Google Maps",
+    description: "An embedded map or directions link gets guests to the door.",
+    weight: 4,
+    severity: "info",
+    effort: "low",
+    impact: "medium",
+    check({ foundOn }) {
+      return foundOn("maps")
+        ? { score: 1 }
+        : { score: 0, issues: [{ text: "Consider embedding Google Maps" }] };
+    },
+  },
+];
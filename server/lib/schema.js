@@ -0,0 +1,108 @@
+// Checks a value against the subset of JSON Schema used for AI answers
+// (./insights) and API requests (./api): type (one or a list, including
+// "integer" and "null"), enum, anyOf, $ref to `components`, properties,
+// required, additionalProperties, items, minItems, maxItems, minLength,
+// maxLength, minimum and maximum. Returns a list of problems, empty when
+// the value matches; they are sent back to the model to repair, or to API
+// callers.
+function validateSchema(value, schema, at = "response", components = {}) {
+  if (schema.$ref) {
+    const name = schema.$ref.split("/").pop();
+    return validateSchema(value, components[name], at, components);
+  }
+
+  if (schema.anyOf) {
+    const results = schema.anyOf.map((option) =>
+      validateSchema(value, option, at, components),
+    );
+    if (results.some((errors) => errors.length === 0)) return [];
+    // The closest option explains the problem best
+    return results.reduce((best, errors) =>
+      errors.length < best.length ? errors : best,
+    );
+  }
+
+  const actual = typeOf(value);
+  const types = [].concat(schema.type || []);
+  if (
+    types.length > 0 &&
+    !types.includes(actual) &&
+    !(actual === "integer" && types.includes("number"))
+  ) {
+    return [`${at} must be ${types.map(article).join(" or ")}, got ${actual}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [
+      `${at} must be one of ${schema.enum.map((item) => JSON.stringify(item)).join(", ")}`,
+    ];
+  }
+
+  const errors = [];
+  if (actual === "object") {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) errors.push(`${at}.${key} is missing`);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const property =
+        schema.properties?.[key] ??
+        (typeof schema.additionalProperties === "object"
+          ? schema.additionalProperties
+          : null);
+      if (property) {
+        errors.push(
+          ...validateSchema(item, property, `${at}.${key}`, components),
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}.${key} is not allowed`);
+      }
+    }
+  }
+  if (actual === "array") {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at} needs at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at} allows at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) =>
+        errors.push(
+          ...validateSchema(item, schema.items, `${at}[${i}]`, components),
+        ),
+      );
+    }
+  }
+  if (actual === "string") {
+    if (
+      schema.minLength !== undefined &&
+      value.trim().length < schema.minLength
+    ) {
+      errors.push(`${at} needs at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${at} allows at most ${schema.maxLength} characters`);
+    }
+  }
+  if (actual === "number" || actual === "integer") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${at} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at} must be at most ${schema.maximum}`);
+    }
+  }
+  return errors;
+}
+
+function typeOf(value) {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  if (Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function article(type) {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+module.exports = { validateSchema };
@@ -0,0 +1,192 @@
+const tls = require("tls");
+const { fetchCertificate, fetchRedirects } = require("./fetcher");
+
+// Certificate, HTTP-to-HTTPS redirect, security headers, and insecure
+// subresources and forms of the audited site.
+
+const PROBE_TIMEOUT_MS = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// OpenSSL codes for certificates nobody vouches for
+const SELF_SIGNED_ERRORS = [
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+];
+
+// Subresources loaded over http:// on an HTTPS page. Browsers block the
+// active ones outright; images and media are upgraded or shown with a
+// "not secure" warning.
+const MIXED_CONTENT = [
+  { selector: "script[src]", attr: "src", kind: "script", active: true },
+  {
+    selector: "link[rel~='stylesheet'][href]",
+    attr: "href",
+    kind: "stylesheet",
+    active: true,
+  },
+  { selector: "iframe[src]", attr: "src", kind: "embedded page", active: true },
+  {
+    selector: "embed[src]",
+    attr: "src",
+    kind: "embedded object",
+    active: true,
+  },
+  {
+    selector: "object[data]",
+    attr: "data",
+    kind: "embedded object",
+    active: true,
+  },
+  { selector: "img[src]", attr: "src", kind: "image", active: false },
+  {
+    selector: "video[src], audio[src], source[src]",
+    attr: "src",
+    kind: "media file",
+    active: false,
+  },
+];
+
+function describeCertificate(hostname, result) {
+  const { authorized, authorizationError, protocol, certificate } = result;
+  if (!certificate) return { error: "NO_CERTIFICATE" };
+
+  const validFrom = new Date(certificate.valid_from);
+  const validTo = new Date(certificate.valid_to);
+  return {
+    subject: certificate.subject?.CN || null,
+    issuer: certificate.issuer?.O || certificate.issuer?.CN || null,
+    validFrom: validFrom.toISOString(),
+    validTo: validTo.toISOString(),
+    daysLeft: Math.floor((validTo - Date.now()) / DAY_MS),
+    expired: validTo < Date.now(),
+    notYetValid: validFrom > Date.now(),
+    selfSigned: SELF_SIGNED_ERRORS.includes(authorizationError),
+    hostnameMatch: !tls.checkServerIdentity(hostname, certificate),
+    trusted: authorized,
+    error: authorizationError,
+    protocol,
+  };
+}
+
+// The certificate of the homepage's host and where its http:// address
+// leads. An http:// homepage is its own answer: it didn't end on HTTPS.
+async function fetchSecurity(page) {
+  const { hostname, port, protocol } = new URL(page.url);
+  const httpUrl = `http://${hostname}/`;
+
+  const [certificate, httpRedirect] = await Promise.all([
+    fetchCertificate(hostname, {
+      port: protocol === "https:" && port ? Number(port) : 443,
+      timeout: PROBE_TIMEOUT_MS,
+    }).then(
+      (result) => describeCertificate(hostname, result),
+      (error) => ({ error: error.code || error.message }),
+    ),
+    protocol === "http:"
+      ? { url: page.url, finalUrl: page.url, redirectsToHttps: false }
+      : fetchRedirects(httpUrl, { timeout: PROBE_TIMEOUT_MS }).then(
+          (result) => ({
+            url: httpUrl,
+            finalUrl: result.url,
+            redirectsToHttps: result.url.startsWith("https:"),
+          }),
+          (error) => ({
+            url: httpUrl,
+            error: error.code || error.message,
+            redirectsToHttps: false,
+          }),
+        ),
+  ]);
+
+  console.log(
+    `🔒 Certificate: ${certificate.error || `valid until ${certificate.validTo.slice(0, 10)}`}; http:// ${httpRedirect.redirectsToHttps ? "redirects" : "doesn't redirect"} to https://`,
+  );
+  return { certificate, httpRedirect };
+}
+
+// Strict-Transport-Security: max-age=31536000; includeSubDomains; preload
+function parseHsts(value) {
+  if (!value) return null;
+  const maxAge = String(value).match(/max-age\s*=\s*"?(\d+)/i);
+  return {
+    maxAge: maxAge ? Number(maxAge[1]) : 0,
+    includeSubDomains: /includesubdomains/i.test(value),
+    preload: /preload/i.test(value),
+  };
+}
+
+function findMixedContent(page) {
+  const found = [];
+  for (const { selector, attr, kind, active } of MIXED_CONTENT) {
+    page.$(selector).each((_, el) => {
+      const url = (page.$(el).attr(attr) || "").trim();
+      if (/^http:\/\//i.test(url) && !found.some((item) => item.url === url)) {
+        found.push({ page: page.url, url, kind, active });
+      }
+    });
+  }
+  return found;
+}
+
+// Forms whose data is sent over http://, either to an explicit http://
+// address or from an http:// page
+function findInsecureForms(page) {
+  const forms = [];
+  page.$("form").each((_, el) => {
+    const $form = page.$(el);
+    let action;
+    try {
+      action = new URL($form.attr("action") || "", page.url);
+    } catch {
+      return;
+    }
+    if (action.protocol !== "http:") return;
+    forms.push({
+      page: page.url,
+      action: action.toString(),
+      password: $form.find("input[type='password']").length > 0,
+    });
+  });
+  return forms;
+}
+
+// Security facts for the rules in ./rules/security. `probe` is the result
+// of fetchSecurity; headers come from the homepage response.
+function analyzeSecurity(pages, probe = {}) {
+  const homepage = pages[0];
+  const headers = homepage.headers || {};
+  const https = homepage.url.startsWith("https:");
+  const cspHeader = String(headers["content-security-policy"] || "");
+  const cspMeta = homepage
+    .$("meta[http-equiv]")
+    .filter(
+      (_, el) =>
+        homepage.$(el).attr("http-equiv").toLowerCase() ===
+        "content-security-policy",
+    )
+    .attr("content");
+
+  return {
+    https,
+    certificate: probe.certificate || null,
+    httpRedirect: probe.httpRedirect || null,
+    hsts: https ? parseHsts(headers["strict-transport-security"]) : null,
+    headers: {
+      contentSecurityPolicy: Boolean(cspHeader || cspMeta),
+      contentTypeOptions: /nosniff/i.test(
+        String(headers["x-content-type-options"] || ""),
+      ),
+      // frame-ancestors only works in the header, not a meta tag
+      frameOptions:
+        /^(deny|sameorigin)$/i.test(
+          String(headers["x-frame-options"] || "").trim(),
+        ) || /frame-ancestors/i.test(cspHeader),
+    },
+    mixedContent: pages.flatMap((page) =>
+      page.url.startsWith("https:") ? findMixedContent(page) : [],
+    ),
+    insecureForms: pages.flatMap(findInsecureForms),
+  };
+}
+
+module.exports = { analyzeSecurity, fetchSecurity };
@@ -0,0 +1,54 @@
+const { menuPatterns } = require("./menu");
+
+// Content and usability signals found on a single page, in the words of the
+// site's locale pack (`signals` and `menu` sections, see ./locale). Hours,
+// address and phone number come from the business details extraction
+// (./business).
+function detectSignals($, bodyText, locale) {
+  const words = locale.signals;
+  const menuNames = menuPatterns(locale.menu).names;
+  const mentions = ({ text }) => text.some((word) => bodyText.includes(word));
+  const linksTo = ({ links }) =>
+    $("a[href]").filter((_, el) => {
+      const href = $(el).attr("href").toLowerCase();
+      return links.some((word) => href.includes(word));
+    }).length > 0;
+
+  return {
+    menu:
+      mentions(words.menu) ||
+      linksTo(words.menu) ||
+      $("img[alt]").filter((_, el) => {
+        const alt = $(el).attr("alt").toLowerCase();
+        return words.menu.text.some((word) => alt.includes(word));
+      }).length > 0,
+    // Only PDFs that look like menus, not privacy policies or job ads
+    pdfMenu:
+      $('a[href$=".pdf" i]').filter((_, el) =>
+        menuNames.test(`${$(el).attr("href")} ${$(el).text()}`),
+      ).length > 0,
+    clickablePhone: $('a[href^="tel:"]').length > 0,
+    ordering:
+      mentions(words.ordering) ||
+      linksTo(words.ordering) ||
+      $('a[href*="doordash"]').length > 0 ||
+      $('a[href*="ubereats"]').length > 0 ||
+      $('a[href*="grubhub"]').length > 0,
+    reservation:
+      mentions(words.reservation) ||
+      linksTo(words.reservation) ||
+      $('a[href*="opentable"]').length > 0 ||
+      $('a[href*="resy"]').length > 0,
+    social:
+      $('a[href*="facebook.com"]').length > 0 ||
+      $('a[href*="instagram.com"]').length > 0 ||
+      $('a[href*="twitter.com"]').length > 0 ||
+      $('a[href*="tiktok.com"]').length > 0,
+    maps:
+      $('iframe[src*="google.com/maps"]').length > 0 ||
+      $('a[href*="maps.google"]').length > 0 ||
+      $('a[href*="goo.gl/maps"]').length > 0,
+  };
+}
+
+module.exports = { detectSignals };
@@ -0,0 +1,30 @@
+// Server-Sent Events over a plain Express response. Writes after the client
+// has disconnected are dropped, so long-running work can finish regardless.
+function openEventStream(res) {
+  let open = true;
+  res.on("close", () => {
+    open = false;
+  });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stop nginx and similar proxies from holding events back
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  return {
+    send(event, data) {
+      if (!open) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (open) res.end();
+      open = false;
+    },
+  };
+}
+
+module.exports = { openEventStream };
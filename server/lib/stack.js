@@ -0,0 +1,238 @@
+const fs = require("fs");
+const path = require("path");
+
+// Signatures live in server/signatures/*.json; every file is a list of
+//
+//   {
+//     "name": "Squarespace",
+//     "category": "builder",
+//     "website": "https://www.squarespace.com",
+//     "meta": { "generator": "..." },     // <meta name/property> content
+//     "headers": { "server": "..." },     // response header, "" = present
+//     "scripts": ["static1\\.squarespace\\.com"],  // <script src>
+//     "urls": ["..."],                    // links, iframes, forms, stylesheets
+//     "html": ["..."],                    // anywhere in the markup
+//     "guidance": { "seo.meta-description": "Where to fix it" }
+//   }
+//
+// Patterns are case-insensitive regular expressions; a capture group in a
+// pattern is reported as the version. Add a file to extend the database.
+const SIGNATURES_DIR = path.resolve(__dirname, "../signatures");
+
+const STACK_CATEGORIES = [
+  "builder",
+  "ordering",
+  "reservations",
+  "analytics",
+  "tag-manager",
+  "chat",
+  "cookie-consent",
+];
+
+// Evidence quoted per technology
+const MAX_EVIDENCE = 3;
+
+let signatures = null;
+
+function compile(pattern, where) {
+  try {
+    return new RegExp(pattern, "i");
+  } catch (error) {
+    throw new Error(`Invalid pattern in ${where}: ${error.message}`);
+  }
+}
+
+function compileSignature(signature, file) {
+  const where = `${file} (${signature.name})`;
+  if (!signature.name || !STACK_CATEGORIES.includes(signature.category)) {
+    throw new Error(
+      `Signatures in ${file} need a name and one of: ${STACK_CATEGORIES.join(", ")}`,
+    );
+  }
+
+  const compileMap = (map = {}) =>
+    Object.entries(map).map(([key, pattern]) => [
+      key.toLowerCase(),
+      compile(pattern, where),
+    ]);
+  const compileList = (list = []) => list.map((p) => compile(p, where));
+
+  return {
+    name: signature.name,
+    category: signature.category,
+    website: signature.website || null,
+    guidance: signature.guidance || {},
+    meta: compileMap(signature.meta),
+    headers: compileMap(signature.headers),
+    scripts: compileList(signature.scripts),
+    urls: compileList(signature.urls),
+    html: compileList(signature.html),
+  };
+}
+
+// Read once; the database is only changed by deploying new files
+function loadSignatures() {
+  if (!signatures) {
+    signatures = fs
+      .readdirSync(SIGNATURES_DIR)
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .flatMap((file) =>
+        JSON.parse(
+          fs.readFileSync(path.join(SIGNATURES_DIR, file), "utf8"),
+        ).map((signature) => compileSignature(signature, file)),
+      );
+  }
+  return signatures;
+}
+
+function shorten(text) {
+  return text.length > 80 ? `${text.slice(0, 80)}...` : text;
+}
+
+// What one page exposes to the signatures
+function collectSources(page) {
+  const { $ } = page;
+  const attrs = (selector, attr) =>
+    $(selector)
+      .toArray()
+      .map((el) => $(el).attr(attr))
+      .filter(Boolean);
+
+  const meta = {};
+  $("meta[name], meta[property]").each((_, el) => {
+    const key = ($(el).attr("name") || $(el).attr("property")).toLowerCase();
+    meta[key] = $(el).attr("content") || "";
+  });
+
+  const headers = {};
+  for (const [key, value] of Object.entries(page.headers || {})) {
+    headers[key.toLowerCase()] = [].concat(value).join("; ");
+  }
+
+  return {
+    meta,
+    headers,
+    scripts: attrs("script[src]", "src"),
+    urls: [
+      ...attrs("a[href]", "href"),
+      ...attrs("iframe[src]", "src"),
+      ...attrs("form[action]", "action"),
+      ...attrs("link[href]", "href"),
+    ],
+    html: $.html(),
+  };
+}
+
+// Evidence for one signature on one page, with a version when a pattern
+// captured one
+function matchSignature(signature, sources) {
+  const evidence = [];
+  let version = null;
+
+  const found = (match, text) => {
+    if (evidence.includes(shorten(text))) return;
+    evidence.push(shorten(text));
+    if (!version && match[1]) version = match[1];
+  };
+
+  for (const [key, pattern] of signature.meta) {
+    const match = sources.meta[key]?.match(pattern);
+    if (match) found(match, `meta ${key}: ${sources.meta[key]}`);
+  }
+  for (const [key, pattern] of signature.headers) {
+    const match = sources.headers[key]?.match(pattern);
+    if (match) found(match, `header ${key}`);
+  }
+  for (const pattern of signature.scripts) {
+    const src = sources.scripts.find((s) => pattern.test(s));
+    if (src) found(src.match(pattern), `script ${src}`);
+  }
+  for (const pattern of signature.urls) {
+    const url = sources.urls.find((u) => pattern.test(u));
+    if (url) found(url.match(pattern), `link ${url}`);
+  }
+  for (const pattern of signature.html) {
+    const match = sources.html.match(pattern);
+    if (match) found(match, `markup "${match[0]}"`);
+  }
+
+  return evidence.length ? { evidence, version } : null;
+}
+
+// Site builder, ordering and reservation vendors, analytics, tag managers,
+// chat widgets and cookie banners found across the crawled pages. The
+// builder is the one with the most evidence when several match.
+function detectStack(pages) {
+  const detected = new Map();
+
+  for (const page of pages) {
+    const sources = collectSources(page);
+
+    for (const signature of loadSignatures()) {
+      const match = matchSignature(signature, sources);
+      if (!match) continue;
+
+      const entry = detected.get(signature.name);
+      if (entry) {
+        for (const item of match.evidence) {
+          if (!entry.evidence.includes(item)) entry.evidence.push(item);
+        }
+        entry.version = entry.version || match.version;
+      } else {
+        detected.set(signature.name, {
+          name: signature.name,
+          category: signature.category,
+          website: signature.website,
+          version: match.version,
+          page: page.url,
+          evidence: match.evidence,
+          guidance: signature.guidance,
+        });
+      }
+    }
+  }
+
+  const technologies = [...detected.values()].sort(
+    (a, b) =>
+      STACK_CATEGORIES.indexOf(a.category) -
+        STACK_CATEGORIES.indexOf(b.category) ||
+      b.evidence.length - a.evidence.length ||
+      a.name.localeCompare(b.name),
+  );
+
+  return {
+    builder: technologies.find((tech) => tech.category === "builder") || null,
+    technologies,
+  };
+}
+
+// Platform-specific advice for fixing a rule's issues, preferring the
+// site builder over other detected vendors. Builders that only matched
+// as runners-up (e.g. a leftover generator tag) give no advice.
+function guidanceFor(stack, ruleId) {
+  const tech = stack.technologies.find(
+    (t) =>
+      t.guidance[ruleId] && (t.category !== "builder" || t === stack.builder),
+  );
+  return tech ? { platform: tech.name, text: tech.guidance[ruleId] } : null;
+}
+
+// The stack as returned in the report, without the guidance table
+function summarizeStack(stack) {
+  const strip = ({ guidance, ...tech }) => ({
+    ...tech,
+    evidence: tech.evidence.slice(0, MAX_EVIDENCE),
+  });
+  return {
+    builder: stack.builder && strip(stack.builder),
+    technologies: stack.technologies.map(strip),
+  };
+}
+
+module.exports = {
+  STACK_CATEGORIES,
+  detectStack,
+  guidanceFor,
+  summarizeStack,
+};
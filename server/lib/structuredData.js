@@ -0,0 +1,364 @@
+// Schema.org extraction (JSON-LD, Microdata, RDFa) and validation of the
+// Restaurant/LocalBusiness entity Google uses for rich results.
+
+const RESTAURANT_TYPES = [
+  "Restaurant",
+  "FoodEstablishment",
+  "LocalBusiness",
+  "CafeOrCoffeeShop",
+  "BarOrPub",
+  "Bakery",
+  "Brewery",
+  "Distillery",
+  "FastFoodRestaurant",
+  "IceCreamShop",
+  "Winery",
+];
+
+const DAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+  "PublicHolidays",
+];
+
+// "http://schema.org/Restaurant" and "schema:Restaurant" both mean Restaurant
+function normalizeType(type) {
+  return String(type)
+    .trim()
+    .replace(/^.*[/:#]/, "");
+}
+
+function typesOf(node) {
+  const type = node?.["@type"];
+  if (!type) return [];
+  return (Array.isArray(type) ? type : [type]).map(normalizeType);
+}
+
+function asArray(value) {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isNonEmptyString(value) {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+// ===== EXTRACTION =====
+
+// Flatten JSON-LD documents, arrays and @graph containers into a node list
+function collectJsonLdNodes(value, nodes = []) {
+  for (const item of asArray(value)) {
+    if (!item || typeof item !== "object") continue;
+    if (item["@graph"]) collectJsonLdNodes(item["@graph"], nodes);
+    if (item["@type"]) nodes.push(item);
+  }
+  return nodes;
+}
+
+function parseJsonLd($) {
+  const nodes = [];
+  const errors = [];
+
+  $('script[type="application/ld+json"]').each((i, el) => {
+    const raw = $(el).html()?.trim() || "";
+    if (!raw) {
+      errors.push(`JSON-LD block ${i + 1} is empty`);
+      return;
+    }
+    try {
+      collectJsonLdNodes(JSON.parse(raw), nodes);
+    } catch (error) {
+      errors.push(
+        `JSON-LD block ${i + 1} is not valid JSON (${error.message})`,
+      );
+    }
+  });
+
+  return { nodes, errors };
+}
+
+function addProperty(item, name, value) {
+  if (name in item) {
+    item[name] = [...asArray(item[name]), value];
+  } else {
+    item[name] = value;
+  }
+}
+
+// Value of a microdata/RDFa property element, following the HTML rules for
+// which attribute carries the value
+function propertyValue($, el) {
+  const $el = $(el);
+  const tag = el.tagName?.toLowerCase();
+
+  if ($el.attr("content") !== undefined) return $el.attr("content");
+  if (["a", "link", "area"].includes(tag)) return $el.attr("href");
+  if (["img", "audio", "video", "source", "iframe", "embed"].includes(tag)) {
+    return $el.attr("src");
+  }
+  if (tag === "time" && $el.attr("datetime")) return $el.attr("datetime");
+  if (tag === "meta") return $el.attr("content") || "";
+  return $el.text().replace(/\s+/g, " ").trim();
+}
+
+// Shared walker for Microdata and RDFa, which only differ in attribute names
+function readItem($, root, attrs) {
+  const item = { "@type": ($(root).attr(attrs.type) || "").split(/\s+/)[0] };
+
+  const walk = (parent) => {
+    $(parent)
+      .children()
+      .each((_, child) => {
+        const $child = $(child);
+        const names = ($child.attr(attrs.prop) || "")
+          .split(/\s+/)
+          .filter(Boolean);
+        const isItem = $child.is(attrs.scope);
+
+        for (const name of names) {
+          addProperty(
+            item,
+            normalizeType(name),
+            isItem ? readItem($, child, attrs) : propertyValue($, child),
+          );
+        }
+
+        // Nested items own their own properties
+        if (!isItem) walk(child);
+      });
+  };
+
+  walk(root);
+  return item;
+}
+
+function parseMicrodata($) {
+  const attrs = { scope: "[itemscope]", type: "itemtype", prop: "itemprop" };
+  return $("[itemscope][itemtype]")
+    .filter((_, el) => $(el).attr("itemprop") === undefined)
+    .map((_, el) => readItem($, el, attrs))
+    .get();
+}
+
+function parseRdfa($) {
+  const attrs = { scope: "[typeof]", type: "typeof", prop: "property" };
+  return $("[typeof]")
+    .filter((_, el) => $(el).attr("property") === undefined)
+    .map((_, el) => readItem($, el, attrs))
+    .get();
+}
+
+// All Schema.org items on a page, tagged with the syntax they came from
+function extractStructuredData($) {
+  const jsonLd = parseJsonLd($);
+  const items = [
+    ...jsonLd.nodes.map((node) => ({ source: "json-ld", node })),
+    ...parseMicrodata($).map((node) => ({ source: "microdata", node })),
+    ...parseRdfa($).map((node) => ({ source: "rdfa", node })),
+  ];
+
+  return { items, errors: jsonLd.errors };
+}
+
+function findRestaurantEntity(items) {
+  // Prefer the most specific type, so a Restaurant beats a bare LocalBusiness
+  for (const type of RESTAURANT_TYPES) {
+    const match = items.find((item) => typesOf(item.node).includes(type));
+    if (match) return match;
+  }
+  return null;
+}
+
+// ===== VALIDATION =====
+
+// Each validator returns null when the value is fine, otherwise a problem
+// description. Missing values are handled before validators run.
+const FIELD_VALIDATORS = {
+  name: (value) =>
+    isNonEmptyString(value) ? null : "should be a non-empty text value",
+
+  address: (value) => {
+    const address = asArray(value)[0];
+    if (typeof address === "string") {
+      return "is plain text - use a PostalAddress with streetAddress, addressLocality and postalCode";
+    }
+    if (!address || typeof address !== "object") {
+      return "should be a PostalAddress";
+    }
+    if (address["@type"] && !typesOf(address).includes("PostalAddress")) {
+      return `has type ${typesOf(address).join(", ")} instead of PostalAddress`;
+    }
+    const missing = ["streetAddress", "addressLocality", "postalCode"].filter(
+      (field) => !isNonEmptyString(String(address[field] ?? "")),
+    );
+    return missing.length ? `is missing ${missing.join(", ")}` : null;
+  },
+
+  telephone: (value) => {
+    const digits = String(asArray(value)[0] ?? "").replace(/\D/g, "");
+    return digits.length >= 7 ? null : "doesn't look like a phone number";
+  },
+
+  openingHoursSpecification: (value, entity) => {
+    const specs = asArray(value);
+    if (specs.length === 0) {
+      // The simpler openingHours text form is also accepted by Google
+      const text = asArray(entity.openingHours).join(" ");
+      return /(mo|tu|we|th|fr|sa|su)[a-z]*.*\d{1,2}:\d{2}/i.test(text)
+        ? null
+        : "should list days with opens/closes times";
+    }
+    for (const spec of specs) {
+      if (!spec || typeof spec !== "object") {
+        return "should be OpeningHoursSpecification objects";
+      }
+      const days = asArray(spec.dayOfWeek).map(normalizeType);
+      if (days.length === 0 || days.some((day) => !DAYS.includes(day))) {
+        return "has a missing or unknown dayOfWeek";
+      }
+      if (
+        ![spec.opens, spec.closes].every((time) =>
+          /^\d{1,2}:\d{2}/.test(String(time ?? "")),
+        )
+      ) {
+        return "needs opens and closes times in HH:MM format";
+      }
+    }
+    return null;
+  },
+
+  servesCuisine: (value) =>
+    asArray(value).some(isNonEmptyString)
+      ? null
+      : "should name at least one cuisine",
+
+  menu: (value) => {
+    const menu = asArray(value)[0];
+    if (isNonEmptyString(menu)) {
+      return /^(https?:)?\/\//.test(menu) || menu.startsWith("/")
+        ? null
+        : "should be a URL to the menu";
+    }
+    if (menu && typeof menu === "object" && (menu.url || menu.hasMenuSection)) {
+      return null;
+    }
+    return "should be a menu URL or a Menu with sections";
+  },
+
+  priceRange: (value) => {
+    const range = asArray(value)[0];
+    if (!isNonEmptyString(range)) return "should be text like $$ or €10-25";
+    return range.length > 100 ? "is longer than 100 characters" : null;
+  },
+
+  geo: (value) => {
+    const geo = asArray(value)[0];
+    if (!geo || typeof geo !== "object") {
+      return "should be GeoCoordinates with latitude and longitude";
+    }
+    const lat = parseFloat(geo.latitude);
+    const lng = parseFloat(geo.longitude);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+      return "needs numeric latitude and longitude";
+    }
+    return Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+      ? null
+      : "has coordinates out of range";
+  },
+
+  acceptsReservations: (value) => {
+    const accepts = asArray(value)[0];
+    if (typeof accepts === "boolean") return null;
+    return /^(true|false|yes|no|https?:\/\/.+)$/i.test(String(accepts).trim())
+      ? null
+      : "should be true, false or a booking URL";
+  },
+};
+
+// Fields in the order they're reported, with how bad a gap is
+const RESTAURANT_FIELDS = [
+  { field: "name", severity: "warning" },
+  { field: "address", severity: "warning" },
+  { field: "telephone", severity: "warning" },
+  { field: "openingHoursSpecification", severity: "warning" },
+  { field: "servesCuisine", severity: "info" },
+  { field: "menu", aliases: ["hasMenu"], severity: "info" },
+  { field: "priceRange", severity: "info" },
+  { field: "geo", severity: "info" },
+  { field: "acceptsReservations", severity: "info" },
+];
+
+function fieldValue(entity, { field, aliases = [] }) {
+  for (const name of [field, ...aliases]) {
+    if (entity[name] !== undefined && entity[name] !== "") return entity[name];
+  }
+  // openingHours alone is validated under openingHoursSpecification
+  if (field === "openingHoursSpecification" && entity.openingHours) return [];
+  return undefined;
+}
+
+// Field-level report for a Restaurant/LocalBusiness entity
+function validateRestaurantEntity(entity) {
+  return RESTAURANT_FIELDS.map((spec) => {
+    const value = fieldValue(entity, spec);
+    if (value === undefined) {
+      return { ...spec, status: "missing" };
+    }
+    const problem = FIELD_VALIDATORS[spec.field](value, entity);
+    return problem
+      ? { ...spec, status: "invalid", problem }
+      : { ...spec, status: "valid" };
+  });
+}
+
+// Structured data across all crawled pages. The first page with a
+// restaurant entity wins, so the homepage is preferred when it has one.
+function analyzeStructuredData(pages) {
+  const errors = [];
+  const foundTypes = new Set();
+  let match = null;
+
+  for (const page of pages) {
+    const { items, errors: pageErrors } = extractStructuredData(page.$);
+    errors.push(...pageErrors.map((text) => ({ text, page: page.url })));
+    for (const item of items) {
+      typesOf(item.node).forEach((type) => foundTypes.add(type));
+    }
+    const entity = findRestaurantEntity(items);
+    if (entity && !match) match = { ...entity, page: page.url };
+  }
+
+  const fields = match ? validateRestaurantEntity(match.node) : [];
+
+  return {
+    errors,
+    foundTypes: [...foundTypes],
+    match,
+    fields,
+    summary: match && {
+      type: typesOf(match.node)[0],
+      source: match.source,
+      page: match.page,
+      entity: match.node,
+      fields: fields.map(({ field, status, problem }) => ({
+        field,
+        status,
+        ...(problem && { problem }),
+      })),
+    },
+  };
+}
+
+module.exports = {
+  RESTAURANT_TYPES,
+  analyzeStructuredData,
+  extractStructuredData,
+  findRestaurantEntity,
+  typesOf,
+  validateRestaurantEntity,
+};
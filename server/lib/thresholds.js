@@ -0,0 +1,81 @@
+const { CATEGORIES, SEVERITIES } = require("./rules");
+
+// Pass/fail gates on a report for CI pipelines (../cli.js). `thresholds` is
+//
+//   {
+//     minScore?,                 // overall score out of 100
+//     categories?: { seo: 80 },  // percentage per category
+//     failOn?: "warning",        // any issue of this severity or worse
+//     requireChecks?: ["technical.viewport"], // checks that must earn points
+//   }
+//
+// A required check fails when it scores nothing, the same as a monitor's
+// lost check: a missing viewport tag or structured data that disappeared.
+
+// Issues named in a failure before the rest are counted
+const LISTED_ISSUES = 3;
+
+function plural(count, word) {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+// The thresholds the report misses, as { threshold, message } in the order
+// above; an empty list means it passed
+function checkThresholds(report, thresholds) {
+  const failures = [];
+  const { minScore, categories = {}, failOn, requireChecks = [] } = thresholds;
+
+  if (minScore !== undefined && report.score < minScore) {
+    failures.push({
+      threshold: "score",
+      message: `Score ${report.score} is below ${minScore}`,
+    });
+  }
+
+  for (const [key, min] of Object.entries(categories)) {
+    const percentage = report.breakdown?.[key]?.percentage;
+    if (percentage !== undefined && percentage < min) {
+      failures.push({
+        threshold: key,
+        message: `${CATEGORIES[key].label} ${percentage}% is below ${min}%`,
+      });
+    }
+  }
+
+  if (failOn) {
+    const failing = SEVERITIES.slice(0, SEVERITIES.indexOf(failOn) + 1);
+    const issues = report.issues.filter((issue) =>
+      failing.includes(issue.type),
+    );
+    if (issues.length > 0) {
+      const listed = issues.slice(0, LISTED_ISSUES).map((issue) => issue.text);
+      const more = issues.length - listed.length;
+      failures.push({
+        threshold: "issues",
+        message: `${plural(issues.length, `${failOn}-level issue`)}${failOn === "error" ? "" : " or worse"}: ${listed.join("; ")}${more > 0 ? ` and ${more} more` : ""}`,
+      });
+    }
+  }
+
+  const checks = new Map(
+    (report.checks || []).map((check) => [check.rule, check]),
+  );
+  for (const rule of requireChecks) {
+    const check = checks.get(rule);
+    if (!check) {
+      failures.push({
+        threshold: rule,
+        message: `${rule} was not checked (off in this profile or not applicable)`,
+      });
+    } else if (check.weight > 0 && check.score === 0) {
+      failures.push({
+        threshold: rule,
+        message: `${rule} scored 0 of ${check.weight} points`,
+      });
+    }
+  }
+
+  return failures;
+}
+
+module.exports = { checkThresholds };
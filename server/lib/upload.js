@@ -0,0 +1,238 @@
+const AdmZip = require("adm-zip");
+const zlib = require("zlib");
+const { isValidUrl, withProtocol } = require("./urls");
+
+// Sites graded from files instead of a live URL: pasted HTML, a single HTML
+// file or a zipped static-site build. An upload becomes a source with the
+// same fetchPage and fetchFile as ./fetcher, so the crawler and the menu
+// reader work on it unchanged and links resolve inside the archive. Nothing
+// is requested over the network.
+
+// Where the pages are said to live when the upload doesn't name the site's
+// address; .invalid never resolves
+const DEFAULT_BASE_URL = "https://preview.invalid/";
+
+// Largest upload (MAX_UPLOAD_BYTES); an archive may unpack to five times that
+const DEFAULT_MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+const MAX_ARCHIVE_FILES = 2000;
+
+const HTML_FILE = /\.x?html?$/i;
+const INDEX_FILE = /(^|\/)index\.x?html?$/i;
+
+// Files zip tools add that aren't part of the site
+const IGNORED_ENTRY = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$)/;
+
+function maxUploadBytes() {
+  return parseInt(process.env.MAX_UPLOAD_BYTES, 10) || DEFAULT_MAX_UPLOAD_BYTES;
+}
+
+function uploadError(message) {
+  const error = new Error(message);
+  error.code = "INVALID_UPLOAD";
+  return error;
+}
+
+function missingError(url) {
+  const error = new Error(`${new URL(url).pathname} isn't in the upload`);
+  error.code = "NOT_IN_UPLOAD";
+  return error;
+}
+
+// Zip archives start with a local file header, "PK\x03\x04"
+function isZip(data) {
+  return (
+    Buffer.isBuffer(data) &&
+    data.length >= 4 &&
+    data.readUInt32LE(0) === 0x04034b50
+  );
+}
+
+const depth = (path) => path.split("/").length;
+
+// Zip compression methods read here
+const STORED = 0;
+const DEFLATED = 8;
+
+// An entry's bytes, inflated here with at most `maxBytes` out: adm-zip
+// only caps inflating at the size an entry claims, and not at all when it
+// claims 0 bytes
+function inflateEntry(entry, maxBytes) {
+  const { method, encrypted } = entry.header;
+  if (encrypted) throw uploadError(`${entry.entryName} is encrypted`);
+
+  const compressed = entry.getCompressedData();
+  if (method === STORED) return compressed;
+  if (method !== DEFLATED) {
+    throw uploadError(
+      `${entry.entryName} uses a compression method that can't be read`,
+    );
+  }
+  try {
+    return zlib.inflateRawSync(compressed, {
+      maxOutputLength: Math.max(1, maxBytes),
+    });
+  } catch (error) {
+    if (error.code === "ERR_BUFFER_TOO_LARGE") return null;
+    throw uploadError(`Could not unpack ${entry.entryName}: ${error.message}`);
+  }
+}
+
+// The site's files by path, relative to the folder holding its homepage.
+// Builds are often zipped with their output folder (dist/, public/, ...) on
+// top, so the shallowest index.html marks the site root.
+function readArchive(data) {
+  let zip;
+  try {
+    zip = new AdmZip(data);
+  } catch (error) {
+    throw uploadError(`Not a readable zip archive: ${error.message}`);
+  }
+
+  const entries = zip
+    .getEntries()
+    .filter(
+      (entry) => !entry.isDirectory && !IGNORED_ENTRY.test(entry.entryName),
+    )
+    .map((entry) => ({ path: entry.entryName.replace(/^\.?\/+/, ""), entry }));
+
+  if (entries.length > MAX_ARCHIVE_FILES) {
+    throw uploadError(
+      `The archive has ${entries.length} files - at most ${MAX_ARCHIVE_FILES} are read`,
+    );
+  }
+  const maxBytes = maxUploadBytes() * 5;
+  const unpacked = entries.reduce(
+    (sum, { entry }) => sum + entry.header.size,
+    0,
+  );
+  if (unpacked > maxBytes) {
+    throw uploadError(`The archive unpacks to more than ${maxBytes} bytes`);
+  }
+
+  const byDepth = (a, b) => depth(a) - depth(b) || a.localeCompare(b);
+  const htmlPaths = entries
+    .map(({ path }) => path)
+    .filter((path) => HTML_FILE.test(path))
+    .sort(byDepth);
+  const home = htmlPaths.find((path) => INDEX_FILE.test(path)) || htmlPaths[0];
+  if (!home) throw uploadError("The archive has no HTML page");
+
+  // Files are unpacked when the crawl reads them, all of them within
+  // `maxBytes` whatever sizes the archive claims
+  let remaining = maxBytes;
+  const unpack = (entry) => {
+    const data = inflateEntry(entry, remaining);
+    if (!data || data.length > remaining) {
+      remaining = 0;
+      throw uploadError(`The archive unpacks to more than ${maxBytes} bytes`);
+    }
+    remaining -= data.length;
+    return data;
+  };
+
+  const root = home.slice(0, home.lastIndexOf("/") + 1);
+  const files = new Map();
+  for (const { path, entry } of entries) {
+    if (!path.startsWith(root)) continue;
+    let data = null;
+    files.set(path.slice(root.length), {
+      read: () => (data ??= unpack(entry)),
+    });
+  }
+  return { files, home: home.slice(root.length) };
+}
+
+function readHtml(data) {
+  const html = Buffer.isBuffer(data) ? data.toString("utf8") : data;
+  if (!/<[a-z!]/i.test(html)) {
+    throw uploadError("The upload doesn't look like HTML");
+  }
+  const body = Buffer.from(html, "utf8");
+  return {
+    files: new Map([["index.html", { read: () => body }]]),
+    home: "index.html",
+  };
+}
+
+// The file a URL points at: /menu/ is menu/index.html, and /menu can be
+// menu.html or menu/index.html as static hosts serve them
+function findFile(files, pathname) {
+  let path;
+  try {
+    path = decodeURIComponent(pathname).replace(/^\/+/, "");
+  } catch {
+    return null;
+  }
+  const candidates =
+    path === "" || path.endsWith("/")
+      ? [`${path}index.html`, `${path}index.htm`]
+      : [path, `${path}.html`, `${path}/index.html`];
+  const found = candidates.find((candidate) => files.has(candidate));
+  return found ? { path: found, ...files.get(found) } : null;
+}
+
+// Turns an upload into a site source. `data` is pasted HTML (a string) or
+// an uploaded file (a Buffer, either HTML or a zip archive); `name` is the
+// uploaded file's name and `url` the address the site will be published
+// at, which pages are given so locale, links and mixed content read as they
+// will once live. Fails with code INVALID_UPLOAD.
+function readUpload(data, { name = null, url = null } = {}) {
+  const readable = typeof data === "string" || Buffer.isBuffer(data);
+  if (!readable || data.length === 0) {
+    throw uploadError(
+      "Send the page as text/html or the site's build as application/zip",
+    );
+  }
+  if (url && !isValidUrl(url)) throw uploadError("Invalid URL format");
+
+  const archive = isZip(data);
+  const { files, home } = archive ? readArchive(data) : readHtml(data);
+  const origin = url ? new URL(withProtocol(url)).origin : null;
+  const baseUrl = origin ? `${origin}/` : DEFAULT_BASE_URL;
+  const site = new URL(baseUrl).hostname.replace(/^www\./, "");
+
+  const fileFor = (pageUrl) => {
+    const { hostname, pathname } = new URL(pageUrl);
+    if (hostname.replace(/^www\./, "") !== site) return null;
+    return findFile(files, pathname);
+  };
+
+  async function fetchPage(pageUrl) {
+    const file = fileFor(pageUrl);
+    if (!file) throw missingError(pageUrl);
+    if (!HTML_FILE.test(file.path)) {
+      const error = new Error(`Not a web page (${file.path})`);
+      error.code = "NOT_HTML";
+      throw error;
+    }
+    const body = file.read();
+    return {
+      url: pageUrl,
+      status: 200,
+      headers: { "content-type": "text/html" },
+      html: body.toString("utf8"),
+      redirects: [],
+      transferSize: body.length,
+      encoding: null,
+    };
+  }
+
+  async function fetchFile(fileUrl) {
+    const file = fileFor(fileUrl);
+    if (!file) throw missingError(fileUrl);
+    return { url: fileUrl, status: 200, headers: {}, data: file.read() };
+  }
+
+  return {
+    type: archive ? "archive" : "html",
+    name,
+    // The homepage is at the root, so an index.html is the base URL itself
+    url: INDEX_FILE.test(home) ? baseUrl : new URL(home, baseUrl).toString(),
+    files: files.size,
+    pages: [...files.keys()].filter((path) => HTML_FILE.test(path)).length,
+    fetchPage,
+    fetchFile,
+  };
+}
+
+module.exports = { maxUploadBytes, readUpload };
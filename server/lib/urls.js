@@ -0,0 +1,16 @@
+// Validation helper
+function isValidUrl(string) {
+  try {
+    new URL(string.startsWith("http") ? string : `https://${string}`);
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+// Sites are often typed without a scheme; assume HTTPS
+function withProtocol(url) {
+  return url.startsWith("http") ? url : `https://${url}`;
+}
+
+module.exports = { isValidUrl, withProtocol };
@@ -0,0 +1,416 @@
+const crypto = require("crypto");
+const { latestRestaurantAudits, listRestaurantAudits } = require("./audits");
+const { findUserByEmail } = require("./auth");
+const { getDb } = require("./db");
+const { isValidUrl } = require("./urls");
+
+// Workspaces are where an agency team keeps the restaurants it audits.
+// Members (accounts from ./auth) share the workspace's clients; each client
+// groups saved restaurants, the map listing and website picked in the
+// search. Audits of a saved restaurant are stored with it (./audits) and
+// only members can read them. Whoever creates a workspace owns it and is
+// the only one who can add or remove members.
+
+const MAX_NAME_LENGTH = 100;
+const MAX_NOTE_LENGTH = 2000;
+
+function newId() {
+  return crypto.randomBytes(8).toString("base64url");
+}
+
+function requiredName(value, what) {
+  const name = String(value ?? "").trim();
+  if (!name) throw new Error(`${what} name is required`);
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new Error(
+      `${what} name must be at most ${MAX_NAME_LENGTH} characters`,
+    );
+  }
+  return name;
+}
+
+function toClient(row) {
+  return {
+    id: row.id,
+    name: row.name,
+    notes: row.notes || "",
+    createdAt: row.created_at,
+  };
+}
+
+function toRestaurant(row) {
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    name: row.name,
+    url: row.url,
+    place: row.place ? JSON.parse(row.place) : null,
+    createdAt: row.created_at,
+  };
+}
+
+function createWorkspace(userId, name) {
+  const db = getDb();
+  const workspace = {
+    id: newId(),
+    name: requiredName(name, "Workspace"),
+    role: "owner",
+  };
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    db.prepare(
+      "INSERT INTO workspaces (id, name, created_at) VALUES (?, ?, ?)",
+    ).run(workspace.id, workspace.name, now);
+    db.prepare(
+      `INSERT INTO workspace_members (workspace_id, user_id, role, created_at)
+       VALUES (?, ?, 'owner', ?)`,
+    ).run(workspace.id, userId, now);
+  })();
+  return workspace;
+}
+
+// The workspaces a user belongs to, with their role in each
+function listWorkspaces(userId) {
+  return getDb()
+    .prepare(
+      `SELECT w.id, w.name, m.role FROM workspace_members m
+       JOIN workspaces w ON w.id = m.workspace_id
+       WHERE m.user_id = ? ORDER BY w.created_at`,
+    )
+    .all(userId);
+}
+
+// "owner", "member", or null when the user isn't in the workspace
+function getRole(workspaceId, userId) {
+  const row = getDb()
+    .prepare(
+      "SELECT role FROM workspace_members WHERE workspace_id = ? AND user_id = ?",
+    )
+    .get(workspaceId, userId);
+  return row ? row.role : null;
+}
+
+function listMembers(workspaceId) {
+  return getDb()
+    .prepare(
+      `SELECT u.id, u.name, u.email, m.role FROM workspace_members m
+       JOIN users u ON u.id = m.user_id
+       WHERE m.workspace_id = ? ORDER BY m.created_at`,
+    )
+    .all(workspaceId);
+}
+
+// The dashboard: members, and every client with its restaurants and each
+// restaurant's latest audit (score and category percentages)
+function getWorkspace(workspaceId) {
+  const db = getDb();
+  const workspace = db
+    .prepare("SELECT * FROM workspaces WHERE id = ?")
+    .get(workspaceId);
+  if (!workspace) return null;
+
+  const latest = latestRestaurantAudits(workspaceId);
+  const restaurants = db
+    .prepare(
+      "SELECT * FROM restaurants WHERE workspace_id = ? ORDER BY name COLLATE NOCASE",
+    )
+    .all(workspaceId)
+    .map((row) => ({
+      ...toRestaurant(row),
+      latestAudit: latest.get(row.id) || null,
+    }));
+
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    createdAt: workspace.created_at,
+    members: listMembers(workspaceId),
+    clients: db
+      .prepare(
+        "SELECT * FROM clients WHERE workspace_id = ? ORDER BY name COLLATE NOCASE",
+      )
+      .all(workspaceId)
+      .map((row) => ({
+        ...toClient(row),
+        restaurants: restaurants.filter((r) => r.clientId === row.id),
+      })),
+  };
+}
+
+// Add someone who already has an account. Throws with a message for the
+// client when there's no account for the email or they're already in.
+function addMember(workspaceId, email) {
+  const user = findUserByEmail(email);
+  if (!user) {
+    throw new Error("No account with this email - ask them to sign up first");
+  }
+  if (getRole(workspaceId, user.id)) {
+    throw new Error(`${user.name} is already in this workspace`);
+  }
+
+  getDb()
+    .prepare(
+      `INSERT INTO workspace_members (workspace_id, user_id, role, created_at)
+       VALUES (?, ?, 'member', ?)`,
+    )
+    .run(workspaceId, user.id, new Date().toISOString());
+  return { ...user, role: "member" };
+}
+
+// Remove a member and unassign their issues. Returns false when they
+// weren't a member; throws when they are the last owner.
+function removeMember(workspaceId, userId) {
+  const db = getDb();
+  const role = getRole(workspaceId, userId);
+  if (!role) return false;
+
+  const owners = listMembers(workspaceId).filter((m) => m.role === "owner");
+  if (role === "owner" && owners.length === 1) {
+    throw new Error("The workspace needs at least one owner");
+  }
+
+  db.transaction(() => {
+    db.prepare(
+      "DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?",
+    ).run(workspaceId, userId);
+    db.prepare(
+      `UPDATE issue_notes SET assignee_id = NULL
+       WHERE assignee_id = ? AND restaurant_id IN
+         (SELECT id FROM restaurants WHERE workspace_id = ?)`,
+    ).run(userId, workspaceId);
+  })();
+  return true;
+}
+
+function findClientRow(workspaceId, id) {
+  return getDb()
+    .prepare("SELECT * FROM clients WHERE id = ? AND workspace_id = ?")
+    .get(id, workspaceId);
+}
+
+// Validate a client body ({ name, notes? }) against the current values
+function parseClient(input, current = {}) {
+  const value = (key) => (input[key] !== undefined ? input[key] : current[key]);
+  const notes = String(value("notes") ?? "").trim();
+  if (notes.length > MAX_NOTE_LENGTH) {
+    throw new Error(`notes must be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  return { name: requiredName(value("name"), "Client"), notes: notes || null };
+}
+
+function createClient(workspaceId, input) {
+  const { name, notes } = parseClient(input);
+  const id = newId();
+  getDb()
+    .prepare(
+      `INSERT INTO clients (id, workspace_id, name, notes, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+    )
+    .run(id, workspaceId, name, notes, new Date().toISOString());
+  return toClient(findClientRow(workspaceId, id));
+}
+
+// Returns null when the client isn't in the workspace
+function updateClient(workspaceId, id, input) {
+  const row = findClientRow(workspaceId, id);
+  if (!row) return null;
+
+  const { name, notes } = parseClient(input, row);
+  getDb()
+    .prepare("UPDATE clients SET name = ?, notes = ? WHERE id = ?")
+    .run(name, notes, id);
+  return toClient(findClientRow(workspaceId, id));
+}
+
+// Returns false when the client isn't in the workspace; throws while it
+// still has restaurants, so their audits aren't orphaned by accident
+function deleteClient(workspaceId, id) {
+  if (!findClientRow(workspaceId, id)) return false;
+
+  const db = getDb();
+  const { count } = db
+    .prepare("SELECT COUNT(*) AS count FROM restaurants WHERE client_id = ?")
+    .get(id);
+  if (count > 0) {
+    throw new Error("Delete or move the client's restaurants first");
+  }
+  db.prepare("DELETE FROM clients WHERE id = ?").run(id);
+  return true;
+}
+
+function findRestaurantRow(workspaceId, id) {
+  return getDb()
+    .prepare("SELECT * FROM restaurants WHERE id = ? AND workspace_id = ?")
+    .get(id, workspaceId);
+}
+
+// Validate a restaurant body ({ clientId, name, url, place? }) against the
+// current values. `place` is the map listing POST /grade takes.
+function parseRestaurant(workspaceId, input, current = {}) {
+  const value = (key) => (input[key] !== undefined ? input[key] : current[key]);
+
+  const clientId = input.clientId ?? current.client_id;
+  if (!clientId || !findClientRow(workspaceId, clientId)) {
+    throw new Error("Unknown client");
+  }
+
+  const url = String(value("url") || "").trim();
+  if (!url || !isValidUrl(url)) throw new Error("Invalid URL format");
+
+  const place =
+    input.place !== undefined
+      ? input.place
+      : current.place && JSON.parse(current.place);
+  if (place && (typeof place !== "object" || Array.isArray(place))) {
+    throw new Error("place must be an object");
+  }
+
+  return {
+    clientId,
+    name: requiredName(value("name"), "Restaurant"),
+    url,
+    place: place ? JSON.stringify(place) : null,
+  };
+}
+
+function createRestaurant(workspaceId, input) {
+  const { clientId, name, url, place } = parseRestaurant(workspaceId, input);
+  const id = newId();
+  getDb()
+    .prepare(
+      `INSERT INTO restaurants
+         (id, workspace_id, client_id, name, url, place, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(id, workspaceId, clientId, name, url, place, new Date().toISOString());
+  return toRestaurant(findRestaurantRow(workspaceId, id));
+}
+
+// Returns null when the restaurant isn't in the workspace
+function updateRestaurant(workspaceId, id, input) {
+  const row = findRestaurantRow(workspaceId, id);
+  if (!row) return null;
+
+  const { clientId, name, url, place } = parseRestaurant(
+    workspaceId,
+    input,
+    row,
+  );
+  getDb()
+    .prepare(
+      "UPDATE restaurants SET client_id = ?, name = ?, url = ?, place = ? WHERE id = ?",
+    )
+    .run(clientId, name, url, place, id);
+  return toRestaurant(findRestaurantRow(workspaceId, id));
+}
+
+// Its audits stay in the workspace, readable by members through their
+// links; its issue notes go with it. Returns false when it isn't in the
+// workspace.
+function deleteRestaurant(workspaceId, id) {
+  if (!findRestaurantRow(workspaceId, id)) return false;
+
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare("DELETE FROM issue_notes WHERE restaurant_id = ?").run(id);
+    db.prepare(
+      "UPDATE audits SET restaurant_id = NULL WHERE restaurant_id = ?",
+    ).run(id);
+    db.prepare("DELETE FROM restaurants WHERE id = ?").run(id);
+  })();
+  return true;
+}
+
+// A restaurant with all its audits, oldest first
+function getRestaurant(workspaceId, id) {
+  const row = findRestaurantRow(workspaceId, id);
+  return row
+    ? { ...toRestaurant(row), audits: listRestaurantAudits(row.id) }
+    : null;
+}
+
+// The saved restaurant for an audit request, as saveAudit takes it, if the
+// user is a member of its workspace
+function findRestaurantForUser(id, userId) {
+  const row = getDb()
+    .prepare(
+      `SELECT r.* FROM restaurants r
+       JOIN workspace_members m ON m.workspace_id = r.workspace_id
+       WHERE r.id = ? AND m.user_id = ?`,
+    )
+    .get(id, userId);
+  return row ? { ...toRestaurant(row), workspaceId: row.workspace_id } : null;
+}
+
+// Set the note and assignee ({ note?, assigneeId? }) on an issue of a
+// restaurant, by the issue's stable id. An empty note and a null assignee
+// clear them. Returns null when the restaurant isn't in the workspace.
+function setIssueNote(workspaceId, restaurantId, issueId, input, userId) {
+  if (!findRestaurantRow(workspaceId, restaurantId)) return null;
+
+  const db = getDb();
+  const current =
+    db
+      .prepare(
+        "SELECT * FROM issue_notes WHERE restaurant_id = ? AND issue_id = ?",
+      )
+      .get(restaurantId, issueId) || {};
+
+  const note = String(
+    input.note !== undefined ? (input.note ?? "") : current.note || "",
+  ).trim();
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new Error(`note must be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+
+  const assigneeId =
+    input.assigneeId !== undefined
+      ? input.assigneeId || null
+      : current.assignee_id || null;
+  if (assigneeId && !getRole(workspaceId, assigneeId)) {
+    throw new Error("The assignee must be a member of the workspace");
+  }
+
+  db.prepare(
+    `INSERT INTO issue_notes
+       (restaurant_id, issue_id, note, assignee_id, updated_by, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT (restaurant_id, issue_id) DO UPDATE SET
+       note = excluded.note, assignee_id = excluded.assignee_id,
+       updated_by = excluded.updated_by, updated_at = excluded.updated_at`,
+  ).run(
+    restaurantId,
+    issueId,
+    note || null,
+    assigneeId,
+    userId,
+    new Date().toISOString(),
+  );
+
+  const assignee =
+    assigneeId && listMembers(workspaceId).find((m) => m.id === assigneeId);
+  return {
+    issueId,
+    note,
+    assignee: assignee ? { id: assignee.id, name: assignee.name } : null,
+  };
+}
+
+module.exports = {
+  addMember,
+  createClient,
+  createRestaurant,
+  createWorkspace,
+  deleteClient,
+  deleteRestaurant,
+  findRestaurantForUser,
+  getRestaurant,
+  getRole,
+  getWorkspace,
+  listWorkspaces,
+  removeMember,
+  setIssueNote,
+  updateClient,
+  updateRestaurant,
+};
@@ -0,0 +1,564 @@
+const express = require("express");
+const { assertPublicUrl } = require("../lib/addressGuard");
+const { apiError, handleApiError, scanError } = require("../lib/api/errors");
+const { requireApiKey } = require("../lib/api/keys");
+const { buildOpenApi } = require("../lib/api/openapi");
+const { SCHEMAS } = require("../lib/api/schemas");
+const { getAudit, listAudits } = require("../lib/audits");
+const {
+  createBatchJob,
+  exportBatchCsv,
+  exportBatchJob,
+  getBatchJob,
+  rowsFromCsv,
+} = require("../lib/batch");
+const { gradeCache, gradeCacheKey } = require("../lib/cache");
+const { exportLeadsCsv, hasPartnerLead, listLeads } = require("../lib/leads");
+const {
+  assertMonitorAddresses,
+  createMonitor,
+  deleteMonitor,
+  getMonitor,
+  listMonitors,
+  runMonitorNow,
+  takeTestAlert,
+  testMonitorAlert,
+  updateMonitor,
+} = require("../lib/monitors");
+const { auditSite } = require("../lib/pipeline");
+const { describeRules, loadProfile } = require("../lib/profiles");
+const { formatWait, takeAudit } = require("../lib/rateLimit");
+const { renderReportFile } = require("../lib/reports");
+const { validateSchema } = require("../lib/schema");
+const { isValidUrl, withProtocol } = require("../lib/urls");
+
+// /api/v1: the versioned API for partners' own systems (CRMs, agency
+// dashboards). It runs the same code as the unversioned routes the web app
+// uses, but needs an API key, validates requests against ../lib/api/schemas
+// and answers failures with machine-readable codes (../lib/api/errors).
+// GET /api/v1/openapi.json describes every operation below.
+
+function profileOf(id) {
+  const profile = loadProfile(id);
+  if (!profile) {
+    throw apiError("UNKNOWN_PROFILE", `Unknown grading profile "${id}"`);
+  }
+  return profile;
+}
+
+// Counts an audit against the API key's and the server's limits
+function countAudit(req, res) {
+  const limited = takeAudit(`key:${req.apiKey.name}`);
+  if (!limited) return;
+
+  const wait = formatWait(limited.retryAfter);
+  res.set("Retry-After", String(limited.retryAfter));
+  throw apiError(
+    "RATE_LIMITED",
+    limited.scope === "key"
+      ? `Too many audits for this API key - try again in ${wait}`
+      : `The grader has reached its audit limit - try again in ${wait}`,
+    { limit: limited.scope, retryAfter: limited.retryAfter },
+  );
+}
+
+function found(value, what) {
+  if (!value) throw apiError("NOT_FOUND", `${what} not found`);
+  return value;
+}
+
+// Monitors belong to the API key that added them (see ../lib/monitors)
+function ownerOf(req) {
+  return { apiKey: req.apiKey.name };
+}
+
+// A gated widget audit opens in full only for the partner whose embed
+// captured its lead; to other keys it stays locked like on the web
+function readAudit(req) {
+  return getAudit(req.params.id, {
+    unlocked: hasPartnerLead(req.params.id, req.apiKey.name),
+  });
+}
+
+function monitorError(error) {
+  return error.code === "BLOCKED_ADDRESS"
+    ? apiError("BLOCKED_ADDRESS", error.message)
+    : apiError("INVALID_REQUEST", error.message);
+}
+
+const OPERATIONS = [
+  {
+    method: "get",
+    path: "/openapi.json",
+    operationId: "getOpenApi",
+    summary: "This document",
+    public: true,
+    responses: {
+      200: {
+        content: { "application/json": { schema: { type: "object" } } },
+      },
+    },
+    handler: (req, res) => res.json(openApiDocument),
+  },
+
+  // Audits
+  {
+    method: "post",
+    path: "/audits",
+    operationId: "createAudit",
+    summary: "Audit a website",
+    description:
+      "Crawls and grades the site and stores the audit. A result for the same site and options from the last hour is returned with `200` and `cached: true` instead, unless `refresh` is set or `insights` is false.",
+    body: "AuditRequest",
+    responses: { 200: "Audit", 201: "Audit" },
+    errors: [
+      "UNKNOWN_PROFILE",
+      "BLOCKED_ADDRESS",
+      "NOT_HTML",
+      "PAGE_TOO_LARGE",
+      "SCAN_FAILED",
+      "SITE_UNREACHABLE",
+    ],
+    rateLimited: true,
+    handler: async (req, res) => {
+      const { url, maxPages, maxDepth, place } = req.body;
+      const { insights = true, refresh = false } = req.body;
+      if (!isValidUrl(url)) {
+        throw apiError("INVALID_REQUEST", "body.url is not a valid URL");
+      }
+      const profile = profileOf(req.body.profile);
+
+      try {
+        await assertPublicUrl(withProtocol(url));
+      } catch (error) {
+        // Unresolvable hosts are left to fail in the crawl
+        if (error.code === "BLOCKED_ADDRESS") {
+          throw apiError("BLOCKED_ADDRESS", error.message);
+        }
+      }
+
+      // Cached results carry AI insights, so they only answer requests
+      // that want them
+      const cacheKey =
+        insights && gradeCacheKey(url, { profile, maxPages, maxDepth, place });
+      const cachedId = cacheKey && !refresh ? gradeCache.get(cacheKey) : null;
+      const cached = cachedId && getAudit(cachedId);
+      if (cached) {
+        return res.set("X-Cache", "HIT").json({ ...cached, cached: true });
+      }
+
+      countAudit(req, res);
+      let id;
+      try {
+        ({ id } = await auditSite(url, {
+          profile,
+          maxPages,
+          maxDepth,
+          place,
+          insights,
+          refresh,
+        }));
+      } catch (error) {
+        console.error(`❌ Error during ${error.phase}:`, error.message);
+        throw scanError(error);
+      }
+
+      if (cacheKey) gradeCache.set(cacheKey, id);
+      res
+        .status(201)
+        .location(`${req.baseUrl}/audits/${id}`)
+        .set("X-Cache", "MISS")
+        .json(getAudit(id));
+    },
+  },
+  {
+    method: "get",
+    path: "/audits",
+    operationId: "listAudits",
+    summary: "Audit history of a site, oldest first",
+    query: {
+      url: { schema: { type: "string", minLength: 1 }, required: true },
+    },
+    responses: { 200: "AuditList" },
+    handler: (req, res) => {
+      res.json({ audits: listAudits(req.query.url) });
+    },
+  },
+  {
+    method: "get",
+    path: "/audits/:id",
+    operationId: "getAudit",
+    summary: "A stored audit",
+    responses: { 200: "Audit" },
+    errors: ["NOT_FOUND"],
+    handler: (req, res) => {
+      res.json(found(readAudit(req), "Audit"));
+    },
+  },
+  {
+    method: "get",
+    path: "/audits/:id/report",
+    operationId: "getAuditReport",
+    summary: "Download the branded report of an audit",
+    query: {
+      format: { schema: { type: "string", enum: ["pdf", "html"] } },
+    },
+    responses: {
+      200: {
+        content: {
+          "application/pdf": { schema: { type: "string", format: "binary" } },
+          "text/html": { schema: { type: "string" } },
+        },
+      },
+    },
+    errors: ["NOT_FOUND", "AUDIT_LOCKED"],
+    handler: async (req, res) => {
+      const audit = found(readAudit(req), "Audit");
+      if (audit.locked) {
+        throw apiError(
+          "AUDIT_LOCKED",
+          "This widget audit stays locked until your embed captures its lead",
+        );
+      }
+      const file = await renderReportFile(audit, req.query.format);
+      res.attachment(file.filename).type(file.type).send(file.body);
+    },
+  },
+
+  // Rules
+  {
+    method: "get",
+    path: "/rules",
+    operationId: "getRules",
+    summary: "Categories and active rules of a grading profile",
+    query: {
+      profile: {
+        schema: { type: "string" },
+        description: "Defaults to the server's",
+      },
+    },
+    responses: { 200: "RuleSet" },
+    errors: ["UNKNOWN_PROFILE"],
+    handler: (req, res) => {
+      res.json(describeRules(profileOf(req.query.profile)));
+    },
+  },
+
+  // Batches
+  {
+    method: "post",
+    path: "/batches",
+    operationId: "createBatch",
+    summary: "Audit a list of restaurants",
+    description:
+      "Send `rows` or `csv`. Sites are queued and scanned a few at a time; follow the job with `getBatch`.",
+    body: "BatchRequest",
+    responses: { 202: "BatchJob" },
+    errors: ["UNKNOWN_PROFILE"],
+    rateLimited: true,
+    handler: (req, res) => {
+      const { rows, csv, insights = false } = req.body;
+      if (!rows && typeof csv !== "string") {
+        throw apiError("INVALID_REQUEST", "Send rows or csv");
+      }
+      const profile = profileOf(req.body.profile);
+
+      countAudit(req, res);
+      let jobId;
+      try {
+        jobId = createBatchJob(rows || rowsFromCsv(csv), { profile, insights });
+      } catch (error) {
+        throw apiError("INVALID_REQUEST", error.message);
+      }
+      res
+        .status(202)
+        .location(`${req.baseUrl}/batches/${jobId}`)
+        .json(getBatchJob(jobId));
+    },
+  },
+  {
+    method: "get",
+    path: "/batches/:id",
+    operationId: "getBatch",
+    summary: "Progress of a batch and each row's result",
+    responses: { 200: "BatchJob" },
+    errors: ["NOT_FOUND"],
+    handler: (req, res) => {
+      res.json(found(getBatchJob(req.params.id), "Batch job"));
+    },
+  },
+  {
+    method: "get",
+    path: "/batches/:id/export",
+    operationId: "exportBatch",
+    summary: "Scores and top issues of every row",
+    query: {
+      format: { schema: { type: "string", enum: ["json", "csv"] } },
+    },
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: {
+              type: "array",
+              items: { $ref: "#/components/schemas/BatchExportRow" },
+            },
+          },
+          "text/csv": { schema: { type: "string" } },
+        },
+      },
+    },
+    errors: ["NOT_FOUND"],
+    handler: (req, res) => {
+      const records = found(exportBatchJob(req.params.id), "Batch job");
+      if (req.query.format === "csv") {
+        return res
+          .attachment(`batch-${req.params.id}.csv`)
+          .type("csv")
+          .send(exportBatchCsv(records));
+      }
+      res.json(records);
+    },
+  },
+
+  // Monitors
+  {
+    method: "get",
+    path: "/monitors",
+    operationId: "listMonitors",
+    summary: "This API key's monitors with their last run",
+    responses: { 200: "MonitorList" },
+    handler: (req, res) => {
+      res.json({ monitors: listMonitors(ownerOf(req)) });
+    },
+  },
+  {
+    method: "post",
+    path: "/monitors",
+    operationId: "createMonitor",
+    summary: "Re-audit a site on a schedule and alert on regressions",
+    description: "The first run is the baseline and starts right away.",
+    body: "MonitorRequest",
+    responses: { 201: "Monitor" },
+    errors: ["UNKNOWN_PROFILE", "BLOCKED_ADDRESS"],
+    rateLimited: true,
+    handler: async (req, res) => {
+      if (req.body.profile !== undefined) profileOf(req.body.profile);
+      countAudit(req, res);
+
+      let monitor;
+      try {
+        await assertMonitorAddresses(req.body);
+        monitor = createMonitor(req.body, ownerOf(req));
+      } catch (error) {
+        throw monitorError(error);
+      }
+      res
+        .status(201)
+        .location(`${req.baseUrl}/monitors/${monitor.id}`)
+        .json(monitor);
+    },
+  },
+  {
+    method: "get",
+    path: "/monitors/:id",
+    operationId: "getMonitor",
+    summary: "A monitor with its recent runs",
+    responses: { 200: "Monitor" },
+    errors: ["NOT_FOUND"],
+    handler: (req, res) => {
+      res.json(found(getMonitor(req.params.id, ownerOf(req)), "Monitor"));
+    },
+  },
+  {
+    method: "patch",
+    path: "/monitors/:id",
+    operationId: "updateMonitor",
+    summary: "Change a monitor, or pause it with enabled: false",
+    body: "MonitorUpdate",
+    responses: { 200: "Monitor" },
+    errors: ["NOT_FOUND", "UNKNOWN_PROFILE", "BLOCKED_ADDRESS"],
+    handler: async (req, res) => {
+      if (req.body.profile !== undefined) profileOf(req.body.profile);
+
+      let monitor;
+      try {
+        await assertMonitorAddresses(req.body);
+        monitor = updateMonitor(req.params.id, req.body, ownerOf(req));
+      } catch (error) {
+        throw monitorError(error);
+      }
+      res.json(found(monitor, "Monitor"));
+    },
+  },
+  {
+    method: "delete",
+    path: "/monitors/:id",
+    operationId: "deleteMonitor",
+    summary: "Delete a monitor and its runs",
+    responses: { 204: null },
+    errors: ["NOT_FOUND"],
+    handler: (req, res) => {
+      found(deleteMonitor(req.params.id, ownerOf(req)), "Monitor");
+      res.status(204).end();
+    },
+  },
+  {
+    method: "post",
+    path: "/monitors/:id/run",
+    operationId: "runMonitor",
+    summary: "Run a monitor now instead of waiting for its schedule",
+    responses: { 202: "Monitor" },
+    errors: ["NOT_FOUND", "RUN_IN_PROGRESS"],
+    rateLimited: true,
+    handler: (req, res) => {
+      const owner = ownerOf(req);
+      found(getMonitor(req.params.id, owner), "Monitor");
+      countAudit(req, res);
+      if (!runMonitorNow(req.params.id, owner)) {
+        throw apiError(
+          "RUN_IN_PROGRESS",
+          "A run is already waiting or in progress",
+        );
+      }
+      res.status(202).json(getMonitor(req.params.id, owner));
+    },
+  },
+  {
+    method: "post",
+    path: "/monitors/:id/test-alert",
+    operationId: "testMonitorAlert",
+    summary: "Send a sample alert to the monitor's webhook and email",
+    description: "Each API key may send 5 test alerts an hour.",
+    responses: { 200: "AlertTestResult" },
+    errors: ["NOT_FOUND", "ALERT_FAILED"],
+    rateLimited: true,
+    handler: async (req, res) => {
+      const owner = ownerOf(req);
+      found(getMonitor(req.params.id, owner), "Monitor");
+      const limited = takeTestAlert(owner);
+      if (limited) {
+        res.set("Retry-After", String(limited.retryAfter));
+        throw apiError(
+          "RATE_LIMITED",
+          `Too many test alerts for this API key - try again in ${formatWait(limited.retryAfter)}`,
+          { limit: "key", retryAfter: limited.retryAfter },
+        );
+      }
+
+      let failures;
+      try {
+        failures = await testMonitorAlert(req.params.id, owner);
+      } catch (error) {
+        throw apiError("INVALID_REQUEST", error.message);
+      }
+      found(failures, "Monitor");
+
+      if (Object.keys(failures).length > 0) {
+        throw apiError(
+          "ALERT_FAILED",
+          Object.entries(failures)
+            .map(([channel, message]) => `${channel}: ${message}`)
+            .join("; "),
+          { failures },
+        );
+      }
+      res.json({ sent: true, failures });
+    },
+  },
+
+  // Leads
+  {
+    method: "get",
+    path: "/leads",
+    operationId: "listLeads",
+    summary: "Leads captured by the grader widget, newest first",
+    description:
+      "Only the leads of embeds whose `partner` id is the API key's name.",
+    query: {
+      since: {
+        schema: { type: "string" },
+        description:
+          "Only leads captured at or after this ISO 8601 date or time",
+      },
+      format: { schema: { type: "string", enum: ["json", "csv"] } },
+    },
+    responses: {
+      200: {
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/LeadList" },
+          },
+          "text/csv": { schema: { type: "string" } },
+        },
+      },
+    },
+    handler: (req, res) => {
+      let leads;
+      try {
+        leads = listLeads(req.apiKey.name, req.query);
+      } catch (error) {
+        throw apiError("INVALID_REQUEST", error.message);
+      }
+      if (req.query.format === "csv") {
+        return res
+          .attachment("leads.csv")
+          .type("csv")
+          .send(exportLeadsCsv(leads));
+      }
+      res.json({ leads });
+    },
+  },
+];
+
+const openApiDocument = buildOpenApi(OPERATIONS);
+
+// Checks the body and query string against the operation's schemas
+function validateRequest(operation) {
+  return (req, res, next) => {
+    const problems = [];
+    if (operation.body) {
+      problems.push(
+        ...validateSchema(
+          req.body ?? null,
+          SCHEMAS[operation.body],
+          "body",
+          SCHEMAS,
+        ),
+      );
+    }
+    for (const [name, param] of Object.entries(operation.query || {})) {
+      const value = req.query[name];
+      if (value === undefined) {
+        if (param.required) problems.push(`query.${name} is missing`);
+      } else {
+        problems.push(...validateSchema(value, param.schema, `query.${name}`));
+      }
+    }
+
+    if (problems.length > 0) {
+      throw apiError("INVALID_REQUEST", problems.join("; "), { problems });
+    }
+    next();
+  };
+}
+
+const router = express.Router();
+// Parsed here rather than by the app so malformed JSON gets an API error
+router.use(express.json());
+
+for (const operation of OPERATIONS) {
+  router[operation.method](
+    operation.path,
+    ...(operation.public ? [] : [requireApiKey]),
+    validateRequest(operation),
+    operation.handler,
+  );
+}
+
+router.use(() => {
+  throw apiError("NOT_FOUND", "No such endpoint");
+});
+router.use(handleApiError);
+
+module.exports = { apiRouter: router, openApiDocument };
@@ -0,0 +1,66 @@
+const express = require("express");
+const {
+  authenticate,
+  createSession,
+  createUser,
+  endSession,
+  rejectIfSignInLimited,
+  requireUser,
+  tokenFromRequest,
+} = require("../lib/auth");
+const { createWorkspace, listWorkspaces } = require("../lib/workspaces");
+
+const router = express.Router();
+
+function signedIn(user, token) {
+  return { token, user, workspaces: listWorkspaces(user.id) };
+}
+
+// Create an account from { email, name, password, workspace? } along with
+// a workspace it owns (workspace defaults to "<name>'s workspace", cut to
+// the 100 characters a name may have), and sign in
+router.post("/register", async (req, res) => {
+  if (rejectIfSignInLimited(req, res)) return;
+
+  const body = req.body || {};
+  try {
+    const user = await createUser(body);
+    const workspace = String(body.workspace || "").trim();
+    createWorkspace(
+      user.id,
+      (workspace || `${user.name}'s workspace`).slice(0, 100),
+    );
+    res.status(201).json(signedIn(user, createSession(user.id)));
+  } catch (error) {
+    res
+      .status(error.code === "EMAIL_TAKEN" ? 409 : 400)
+      .json({ error: error.message });
+  }
+});
+
+// Sign in with { email, password }; the token goes in the Authorization
+// header of later requests
+router.post("/login", async (req, res) => {
+  if (rejectIfSignInLimited(req, res)) return;
+
+  const { email, password } = req.body || {};
+  const user = await authenticate(email, password);
+  if (!user) {
+    return res.status(401).json({ error: "Wrong email or password" });
+  }
+
+  console.log(`🔐 ${user.email} signed in`);
+  res.json(signedIn(user, createSession(user.id)));
+});
+
+router.post("/logout", requireUser, (req, res) => {
+  endSession(tokenFromRequest(req));
+  res.status(204).end();
+});
+
+// The signed-in user and their workspaces
+router.get("/me", requireUser, (req, res) => {
+  res.json({ user: req.user, workspaces: listWorkspaces(req.user.id) });
+});
+
+module.exports = router;
@@ -0,0 +1,83 @@
+const express = require("express");
+const {
+  createBatchJob,
+  exportBatchCsv,
+  exportBatchJob,
+  getBatchJob,
+  rowsFromCsv,
+} = require("../lib/batch");
+const { loadProfile } = require("../lib/profiles");
+const { rateLimit } = require("../lib/rateLimit");
+
+const router = express.Router();
+
+// CSV can be posted as the raw body (text/csv) as well as inside JSON
+router.use(express.text({ type: ["text/csv", "text/plain"], limit: "1mb" }));
+
+// Start a batch job from { rows: [{ name, url }] }, { csv: "..." } or a
+// text/csv body. Options come from the JSON body or the query string.
+// The batch counts as one request against the rate limit, so AI insights,
+// one LLM call per row, are only run for signed-in users.
+router.post("/", rateLimit, (req, res) => {
+  const body = typeof req.body === "object" && req.body ? req.body : {};
+  const options = { ...req.query, ...body };
+
+  let rows;
+  if (typeof req.body === "string") {
+    rows = rowsFromCsv(req.body);
+  } else if (typeof body.csv === "string") {
+    rows = rowsFromCsv(body.csv);
+  } else if (Array.isArray(body.rows)) {
+    rows = body.rows;
+  } else {
+    return res
+      .status(400)
+      .json({ error: "Send rows, a csv field or a text/csv body" });
+  }
+
+  const profile = loadProfile(options.profile);
+  if (!profile) {
+    return res.status(400).json({ error: "Unknown grading profile" });
+  }
+
+  try {
+    const jobId = createBatchJob(rows, {
+      profile,
+      insights:
+        Boolean(req.user) &&
+        (options.insights === true || options.insights === "1"),
+    });
+    res.status(202).json(getBatchJob(jobId));
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.get("/:id", (req, res) => {
+  const job = getBatchJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: "Batch job not found" });
+  }
+
+  res.json(job);
+});
+
+// Results as CSV (default) or JSON (?format=json)
+router.get("/:id/export", (req, res) => {
+  const records = exportBatchJob(req.params.id);
+  if (!records) {
+    return res.status(404).json({ error: "Batch job not found" });
+  }
+
+  const filename = `batch-${req.params.id}`;
+  if (req.query.format === "json") {
+    res.attachment(`${filename}.json`).json(records);
+  } else {
+    res
+      .attachment(`${filename}.csv`)
+      .type("text/csv")
+      .send(exportBatchCsv(records));
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,60 @@
+const express = require("express");
+const { runBenchmark } = require("../lib/benchmark");
+const { findCompetitors } = require("../lib/places");
+const { loadProfile } = require("../lib/profiles");
+const { rateLimit } = require("../lib/rateLimit");
+
+const router = express.Router();
+
+// Nearby restaurants with websites, same cuisine first:
+// ?lat=&lon=&cuisine=a;b&exclude=<place id>&website=<target site>&limit=
+router.get("/competitors", async (req, res) => {
+  const lat = parseFloat(req.query.lat);
+  const lon = parseFloat(req.query.lon);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
+    return res.status(400).json({ error: "lat and lon are required" });
+  }
+
+  const limit = Math.min(parseInt(req.query.limit, 10) || 5, 10);
+  const radiusKm = Math.min(parseFloat(req.query.radius) || 2, 10);
+
+  try {
+    const competitors = await findCompetitors({
+      lat,
+      lon,
+      radiusKm,
+      limit,
+      cuisine: String(req.query.cuisine || "")
+        .toLowerCase()
+        .split(";")
+        .filter(Boolean),
+      exclude: { id: req.query.exclude, website: req.query.website },
+    });
+    res.json({ competitors });
+  } catch (error) {
+    console.error("❌ Places lookup failed:", error.message);
+    res.status(502).json({ error: "Could not look up nearby restaurants" });
+  }
+});
+
+// Grade { target: { name, url, auditId? }, competitors: [{ name, url }] }
+// side by side. A target auditId reuses that audit instead of rescanning.
+router.post("/benchmark", rateLimit, async (req, res) => {
+  const { target, competitors } = req.body || {};
+  if (!Array.isArray(competitors)) {
+    return res.status(400).json({ error: "competitors must be a list" });
+  }
+
+  const profile = loadProfile(req.body.profile);
+  if (!profile) {
+    return res.status(400).json({ error: "Unknown grading profile" });
+  }
+
+  try {
+    res.json(await runBenchmark({ target, competitors, profile }));
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+module.exports = router;
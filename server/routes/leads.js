@@ -0,0 +1,48 @@
+const express = require("express");
+const { getAudit } = require("../lib/audits");
+const { createLead } = require("../lib/leads");
+const { createRateLimiter, formatWait } = require("../lib/rateLimit");
+
+const router = express.Router();
+
+// The widget's form is public, so leads are limited per client IP
+const leadLimiter = createRateLimiter({
+  windowMs: 60 * 60 * 1000,
+  perIp: 10,
+  global: 0,
+});
+
+// Store the name, email and phone the grader widget asks for before it
+// shows the full report, with the audit they unlock: { auditId, name,
+// email, phone, partner?, pageUrl? }. Answers with the lead's id and the
+// full audit, which GET /audits/:id keeps locked for gated widget scans.
+router.post("/", (req, res) => {
+  const limited = leadLimiter.take(`ip:${req.ip}`);
+  if (limited) {
+    return res
+      .status(429)
+      .set("Retry-After", String(limited.retryAfter))
+      .json({
+        error: `Too many requests - try again in ${formatWait(limited.retryAfter)}`,
+        retryAfter: limited.retryAfter,
+      });
+  }
+
+  const body = req.body || {};
+  let lead;
+  try {
+    lead = createLead(body.auditId, body);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (!lead) return res.status(404).json({ error: "Audit not found" });
+
+  console.log(
+    `📇 Lead for ${lead.audit.url}${lead.partner ? ` via ${lead.partner}` : ""}`,
+  );
+  res
+    .status(201)
+    .json({ id: lead.id, audit: getAudit(lead.audit.id, { unlocked: true }) });
+});
+
+module.exports = router;
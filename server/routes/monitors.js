@@ -0,0 +1,117 @@
+const express = require("express");
+const { requireUser } = require("../lib/auth");
+const {
+  assertMonitorAddresses,
+  createMonitor,
+  deleteMonitor,
+  getMonitor,
+  listMonitors,
+  runMonitorNow,
+  takeTestAlert,
+  testMonitorAlert,
+  updateMonitor,
+} = require("../lib/monitors");
+const { formatWait, rateLimit } = require("../lib/rateLimit");
+
+const router = express.Router();
+
+// Monitors hold their owner's alert addresses, so they are only shown to
+// the user who added them and the members of their workspace
+router.use(requireUser);
+
+function ownerOf(req) {
+  return { userId: req.user.id };
+}
+
+router.get("/", (req, res) => {
+  res.json({ monitors: listMonitors(ownerOf(req)) });
+});
+
+// Register { url, name?, profile?, place?, frequency: "daily" | "weekly",
+// scoreDrop?, webhookUrl?, email?, workspaceId? }. The baseline run starts
+// right away.
+router.post("/", rateLimit, async (req, res) => {
+  const body = req.body || {};
+  try {
+    await assertMonitorAddresses(body);
+    res.status(201).json(createMonitor(body, ownerOf(req)));
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.get("/:id", (req, res) => {
+  const monitor = getMonitor(req.params.id, ownerOf(req));
+  if (!monitor) {
+    return res.status(404).json({ error: "Monitor not found" });
+  }
+
+  res.json(monitor);
+});
+
+// Change any of the fields above, or pause with { enabled: false }
+router.patch("/:id", async (req, res) => {
+  const body = req.body || {};
+  try {
+    await assertMonitorAddresses(body);
+    const monitor = updateMonitor(req.params.id, body, ownerOf(req));
+    if (!monitor) {
+      return res.status(404).json({ error: "Monitor not found" });
+    }
+    res.json(monitor);
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.delete("/:id", (req, res) => {
+  if (!deleteMonitor(req.params.id, ownerOf(req))) {
+    return res.status(404).json({ error: "Monitor not found" });
+  }
+
+  res.status(204).end();
+});
+
+// Run now instead of waiting for the schedule
+router.post("/:id/run", rateLimit, (req, res) => {
+  const owner = ownerOf(req);
+  const started = runMonitorNow(req.params.id, owner);
+  if (started === null) {
+    return res.status(404).json({ error: "Monitor not found" });
+  }
+  if (!started) {
+    return res.status(409).json({ error: "A run is already in progress" });
+  }
+
+  res.status(202).json(getMonitor(req.params.id, owner));
+});
+
+// Send a sample alert to the monitor's webhook and email, a few an hour
+router.post("/:id/test-alert", async (req, res) => {
+  const owner = ownerOf(req);
+  if (!getMonitor(req.params.id, owner)) {
+    return res.status(404).json({ error: "Monitor not found" });
+  }
+  const limited = takeTestAlert(owner);
+  if (limited) {
+    return res
+      .status(429)
+      .set("Retry-After", String(limited.retryAfter))
+      .json({
+        error: `Too many test alerts - try again in ${formatWait(limited.retryAfter)}`,
+        retryAfter: limited.retryAfter,
+      });
+  }
+
+  try {
+    const failures = await testMonitorAlert(req.params.id, owner);
+    res.status(Object.keys(failures).length > 0 ? 502 : 200).json({
+      sent: Object.keys(failures).length === 0,
+      failures,
+    });
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,86 @@
+const express = require("express");
+const { getAudit } = require("../lib/audits");
+const { auditUpload } = require("../lib/pipeline");
+const { loadProfile } = require("../lib/profiles");
+const { rejectIfLimited } = require("../lib/rateLimit");
+const { openEventStream } = require("../lib/sse");
+const { maxUploadBytes, readUpload } = require("../lib/upload");
+
+const router = express.Router();
+
+// The page or archive is the raw body; options come from the query string
+router.use(
+  express.text({ type: ["text/html", "text/plain"], limit: maxUploadBytes() }),
+);
+router.use(
+  express.raw({
+    type: [
+      "application/zip",
+      "application/x-zip-compressed",
+      "application/octet-stream",
+    ],
+    limit: maxUploadBytes(),
+  }),
+);
+
+// Grade pasted HTML (text/html), an uploaded HTML file or a zipped build
+// (application/zip) before it goes live. Takes ?profile, ?url (the address
+// the site will have), ?name (the file name) and ?insights=0, and answers
+// like POST /grade, including progress events for text/event-stream clients.
+router.post("/", async (req, res) => {
+  const { profile: profileId, url, name, insights } = req.query;
+
+  const profile = loadProfile(profileId);
+  if (!profile) {
+    return res.status(400).json({ error: "Unknown grading profile" });
+  }
+
+  let source;
+  try {
+    source = readUpload(req.body, { url, name });
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  if (rejectIfLimited(req, res)) return;
+  const options = { profile, insights: insights !== "0" };
+
+  if (req.accepts(["json", "text/event-stream"]) === "text/event-stream") {
+    const stream = openEventStream(res);
+    try {
+      const { id } = await auditUpload(source, {
+        ...options,
+        onProgress: stream.send,
+      });
+      stream.send("done", getAudit(id));
+    } catch (error) {
+      console.error(`❌ Error during ${error.phase}:`, error.message);
+      stream.send("error", {
+        phase: error.phase,
+        error: `Could not grade upload: ${error.message}`,
+      });
+    }
+    return stream.close();
+  }
+
+  try {
+    const { id } = await auditUpload(source, options);
+    res.json(getAudit(id));
+  } catch (error) {
+    console.error(`❌ Error during ${error.phase}:`, error.message);
+    res.status(500).json({
+      error: `Could not grade upload: ${error.message}`,
+      phase: error.phase,
+    });
+  }
+});
+
+// Bodies over MAX_UPLOAD_BYTES are refused by the parsers above
+router.use((error, req, res, next) => {
+  if (error.type !== "entity.too.large") return next(error);
+  res
+    .status(413)
+    .json({ error: `Upload is larger than ${maxUploadBytes()} bytes` });
+});
+
+module.exports = router;
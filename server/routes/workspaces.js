@@ -0,0 +1,197 @@
+const express = require("express");
+const { requireUser } = require("../lib/auth");
+const {
+  addMember,
+  createClient,
+  createRestaurant,
+  createWorkspace,
+  deleteClient,
+  deleteRestaurant,
+  getRestaurant,
+  getRole,
+  getWorkspace,
+  listWorkspaces,
+  removeMember,
+  setIssueNote,
+  updateClient,
+  updateRestaurant,
+} = require("../lib/workspaces");
+
+const router = express.Router();
+
+router.use(requireUser);
+
+// Routes with a workspace id need the signed-in user to be a member;
+// others get a 404 so workspace ids can't be probed
+router.param("workspaceId", (req, res, next, id) => {
+  const role = getRole(id, req.user.id);
+  if (!role) {
+    return res.status(404).json({ error: "Workspace not found" });
+  }
+
+  req.workspace = { id, role };
+  next();
+});
+
+function requireOwner(req, res, next) {
+  if (req.workspace.role !== "owner") {
+    return res
+      .status(403)
+      .json({ error: "Only the workspace owner can do this" });
+  }
+  next();
+}
+
+router.get("/", (req, res) => {
+  res.json({ workspaces: listWorkspaces(req.user.id) });
+});
+
+// Create { name }, owned by the signed-in user
+router.post("/", (req, res) => {
+  try {
+    res.status(201).json(createWorkspace(req.user.id, req.body?.name));
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// The dashboard: members, clients and their restaurants with the latest
+// audit of each
+router.get("/:workspaceId", (req, res) => {
+  res.json({ ...getWorkspace(req.workspace.id), role: req.workspace.role });
+});
+
+// Add { email }, someone who has signed up already
+router.post("/:workspaceId/members", requireOwner, (req, res) => {
+  try {
+    res.status(201).json(addMember(req.workspace.id, req.body?.email));
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Owners remove anyone; members can only leave
+router.delete("/:workspaceId/members/:userId", (req, res) => {
+  if (req.workspace.role !== "owner" && req.params.userId !== req.user.id) {
+    return res
+      .status(403)
+      .json({ error: "Only the workspace owner can do this" });
+  }
+
+  try {
+    if (!removeMember(req.workspace.id, req.params.userId)) {
+      return res.status(404).json({ error: "Member not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Clients: { name, notes? }
+
+router.post("/:workspaceId/clients", (req, res) => {
+  try {
+    res.status(201).json(createClient(req.workspace.id, req.body || {}));
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.patch("/:workspaceId/clients/:clientId", (req, res) => {
+  try {
+    const client = updateClient(
+      req.workspace.id,
+      req.params.clientId,
+      req.body || {},
+    );
+    if (!client) {
+      return res.status(404).json({ error: "Client not found" });
+    }
+    res.json(client);
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.delete("/:workspaceId/clients/:clientId", (req, res) => {
+  try {
+    if (!deleteClient(req.workspace.id, req.params.clientId)) {
+      return res.status(404).json({ error: "Client not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    res.status(409).json({ error: error.message });
+  }
+});
+
+// Saved restaurants: { clientId, name, url, place? }, where place is the
+// map listing POST /grade takes. Audit one with POST /grade and its
+// restaurantId.
+
+router.post("/:workspaceId/restaurants", (req, res) => {
+  try {
+    res.status(201).json(createRestaurant(req.workspace.id, req.body || {}));
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// A restaurant with all its audits
+router.get("/:workspaceId/restaurants/:restaurantId", (req, res) => {
+  const restaurant = getRestaurant(req.workspace.id, req.params.restaurantId);
+  if (!restaurant) {
+    return res.status(404).json({ error: "Restaurant not found" });
+  }
+
+  res.json(restaurant);
+});
+
+router.patch("/:workspaceId/restaurants/:restaurantId", (req, res) => {
+  try {
+    const restaurant = updateRestaurant(
+      req.workspace.id,
+      req.params.restaurantId,
+      req.body || {},
+    );
+    if (!restaurant) {
+      return res.status(404).json({ error: "Restaurant not found" });
+    }
+    res.json(restaurant);
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.delete("/:workspaceId/restaurants/:restaurantId", (req, res) => {
+  if (!deleteRestaurant(req.workspace.id, req.params.restaurantId)) {
+    return res.status(404).json({ error: "Restaurant not found" });
+  }
+
+  res.status(204).end();
+});
+
+// Set { note?, assigneeId? } on an issue of the restaurant's audits, by the
+// issue's id; they show on every audit that still has the issue
+router.put(
+  "/:workspaceId/restaurants/:restaurantId/issues/:issueId",
+  (req, res) => {
+    try {
+      const saved = setIssueNote(
+        req.workspace.id,
+        req.params.restaurantId,
+        req.params.issueId,
+        req.body || {},
+        req.user.id,
+      );
+      if (!saved) {
+        return res.status(404).json({ error: "Restaurant not found" });
+      }
+      res.json(saved);
+    } catch (error) {
+      res.status(400).json({ error: error.message });
+    }
+  },
+);
+
+module.exports = router;
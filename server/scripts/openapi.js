@@ -0,0 +1,10 @@
+// Writes the /api/v1 OpenAPI document to server/openapi.json, which the
+// client generates its API types from (npm run generate:api in client/).
+// Run it after changing routes/api.js or lib/api/schemas.js.
+const fs = require("fs");
+const path = require("path");
+const { openApiDocument } = require("../routes/api");
+
+const file = path.resolve(__dirname, "../openapi.json");
+fs.writeFileSync(file, `${JSON.stringify(openApiDocument, null, 2)}\n`);
+console.log(`📝 Wrote ${path.relative(process.cwd(), file)}`);
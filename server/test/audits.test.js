@@ -0,0 +1,50 @@
+const { test, after } = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "audits-test-"));
+process.env.DATABASE_PATH = path.join(dir, "grader.db");
+
+const { getAudit, saveAudit } = require("../lib/audits");
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function report(url, source) {
+  return {
+    url,
+    score: 50,
+    breakdown: {},
+    issues: [],
+    ...(source && { source }),
+  };
+}
+
+test("uploads without a restaurant don't share a history", () => {
+  const upload = { type: "html", name: "index.html", files: 1 };
+  saveAudit(report("https://preview.invalid/", upload));
+  saveAudit(report("https://rosas-kitchen.example/", upload));
+  const id = saveAudit(report("https://preview.invalid/", upload));
+
+  const audit = getAudit(id);
+  assert.deepEqual(
+    audit.history.map((entry) => entry.id),
+    [id],
+  );
+  assert.equal(audit.changes, null);
+});
+
+test("live audits of a site share its history", () => {
+  const first = saveAudit(report("https://harbour-grill.example/"));
+  const second = saveAudit(report("http://www.harbour-grill.example"));
+
+  const audit = getAudit(second);
+  assert.deepEqual(
+    audit.history.map((entry) => entry.id),
+    [first, second],
+  );
+  assert.equal(audit.changes.previousId, first);
+});
@@ -0,0 +1,35 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { parseCsv, toCsv } = require("../lib/csv");
+
+const COLUMNS = [
+  { key: "name", header: "Name" },
+  { key: "score", header: "Score" },
+];
+
+test("text that a spreadsheet would run as a formula is escaped", () => {
+  const csv = toCsv(
+    [
+      { name: '=HYPERLINK("https://evil.example")', score: 40 },
+      { name: "+1 555 0100", score: -1 },
+      { name: "-Rosa", score: null },
+      { name: "@home", score: 0 },
+    ],
+    COLUMNS,
+  );
+
+  assert.deepEqual(parseCsv(csv), [
+    ["Name", "Score"],
+    ['\'=HYPERLINK("https://evil.example")', "40"],
+    ["'+1 555 0100", "-1"],
+    ["'-Rosa", ""],
+    ["'@home", "0"],
+  ]);
+});
+
+test("cells with delimiters, quotes and line breaks are quoted", () => {
+  assert.equal(
+    toCsv([{ name: 'Rosa\'s "Kitchen"; Bar\nGrill', score: 80 }], COLUMNS),
+    'Name,Score\r\n"Rosa\'s ""Kitchen""; Bar\nGrill",80',
+  );
+});
@@ -0,0 +1,106 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const path = require("path");
+const AdmZip = require("adm-zip");
+const { gradeUpload } = require("../lib/pipeline");
+const { loadProfile } = require("../lib/profiles");
+const { readUpload } = require("../lib/upload");
+
+// The fixture sites in ../fixtures/sites graded with the default profile.
+// A rule change that moves a score or an issue shows up here; update the
+// expectations when the change is intended.
+const SITES = path.join(__dirname, "../fixtures/sites");
+
+// A directory zipped like a static-site build
+function zipSite(name) {
+  const zip = new AdmZip();
+  zip.addLocalFolder(path.join(SITES, name));
+  return zip.toBuffer();
+}
+
+function grade(data, options) {
+  return gradeUpload(readUpload(data, options), { profile: loadProfile() });
+}
+
+const issuesOf = (report) =>
+  report.issues.map((issue) => `${issue.type} ${issue.rule}`);
+
+test("a complete restaurant site in a zip scores full marks", async () => {
+  const report = await grade(zipSite("harbour-grill"), {
+    name: "harbour-grill.zip",
+    url: "https://harbour-grill.example",
+  });
+
+  assert.equal(report.url, "https://harbour-grill.example/");
+  assert.equal(report.pages.length, 2);
+  assert.equal(report.score, 100);
+  assert.deepEqual(issuesOf(report), []);
+});
+
+test("a bare HTML page misses most checks", async () => {
+  const report = await grade(fs.readFileSync(path.join(SITES, "bare.html")), {
+    name: "bare.html",
+  });
+
+  assert.equal(report.score, 30);
+  assert.deepEqual(
+    Object.fromEntries(
+      Object.entries(report.breakdown).map(([key, { percentage }]) => [
+        key,
+        percentage,
+      ]),
+    ),
+    {
+      seo: 33,
+      content: 17,
+      usability: 0,
+      technical: 13,
+      accessibility: 75,
+      security: 100,
+    },
+  );
+  assert.deepEqual(issuesOf(report), [
+    "error seo.meta-description",
+    "error content.hours",
+    "error usability.online-ordering",
+    "error technical.viewport",
+    "error accessibility.lang",
+    "warning seo.title-length",
+    "warning seo.open-graph",
+    "warning content.menu",
+    "warning content.address",
+    "warning content.phone",
+    "warning usability.social-links",
+    "warning technical.structured-data",
+    "warning accessibility.landmarks",
+    "info seo.canonical",
+    "info content.images",
+    "info usability.reservations",
+    "info usability.maps",
+    "info technical.favicon",
+  ]);
+});
+
+test("checks that need the live site aren't applicable to uploads", async () => {
+  const report = await grade(fs.readFileSync(path.join(SITES, "bare.html")), {
+    name: "bare.html",
+  });
+  const notApplicable = report.notApplicable.map((check) => check.rule);
+
+  assert.ok(notApplicable.includes("technical.https"));
+  assert.ok(notApplicable.includes("security.headers"));
+});
+
+test("every point a site misses belongs to one of its issues", async () => {
+  const report = await grade(fs.readFileSync(path.join(SITES, "bare.html")), {
+    name: "bare.html",
+  });
+  const missed = report.checks.reduce(
+    (sum, check) => sum + check.weight - check.score,
+    0,
+  );
+  const lost = report.issues.reduce((sum, issue) => sum + issue.pointsLost, 0);
+
+  assert.equal(Math.round(lost), missed);
+});
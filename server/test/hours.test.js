@@ -0,0 +1,59 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  compareSchedules,
+  parseOsmHours,
+  parseTextHours,
+} = require("../lib/hours");
+const { getLocale } = require("../lib/locale");
+
+const english = getLocale("en").hours;
+
+const EVENINGS = ["17:00-22:00"];
+
+test("a closed day after the hours isn't given those hours", () => {
+  assert.deepEqual(
+    parseTextHours(["Tuesday - Sunday: 5pm - 10pm. Closed Mondays"], english),
+    {
+      mo: [],
+      tu: EVENINGS,
+      we: EVENINGS,
+      th: EVENINGS,
+      fr: EVENINGS,
+      sa: EVENINGS,
+      su: EVENINGS,
+    },
+  );
+});
+
+test("each group of days on a line takes its own hours", () => {
+  const weekdays = ["11:00-22:00"];
+  assert.deepEqual(
+    parseTextHours(["Mon-Fri 11am-10pm, Sat 12pm-11pm, Sun closed"], english),
+    {
+      mo: weekdays,
+      tu: weekdays,
+      we: weekdays,
+      th: weekdays,
+      fr: weekdays,
+      sa: ["12:00-23:00"],
+      su: [],
+    },
+  );
+});
+
+test("days on one line and times on the next are read together", () => {
+  assert.deepEqual(
+    parseTextHours(["Saturday & Sunday", "10am - 4pm"], english),
+    { sa: ["10:00-16:00"], su: ["10:00-16:00"] },
+  );
+});
+
+test("the website agrees with a listing closed on Mondays", () => {
+  const website = parseTextHours(
+    ["Tuesday - Sunday: 5pm - 10pm. Closed Mondays"],
+    english,
+  );
+  const listing = parseOsmHours("Tu-Su 17:00-22:00; Mo off");
+  assert.deepEqual(compareSchedules(website, listing), []);
+});
@@ -0,0 +1,120 @@
+const { test, before, after } = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { getUsage } = require("../lib/llm");
+const { generateAIInsights } = require("../lib/insights");
+
+const fixture = require("../fixtures/llm-responses.json")[0];
+
+const WEBSITE = {
+  title: "Harbour Grill",
+  url: "https://harbour-grill.example",
+  score: 54,
+  loadTime: 820,
+};
+
+const ISSUES = [
+  {
+    type: "error",
+    text: "No online ordering option found",
+    category: "usability",
+  },
+  {
+    type: "warning",
+    text: "No menu found on the website",
+    category: "content",
+  },
+];
+
+let dir;
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "insights-test-"));
+  process.env.LLM_PROVIDERS = "mock";
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Points the mock provider at the given responses, answered in turn
+function respondWith(name, responses) {
+  const file = path.join(dir, `${name}.json`);
+  fs.writeFileSync(file, JSON.stringify(responses));
+  process.env.LLM_MOCK_RESPONSES_PATH = file;
+}
+
+function mockUsage() {
+  const usage = getUsage().find((entry) => entry.provider === "mock");
+  return usage ? { ...usage } : { requests: 0, failures: 0 };
+}
+
+// Requests and failed answers of the mock provider during `run`
+async function counting(run) {
+  const start = mockUsage();
+  const result = await run();
+  const end = mockUsage();
+  return {
+    result,
+    requests: end.requests - start.requests,
+    failures: end.failures - start.failures,
+  };
+}
+
+test("a valid answer is returned as it is", async () => {
+  respondWith("valid", [fixture]);
+  const { result, requests } = await counting(() =>
+    generateAIInsights(WEBSITE, ISSUES),
+  );
+  assert.deepEqual(result, fixture);
+  assert.equal(requests, 1);
+});
+
+test("JSON wrapped in a code block is read", async () => {
+  respondWith("wrapped", [
+    `Here you go:\n\`\`\`json\n${JSON.stringify(fixture)}\n\`\`\``,
+  ]);
+  assert.deepEqual(await generateAIInsights(WEBSITE, ISSUES), fixture);
+});
+
+test("an answer missing fields is sent back for repair", async () => {
+  respondWith("repaired", [{ summary: fixture.summary }, fixture]);
+  const { result, requests, failures } = await counting(() =>
+    generateAIInsights(WEBSITE, ISSUES),
+  );
+  assert.deepEqual(result, fixture);
+  assert.equal(requests, 2);
+  assert.equal(failures, 1);
+});
+
+test("an answer that isn't JSON is sent back for repair", async () => {
+  respondWith("not-json", ["I'd be happy to help with that!", fixture]);
+  const { result, requests } = await counting(() =>
+    generateAIInsights(WEBSITE, ISSUES),
+  );
+  assert.deepEqual(result, fixture);
+  assert.equal(requests, 2);
+});
+
+test("no insights when the repair doesn't match the schema either", async () => {
+  respondWith("invalid", [
+    { ...fixture, quickWins: [] },
+    { ...fixture, estimatedImpact: 25 },
+  ]);
+  const { result, requests, failures } = await counting(() =>
+    generateAIInsights(WEBSITE, ISSUES),
+  );
+  assert.equal(result, null);
+  assert.equal(requests, 2);
+  assert.equal(failures, 2);
+});
+
+test("fields the schema doesn't allow are rejected", async () => {
+  respondWith("extra", [
+    { ...fixture, rating: 5 },
+    { ...fixture, rating: 5 },
+  ]);
+  assert.equal(await generateAIInsights(WEBSITE, ISSUES), null);
+});
@@ -0,0 +1,52 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const cheerio = require("cheerio");
+const { getLocale } = require("../lib/locale");
+const { analyzeMenu } = require("../lib/menu");
+
+// Elements on their own lines, as in most pages' source
+function page(url, title, lines) {
+  return { url, title, $: cheerio.load(`<body>${lines.join("\n")}</body>`) };
+}
+
+test("a German menu page and its labels are found in German words", () => {
+  const menu = analyzeMenu(
+    [
+      page("https://gasthaus.example/speisekarte", "Speisekarte", [
+        "<p>Käsespätzle, vegetarisch</p>",
+        "<p>Alle Gerichte glutenfrei</p>",
+      ]),
+    ],
+    getLocale("de"),
+  );
+
+  assert.deepEqual(menu.pages, ["https://gasthaus.example/speisekarte"]);
+  assert.deepEqual(menu.labels, ["vegetarian", "gluten-free"]);
+});
+
+test("English labels count on sites in other languages", () => {
+  const menu = analyzeMenu(
+    [
+      page("https://eetcafe.example/menukaart", "Menukaart", [
+        "<p>Falafel (vg)</p>",
+        "<p>Vraag naar allergenen</p>",
+      ]),
+    ],
+    getLocale("nl"),
+  );
+
+  assert.deepEqual(menu.labels, ["vegan", "allergens"]);
+});
+
+test("another language's menu words don't make a menu page", () => {
+  const pages = [
+    page("https://diner.example/speisekarte", "Über uns", [
+      "<p>Willkommen</p>",
+    ]),
+  ];
+
+  assert.deepEqual(analyzeMenu(pages, getLocale("en")).pages, []);
+  assert.deepEqual(analyzeMenu(pages, getLocale("de")).pages, [
+    "https://diner.example/speisekarte",
+  ]);
+});